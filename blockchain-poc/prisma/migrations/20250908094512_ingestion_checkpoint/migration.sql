@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."IngestionCheckpoint" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IngestionCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IngestionCheckpoint_name_key" ON "public"."IngestionCheckpoint"("name");
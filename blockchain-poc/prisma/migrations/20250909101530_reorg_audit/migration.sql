@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."Reorg" (
+    "id" SERIAL NOT NULL,
+    "detectedAtBlock" BIGINT NOT NULL,
+    "commonAncestor" BIGINT NOT NULL,
+    "depth" INTEGER NOT NULL,
+    "orphanedHashes" TEXT[],
+    "canonicalHashes" TEXT[],
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reorg_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "public"."BackfillJob" (
+    "id" SERIAL NOT NULL,
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "concurrency" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "resumedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackfillJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BackfillChunk" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BackfillChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BackfillJob_fromBlock_toBlock_idx" ON "public"."BackfillJob"("fromBlock", "toBlock");
+
+-- CreateIndex
+CREATE INDEX "BackfillChunk_jobId_status_idx" ON "public"."BackfillChunk"("jobId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BackfillChunk_jobId_fromBlock_key" ON "public"."BackfillChunk"("jobId", "fromBlock");
+
+-- AddForeignKey
+ALTER TABLE "public"."BackfillChunk" ADD CONSTRAINT "BackfillChunk_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."BackfillJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "contractAddress" TEXT,
+ADD COLUMN     "cumulativeGasUsed" BIGINT,
+ADD COLUMN     "effectiveGasPrice" TEXT,
+ADD COLUMN     "logsBloom" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Log" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "topics" TEXT[],
+    "data" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Log_blockNumber_idx" ON "public"."Log"("blockNumber");
+
+-- CreateIndex
+CREATE INDEX "Log_address_idx" ON "public"."Log"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Log_txHash_logIndex_key" ON "public"."Log"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."Log" ADD CONSTRAINT "Log_txHash_fkey" FOREIGN KEY ("txHash") REFERENCES "public"."Transaction"("hash") ON DELETE RESTRICT ON UPDATE CASCADE;
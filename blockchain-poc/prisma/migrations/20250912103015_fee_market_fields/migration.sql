@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."Block" ADD COLUMN     "baseFeePerGas" TEXT,
+ADD COLUMN     "blobGasUsed" BIGINT,
+ADD COLUMN     "excessBlobGas" BIGINT,
+ADD COLUMN     "miner" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "accessList" JSONB,
+ADD COLUMN     "blobGasPrice" TEXT,
+ADD COLUMN     "blobGasUsed" BIGINT,
+ADD COLUMN     "blobVersionedHashes" TEXT[],
+ADD COLUMN     "input" TEXT,
+ADD COLUMN     "maxFeePerBlobGas" TEXT,
+ADD COLUMN     "maxFeePerGas" TEXT,
+ADD COLUMN     "maxPriorityFeePerGas" TEXT,
+ADD COLUMN     "nonce" INTEGER,
+ADD COLUMN     "type" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Withdrawal" (
+    "id" SERIAL NOT NULL,
+    "index" BIGINT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "validatorIndex" BIGINT NOT NULL,
+    "address" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Withdrawal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Withdrawal_index_key" ON "public"."Withdrawal"("index");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_blockNumber_idx" ON "public"."Withdrawal"("blockNumber");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_address_idx" ON "public"."Withdrawal"("address");
+
+-- AddForeignKey
+ALTER TABLE "public"."Withdrawal" ADD CONSTRAINT "Withdrawal_blockNumber_fkey" FOREIGN KEY ("blockNumber") REFERENCES "public"."Block"("number") ON DELETE RESTRICT ON UPDATE CASCADE;
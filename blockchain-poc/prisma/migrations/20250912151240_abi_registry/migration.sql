@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."ContractAbi" (
+    "id" SERIAL NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT,
+    "abi" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractAbi_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractAbi_chainId_address_idx" ON "public"."ContractAbi"("chainId", "address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractAbi_chainId_address_version_key" ON "public"."ContractAbi"("chainId", "address", "version");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "confidence" TEXT;
+
+-- Events decoded so far all came from a contract ABI
+UPDATE "public"."Event" SET "confidence" = 'abi' WHERE "eventName" <> 'Unknown';
@@ -0,0 +1,108 @@
+-- CreateTable
+CREATE TABLE "public"."NftCollection" (
+    "id" SERIAL NOT NULL,
+    "address" TEXT NOT NULL,
+    "standard" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NftCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."NftToken" (
+    "id" SERIAL NOT NULL,
+    "collectionId" INTEGER NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NftToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."NftBalance" (
+    "id" SERIAL NOT NULL,
+    "nftTokenId" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "balance" DECIMAL(78,0) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NftBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."NftTransfer" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "batchIndex" INTEGER NOT NULL DEFAULT 0,
+    "blockNumber" BIGINT NOT NULL,
+    "collectionId" INTEGER NOT NULL,
+    "nftTokenId" INTEGER NOT NULL,
+    "operator" TEXT,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NftTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."NftApproval" (
+    "id" SERIAL NOT NULL,
+    "collectionId" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "operator" TEXT NOT NULL,
+    "approved" BOOLEAN NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NftApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NftCollection_address_key" ON "public"."NftCollection"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NftToken_collectionId_tokenId_key" ON "public"."NftToken"("collectionId", "tokenId");
+
+-- CreateIndex
+CREATE INDEX "NftBalance_owner_idx" ON "public"."NftBalance"("owner");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NftBalance_nftTokenId_owner_key" ON "public"."NftBalance"("nftTokenId", "owner");
+
+-- CreateIndex
+CREATE INDEX "NftTransfer_from_idx" ON "public"."NftTransfer"("from");
+
+-- CreateIndex
+CREATE INDEX "NftTransfer_to_idx" ON "public"."NftTransfer"("to");
+
+-- CreateIndex
+CREATE INDEX "NftTransfer_blockNumber_idx" ON "public"."NftTransfer"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NftTransfer_txHash_logIndex_batchIndex_key" ON "public"."NftTransfer"("txHash", "logIndex", "batchIndex");
+
+-- CreateIndex
+CREATE INDEX "NftApproval_owner_idx" ON "public"."NftApproval"("owner");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NftApproval_collectionId_owner_operator_key" ON "public"."NftApproval"("collectionId", "owner", "operator");
+
+-- AddForeignKey
+ALTER TABLE "public"."NftToken" ADD CONSTRAINT "NftToken_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "public"."NftCollection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NftBalance" ADD CONSTRAINT "NftBalance_nftTokenId_fkey" FOREIGN KEY ("nftTokenId") REFERENCES "public"."NftToken"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NftTransfer" ADD CONSTRAINT "NftTransfer_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "public"."NftCollection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NftTransfer" ADD CONSTRAINT "NftTransfer_nftTokenId_fkey" FOREIGN KEY ("nftTokenId") REFERENCES "public"."NftToken"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NftApproval" ADD CONSTRAINT "NftApproval_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "public"."NftCollection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
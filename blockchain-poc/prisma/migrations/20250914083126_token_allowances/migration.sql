@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "public"."TokenAllowance" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "spender" TEXT NOT NULL,
+    "allowance" DECIMAL(78,0) NOT NULL,
+    "unlimited" BOOLEAN NOT NULL DEFAULT false,
+    "blockNumber" BIGINT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenAllowance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AllowanceChange" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "owner" TEXT NOT NULL,
+    "spender" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "allowance" DECIMAL(78,0) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AllowanceChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenAllowance_owner_idx" ON "public"."TokenAllowance"("owner");
+
+-- CreateIndex
+CREATE INDEX "TokenAllowance_spender_idx" ON "public"."TokenAllowance"("spender");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenAllowance_tokenId_owner_spender_key" ON "public"."TokenAllowance"("tokenId", "owner", "spender");
+
+-- CreateIndex
+CREATE INDEX "AllowanceChange_tokenId_owner_spender_idx" ON "public"."AllowanceChange"("tokenId", "owner", "spender");
+
+-- CreateIndex
+CREATE INDEX "AllowanceChange_blockNumber_idx" ON "public"."AllowanceChange"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AllowanceChange_txHash_logIndex_key" ON "public"."AllowanceChange"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."TokenAllowance" ADD CONSTRAINT "TokenAllowance_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AllowanceChange" ADD CONSTRAINT "AllowanceChange_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Token" ADD COLUMN     "metadataAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "metadataError" TEXT,
+ADD COLUMN     "metadataFetchedAt" TIMESTAMP(3),
+ADD COLUMN     "metadataStatus" TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN     "totalSupplyUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Token_metadataStatus_idx" ON "public"."Token"("metadataStatus");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "gasPriceRaw" DECIMAL(78,0),
+ADD COLUMN     "valueNormalized" DECIMAL(96,18),
+ADD COLUMN     "valueRaw" DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "public"."Transfer" ADD COLUMN     "amountNormalized" DECIMAL(96,18),
+ADD COLUMN     "amountRaw" DECIMAL(78,0);
+
+-- Backfill the numeric columns from the existing decimal strings
+UPDATE "public"."Transaction" SET "valueRaw" = "value"::numeric,
+"valueNormalized" = "value"::numeric / power(10::numeric, 18),
+"gasPriceRaw" = "gasPrice"::numeric;
+
+UPDATE "public"."Transfer" SET "amountRaw" = "amount"::numeric;
+
+-- Only tokens with verified metadata have trustworthy decimals
+UPDATE "public"."Transfer" t SET "amountNormalized" = t."amountRaw" / power(10::numeric, tk."decimals")
+FROM "public"."Token" tk
+WHERE tk."id" = t."tokenId" AND tk."decimals" IS NOT NULL AND tk."metadataStatus" IN ('ok', 'partial');
+
+-- AlterTable
+ALTER TABLE "public"."Transaction" ALTER COLUMN "gasPriceRaw" SET NOT NULL,
+ALTER COLUMN "valueNormalized" SET NOT NULL,
+ALTER COLUMN "valueRaw" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Transfer" ALTER COLUMN "amountRaw" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Transaction_valueRaw_idx" ON "public"."Transaction"("valueRaw");
+
+-- CreateIndex
+CREATE INDEX "Transfer_tokenId_amountRaw_idx" ON "public"."Transfer"("tokenId", "amountRaw");
@@ -0,0 +1,90 @@
+-- CreateTable
+CREATE TABLE "public"."TokenBalance" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "balance" DECIMAL(78,0) NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BalanceEntry" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "delta" DECIMAL(78,0) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BalanceEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BalanceCheckpoint" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "balance" DECIMAL(78,0) NOT NULL,
+
+    CONSTRAINT "BalanceCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BalanceReconciliation" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "ledgerBalance" DECIMAL(78,0) NOT NULL,
+    "chainBalance" DECIMAL(78,0),
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BalanceReconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenBalance_address_idx" ON "public"."TokenBalance"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenBalance_tokenId_address_key" ON "public"."TokenBalance"("tokenId", "address");
+
+-- CreateIndex
+CREATE INDEX "BalanceEntry_tokenId_address_idx" ON "public"."BalanceEntry"("tokenId", "address");
+
+-- CreateIndex
+CREATE INDEX "BalanceEntry_blockNumber_idx" ON "public"."BalanceEntry"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BalanceEntry_txHash_logIndex_address_key" ON "public"."BalanceEntry"("txHash", "logIndex", "address");
+
+-- CreateIndex
+CREATE INDEX "BalanceCheckpoint_address_blockNumber_idx" ON "public"."BalanceCheckpoint"("address", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BalanceCheckpoint_tokenId_address_blockNumber_key" ON "public"."BalanceCheckpoint"("tokenId", "address", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "BalanceReconciliation_tokenId_address_idx" ON "public"."BalanceReconciliation"("tokenId", "address");
+
+-- CreateIndex
+CREATE INDEX "BalanceReconciliation_status_idx" ON "public"."BalanceReconciliation"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."TokenBalance" ADD CONSTRAINT "TokenBalance_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BalanceEntry" ADD CONSTRAINT "BalanceEntry_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BalanceCheckpoint" ADD CONSTRAINT "BalanceCheckpoint_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BalanceReconciliation" ADD CONSTRAINT "BalanceReconciliation_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."InternalTransfer" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "traceAddress" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "value" DECIMAL(78,0) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InternalTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InternalTransfer_from_idx" ON "public"."InternalTransfer"("from");
+
+-- CreateIndex
+CREATE INDEX "InternalTransfer_to_idx" ON "public"."InternalTransfer"("to");
+
+-- CreateIndex
+CREATE INDEX "InternalTransfer_blockNumber_idx" ON "public"."InternalTransfer"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InternalTransfer_txHash_traceAddress_key" ON "public"."InternalTransfer"("txHash", "traceAddress");
+
+-- AddForeignKey
+ALTER TABLE "public"."InternalTransfer" ADD CONSTRAINT "InternalTransfer_blockNumber_fkey" FOREIGN KEY ("blockNumber") REFERENCES "public"."Block"("number") ON DELETE RESTRICT ON UPDATE CASCADE;
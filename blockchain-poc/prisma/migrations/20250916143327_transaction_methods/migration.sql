@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "methodArgs" JSONB,
+ADD COLUMN     "methodConfidence" TEXT,
+ADD COLUMN     "methodName" TEXT,
+ADD COLUMN     "methodSignature" TEXT,
+ADD COLUMN     "selector" TEXT;
+
+-- Backfill selectors of stored contract calls; methods are decoded when the blocks are processed again
+UPDATE "public"."Transaction" SET "selector" = lower(substring("input" from 1 for 10))
+WHERE "to" IS NOT NULL AND length("input") >= 10;
+
+-- CreateIndex
+CREATE INDEX "Transaction_selector_idx" ON "public"."Transaction"("selector");
+
+-- CreateIndex
+CREATE INDEX "Transaction_methodName_idx" ON "public"."Transaction"("methodName");
@@ -0,0 +1,101 @@
+-- CreateTable
+CREATE TABLE "public"."Pool" (
+    "id" SERIAL NOT NULL,
+    "address" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "factory" TEXT,
+    "token0" TEXT,
+    "token1" TEXT,
+    "fee" INTEGER,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Pool_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Swap" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "sender" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "trader" TEXT NOT NULL,
+    "tokenInId" INTEGER NOT NULL,
+    "tokenOutId" INTEGER NOT NULL,
+    "amountIn" DECIMAL(78,0) NOT NULL,
+    "amountOut" DECIMAL(78,0) NOT NULL,
+    "price" DECIMAL(96,18),
+    "sqrtPriceX96" DECIMAL(78,0),
+    "liquidity" DECIMAL(78,0),
+    "tick" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Swap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PoolEvent" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "sender" TEXT,
+    "owner" TEXT,
+    "recipient" TEXT,
+    "amount0" DECIMAL(78,0) NOT NULL,
+    "amount1" DECIMAL(78,0) NOT NULL,
+    "liquidity" DECIMAL(78,0),
+    "tickLower" INTEGER,
+    "tickUpper" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Pool_address_key" ON "public"."Pool"("address");
+
+-- CreateIndex
+CREATE INDEX "Pool_token0_idx" ON "public"."Pool"("token0");
+
+-- CreateIndex
+CREATE INDEX "Pool_token1_idx" ON "public"."Pool"("token1");
+
+-- CreateIndex
+CREATE INDEX "Swap_poolId_blockNumber_idx" ON "public"."Swap"("poolId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "Swap_trader_idx" ON "public"."Swap"("trader");
+
+-- CreateIndex
+CREATE INDEX "Swap_blockNumber_idx" ON "public"."Swap"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swap_txHash_logIndex_key" ON "public"."Swap"("txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "PoolEvent_poolId_blockNumber_idx" ON "public"."PoolEvent"("poolId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "PoolEvent_owner_idx" ON "public"."PoolEvent"("owner");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolEvent_txHash_logIndex_key" ON "public"."PoolEvent"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenInId_fkey" FOREIGN KEY ("tokenInId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenOutId_fkey" FOREIGN KEY ("tokenOutId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PoolEvent" ADD CONSTRAINT "PoolEvent_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
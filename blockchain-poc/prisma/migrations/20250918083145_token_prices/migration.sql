@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."TokenPrice" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "priceUsd" DECIMAL(96,18) NOT NULL,
+    "liquidityUsd" DECIMAL(96,18) NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "sources" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenPrice_blockNumber_idx" ON "public"."TokenPrice"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenPrice_tokenId_blockNumber_key" ON "public"."TokenPrice"("tokenId", "blockNumber");
+
+-- AddForeignKey
+ALTER TABLE "public"."TokenPrice" ADD CONSTRAINT "TokenPrice_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "public"."PoolSupply" (
+    "id" SERIAL NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "totalSupply" DECIMAL(78,0) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolSupply_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LiquidityPosition" (
+    "id" SERIAL NOT NULL,
+    "manager" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "poolId" INTEGER,
+    "tickLower" INTEGER,
+    "tickUpper" INTEGER,
+    "liquidity" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "deposited0" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "deposited1" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "withdrawn0" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "withdrawn1" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "collected0" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "collected1" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LiquidityPosition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PositionEvent" (
+    "id" SERIAL NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "positionId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "liquidity" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "amount0" DECIMAL(78,0) NOT NULL,
+    "amount1" DECIMAL(78,0) NOT NULL,
+    "recipient" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PositionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PoolSupply_blockNumber_idx" ON "public"."PoolSupply"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolSupply_poolId_blockNumber_key" ON "public"."PoolSupply"("poolId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "LiquidityPosition_poolId_idx" ON "public"."LiquidityPosition"("poolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiquidityPosition_manager_tokenId_key" ON "public"."LiquidityPosition"("manager", "tokenId");
+
+-- CreateIndex
+CREATE INDEX "PositionEvent_positionId_blockNumber_idx" ON "public"."PositionEvent"("positionId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PositionEvent_txHash_logIndex_key" ON "public"."PositionEvent"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."PoolSupply" ADD CONSTRAINT "PoolSupply_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LiquidityPosition" ADD CONSTRAINT "LiquidityPosition_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PositionEvent" ADD CONSTRAINT "PositionEvent_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "public"."LiquidityPosition"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."ProxyContract" (
+    "id" SERIAL NOT NULL,
+    "address" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "beacon" TEXT,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProxyContract_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProxyImplementation" (
+    "id" SERIAL NOT NULL,
+    "proxyId" INTEGER NOT NULL,
+    "implementation" TEXT NOT NULL,
+    "fromBlock" BIGINT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "txHash" TEXT,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProxyImplementation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProxyContract_address_key" ON "public"."ProxyContract"("address");
+
+-- CreateIndex
+CREATE INDEX "ProxyContract_beacon_idx" ON "public"."ProxyContract"("beacon");
+
+-- CreateIndex
+CREATE INDEX "ProxyImplementation_txHash_idx" ON "public"."ProxyImplementation"("txHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProxyImplementation_proxyId_fromBlock_logIndex_key" ON "public"."ProxyImplementation"("proxyId", "fromBlock", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProxyImplementation" ADD CONSTRAINT "ProxyImplementation_proxyId_fkey" FOREIGN KEY ("proxyId") REFERENCES "public"."ProxyContract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."Contract" (
+    "id" SERIAL NOT NULL,
+    "address" TEXT NOT NULL,
+    "deployer" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "traceAddress" TEXT,
+    "blockNumber" BIGINT NOT NULL,
+    "codeHash" TEXT,
+    "codeSize" INTEGER,
+    "interfaces" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Contract_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contract_address_key" ON "public"."Contract"("address");
+
+-- CreateIndex
+CREATE INDEX "Contract_deployer_idx" ON "public"."Contract"("deployer");
+
+-- CreateIndex
+CREATE INDEX "Contract_blockNumber_idx" ON "public"."Contract"("blockNumber");
+
+-- CreateIndex
+CREATE INDEX "Contract_codeHash_idx" ON "public"."Contract"("codeHash");
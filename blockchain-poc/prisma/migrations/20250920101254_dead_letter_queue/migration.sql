@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."FailedItem" (
+    "id" SERIAL NOT NULL,
+    "stage" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "blockNumber" BIGINT,
+    "txHash" TEXT,
+    "error" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "nextRetryAt" TIMESTAMP(3),
+    "lastAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FailedItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FailedItem_status_nextRetryAt_idx" ON "public"."FailedItem"("status", "nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "FailedItem_blockNumber_idx" ON "public"."FailedItem"("blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FailedItem_stage_key_key" ON "public"."FailedItem"("stage", "key");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Contract" ADD COLUMN     "classified" BOOLEAN NOT NULL DEFAULT false;
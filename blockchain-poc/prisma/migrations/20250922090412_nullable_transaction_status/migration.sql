@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ALTER COLUMN "status" DROP NOT NULL;
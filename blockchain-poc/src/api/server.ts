@@ -1,6 +1,23 @@
 import express from 'express';
 import cors from 'cors';
-import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient, Transaction } from '@prisma/client';
+import { IngestionService } from '../ingestion/ingestion-service';
+import { BackfillService } from '../ingestion/backfill-service';
+import { BlockchainFetcher } from '../ingestion/blockchain-fetcher';
+import { NftTracker } from '../processing/nft-tracker';
+import { AllowanceTracker } from '../processing/allowance-tracker';
+import { BalanceLedger } from '../processing/balance-ledger';
+import { EthHistory } from '../processing/eth-history';
+import { DexTracker } from '../processing/dex-tracker';
+import { PriceOracle, usdValue } from '../processing/price-oracle';
+import { PositionTracker } from '../processing/position-tracker';
+import { ProxyResolver } from '../processing/proxy-resolver';
+import { ContractInterface, ContractRegistry } from '../processing/contract-registry';
+import { EventProcessor } from '../processing/event-processor';
+import { DeadLetterQueue, FailureStage, FailureStatus } from '../processing/dead-letter-queue';
+import { Reprocessor } from '../processing/reprocessor';
+import { ETH_DECIMALS, GWEI_DECIMALS, isAmountString, knownDecimals, normalizeAmount, toAmount } from '../utils/amount';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -8,18 +25,77 @@ dotenv.config({ path: './config.env' });
 
 const app = express();
 const db = new PrismaClient();
+const rpcUrl = process.env.ETH_RPC_URL || '';
+const ingestionService = new IngestionService(rpcUrl, db);
+const backfillService = new BackfillService(rpcUrl, db);
+const fetcher = new BlockchainFetcher(rpcUrl, db);
+const nftTracker = new NftTracker(db);
+const allowanceTracker = new AllowanceTracker(db);
+const balanceLedger = new BalanceLedger(db);
+const ethHistory = new EthHistory(db);
+const dexTracker = new DexTracker(db);
+const priceOracle = new PriceOracle(db);
+const positionTracker = new PositionTracker(db);
+// Detection needs RPC reads, so the API only serves what ingestion already found
+const proxyResolver = new ProxyResolver(db, undefined, { detect: false });
+const contractRegistry = new ContractRegistry(db);
+const deadLetters = new DeadLetterQueue(db);
+// Created on the first reprocess request, so the API only connects a provider when it reprocesses
+let reprocessor: Reprocessor | undefined;
+
+function getReprocessor(): Reprocessor {
+  if (!reprocessor) {
+    const processor = new EventProcessor(new ethers.JsonRpcProvider(rpcUrl), db, fetcher.getBatcher());
+    reprocessor = new Reprocessor(db, processor, ingestionService);
+  }
+  return reprocessor;
+}
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
+// Convert BigInt values to strings for JSON serialization
+function serializeBigInts<T>(value: T): any {
+  return JSON.parse(JSON.stringify(value, (key, item) => typeof item === 'bigint' ? item.toString() : item));
+}
+
+// Amounts with their units, and the decoded method grouped with its selector
+function toTransactionResponse(transaction: Transaction) {
+  const {
+    valueRaw, valueNormalized, gasPriceRaw,
+    selector, methodName, methodSignature, methodArgs, methodConfidence,
+    ...rest
+  } = transaction;
+  return {
+    ...rest,
+    value: toAmount(valueRaw, ETH_DECIMALS),
+    // Raw in wei like every other ETH amount; gwei is the usual unit to show gas prices in
+    gasPrice: toAmount(gasPriceRaw, ETH_DECIMALS),
+    gasPriceGwei: normalizeAmount(gasPriceRaw, GWEI_DECIMALS),
+    method: selector === null ? null : {
+      selector,
+      name: methodName,
+      signature: methodSignature,
+      args: methodArgs,
+      confidence: methodConfidence
+    }
+  };
+}
+
 // Health check endpoint
 app.get('/health', async (req, res) => {
   try {
     await db.$queryRaw`SELECT 1`;
+    const rpc = await fetcher.testConnection();
     res.json({ 
-      status: 'healthy', 
+      status: rpc.success ? 'healthy' : 'degraded', 
       database: 'connected',
+      rpc: {
+        status: rpc.success ? 'connected' : 'unavailable',
+        headBlock: rpc.blockNumber,
+        endpoints: rpc.endpoints
+      },
       timestamp: new Date().toISOString(),
       version: '1.0.0'
     });
@@ -41,13 +117,7 @@ app.get('/api/blocks', async (req, res) => {
       orderBy: { number: 'desc' }
     });
     
-    // Convert BigInt values to strings for JSON serialization
-    const serializedBlocks = blocks.map(block => ({
-      ...block,
-      number: block.number.toString(),
-      gasUsed: block.gasUsed.toString(),
-      gasLimit: block.gasLimit.toString()
-    }));
+    const serializedBlocks = serializeBigInts(blocks);
     
     res.json({
       success: true,
@@ -63,6 +133,170 @@ app.get('/api/blocks', async (req, res) => {
   }
 });
 
+app.get('/api/blocks/:number', async (req, res) => {
+  try {
+    if (!/^\d+$/.test(req.params.number)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid block number'
+      });
+      return;
+    }
+
+    const block = await db.block.findUnique({
+      where: { number: BigInt(req.params.number) },
+      include: {
+        withdrawals: { orderBy: { index: 'asc' } },
+        _count: { select: { transactions: true } }
+      }
+    });
+    if (!block) {
+      res.status(404).json({
+        success: false,
+        error: 'Block not found'
+      });
+      return;
+    }
+
+    const { _count, ...blockData } = block;
+    res.json({
+      success: true,
+      data: serializeBigInts({ ...blockData, transactionCount: _count.transactions })
+    });
+  } catch (error) {
+    console.error('Error fetching block:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch block'
+    });
+  }
+});
+
+// Transactions filtered by decoded method name or selector, sender or target
+app.get('/api/transactions', async (req, res) => {
+  try {
+    const { method, selector, address } = req.query as Record<string, string | undefined>;
+    if (address !== undefined && !ethers.isAddress(address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    if (selector !== undefined && !/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid selector'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const where: Prisma.TransactionWhereInput = {};
+    if (method) {
+      // A bare name matches every overload, a signature only that one
+      where[method.includes('(') ? 'methodSignature' : 'methodName'] = method;
+    }
+    if (selector) {
+      where.selector = selector.toLowerCase();
+    }
+    if (address) {
+      where.OR = [
+        { from: { equals: address, mode: 'insensitive' } },
+        { to: { equals: address, mode: 'insensitive' } }
+      ];
+    }
+
+    const transactions = await db.transaction.findMany({
+      where,
+      orderBy: [{ blockNumber: 'desc' }, { id: 'desc' }],
+      take: limit
+    });
+
+    res.json({
+      success: true,
+      data: serializeBigInts(transactions.map(toTransactionResponse)),
+      count: transactions.length
+    });
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transactions'
+    });
+  }
+});
+
+app.get('/api/transactions/:hash', async (req, res) => {
+  try {
+    const transaction = await db.transaction.findUnique({
+      where: { hash: req.params.hash.toLowerCase() }
+    });
+    if (!transaction) {
+      res.status(404).json({
+        success: false,
+        error: 'Transaction not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: serializeBigInts(toTransactionResponse(transaction))
+    });
+  } catch (error) {
+    console.error('Error fetching transaction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transaction'
+    });
+  }
+});
+
+// Base fee, gas usage and blob usage of recent blocks
+app.get('/api/fees', async (req, res) => {
+  try {
+    const count = Math.min(Math.max(parseInt(req.query.blocks as string) || 20, 1), 1000);
+    const blocks = await db.block.findMany({
+      take: count,
+      orderBy: { number: 'desc' },
+      select: {
+        number: true,
+        timestamp: true,
+        baseFeePerGas: true,
+        gasUsed: true,
+        gasLimit: true,
+        blobGasUsed: true,
+        excessBlobGas: true
+      }
+    });
+    const blobTransactions = await db.transaction.groupBy({
+      by: ['blockNumber'],
+      where: { blockNumber: { in: blocks.map(block => block.number) }, type: 3 },
+      _count: { _all: true }
+    });
+    const blobCounts = new Map(blobTransactions.map(group => [group.blockNumber, group._count._all]));
+
+    const data = blocks.map(block => ({
+      ...block,
+      gasUsedRatio: block.gasLimit > 0n ? Number(block.gasUsed * 10000n / block.gasLimit) / 10000 : 0,
+      blobTransactions: blobCounts.get(block.number) ?? 0
+    }));
+
+    res.json({
+      success: true,
+      data: serializeBigInts(data),
+      count: data.length
+    });
+  } catch (error) {
+    console.error('Error fetching fee history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch fee history'
+    });
+  }
+});
+
 app.get('/api/tokens', async (req, res) => {
   try {
     const tokens = await db.token.findMany({
@@ -82,6 +316,663 @@ app.get('/api/tokens', async (req, res) => {
   }
 });
 
+// USD price series of a token derived from DEX pools, newest first
+app.get('/api/tokens/:address/prices', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    const { fromBlock, toBlock } = req.query as Record<string, string | undefined>;
+    if ([fromBlock, toBlock].some(value => value !== undefined && !/^\d+$/.test(value))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid block number'
+      });
+      return;
+    }
+
+    const prices = await priceOracle.getPrices(req.params.address, {
+      fromBlock: fromBlock !== undefined ? parseInt(fromBlock) : undefined,
+      toBlock: toBlock !== undefined ? parseInt(toBlock) : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 1000)
+    });
+    res.json({
+      success: true,
+      data: prices,
+      count: prices.length
+    });
+  } catch (error) {
+    console.error('Error fetching token prices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch token prices'
+    });
+  }
+});
+
+// Token transfers, filtered by token, address and amount range (decimal-adjusted or raw)
+app.get('/api/transfers', async (req, res) => {
+  try {
+    const { token, address, minAmount, maxAmount, minAmountRaw, maxAmountRaw } = req.query as Record<string, string | undefined>;
+    const invalidAddress = [token, address].find(value => value !== undefined && !ethers.isAddress(value));
+    const invalidAmount = [minAmount, maxAmount].find(value => value !== undefined && !isAmountString(value));
+    const invalidRaw = [minAmountRaw, maxAmountRaw].find(value => value !== undefined && !/^\d+$/.test(value));
+    if (invalidAddress !== undefined || invalidAmount !== undefined || invalidRaw !== undefined) {
+      res.status(400).json({
+        success: false,
+        error: invalidAddress !== undefined ? 'Invalid address' : 'Invalid amount'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const where: Prisma.TransferWhereInput = {};
+    if (token) {
+      where.token = { address: { equals: token, mode: 'insensitive' } };
+    }
+    if (address) {
+      where.OR = [
+        { from: { equals: address, mode: 'insensitive' } },
+        { to: { equals: address, mode: 'insensitive' } }
+      ];
+    }
+    // Decimal-adjusted bounds only match transfers of tokens whose decimals are known
+    if (minAmount !== undefined || maxAmount !== undefined) {
+      where.amountNormalized = { gte: minAmount, lte: maxAmount };
+    }
+    if (minAmountRaw !== undefined || maxAmountRaw !== undefined) {
+      where.amountRaw = { gte: minAmountRaw, lte: maxAmountRaw };
+    }
+
+    const transfers = await db.transfer.findMany({
+      where,
+      include: { token: true },
+      orderBy: { id: 'desc' },
+      take: limit
+    });
+    // Transfers are valued with the token's price at the block of their transaction
+    const transactions = await db.transaction.findMany({
+      where: { hash: { in: [...new Set(transfers.map(transfer => transfer.txHash))] } },
+      select: { hash: true, blockNumber: true }
+    });
+    const blocks = new Map(transactions.map(transaction => [transaction.hash, transaction.blockNumber]));
+    const quotes = await priceOracle.quotes(transfers.map(transfer => ({
+      address: transfer.token.address,
+      blockNumber: blocks.get(transfer.txHash)
+    })));
+    const data = transfers.map((transfer, i) => {
+      const amount = toAmount(transfer.amountRaw, knownDecimals(transfer.token));
+      return {
+        txHash: transfer.txHash,
+        blockNumber: blocks.get(transfer.txHash)?.toString() ?? null,
+        from: transfer.from,
+        to: transfer.to,
+        amount,
+        usd: blocks.has(transfer.txHash) ? usdValue(amount, quotes[i]) : null,
+        token: {
+          address: transfer.token.address,
+          name: transfer.token.name,
+          symbol: transfer.token.symbol
+        },
+        createdAt: transfer.createdAt
+      };
+    });
+
+    res.json({
+      success: true,
+      data,
+      count: data.length
+    });
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transfers'
+    });
+  }
+});
+
+// Normalized DEX swaps, optionally of one pool, token or trader
+app.get('/api/swaps', async (req, res) => {
+  try {
+    const { pool, token, trader } = req.query as Record<string, string | undefined>;
+    if ([pool, token, trader].some(value => value !== undefined && !ethers.isAddress(value))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const swaps = await dexTracker.getSwaps({ pool, token, trader, limit });
+
+    res.json({
+      success: true,
+      data: swaps,
+      count: swaps.length
+    });
+  } catch (error) {
+    console.error('Error fetching swaps:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch swaps'
+    });
+  }
+});
+
+app.get('/api/addresses/:address/balances', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    const block = req.query.block as string | undefined;
+    if (block !== undefined && !/^\d+$/.test(block)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid block number'
+      });
+      return;
+    }
+
+    const balances = await balanceLedger.getBalances(req.params.address, block !== undefined ? parseInt(block) : undefined);
+    // Valued at the requested block, or at the latest prices
+    const quotes = await priceOracle.quotes(balances.map(balance => ({
+      address: balance.token.address,
+      blockNumber: block !== undefined ? BigInt(block) : undefined
+    })));
+    const data = balances.map((balance, i) => ({ ...balance, usd: usdValue(balance.balance, quotes[i]) }));
+    res.json({
+      success: true,
+      data,
+      count: data.length
+    });
+  } catch (error) {
+    console.error('Error fetching balances:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch balances'
+    });
+  }
+});
+
+// V2 LP holdings and V3 positions of an address with their underlying token amounts
+app.get('/api/addresses/:address/positions', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    const block = req.query.block as string | undefined;
+    if (block !== undefined && !/^\d+$/.test(block)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid block number'
+      });
+      return;
+    }
+
+    const positions = await positionTracker.getPositions(req.params.address, block !== undefined ? parseInt(block) : undefined);
+    res.json({
+      success: true,
+      data: positions,
+      count: positions.length
+    });
+  } catch (error) {
+    console.error('Error fetching liquidity positions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch liquidity positions'
+    });
+  }
+});
+
+// Native ETH balance and movements, including internal transfers from call traces
+app.get('/api/addresses/:address/eth', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    const block = req.query.block as string | undefined;
+    if (block !== undefined && !/^\d+$/.test(block)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid block number'
+      });
+      return;
+    }
+
+    const blockNumber = block !== undefined ? parseInt(block) : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const [balance, history] = await Promise.all([
+      ethHistory.getBalance(req.params.address, blockNumber),
+      ethHistory.getHistory(req.params.address, limit, blockNumber)
+    ]);
+    res.json({
+      success: true,
+      data: { ...balance, history },
+      count: history.length
+    });
+  } catch (error) {
+    console.error('Error fetching ETH history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch ETH history'
+    });
+  }
+});
+
+app.get('/api/addresses/:address/approvals', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: await allowanceTracker.getApprovalReport(req.params.address)
+    });
+  } catch (error) {
+    console.error('Error fetching approvals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch approvals'
+    });
+  }
+});
+
+app.get('/api/addresses/:address/nfts', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const holdings = await nftTracker.getHoldings(req.params.address, limit);
+    res.json({
+      success: true,
+      data: holdings,
+      count: holdings.length
+    });
+  } catch (error) {
+    console.error('Error fetching NFT holdings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch NFT holdings'
+    });
+  }
+});
+
+const CONTRACT_INTERFACES: ContractInterface[] = ['erc165', 'erc20', 'erc721', 'erc1155'];
+
+// Contracts deployed in the indexed blocks, newest first
+app.get('/api/contracts', async (req, res) => {
+  try {
+    const { deployer, codeHash } = req.query as Record<string, string | undefined>;
+    const standard = req.query.interface as string | undefined;
+    if (deployer !== undefined && !ethers.isAddress(deployer)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    if (standard !== undefined && !CONTRACT_INTERFACES.includes(standard as ContractInterface)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid interface (expected one of ${CONTRACT_INTERFACES.join(', ')})`
+      });
+      return;
+    }
+    if (codeHash !== undefined && !ethers.isHexString(codeHash, 32)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid code hash'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const contracts = await contractRegistry.getContracts({
+      deployer,
+      codeHash,
+      interface: standard as ContractInterface | undefined,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: contracts,
+      count: contracts.length
+    });
+  } catch (error) {
+    console.error('Error fetching contracts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch contracts'
+    });
+  }
+});
+
+// Deployer, creation block, code hash and standards of one contract
+app.get('/api/contracts/:address', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+
+    const contract = await contractRegistry.getContract(req.params.address);
+    if (!contract) {
+      res.status(404).json({
+        success: false,
+        error: 'Contract not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: contract
+    });
+  } catch (error) {
+    console.error('Error fetching contract:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch contract'
+    });
+  }
+});
+
+// Proxy type of a contract and the implementations it delegated to, oldest first
+app.get('/api/contracts/:address/proxy', async (req, res) => {
+  try {
+    if (!ethers.isAddress(req.params.address)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+
+    const proxy = await proxyResolver.resolve(req.params.address);
+    if (!proxy) {
+      res.status(404).json({
+        success: false,
+        error: 'Proxy not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: proxy
+    });
+  } catch (error) {
+    console.error('Error fetching proxy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch proxy'
+    });
+  }
+});
+
+app.get('/api/nfts/:contract/:tokenId', async (req, res) => {
+  try {
+    const { contract, tokenId } = req.params;
+    if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid contract address or token id'
+      });
+      return;
+    }
+
+    const [owners, transfers] = await Promise.all([
+      nftTracker.getOwners(contract, tokenId),
+      db.nftTransfer.findMany({
+        where: { token: { tokenId, collection: { address: contract.toLowerCase() } } },
+        orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }, { batchIndex: 'desc' }],
+        take: 50
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: serializeBigInts({
+        contract: contract.toLowerCase(),
+        tokenId,
+        owners,
+        transfers
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching NFT:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch NFT'
+    });
+  }
+});
+
+const FAILURE_STAGES: FailureStage[] = ['ingest', 'block', 'transaction', 'log'];
+const FAILURE_STATUSES: FailureStatus[] = ['pending', 'resolved', 'dead'];
+
+// Dead-letter queue: what failed to ingest, process or decode, latest attempt first
+app.get('/api/failures', async (req, res) => {
+  try {
+    const { stage, status } = req.query as Record<string, string | undefined>;
+    if (stage !== undefined && !FAILURE_STAGES.includes(stage as FailureStage)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid stage (expected one of ${FAILURE_STAGES.join(', ')})`
+      });
+      return;
+    }
+    if (status !== undefined && !FAILURE_STATUSES.includes(status as FailureStatus)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid status (expected one of ${FAILURE_STATUSES.join(', ')})`
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const failures = await deadLetters.list({
+      stage: stage as FailureStage | undefined,
+      status: status as FailureStatus | undefined,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: failures,
+      count: failures.length
+    });
+  } catch (error) {
+    console.error('Error fetching failures:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch failures'
+    });
+  }
+});
+
+// Items retried per request: each one processes a whole block again while the request waits
+const REPROCESS_PAGE_SIZE = 50;
+
+// Retry failed items now: the given ids, or the oldest page of pending and dead items (of a stage)
+app.post('/api/failures/reprocess', async (req, res) => {
+  try {
+    const { ids, stage } = req.body ?? {};
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id)))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ids (expected an array of item ids)'
+      });
+      return;
+    }
+    if (ids !== undefined && ids.length > REPROCESS_PAGE_SIZE) {
+      res.status(400).json({
+        success: false,
+        error: `Too many ids (at most ${REPROCESS_PAGE_SIZE} per request)`
+      });
+      return;
+    }
+    if (stage !== undefined && !FAILURE_STAGES.includes(stage)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid stage (expected one of ${FAILURE_STAGES.join(', ')})`
+      });
+      return;
+    }
+
+    const result = await getReprocessor().reprocess({ ids, stage, limit: REPROCESS_PAGE_SIZE });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error reprocessing failures:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reprocess failures'
+    });
+  }
+});
+
+// Process the blocks holding Unknown events again, e.g. after registering an ABI
+app.post('/api/events/unknown/reprocess', async (req, res) => {
+  try {
+    const { contract, limit } = req.body ?? {};
+    if (contract !== undefined && !ethers.isAddress(contract)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address'
+      });
+      return;
+    }
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid limit'
+      });
+      return;
+    }
+
+    const result = await getReprocessor().reprocessUnknown({ contract, limit: Math.min(limit ?? 100, 1000) });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error reprocessing unknown events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reprocess unknown events'
+    });
+  }
+});
+
+app.get('/api/ingestion/status', async (req, res) => {
+  try {
+    const [status, backfills] = await Promise.all([
+      ingestionService.getIngestionStatus(),
+      backfillService.listBackfills()
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...status,
+        backfills
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching ingestion status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch ingestion status'
+    });
+  }
+});
+
+app.get('/api/rpc/budget', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: fetcher.getRateLimitStatus()
+    });
+  } catch (error) {
+    console.error('Error fetching RPC budget:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch RPC budget'
+    });
+  }
+});
+
+app.get('/api/backfills/:id', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid backfill job id'
+      });
+      return;
+    }
+
+    const job = await db.backfillJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Backfill job not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: await backfillService.getBackfillProgress(jobId)
+    });
+  } catch (error) {
+    console.error('Error fetching backfill progress:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch backfill progress'
+    });
+  }
+});
+
 // API info endpoint
 app.get('/api', (req, res) => {
   res.json({
@@ -91,7 +982,29 @@ app.get('/api', (req, res) => {
     endpoints: {
       health: '/health',
       blocks: '/api/blocks',
-      tokens: '/api/tokens'
+      block: '/api/blocks/:number',
+      transactions: '/api/transactions?method=&selector=&address=',
+      transaction: '/api/transactions/:hash',
+      fees: '/api/fees?blocks=20',
+      tokens: '/api/tokens',
+      tokenPrices: '/api/tokens/:address/prices?fromBlock=&toBlock=',
+      transfers: '/api/transfers?token=&address=&minAmount=&maxAmount=&minAmountRaw=&maxAmountRaw=',
+      swaps: '/api/swaps?pool=&token=&trader=',
+      balances: '/api/addresses/:address/balances?block=',
+      positions: '/api/addresses/:address/positions?block=',
+      ethHistory: '/api/addresses/:address/eth?block=&limit=',
+      approvals: '/api/addresses/:address/approvals',
+      nftHoldings: '/api/addresses/:address/nfts',
+      nft: '/api/nfts/:contract/:tokenId',
+      contracts: '/api/contracts?deployer=&interface=&codeHash=',
+      contract: '/api/contracts/:address',
+      proxy: '/api/contracts/:address/proxy',
+      failures: '/api/failures?stage=&status=',
+      reprocessFailures: 'POST /api/failures/reprocess',
+      reprocessUnknownEvents: 'POST /api/events/unknown/reprocess',
+      ingestionStatus: '/api/ingestion/status',
+      backfill: '/api/backfills/:id',
+      rpcBudget: '/api/rpc/budget'
     }
   });
 });
@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client';
+import { AbiRegistry, LoadResult } from '../processing/abi-registry';
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+function printLoadResult(result: LoadResult): void {
+  result.registered.forEach(entry => {
+    const state = entry.created ? `registered v${entry.version}` : `unchanged (v${entry.version})`;
+    console.log(`   - ${entry.name || 'unnamed'} ${entry.address}: ${state}`);
+  });
+  if (result.skipped.length > 0) {
+    console.log(`⚠️  Skipped without an address: ${result.skipped.join(', ')}`);
+  }
+}
+
+async function main() {
+  console.log('🚀 ABI Registry CLI\n');
+
+  const db = new PrismaClient();
+  const registry = new AbiRegistry(db, chainIdValue !== undefined ? { chainId: chainIdValue } : undefined);
+
+  try {
+    if (fileValue) {
+      console.log(`📄 Registering ABIs from ${fileValue}`);
+      printLoadResult(await registry.loadFile(fileValue, addressValue));
+      return;
+    }
+
+    if (dirValue) {
+      const addresses = addressesValue ? JSON.parse(fs.readFileSync(addressesValue, 'utf8')) : {};
+      console.log(`📦 Registering artifacts from ${dirValue}`);
+      printLoadResult(await registry.loadArtifactsDirectory(dirValue, addresses));
+      return;
+    }
+
+    if (addressValue) {
+      const versions = await registry.getVersions(addressValue);
+      if (versions.length === 0) {
+        console.log(`📝 No ABI registered for ${addressValue}`);
+      }
+      versions.forEach(version => {
+        console.log(`   - v${version.version} ${version.name || 'unnamed'} (${version.source}, ${version.createdAt.toISOString()})`);
+      });
+      return;
+    }
+
+    const registered = await registry.list();
+    console.log(`📊 ${registered.length} contracts with a registered ABI`);
+    registered.forEach(entry => {
+      console.log(`   - ${entry.address} ${entry.name || 'unnamed'} v${entry.version} (${entry.source})`);
+    });
+  } catch (error) {
+    console.error('❌ ABI registry command failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Handle command line arguments
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+ABI Registry CLI
+
+Usage:
+  npm run abi                                                     # List registered contracts
+  npm run abi -- --file=abis/router.json --address=0x...          # Register a bare ABI for one contract
+  npm run abi -- --file=abis/contracts.json                       # Register entries that carry their own address
+  npm run abi -- --dir=artifacts --addresses=deployments.json     # Register Hardhat/Foundry artifacts
+  npm run abi -- --address=0x...                                  # Show every version of a contract's ABI
+  npm run abi -- --help                                           # Show this help
+
+Options:
+  --file=<path>          JSON file with an ABI, { address, name, abi } entries or an artifact
+  --dir=<path>           Directory of Hardhat (artifacts/), hardhat-deploy (deployments/) or Foundry (out/) artifacts
+  --addresses=<path>     JSON map of contract name to address for artifacts without one
+  --address=<address>    Contract address to register a bare ABI for, or to show versions of
+  --chain-id=<number>    Chain the contracts live on (default: CHAIN_ID or 1)
+  --help, -h            Show this help message
+
+Registering a changed ABI for a contract adds a new version; the latest version is used for decoding.
+
+Environment Variables:
+  CHAIN_ID            Chain id of the indexed network
+  DATABASE_URL        PostgreSQL database connection string
+`);
+  process.exit(0);
+}
+
+const parseStringArg = (name: string): string | undefined => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const fileValue = parseStringArg('file');
+const dirValue = parseStringArg('dir');
+const addressesValue = parseStringArg('addresses');
+const addressValue = parseStringArg('address');
+const chainIdArg = parseStringArg('chain-id');
+const chainIdValue = chainIdArg ? parseInt(chainIdArg) : undefined;
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
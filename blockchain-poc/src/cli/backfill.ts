@@ -0,0 +1,135 @@
+import { PrismaClient } from '@prisma/client';
+import { BackfillService, BackfillProgress } from '../ingestion/backfill-service';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+function formatProgress(progress: BackfillProgress): string {
+  const eta = progress.etaSeconds !== undefined ? `${Math.floor(progress.etaSeconds / 60)}m ${progress.etaSeconds % 60}s` : 'unknown';
+  return `📊 Job ${progress.jobId} [${progress.status}]: ${progress.completedBlocks}/${progress.totalBlocks} blocks (${progress.percentComplete}%), ` +
+    `${progress.completedChunks}/${progress.totalChunks} chunks, ${progress.failedChunks} failed, ` +
+    `${progress.blocksPerSecond} blocks/s, ETA ${eta}`;
+}
+
+async function main() {
+  console.log('🚀 Blockchain Backfill CLI\n');
+
+  const db = new PrismaClient();
+  const rpcUrl = process.env.ETH_RPC_URL;
+
+  if (!rpcUrl) {
+    console.error('❌ ETH_RPC_URL environment variable is required');
+    process.exit(1);
+  }
+
+  const backfillService = new BackfillService(rpcUrl, db);
+
+  try {
+    if (statusMode) {
+      const backfills = await backfillService.listBackfills();
+      if (backfills.length === 0) {
+        console.log('📝 No backfill jobs found');
+      }
+      backfills.forEach(progress => console.log(formatProgress(progress)));
+      return;
+    }
+
+    if (fromValue === undefined || toValue === undefined) {
+      console.error('❌ --from and --to are required');
+      process.exit(1);
+    }
+
+    console.log(`📡 Using RPC endpoint: ${rpcUrl}`);
+    console.log(`📝 Backfilling blocks ${fromValue}-${toValue} (chunk size: ${chunkSizeValue}, workers: ${concurrencyValue})\n`);
+
+    const stop = () => {
+      console.log('\n🛑 Stopping after the current chunks...');
+      backfillService.stopBackfill();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    let jobId: number | undefined;
+    const reporter = setInterval(async () => {
+      try {
+        if (jobId === undefined) {
+          const [latest] = await backfillService.listBackfills(1);
+          jobId = latest?.jobId;
+        }
+        if (jobId !== undefined) {
+          console.log(formatProgress(await backfillService.getBackfillProgress(jobId)));
+        }
+      } catch (error) {
+        console.warn('⚠️  Failed to read backfill progress:', error instanceof Error ? error.message : error);
+      }
+    }, 10000);
+
+    try {
+      const progress = await backfillService.runBackfill(fromValue, toValue, {
+        chunkSize: chunkSizeValue,
+        concurrency: concurrencyValue
+      });
+      console.log(`\n${formatProgress(progress)}`);
+    } finally {
+      clearInterval(reporter);
+    }
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Handle command line arguments
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Blockchain Backfill CLI
+
+Usage:
+  npm run backfill -- --from=18000000 --to=18100000     # Backfill a block range
+  npm run backfill -- --status                          # Show progress of recent backfills
+  npm run backfill -- --help                            # Show this help
+
+Options:
+  --from=<number>          First block of the range (inclusive)
+  --to=<number>            Last block of the range (inclusive)
+  --chunk-size=<number>    Blocks per chunk (default: 100)
+  --concurrency=<number>   Number of concurrent workers (default: 4)
+  --status                 Show progress, throughput and ETA of recent backfills
+  --help, -h              Show this help message
+
+Re-running the same range resumes the unfinished job, skipping completed chunks.
+
+Environment Variables:
+  ETH_RPC_URL         Ethereum RPC endpoint URL
+  DATABASE_URL        PostgreSQL database connection string
+`);
+  process.exit(0);
+}
+
+const parseNumberArg = (name: string): number | undefined => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  if (!arg) {
+    return undefined;
+  }
+  const value = arg.split('=')[1];
+  if (!/^\d+$/.test(value)) {
+    console.error(`❌ --${name} must be a whole number, got "${value}"`);
+    process.exit(1);
+  }
+  return parseInt(value, 10);
+};
+
+const statusMode = args.includes('--status');
+const fromValue = parseNumberArg('from');
+const toValue = parseNumberArg('to');
+const chunkSizeValue = parseNumberArg('chunk-size') ?? 100;
+const concurrencyValue = parseNumberArg('concurrency') ?? 4;
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { EventProcessor } from '../processing/event-processor';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 
@@ -22,7 +23,8 @@ async function main() {
     console.log(`🗄️  Database: ${process.env.DATABASE_URL?.split('@')[1] || 'localhost'}\n`);
 
     const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const processor = new EventProcessor(provider, db);
+    const batcher = new RpcBatcher(payloads => provider._send(payloads));
+    const processor = new EventProcessor(provider, db, batcher);
     
     // Get current status
     console.log('📊 Current event processing status:');
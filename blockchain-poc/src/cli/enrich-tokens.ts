@@ -0,0 +1,110 @@
+import { PrismaClient } from '@prisma/client';
+import { BlockchainFetcher } from '../ingestion/blockchain-fetcher';
+import { TokenMetadataEnricher } from '../enrichment/token-metadata';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+async function main() {
+  console.log('🚀 Token Metadata Enrichment CLI\n');
+
+  const db = new PrismaClient();
+  const rpcUrl = process.env.ETH_RPC_URL;
+
+  if (!rpcUrl) {
+    console.error('❌ ETH_RPC_URL environment variable is required');
+    process.exit(1);
+  }
+
+  const fetcher = new BlockchainFetcher(rpcUrl, db);
+  const enricher = new TokenMetadataEnricher(db, fetcher.getBatcher(), batchSizeValue ? { batchSize: batchSizeValue } : undefined);
+
+  try {
+    if (statusMode) {
+      const groups = await db.token.groupBy({ by: ['metadataStatus'], _count: { _all: true } });
+      console.log('📊 Tokens by metadata status:');
+      groups.forEach(group => console.log(`   - ${group.metadataStatus}: ${group._count._all}`));
+      return;
+    }
+
+    if (tokenValue) {
+      const { metadata, errors } = await enricher.fetchMetadata(tokenValue);
+      console.log(`📄 ${tokenValue}`);
+      console.log(`   - Name: ${metadata.name ?? 'n/a'}`);
+      console.log(`   - Symbol: ${metadata.symbol ?? 'n/a'}`);
+      console.log(`   - Decimals: ${metadata.decimals ?? 'n/a'}`);
+      console.log(`   - Total supply: ${metadata.totalSupply ?? 'n/a'}`);
+      errors.forEach(error => console.warn(`⚠️  ${error}`));
+      return;
+    }
+
+    console.log(`📡 Using RPC endpoint: ${rpcUrl}\n`);
+
+    if (onceMode) {
+      const result = await enricher.runOnce();
+      console.log(`\n📊 ${result.enriched} enriched, ${result.partial} partial, ${result.failed} failed, ${result.suppliesRefreshed} supplies refreshed`);
+      return;
+    }
+
+    const stop = () => {
+      console.log('\n🛑 Stopping after the current pass...');
+      enricher.stop();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    await enricher.start();
+  } catch (error) {
+    console.error('❌ Token enrichment failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Handle command line arguments
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Token Metadata Enrichment CLI
+
+Usage:
+  npm run enrich-tokens                        # Run the enrichment worker until stopped
+  npm run enrich-tokens -- --once              # Run a single pass
+  npm run enrich-tokens -- --token=0x...       # Read the metadata of one token without storing it
+  npm run enrich-tokens -- --status            # Count tokens by metadata status
+  npm run enrich-tokens -- --help              # Show this help
+
+Options:
+  --once                 Enrich one batch of pending tokens and refresh one batch of supplies, then exit
+  --token=<address>      Token to read name, symbol, decimals and total supply of
+  --batch-size=<number>  Tokens per pass (default: ENRICHMENT_BATCH_SIZE or 50)
+  --status               Show how many tokens are pending, ok, partial or failed
+  --help, -h            Show this help message
+
+Environment Variables:
+  ETH_RPC_URL               Ethereum RPC endpoint URL
+  DATABASE_URL              PostgreSQL database connection string
+  ENRICHMENT_BATCH_SIZE     Tokens per pass
+  ENRICHMENT_INTERVAL_MS    Pause between passes of the worker
+  TOTAL_SUPPLY_REFRESH_MS   Age after which a token's total supply is read again
+`);
+  process.exit(0);
+}
+
+const parseStringArg = (name: string): string | undefined => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const onceMode = args.includes('--once');
+const statusMode = args.includes('--status');
+const tokenValue = parseStringArg('token');
+const batchSizeArg = parseStringArg('batch-size');
+const batchSizeValue = batchSizeArg ? parseInt(batchSizeArg) : undefined;
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
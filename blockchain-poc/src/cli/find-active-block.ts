@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import { PrismaClient } from '@prisma/client';
+import { ETH_DECIMALS, formatAmount } from '../utils/amount';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -77,8 +78,11 @@ async function main() {
                 from: txResponse.from,
                 to: txResponse.to || null,
                 value: txResponse.value.toString(),
+                valueRaw: txResponse.value.toString(),
+                valueNormalized: formatAmount(txResponse.value, ETH_DECIMALS),
                 gasUsed: txResponse.gasLimit,
                 gasPrice: txResponse.gasPrice?.toString() || '0',
+                gasPriceRaw: txResponse.gasPrice?.toString() || '0',
                 status: 1
               },
               create: {
@@ -87,8 +91,11 @@ async function main() {
                 from: txResponse.from,
                 to: txResponse.to || null,
                 value: txResponse.value.toString(),
+                valueRaw: txResponse.value.toString(),
+                valueNormalized: formatAmount(txResponse.value, ETH_DECIMALS),
                 gasUsed: txResponse.gasLimit,
                 gasPrice: txResponse.gasPrice?.toString() || '0',
+                gasPriceRaw: txResponse.gasPrice?.toString() || '0',
                 status: 1
               }
             });
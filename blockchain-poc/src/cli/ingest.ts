@@ -21,6 +21,11 @@ async function main() {
     console.log(`🗄️  Database: ${process.env.DATABASE_URL?.split('@')[1] || 'localhost'}\n`);
 
     const ingestionService = new IngestionService(rpcUrl, db);
+
+    if (followMode) {
+      await followChainHead(ingestionService);
+      return;
+    }
     
     // Get current status
     console.log('📊 Current ingestion status:');
@@ -59,6 +64,32 @@ async function main() {
   }
 }
 
+async function followChainHead(ingestionService: IngestionService) {
+  const status = await ingestionService.getIngestionStatus();
+  if (status.cursor) {
+    console.log(`📍 Resuming from block ${status.cursor.blockNumber} (${status.cursor.blockHash.substring(0, 10)}...)`);
+  } else {
+    console.log(`📍 No checkpoint found, starting from ${startBlockValue ?? 'the chain head'}`);
+  }
+
+  const stop = () => {
+    console.log('\n🛑 Stopping after the current block...');
+    ingestionService.stopFollowing();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  await ingestionService.startFollowing({
+    pollInterval: pollIntervalValue,
+    confirmations: confirmationsValue,
+    startBlock: startBlockValue,
+    wsUrl: wsUrlValue
+  });
+
+  const finalStatus = await ingestionService.getIngestionStatus();
+  console.log(`📊 Cursor: ${finalStatus.cursor?.blockNumber ?? 'None'}, lag: ${finalStatus.lag ?? 'unknown'} blocks`);
+}
+
 // Handle command line arguments
 const args = process.argv.slice(2);
 if (args.includes('--help') || args.includes('-h')) {
@@ -68,14 +99,22 @@ Blockchain Data Ingestion CLI
 Usage:
   npm run ingest                    # Test with 5 blocks
   npm run ingest -- --blocks 10     # Test with 10 blocks
+  npm run ingest -- --follow        # Follow the chain head from the saved checkpoint
   npm run ingest -- --help          # Show this help
 
 Options:
-  --blocks <number>    Number of blocks to ingest (default: 5)
-  --help, -h          Show this help message
+  --blocks <number>          Number of blocks to ingest (default: 5)
+  --follow                   Run continuously, resuming from the persisted checkpoint
+  --start-block=<number>     First block to ingest when no checkpoint exists (default: chain head)
+  --poll-interval=<ms>       Delay between head polls in follow mode (default: 12000)
+  --confirmations=<number>   Blocks to stay behind the head in follow mode (default: 0)
+  --ws=<url>                 Subscribe to new heads over WebSocket in follow mode (default: ETH_WS_URL)
+  --no-ws                    Only poll over HTTP, even when ETH_WS_URL is set
+  --help, -h                Show this help message
 
 Environment Variables:
   ETH_RPC_URL         Ethereum RPC endpoint URL
+  ETH_WS_URL          Optional WebSocket endpoint for newHeads subscriptions
   DATABASE_URL        PostgreSQL database connection string
   API_PORT            API server port (default: 8082)
 `);
@@ -86,7 +125,23 @@ Environment Variables:
 const blocksArg = args.find(arg => arg.startsWith('--blocks='));
 const blocksValue = blocksArg ? parseInt(blocksArg.split('=')[1]) : 5;
 
-if (blocksValue && blocksValue > 0) {
+const followMode = args.includes('--follow');
+
+const startBlockArg = args.find(arg => arg.startsWith('--start-block='));
+const startBlockValue = startBlockArg ? parseInt(startBlockArg.split('=')[1]) : undefined;
+
+const pollIntervalArg = args.find(arg => arg.startsWith('--poll-interval='));
+const pollIntervalValue = pollIntervalArg ? parseInt(pollIntervalArg.split('=')[1]) : 12000;
+
+const confirmationsArg = args.find(arg => arg.startsWith('--confirmations='));
+const confirmationsValue = confirmationsArg ? parseInt(confirmationsArg.split('=')[1]) : 0;
+
+const wsArg = args.find(arg => arg.startsWith('--ws='));
+const wsUrlValue = args.includes('--no-ws') ? undefined : (wsArg ? wsArg.slice('--ws='.length) : process.env.ETH_WS_URL);
+
+if (followMode) {
+  console.log('📝 Will follow the chain head');
+} else if (blocksValue && blocksValue > 0) {
   console.log(`📝 Will ingest ${blocksValue} blocks`);
 }
 
@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import { BlockchainFetcher } from '../ingestion/blockchain-fetcher';
+import { BalanceReconciler } from '../enrichment/balance-reconciler';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+async function main() {
+  console.log('🚀 Balance Reconciliation CLI\n');
+
+  const db = new PrismaClient();
+  const rpcUrl = process.env.ETH_RPC_URL;
+
+  if (!rpcUrl) {
+    console.error('❌ ETH_RPC_URL environment variable is required');
+    process.exit(1);
+  }
+
+  const fetcher = new BlockchainFetcher(rpcUrl, db);
+  const reconciler = new BalanceReconciler(db, fetcher.getBatcher());
+
+  try {
+    if (statusMode) {
+      const groups = await db.balanceReconciliation.groupBy({ by: ['status'], _count: { _all: true } });
+      console.log('📊 Reconciliations by status:');
+      groups.forEach(group => console.log(`   - ${group.status}: ${group._count._all}`));
+      return;
+    }
+
+    console.log(`📡 Using RPC endpoint: ${rpcUrl}\n`);
+    const result = await reconciler.reconcile({ sampleSize: sampleValue, address: addressValue });
+    if (result.blockNumber === null) {
+      console.log('📝 The ledger is empty, process some blocks first');
+      return;
+    }
+    console.log(`\n📊 Block ${result.blockNumber}: ${result.checked} checked, ${result.matched} match, ${result.mismatched} mismatch, ${result.failed} failed`);
+  } catch (error) {
+    console.error('❌ Balance reconciliation failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Handle command line arguments
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Balance Reconciliation CLI
+
+Usage:
+  npm run reconcile-balances                        # Compare a random sample of ledger balances with balanceOf
+  npm run reconcile-balances -- --sample=100        # Use a larger sample
+  npm run reconcile-balances -- --address=0x...     # Check every token balance of one address
+  npm run reconcile-balances -- --status            # Count past reconciliations by status
+  npm run reconcile-balances -- --help              # Show this help
+
+Options:
+  --sample=<number>      Balances to check (default: RECONCILE_SAMPLE_SIZE or 20)
+  --address=<address>    Address to check all token balances of
+  --status               Show how many reconciliations matched, mismatched or failed
+  --help, -h            Show this help message
+
+Environment Variables:
+  ETH_RPC_URL               Ethereum RPC endpoint URL
+  DATABASE_URL              PostgreSQL database connection string
+  RECONCILE_SAMPLE_SIZE     Balances checked per run
+`);
+  process.exit(0);
+}
+
+const parseStringArg = (name: string): string | undefined => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const statusMode = args.includes('--status');
+const addressValue = parseStringArg('address');
+const sampleArg = parseStringArg('sample');
+const sampleValue = sampleArg ? parseInt(sampleArg) : undefined;
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
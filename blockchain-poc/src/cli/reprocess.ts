@@ -0,0 +1,153 @@
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+import { BlockchainFetcher } from '../ingestion/blockchain-fetcher';
+import { IngestionService } from '../ingestion/ingestion-service';
+import { EventProcessor } from '../processing/event-processor';
+import { DeadLetterQueue, FailureStage } from '../processing/dead-letter-queue';
+import { ReprocessResult, Reprocessor } from '../processing/reprocessor';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+const STAGES: FailureStage[] = ['ingest', 'block', 'transaction', 'log'];
+
+function printResult(result: ReprocessResult): void {
+  console.log(`\n📊 ${result.items} items retried in ${result.blocks} blocks and ${result.transactions} transactions, ${result.resolved} resolved`);
+}
+
+async function main() {
+  console.log('🚀 Reprocessing CLI\n');
+
+  const db = new PrismaClient();
+  const deadLetters = new DeadLetterQueue(db);
+
+  try {
+    if (statusMode) {
+      const summary = await deadLetters.summary();
+      console.log('📊 Failed items by stage and status:');
+      if (summary.length === 0) {
+        console.log('   - none');
+      }
+      summary.forEach(group => console.log(`   - ${group.stage} ${group.status}: ${group.count}`));
+      return;
+    }
+
+    const rpcUrl = process.env.ETH_RPC_URL;
+    if (!rpcUrl) {
+      console.error('❌ ETH_RPC_URL environment variable is required');
+      process.exit(1);
+    }
+
+    if (stageValue && !STAGES.includes(stageValue as FailureStage)) {
+      console.error(`❌ Unknown stage ${stageValue}; expected one of ${STAGES.join(', ')}`);
+      process.exit(1);
+    }
+
+    console.log(`📡 Using RPC endpoint: ${rpcUrl}\n`);
+    const fetcher = new BlockchainFetcher(rpcUrl, db);
+    const processor = new EventProcessor(new ethers.JsonRpcProvider(rpcUrl), db, fetcher.getBatcher());
+    const reprocessor = new Reprocessor(db, processor, new IngestionService(rpcUrl, db), batchSizeValue ? { batchSize: batchSizeValue } : undefined);
+
+    if (unknownMode) {
+      const result = await reprocessor.reprocessUnknown({ contract: contractValue, limit: limitValue });
+      console.log(`\n📊 ${result.blocks} blocks reprocessed, unknown events: ${result.unknownBefore} → ${result.unknownAfter}`);
+      return;
+    }
+
+    if (idsValue) {
+      printResult(await reprocessor.reprocess({ ids: idsValue }));
+      return;
+    }
+
+    if (failedMode) {
+      printResult(await reprocessor.reprocess({ stage: stageValue as FailureStage | undefined, limit: limitValue }));
+      return;
+    }
+
+    if (onceMode) {
+      printResult(await reprocessor.retryDue());
+      return;
+    }
+
+    const stop = () => {
+      console.log('\n🛑 Stopping after the current pass...');
+      reprocessor.stop();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    await reprocessor.start();
+  } catch (error) {
+    console.error('❌ Reprocessing failed:', error);
+    process.exit(1);
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Handle command line arguments
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Reprocessing CLI
+
+Usage:
+  npm run reprocess                                  # Retry failed items as their back-off passes, until stopped
+  npm run reprocess -- --once                        # Retry the items that are due, then exit
+  npm run reprocess -- --failed                      # Retry every pending and dead item now
+  npm run reprocess -- --failed --stage=transaction  # Retry every pending and dead item of one stage
+  npm run reprocess -- --ids=12,13                   # Retry specific items
+  npm run reprocess -- --unknown                     # Reprocess the blocks holding Unknown events
+  npm run reprocess -- --unknown --contract=0x...    # Only the blocks holding Unknown events of one contract
+  npm run reprocess -- --status                      # Count failed items by stage and status
+  npm run reprocess -- --help                        # Show this help
+
+Options:
+  --once                 Retry one batch of due items and exit
+  --failed               Retry unresolved items regardless of their back-off, dead ones included
+  --stage=<stage>        Only items of one stage: ingest, block, transaction or log
+  --ids=<ids>            Comma-separated ids of the items to retry
+  --unknown              Decode Unknown events again, e.g. after registering an ABI with npm run abi
+  --contract=<address>   Only Unknown events of this contract
+  --limit=<number>       Most items (--failed) or blocks (--unknown, default 100) to reprocess
+  --batch-size=<number>  Items per pass (default: DLQ_BATCH_SIZE or 50)
+  --status               Show how many items are pending, resolved or dead per stage
+  --help, -h            Show this help message
+
+Failed items are retried by ingesting or processing their block again; items that succeed are resolved.
+
+Environment Variables:
+  ETH_RPC_URL              Ethereum RPC endpoint URL
+  DATABASE_URL             PostgreSQL database connection string
+  DLQ_MAX_ATTEMPTS         Attempts after which an item is dead
+  DLQ_RETRY_DELAY_MS       Delay before the first retry; doubles with every attempt
+  DLQ_MAX_RETRY_DELAY_MS   Longest delay between retries
+  DLQ_BATCH_SIZE           Items per pass
+  DLQ_RETRY_INTERVAL_MS    Pause between passes of the worker
+`);
+  process.exit(0);
+}
+
+const parseStringArg = (name: string): string | undefined => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const onceMode = args.includes('--once');
+const statusMode = args.includes('--status');
+const failedMode = args.includes('--failed');
+const unknownMode = args.includes('--unknown');
+const stageValue = parseStringArg('stage');
+const contractValue = parseStringArg('contract');
+const idsArg = parseStringArg('ids');
+const idsValue = idsArg ? idsArg.split(',').map(id => parseInt(id)) : undefined;
+const limitArg = parseStringArg('limit');
+const limitValue = limitArg ? parseInt(limitArg) : undefined;
+const batchSizeArg = parseStringArg('batch-size');
+const batchSizeValue = batchSizeArg ? parseInt(batchSizeArg) : undefined;
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { PrismaClient } from '@prisma/client';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface ReconcilerConfig {
+  sampleSize: number;
+}
+
+/**
+ * - `match`: the ledger balance equals `balanceOf` at the ledger's last block
+ * - `mismatch`: it does not, usually because transfers were missed or the token rebases
+ * - `error`: `balanceOf` could not be read
+ */
+export type ReconciliationStatus = 'match' | 'mismatch' | 'error';
+
+export interface ReconciliationResult {
+  blockNumber: string | null;
+  checked: number;
+  matched: number;
+  mismatched: number;
+  failed: number;
+}
+
+// balanceOf either returns the balance or fails
+type ChainBalance = { value: bigint } | { error: string };
+
+const balanceOfInterface = new ethers.Interface(['function balanceOf(address owner) view returns (uint256)']);
+
+/**
+ * Compares ledger balances with the token contracts' `balanceOf` for sampled addresses, to catch transfers
+ * the decoder missed. Balances are read at the last block the ledger has applied, so they are comparable
+ * while processing is still running; this needs a node that serves state of recent blocks. Every comparison
+ * is stored in `BalanceReconciliation`.
+ */
+export class BalanceReconciler {
+  private db: PrismaClient;
+  private batcher: RpcBatcher;
+  private config: ReconcilerConfig;
+
+  constructor(db: PrismaClient, batcher: RpcBatcher, config?: Partial<ReconcilerConfig>) {
+    this.db = db;
+    this.batcher = batcher;
+    this.config = {
+      sampleSize: parseInt(process.env.RECONCILE_SAMPLE_SIZE || '20', 10),
+      ...config
+    };
+  }
+
+  /**
+   * Reconcile a random sample of current balances, or all balances of one address
+   */
+  async reconcile(options: { sampleSize?: number; address?: string } = {}): Promise<ReconciliationResult> {
+    const head = await this.db.balanceCheckpoint.aggregate({ _max: { blockNumber: true } });
+    const blockNumber = head._max.blockNumber;
+    const result: ReconciliationResult = { blockNumber: blockNumber?.toString() ?? null, checked: 0, matched: 0, mismatched: 0, failed: 0 };
+    if (blockNumber === null) {
+      return result;
+    }
+
+    let balances;
+    if (options.address) {
+      balances = await this.db.tokenBalance.findMany({ where: { address: options.address.toLowerCase() }, include: { token: true } });
+    } else {
+      const sampleSize = options.sampleSize ?? this.config.sampleSize;
+      const total = await this.db.tokenBalance.count();
+      balances = await this.db.tokenBalance.findMany({
+        include: { token: true },
+        orderBy: { id: 'asc' },
+        skip: Math.floor(Math.random() * Math.max(total - sampleSize, 0)),
+        take: sampleSize
+      });
+    }
+    if (balances.length === 0) {
+      return result;
+    }
+
+    console.log(`🧮 Reconciling ${balances.length} balances at block ${blockNumber}...`);
+    const blockTag = ethers.toQuantity(blockNumber);
+    const chainBalances = await Promise.all(balances.map(async (balance): Promise<ChainBalance> => {
+      try {
+        const data = await this.batcher.call<string>('eth_call', [
+          { to: balance.token.address, data: balanceOfInterface.encodeFunctionData('balanceOf', [balance.address]) },
+          blockTag
+        ]);
+        return { value: BigInt(balanceOfInterface.decodeFunctionResult('balanceOf', data)[0]) };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    const rows = balances.map((balance, i) => {
+      const chain = chainBalances[i];
+      const ledgerBalance = BigInt(balance.balance.toFixed());
+      const status: ReconciliationStatus = 'error' in chain ? 'error' : chain.value === ledgerBalance ? 'match' : 'mismatch';
+      if (status === 'mismatch') {
+        console.warn(`⚠️  Balance mismatch for ${balance.address} on ${balance.token.address}: ledger ${ledgerBalance}, chain ${'value' in chain ? chain.value : 'n/a'}`);
+      }
+
+      return {
+        tokenId: balance.tokenId,
+        address: balance.address,
+        blockNumber,
+        ledgerBalance: ledgerBalance.toString(),
+        chainBalance: 'value' in chain ? chain.value.toString() : null,
+        status,
+        error: 'error' in chain ? chain.error : null
+      };
+    });
+    await this.db.balanceReconciliation.createMany({ data: rows });
+
+    result.checked = rows.length;
+    result.matched = rows.filter(row => row.status === 'match').length;
+    result.mismatched = rows.filter(row => row.status === 'mismatch').length;
+    result.failed = rows.filter(row => row.status === 'error').length;
+    console.log(`✅ Reconciled ${result.checked} balances: ${result.matched} match, ${result.mismatched} mismatch, ${result.failed} failed`);
+    return result;
+  }
+}
@@ -0,0 +1,357 @@
+import { ethers } from 'ethers';
+import { PrismaClient } from '@prisma/client';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface EnricherConfig {
+  batchSize: number;
+  interval: number;
+  supplyRefreshInterval: number;
+  retryDelay: number;
+  maxAttempts: number;
+}
+
+/**
+ * - `pending`: created with placeholder data, not fetched yet
+ * - `ok`: name, symbol and decimals were read
+ * - `partial`: some of them revert or are missing (e.g. tokens without `name()`)
+ * - `failed`: none of them could be read (not an ERC-20, or the calls kept failing)
+ */
+export type MetadataStatus = 'pending' | 'ok' | 'partial' | 'failed';
+
+export interface TokenMetadata {
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  totalSupply: string | null;
+}
+
+export interface EnrichmentRunResult {
+  enriched: number;
+  partial: number;
+  failed: number;
+  suppliesRefreshed: number;
+}
+
+// A view call either returns data, reverts (the token does not implement it) or fails for another reason
+type CallResult = { data: string } | { reverted: true } | { error: string };
+
+const METADATA_FIELDS = ['name', 'symbol', 'decimals', 'totalSupply'] as const;
+type MetadataField = typeof METADATA_FIELDS[number];
+
+const erc20Interface = new ethers.Interface([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)'
+]);
+
+const MAX_TEXT_LENGTH = 128;
+
+/**
+ * Decode a `name()`/`symbol()` result returned either as an ABI string or as `bytes32` (MKR, SAI and other early tokens)
+ */
+export function decodeTokenText(data: string): string | null {
+  let text: string | null = null;
+  try {
+    text = ethers.AbiCoder.defaultAbiCoder().decode(['string'], data)[0];
+  } catch (error) {
+    // Not an ABI string
+  }
+
+  if (text === null && ethers.dataLength(data) === 32) {
+    const bytes = ethers.getBytes(data);
+    const end = bytes.indexOf(0);
+    text = ethers.toUtf8String(end === -1 ? bytes : bytes.slice(0, end), ethers.Utf8ErrorFuncs.ignore);
+  }
+
+  // Strip control characters and padding some tokens return
+  const cleaned = text?.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, MAX_TEXT_LENGTH);
+  return cleaned ? cleaned : null;
+}
+
+/**
+ * Decode a `decimals()` result; some tokens return it as uint256, anything above 255 is not a real value
+ */
+export function decodeTokenDecimals(data: string): number | null {
+  if (ethers.dataLength(data) < 32) {
+    return null;
+  }
+  const value = ethers.toBigInt(ethers.dataSlice(data, 0, 32));
+  return value <= 255n ? Number(value) : null;
+}
+
+function decodeTokenSupply(data: string): string | null {
+  if (ethers.dataLength(data) < 32) {
+    return null;
+  }
+  return ethers.toBigInt(ethers.dataSlice(data, 0, 32)).toString();
+}
+
+/**
+ * Fills in token metadata by calling the ERC-20 view functions. Tokens are created by event processing
+ * with placeholder data (`metadataStatus` pending); this worker replaces it with what the contract reports
+ * and refreshes `totalSupply` periodically. Calls go through the JSON-RPC batcher, so a batch of tokens
+ * costs a few batch requests. Reverting calls leave the field empty; other failures are recorded on the
+ * token and retried after `retryDelay`, up to `maxAttempts` times. Storing the decimals also recomputes
+ * the normalized amounts of the token's transfers.
+ */
+export class TokenMetadataEnricher {
+  private db: PrismaClient;
+  private batcher: RpcBatcher;
+  private config: EnricherConfig;
+  private running: boolean = false;
+  private wake?: () => void;
+
+  constructor(db: PrismaClient, batcher: RpcBatcher, config?: Partial<EnricherConfig>) {
+    this.db = db;
+    this.batcher = batcher;
+    this.config = {
+      batchSize: parseInt(process.env.ENRICHMENT_BATCH_SIZE || '50', 10),
+      interval: parseInt(process.env.ENRICHMENT_INTERVAL_MS || '60000', 10),
+      supplyRefreshInterval: parseInt(process.env.TOTAL_SUPPLY_REFRESH_MS || '3600000', 10),
+      retryDelay: 600000,
+      maxAttempts: 5,
+      ...config
+    };
+  }
+
+  /**
+   * Read the metadata of one token from the chain without storing it
+   */
+  async fetchMetadata(address: string): Promise<{ metadata: TokenMetadata; errors: string[] }> {
+    const results = await Promise.all(METADATA_FIELDS.map(field => this.callView(address, field)));
+    const metadata: TokenMetadata = { name: null, symbol: null, decimals: null, totalSupply: null };
+    const errors: string[] = [];
+
+    results.forEach((result, i) => {
+      const field = METADATA_FIELDS[i];
+      if ('error' in result) {
+        errors.push(`${field}: ${result.error}`);
+        return;
+      }
+      // A revert or empty result means the token does not implement the function
+      if ('reverted' in result || result.data === '0x') {
+        return;
+      }
+
+      if (field === 'name' || field === 'symbol') {
+        metadata[field] = decodeTokenText(result.data);
+      } else if (field === 'decimals') {
+        metadata.decimals = decodeTokenDecimals(result.data);
+      } else {
+        metadata.totalSupply = decodeTokenSupply(result.data);
+      }
+    });
+
+    return { metadata, errors };
+  }
+
+  /**
+   * Fetch and store metadata for tokens still holding placeholder data, and retry failed ones that are due
+   */
+  async enrichPending(limit: number = this.config.batchSize): Promise<Pick<EnrichmentRunResult, 'enriched' | 'partial' | 'failed'>> {
+    const retryBefore = new Date(Date.now() - this.config.retryDelay);
+    const tokens = await this.db.token.findMany({
+      where: {
+        metadataAttempts: { lt: this.config.maxAttempts },
+        OR: [
+          { metadataStatus: 'pending', OR: [{ metadataFetchedAt: null }, { metadataFetchedAt: { lt: retryBefore } }] },
+          { metadataStatus: 'failed', metadataFetchedAt: { lt: retryBefore } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    });
+
+    const counts = { enriched: 0, partial: 0, failed: 0 };
+    if (tokens.length === 0) {
+      return counts;
+    }
+
+    console.log(`🔎 Enriching metadata of ${tokens.length} tokens...`);
+    const results = await Promise.all(tokens.map(async token => {
+      const result = await this.fetchMetadata(token.address);
+      return { token, ...result };
+    }));
+
+    for (const { token, metadata, errors } of results) {
+      const now = new Date();
+      const attempts = token.metadataAttempts + 1;
+
+      // Calls that failed for another reason than a revert say nothing about the token; try again later
+      if (errors.length > 0) {
+        await this.db.token.update({
+          where: { id: token.id },
+          data: {
+            metadataStatus: attempts >= this.config.maxAttempts ? 'failed' : token.metadataStatus,
+            metadataError: errors.join('; '),
+            metadataAttempts: attempts,
+            metadataFetchedAt: now
+          }
+        });
+        counts.failed++;
+        continue;
+      }
+
+      const readable = [metadata.name, metadata.symbol, metadata.decimals].filter(value => value !== null).length;
+      const status: MetadataStatus = readable === 3 ? 'ok' : readable > 0 ? 'partial' : 'failed';
+      await this.db.token.update({
+        where: { id: token.id },
+        data: {
+          name: metadata.name,
+          symbol: metadata.symbol,
+          decimals: metadata.decimals,
+          totalSupply: metadata.totalSupply,
+          metadataStatus: status,
+          metadataError: status === 'failed' ? 'No ERC-20 metadata functions returned data' : null,
+          metadataAttempts: attempts,
+          metadataFetchedAt: now,
+          totalSupplyUpdatedAt: metadata.totalSupply !== null ? now : null
+        }
+      });
+      await this.normalizeTransfers(token.id, status === 'failed' ? null : metadata.decimals);
+
+      if (status === 'ok') {
+        counts.enriched++;
+      } else if (status === 'partial') {
+        counts.partial++;
+      } else {
+        counts.failed++;
+      }
+    }
+
+    console.log(`✅ Token metadata: ${counts.enriched} enriched, ${counts.partial} partial, ${counts.failed} failed`);
+    return counts;
+  }
+
+  /**
+   * Re-read `totalSupply` of enriched tokens whose value is older than the refresh interval
+   */
+  async refreshTotalSupplies(limit: number = this.config.batchSize): Promise<number> {
+    const staleBefore = new Date(Date.now() - this.config.supplyRefreshInterval);
+    const tokens = await this.db.token.findMany({
+      where: {
+        metadataStatus: { in: ['ok', 'partial'] },
+        OR: [{ totalSupplyUpdatedAt: null }, { totalSupplyUpdatedAt: { lt: staleBefore } }]
+      },
+      orderBy: { totalSupplyUpdatedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit
+    });
+
+    const results = await Promise.all(tokens.map(token => this.callView(token.address, 'totalSupply')));
+    let refreshed = 0;
+
+    for (const [i, result] of results.entries()) {
+      const token = tokens[i];
+      if ('error' in result) {
+        await this.db.token.update({ where: { id: token.id }, data: { metadataError: `totalSupply: ${result.error}` } });
+        continue;
+      }
+
+      const totalSupply = 'data' in result ? decodeTokenSupply(result.data) : null;
+      await this.db.token.update({
+        where: { id: token.id },
+        data: {
+          // Keep the last known supply when the call stops returning one
+          ...(totalSupply !== null ? { totalSupply } : {}),
+          totalSupplyUpdatedAt: new Date()
+        }
+      });
+      refreshed++;
+    }
+
+    if (refreshed > 0) {
+      console.log(`📈 Refreshed total supply of ${refreshed} tokens`);
+    }
+    return refreshed;
+  }
+
+  /**
+   * One pass of the worker: enrich pending tokens, then refresh stale supplies
+   */
+  async runOnce(): Promise<EnrichmentRunResult> {
+    const counts = await this.enrichPending();
+    const suppliesRefreshed = await this.refreshTotalSupplies();
+    return { ...counts, suppliesRefreshed };
+  }
+
+  /**
+   * Run the worker every `interval` ms until stop() is called. A full batch is followed by the next one right away.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      throw new Error('❌ Token enrichment is already running');
+    }
+
+    this.running = true;
+    console.log(`🚀 Enriching token metadata every ${this.config.interval}ms (batch size: ${this.config.batchSize})`);
+
+    try {
+      while (this.running) {
+        let busy = false;
+        try {
+          const result = await this.runOnce();
+          busy = result.enriched + result.partial + result.failed >= this.config.batchSize ||
+            result.suppliesRefreshed >= this.config.batchSize;
+        } catch (error) {
+          console.error('❌ Token enrichment pass failed:', error);
+        }
+
+        if (this.running && !busy) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, this.config.interval);
+            this.wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          this.wake = undefined;
+        }
+      }
+    } finally {
+      this.running = false;
+      console.log('🛑 Stopped token enrichment');
+    }
+  }
+
+  /**
+   * Stop the worker after the current pass
+   */
+  stop(): void {
+    this.running = false;
+    this.wake?.();
+  }
+
+  /**
+   * Recompute the decimal-adjusted amounts of a token's transfers once its real decimals are known
+   */
+  private async normalizeTransfers(tokenId: number, decimals: number | null): Promise<void> {
+    const updated = decimals === null
+      ? await this.db.$executeRaw`UPDATE "Transfer" SET "amountNormalized" = NULL WHERE "tokenId" = ${tokenId}`
+      : await this.db.$executeRaw`UPDATE "Transfer" SET "amountNormalized" = "amountRaw" / power(10::numeric, ${decimals}::numeric) WHERE "tokenId" = ${tokenId}`;
+    if (updated > 0) {
+      console.log(`🔢 Normalized ${updated} transfer amounts of token ${tokenId}`);
+    }
+  }
+
+  private async callView(address: string, field: MetadataField): Promise<CallResult> {
+    try {
+      const data = await this.batcher.call<string>('eth_call', [
+        { to: address, data: erc20Interface.encodeFunctionData(field) },
+        'latest'
+      ]);
+      return { data };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const rpcError = (error as { error?: ethers.JsonRpcError['error'] } | null)?.error;
+      if (rpcError?.code === 3 || message.toLowerCase().includes('revert')) {
+        return { reverted: true };
+      }
+      return { error: message };
+    }
+  }
+}
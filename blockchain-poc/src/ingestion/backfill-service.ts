@@ -0,0 +1,302 @@
+import { BlockchainFetcher } from './blockchain-fetcher';
+import { BlockPersister } from './block-persister';
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface BackfillOptions {
+  chunkSize: number;
+  concurrency: number;
+  prefetchSize: number;
+}
+
+interface BackfillChunkRange {
+  id: number;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface BackfillProgress {
+  jobId: number;
+  fromBlock: number;
+  toBlock: number;
+  status: string;
+  totalBlocks: number;
+  completedBlocks: number;
+  totalChunks: number;
+  completedChunks: number;
+  failedChunks: number;
+  percentComplete: number;
+  blocksPerSecond: number;
+  etaSeconds?: number;
+}
+
+export class BackfillService {
+  private fetcher: BlockchainFetcher;
+  private persister: BlockPersister;
+  private db: PrismaClient;
+  private isRunning: boolean = false;
+  private stopRequested: boolean = false;
+
+  constructor(rpcUrl: string, db: PrismaClient) {
+    this.db = db;
+    this.fetcher = new BlockchainFetcher(rpcUrl, db);
+    this.persister = new BlockPersister(db);
+  }
+
+  /**
+   * Backfill the inclusive range [fromBlock, toBlock], resuming an unfinished job for the same range
+   */
+  async runBackfill(fromBlock: number, toBlock: number, options?: Partial<BackfillOptions>): Promise<BackfillProgress> {
+    if (this.isRunning) {
+      throw new Error('❌ Backfill is already running');
+    }
+    if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock) || fromBlock < 0) {
+      throw new Error(`❌ Invalid backfill range: ${fromBlock}-${toBlock}`);
+    }
+    if (fromBlock > toBlock) {
+      throw new Error(`❌ Invalid backfill range: ${fromBlock} > ${toBlock}`);
+    }
+
+    const backfillOptions: BackfillOptions = {
+      chunkSize: 100,
+      concurrency: 4,
+      prefetchSize: 10,
+      ...options
+    };
+    // A chunk size of 0 would never advance through the range, and no workers would finish without work
+    for (const [name, value] of Object.entries(backfillOptions)) {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error(`❌ Invalid backfill option ${name}: ${value} (expected a positive integer)`);
+      }
+    }
+
+    this.isRunning = true;
+    this.stopRequested = false;
+
+    try {
+      const jobId = await this.findOrCreateJob(fromBlock, toBlock, backfillOptions);
+      const chunks = await this.getPendingChunks(jobId);
+
+      console.log(`🚀 Backfill job ${jobId}: ${chunks.length} chunks left in blocks ${fromBlock}-${toBlock} (${backfillOptions.concurrency} workers)`);
+
+      await this.db.backfillJob.update({
+        where: { id: jobId },
+        data: { status: 'running', resumedAt: new Date() }
+      });
+
+      const workers = Array.from({ length: backfillOptions.concurrency }, () => this.runWorker(jobId, chunks, backfillOptions.prefetchSize));
+      await Promise.all(workers);
+
+      const progress = await this.getBackfillProgress(jobId);
+      const status = this.stopRequested
+        ? 'paused'
+        : progress.failedChunks > 0 ? 'failed' : 'completed';
+
+      await this.db.backfillJob.update({
+        where: { id: jobId },
+        data: {
+          status,
+          completedAt: status === 'completed' ? new Date() : null
+        }
+      });
+
+      console.log(`✅ Backfill job ${jobId} ${status}: ${progress.completedBlocks}/${progress.totalBlocks} blocks`);
+      return { ...progress, status };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Ask the workers to stop after their current chunk
+   */
+  stopBackfill(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Pull chunks off the shared queue until it is empty or a stop is requested
+   */
+  private async runWorker(jobId: number, queue: BackfillChunkRange[], prefetchSize: number): Promise<void> {
+    while (!this.stopRequested) {
+      const chunk = queue.shift();
+      if (!chunk) {
+        return;
+      }
+
+      try {
+        for (let start = chunk.fromBlock; start <= chunk.toBlock; start += prefetchSize) {
+          const end = Math.min(start + prefetchSize - 1, chunk.toBlock);
+          await this.ingestBlocks(Array.from({ length: end - start + 1 }, (_, i) => start + i));
+        }
+
+        await this.db.backfillChunk.update({
+          where: { id: chunk.id },
+          data: {
+            status: 'completed',
+            attempts: { increment: 1 },
+            lastError: null,
+            completedAt: new Date()
+          }
+        });
+        console.log(`✅ Backfill job ${jobId}: chunk ${chunk.fromBlock}-${chunk.toBlock} completed`);
+      } catch (error) {
+        console.error(`❌ Backfill job ${jobId}: chunk ${chunk.fromBlock}-${chunk.toBlock} failed:`, error);
+        await this.db.backfillChunk.update({
+          where: { id: chunk.id },
+          data: {
+            status: 'failed',
+            attempts: { increment: 1 },
+            lastError: error instanceof Error ? error.message : 'Unknown error'
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Fetch a window of blocks with their receipts, withdrawals and internal transfers concurrently (so the calls go out as JSON-RPC batches),
+   * then store the whole window in one database transaction
+   */
+  private async ingestBlocks(blockNumbers: number[]): Promise<void> {
+    const blocks = await this.fetcher.getBlocks(blockNumbers);
+    const [receipts, withdrawals, internalTransfers] = await Promise.all([
+      Promise.all(blocks.map(block => this.fetcher.getBlockReceipts(block.number, [...block.transactions]))),
+      Promise.all(blocks.map(block => this.fetcher.getBlockWithdrawals(block.number))),
+      Promise.all(blocks.map(block => this.fetcher.getBlockInternalTransfers(block.number, [...block.transactions])))
+    ]);
+
+    await this.persister.persistBlocks(blocks.map((block, i) => ({
+      block,
+      transactions: block.prefetchedTransactions,
+      receipts: receipts[i],
+      withdrawals: withdrawals[i],
+      internalTransfers: internalTransfers[i]
+    })));
+  }
+
+  /**
+   * Reuse the latest unfinished job for the same range, or split the range into chunks for a new one
+   */
+  private async findOrCreateJob(fromBlock: number, toBlock: number, options: BackfillOptions): Promise<number> {
+    const existingJob = await this.db.backfillJob.findFirst({
+      where: {
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        status: { not: 'completed' }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (existingJob) {
+      console.log(`🔁 Resuming backfill job ${existingJob.id}`);
+      await this.db.backfillJob.update({
+        where: { id: existingJob.id },
+        data: { concurrency: options.concurrency }
+      });
+      return existingJob.id;
+    }
+
+    const chunks: Array<{ fromBlock: bigint; toBlock: bigint }> = [];
+    for (let start = fromBlock; start <= toBlock; start += options.chunkSize) {
+      chunks.push({
+        fromBlock: BigInt(start),
+        toBlock: BigInt(Math.min(start + options.chunkSize - 1, toBlock))
+      });
+    }
+
+    const job = await this.db.backfillJob.create({
+      data: {
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        chunkSize: options.chunkSize,
+        concurrency: options.concurrency,
+        chunks: {
+          createMany: { data: chunks }
+        }
+      }
+    });
+
+    return job.id;
+  }
+
+  private async getPendingChunks(jobId: number): Promise<BackfillChunkRange[]> {
+    const chunks = await this.db.backfillChunk.findMany({
+      where: {
+        jobId,
+        status: { not: 'completed' }
+      },
+      orderBy: { fromBlock: 'asc' }
+    });
+
+    return chunks.map(chunk => ({
+      id: chunk.id,
+      fromBlock: Number(chunk.fromBlock),
+      toBlock: Number(chunk.toBlock)
+    }));
+  }
+
+  /**
+   * Get progress, throughput and ETA for a backfill job from its persisted chunks
+   */
+  async getBackfillProgress(jobId: number): Promise<BackfillProgress> {
+    const job = await this.db.backfillJob.findUnique({
+      where: { id: jobId },
+      include: { chunks: true }
+    });
+
+    if (!job) {
+      throw new Error(`❌ Backfill job ${jobId} not found`);
+    }
+
+    const chunkSize = (chunk: { fromBlock: bigint; toBlock: bigint }) => Number(chunk.toBlock - chunk.fromBlock) + 1;
+    const completedChunks = job.chunks.filter(chunk => chunk.status === 'completed');
+    const failedChunks = job.chunks.filter(chunk => chunk.status === 'failed');
+
+    const totalBlocks = Number(job.toBlock - job.fromBlock) + 1;
+    const completedBlocks = completedChunks.reduce((sum, chunk) => sum + chunkSize(chunk), 0);
+
+    // Throughput only counts chunks finished since the job was last (re)started
+    let blocksPerSecond = 0;
+    if (job.resumedAt) {
+      const recentChunks = completedChunks.filter(chunk => chunk.completedAt && chunk.completedAt >= job.resumedAt!);
+      const recentBlocks = recentChunks.reduce((sum, chunk) => sum + chunkSize(chunk), 0);
+      const endTime = job.status === 'running' ? Date.now() : (job.completedAt ?? job.updatedAt).getTime();
+      const elapsedSeconds = (endTime - job.resumedAt.getTime()) / 1000;
+      blocksPerSecond = elapsedSeconds > 0 ? recentBlocks / elapsedSeconds : 0;
+    }
+
+    const remainingBlocks = totalBlocks - completedBlocks;
+
+    return {
+      jobId: job.id,
+      fromBlock: Number(job.fromBlock),
+      toBlock: Number(job.toBlock),
+      status: job.status,
+      totalBlocks,
+      completedBlocks,
+      totalChunks: job.chunks.length,
+      completedChunks: completedChunks.length,
+      failedChunks: failedChunks.length,
+      percentComplete: Math.round((completedBlocks / totalBlocks) * 10000) / 100,
+      blocksPerSecond: Math.round(blocksPerSecond * 100) / 100,
+      etaSeconds: blocksPerSecond > 0 ? Math.ceil(remainingBlocks / blocksPerSecond) : undefined
+    };
+  }
+
+  /**
+   * Get progress for the most recent backfill jobs
+   */
+  async listBackfills(limit: number = 10): Promise<BackfillProgress[]> {
+    const jobs = await this.db.backfillJob.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { id: true }
+    });
+
+    return await Promise.all(jobs.map(job => this.getBackfillProgress(job.id)));
+  }
+}
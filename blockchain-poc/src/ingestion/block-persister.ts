@@ -0,0 +1,259 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TransactionReceiptData, WithdrawalData } from './blockchain-fetcher';
+import { InternalTransferData } from './call-traces';
+import { functionSelector } from '../processing/function-signatures';
+import { ETH_DECIMALS, formatAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface PersisterConfig {
+  transactionTimeout: number;
+}
+
+export interface PersistedEvent {
+  txHash: string;
+  logIndex: number;
+  contract: string;
+  eventName: string;
+  confidence?: string;
+  args: Prisma.InputJsonValue;
+}
+
+export interface PersistedTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: string;
+  // Decimal-adjusted amount, when the token's decimals are known
+  amountNormalized?: string | null;
+  tokenId: number;
+}
+
+export interface BlockBundle {
+  block: ethers.Block;
+  transactions: readonly ethers.TransactionResponse[];
+  receipts: Map<string, TransactionReceiptData>;
+  withdrawals?: WithdrawalData[];
+  internalTransfers?: InternalTransferData[];
+  decoded?: {
+    events: PersistedEvent[];
+    transfers: PersistedTransfer[];
+  };
+}
+
+export interface PersistResult {
+  blocks: number;
+  transactions: number;
+  logs: number;
+  withdrawals: number;
+  internalTransfers: number;
+  events: number;
+  transfers: number;
+  durationMs: number;
+}
+
+/**
+ * Map a block to its database row
+ */
+export function toBlockRow(block: ethers.Block) {
+  return {
+    number: BigInt(block.number),
+    hash: block.hash || '',
+    timestamp: new Date(block.timestamp * 1000),
+    parentHash: block.parentHash,
+    gasUsed: block.gasUsed,
+    gasLimit: block.gasLimit,
+    miner: block.miner,
+    baseFeePerGas: block.baseFeePerGas?.toString() ?? null,
+    blobGasUsed: block.blobGasUsed,
+    excessBlobGas: block.excessBlobGas
+  };
+}
+
+/**
+ * Map a transaction and its receipt to a database row (without the hash)
+ */
+export function toTransactionRow(tx: ethers.TransactionResponse, blockNumber: bigint, receipt: TransactionReceiptData) {
+  const gasPrice = tx.gasPrice?.toString() || '0';
+  return {
+    blockNumber: blockNumber,
+    from: tx.from,
+    to: tx.to || null,
+    value: tx.value.toString(),
+    valueRaw: tx.value.toString(),
+    valueNormalized: formatAmount(tx.value, ETH_DECIMALS),
+    gasUsed: receipt.gasUsed,
+    gasPrice,
+    gasPriceRaw: gasPrice,
+    status: receipt.status,
+    cumulativeGasUsed: receipt.cumulativeGasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice?.toString() || gasPrice,
+    contractAddress: receipt.contractAddress,
+    logsBloom: receipt.logsBloom,
+    type: tx.type,
+    nonce: tx.nonce,
+    input: tx.data,
+    selector: functionSelector(tx.to, tx.data),
+    maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+    accessList: tx.accessList?.map(entry => ({ address: entry.address, storageKeys: entry.storageKeys })),
+    maxFeePerBlobGas: tx.maxFeePerBlobGas?.toString() ?? null,
+    blobVersionedHashes: tx.blobVersionedHashes ?? [],
+    blobGasUsed: receipt.blobGasUsed,
+    blobGasPrice: receipt.blobGasPrice?.toString() ?? null
+  };
+}
+
+/**
+ * Writes blocks with all of their children in one database transaction using bulk inserts,
+ * so a half-written block is never visible.
+ */
+export class BlockPersister {
+  private db: PrismaClient;
+  private config: PersisterConfig;
+
+  constructor(db: PrismaClient, config?: Partial<PersisterConfig>) {
+    this.db = db;
+    this.config = {
+      transactionTimeout: 60000,
+      ...config
+    };
+  }
+
+  /**
+   * Persist a single block with its transactions, receipts, logs, withdrawals, internal transfers and any decoded events and transfers
+   */
+  async persistBlock(bundle: BlockBundle): Promise<PersistResult> {
+    return await this.persistBlocks([bundle]);
+  }
+
+  /**
+   * Persist several blocks atomically. Re-ingesting a block is safe: stored blocks and transactions are
+   * updated with the fetched values, other rows that already exist are kept, and decoded events and transfers
+   * replace the stored ones of the same transactions.
+   */
+  async persistBlocks(bundles: BlockBundle[]): Promise<PersistResult> {
+    const startedAt = Date.now();
+
+    const blockRows = bundles.map(bundle => toBlockRow(bundle.block));
+    const transactionRows = bundles.flatMap(bundle => bundle.transactions.map(tx => {
+      const receipt = bundle.receipts.get(tx.hash);
+      if (!receipt) {
+        throw new Error(`❌ Missing receipt for transaction ${tx.hash} in block ${bundle.block.number}`);
+      }
+      return { hash: tx.hash, ...toTransactionRow(tx, BigInt(bundle.block.number), receipt) };
+    }));
+    const logRows = bundles.flatMap(bundle => bundle.transactions.flatMap(tx =>
+      bundle.receipts.get(tx.hash)!.logs.map(log => ({
+        txHash: tx.hash,
+        blockNumber: BigInt(bundle.block.number),
+        logIndex: log.logIndex,
+        address: log.address,
+        topics: log.topics,
+        data: log.data
+      }))
+    ));
+    const withdrawalRows = bundles.flatMap(bundle => (bundle.withdrawals || []).map(withdrawal => ({
+      index: withdrawal.index,
+      blockNumber: BigInt(bundle.block.number),
+      validatorIndex: withdrawal.validatorIndex,
+      address: withdrawal.address,
+      amount: withdrawal.amount.toString()
+    })));
+    const internalTransferRows = bundles.flatMap(bundle => (bundle.internalTransfers || []).map(transfer => ({
+      txHash: transfer.txHash,
+      blockNumber: BigInt(bundle.block.number),
+      traceAddress: transfer.traceAddress,
+      type: transfer.type,
+      from: transfer.from,
+      to: transfer.to,
+      value: transfer.value.toString()
+    })));
+    const decodedBundles = bundles.filter(bundle => bundle.decoded);
+    const decodedTxHashes = decodedBundles.flatMap(bundle => bundle.transactions.map(tx => tx.hash));
+    const events = decodedBundles.flatMap(bundle => bundle.decoded!.events);
+    const transfers = decodedBundles.flatMap(bundle => bundle.decoded!.transfers);
+
+    await this.db.$transaction(async (tx) => {
+      const storedBlocks = await tx.block.findMany({
+        where: { number: { in: blockRows.map(row => row.number) } },
+        select: { number: true }
+      });
+      const storedTransactions = transactionRows.length > 0
+        ? await tx.transaction.findMany({ where: { hash: { in: transactionRows.map(row => row.hash) } }, select: { hash: true } })
+        : [];
+
+      await tx.block.createMany({ data: blockRows, skipDuplicates: true });
+      if (transactionRows.length > 0) {
+        await tx.transaction.createMany({ data: transactionRows, skipDuplicates: true });
+      }
+      // Rows written by earlier versions lack receipt fields (or guessed them), so re-ingesting corrects them
+      const blockNumbers = new Set(storedBlocks.map(block => block.number));
+      for (const row of blockRows.filter(row => blockNumbers.has(row.number))) {
+        await tx.block.update({ where: { number: row.number }, data: row });
+      }
+      const txHashes = new Set(storedTransactions.map(transaction => transaction.hash));
+      for (const row of transactionRows.filter(row => txHashes.has(row.hash))) {
+        await tx.transaction.update({ where: { hash: row.hash }, data: row });
+      }
+      if (logRows.length > 0) {
+        await tx.log.createMany({ data: logRows, skipDuplicates: true });
+      }
+      if (withdrawalRows.length > 0) {
+        await tx.withdrawal.createMany({ data: withdrawalRows, skipDuplicates: true });
+      }
+      if (internalTransferRows.length > 0) {
+        await tx.internalTransfer.createMany({ data: internalTransferRows, skipDuplicates: true });
+      }
+      await this.persistDerived(tx, decodedTxHashes, events, transfers);
+    }, { timeout: this.config.transactionTimeout });
+
+    const result: PersistResult = {
+      blocks: blockRows.length,
+      transactions: transactionRows.length,
+      logs: logRows.length,
+      withdrawals: withdrawalRows.length,
+      internalTransfers: internalTransferRows.length,
+      events: events.length,
+      transfers: transfers.length,
+      durationMs: Date.now() - startedAt
+    };
+
+    const range = blockRows.length === 1
+      ? `block ${blockRows[0].number}`
+      : `blocks ${blockRows[0]?.number}-${blockRows[blockRows.length - 1]?.number}`;
+    console.log(`✅ Stored ${range}: ${result.transactions} transactions, ${result.logs} logs, ${result.withdrawals} withdrawals in ${result.durationMs}ms`);
+
+    return result;
+  }
+
+  /**
+   * Store the decoded events and transfers of a set of transactions inside the caller's database transaction.
+   * Events replace those at the same log index; transfers replace all transfers of the given transactions.
+   */
+  async persistDerived(
+    tx: Prisma.TransactionClient,
+    txHashes: string[],
+    events: PersistedEvent[],
+    transfers: PersistedTransfer[]
+  ): Promise<void> {
+    if (events.length > 0) {
+      await tx.event.deleteMany({
+        where: { OR: events.map(event => ({ txHash: event.txHash, logIndex: event.logIndex })) }
+      });
+      await tx.event.createMany({ data: events });
+    }
+
+    if (txHashes.length > 0) {
+      await tx.transfer.deleteMany({ where: { txHash: { in: txHashes } } });
+    }
+    if (transfers.length > 0) {
+      await tx.transfer.createMany({
+        data: transfers.map(transfer => ({ ...transfer, amountRaw: transfer.amount }))
+      });
+    }
+  }
+}
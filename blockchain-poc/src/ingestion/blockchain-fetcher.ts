@@ -1,5 +1,17 @@
 import { ethers } from 'ethers';
 import { PrismaClient } from '@prisma/client';
+import { RpcProviderPool, RpcEndpointConfig, EndpointHealth, parseEndpointList } from './provider-pool';
+import { RpcBatcher } from './rpc-batcher';
+import {
+  CallTracerResult,
+  InternalTransferData,
+  TraceBlockEntry,
+  TraceMethod,
+  parseCallTracerResults,
+  parseTraceBlockResults,
+  parseTraceMethod
+} from './call-traces';
+import { toBlockRow, toTransactionRow } from './block-persister';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -10,36 +22,165 @@ interface FetcherConfig {
   maxRetries: number;
   retryDelay: number;
   requestTimeout: number;
+  endpoints?: RpcEndpointConfig[];
+  hedgeDelay: number;
+  requestsPerSecond: number;
+  dailyComputeUnits?: number;
+  batchSize: number;
+  batchInterval: number;
+  // Trace API to read internal ETH transfers with; null disables tracing
+  traceMethod: TraceMethod | null;
+}
+
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: number;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface TransactionReceiptData {
+  transactionHash: string;
+  status: number | null;
+  gasUsed: bigint;
+  cumulativeGasUsed: bigint;
+  effectiveGasPrice: bigint | null;
+  contractAddress: string | null;
+  logsBloom: string;
+  blobGasUsed: bigint | null;
+  blobGasPrice: bigint | null;
+  logs: ReceiptLog[];
+}
+
+// JSON-RPC results as the node sends them: quantities are hex strings, addresses are not checksummed
+export interface RawReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: string;
+  transactionHash: string;
+  blockNumber: string;
+}
+
+export interface RawReceipt {
+  transactionHash: string;
+  // Missing before Byzantium
+  status?: string | null;
+  gasUsed: string;
+  cumulativeGasUsed: string;
+  effectiveGasPrice?: string | null;
+  contractAddress: string | null;
+  logsBloom: string;
+  blobGasUsed?: string | null;
+  blobGasPrice?: string | null;
+  logs?: RawReceiptLog[];
+}
+
+export interface RawWithdrawal {
+  index: string;
+  validatorIndex: string;
+  address: string;
+  amount: string;
+}
+
+// Header fields read from eth_getBlockByNumber that ethers does not expose
+export interface RawBlock {
+  withdrawals?: RawWithdrawal[];
+}
+
+/**
+ * Convert a raw JSON-RPC log, checksumming its address like the logs ethers returns
+ */
+export function parseReceiptLog(log: RawReceiptLog): ReceiptLog {
+  return {
+    address: ethers.getAddress(log.address),
+    topics: log.topics,
+    data: log.data,
+    logIndex: Number(log.logIndex),
+    transactionHash: log.transactionHash,
+    blockNumber: Number(log.blockNumber)
+  };
+}
+
+export interface WithdrawalData {
+  index: bigint;
+  validatorIndex: bigint;
+  address: string;
+  // Amount in gwei
+  amount: bigint;
 }
 
 export class BlockchainFetcher {
-  private provider: ethers.Provider;
+  private pool: RpcProviderPool;
+  private batcher: RpcBatcher;
   private db: PrismaClient;
   private config: FetcherConfig;
   private rpcUrl: string;
+  private supportsBlockReceipts: boolean = true;
 
   constructor(rpcUrl: string, db: PrismaClient, config?: Partial<FetcherConfig>) {
     this.rpcUrl = rpcUrl;
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
     this.db = db;
     this.config = {
       rpcUrl,
       maxRetries: 3,
       retryDelay: 1000,
       requestTimeout: 30000,
+      hedgeDelay: 3000,
+      requestsPerSecond: parseFloat(process.env.ETH_RPC_RPS || '10'),
+      dailyComputeUnits: process.env.ETH_RPC_DAILY_CU ? parseInt(process.env.ETH_RPC_DAILY_CU, 10) : undefined,
+      batchSize: parseInt(process.env.ETH_RPC_BATCH_SIZE || '20', 10),
+      batchInterval: parseInt(process.env.ETH_RPC_BATCH_INTERVAL_MS || '10', 10),
+      traceMethod: parseTraceMethod(process.env.ETH_TRACE_METHOD),
       ...config
     };
+
+    // Primary URL first, then ETH_RPC_ENDPOINTS ("url|weight,...") and the backup URL
+    const endpoints = this.config.endpoints ?? [
+      { url: rpcUrl, weight: 1 },
+      ...parseEndpointList(process.env.ETH_RPC_ENDPOINTS),
+      ...parseEndpointList(process.env.ETH_RPC_URL_BACKUP)
+    ];
+    this.pool = new RpcProviderPool(endpoints, {
+      hedgeDelay: this.config.hedgeDelay,
+      requestsPerSecond: this.config.requestsPerSecond,
+      dailyComputeUnits: this.config.dailyComputeUnits,
+      batchMaxCount: this.config.batchSize,
+      batchStallTime: this.config.batchInterval
+    });
+
+    // Raw JSON-RPC calls (receipts) are batched here and sent through the pool as one request
+    this.batcher = new RpcBatcher(
+      (payloads, computeUnits) => this.pool.execute(provider => provider._send(payloads), { computeUnits }),
+      {
+        maxBatchSize: this.config.batchSize,
+        flushInterval: this.config.batchInterval,
+        retryDelay: this.config.retryDelay
+      }
+    );
   }
 
   /**
-   * Test the connection to the Ethereum network
+   * Test the connection to the Ethereum network, probing the health of every pooled endpoint
    */
-  async testConnection(): Promise<{ success: boolean; blockNumber?: number; error?: string }> {
+  async testConnection(): Promise<{ success: boolean; blockNumber?: number; error?: string; endpoints?: EndpointHealth[] }> {
     try {
-      const blockNumber = await this.provider.getBlockNumber();
+      const health = await this.pool.checkHealth();
+      if (health.headBlock === undefined) {
+        const lastError = health.endpoints.find(endpoint => endpoint.lastError)?.lastError;
+        return {
+          success: false,
+          error: lastError || 'No RPC endpoint responded',
+          endpoints: health.endpoints
+        };
+      }
+
       return {
-        success: true,
-        blockNumber: Number(blockNumber)
+        success: health.healthyEndpoints > 0,
+        blockNumber: health.headBlock,
+        endpoints: health.endpoints
       };
     } catch (error) {
       return {
@@ -49,12 +190,33 @@ export class BlockchainFetcher {
     }
   }
 
+  /**
+   * Get the health of the RPC pool without probing the endpoints
+   */
+  getPoolHealth() {
+    return this.pool.getHealth();
+  }
+
+  /**
+   * Get the request rate and remaining daily compute-unit budget of every endpoint
+   */
+  getRateLimitStatus() {
+    return this.pool.getBudget();
+  }
+
+  /**
+   * Get the JSON-RPC batcher, so other components share the pool's rate limits and budget
+   */
+  getBatcher(): RpcBatcher {
+    return this.batcher;
+  }
+
   /**
    * Get the latest block with retry logic
    */
   async getLatestBlock(): Promise<ethers.Block> {
     return await this.retryOperation(async () => {
-      const block = await this.provider.getBlock('latest', true);
+      const block = await this.pool.execute(provider => provider.getBlock('latest', true), { method: 'eth_getBlockByNumber' });
       if (!block) {
         throw new Error('Failed to fetch latest block');
       }
@@ -62,12 +224,22 @@ export class BlockchainFetcher {
     });
   }
 
+  /**
+   * Get the latest block number with retry logic
+   */
+  async getLatestBlockNumber(): Promise<number> {
+    return await this.retryOperation(async () => {
+      const blockNumber = await this.pool.execute(provider => provider.getBlockNumber(), { method: 'eth_blockNumber' });
+      return Number(blockNumber);
+    });
+  }
+
   /**
    * Get a specific block by number with retry logic
    */
   async getBlock(blockNumber: number): Promise<ethers.Block> {
     return await this.retryOperation(async () => {
-      const block = await this.provider.getBlock(blockNumber, true);
+      const block = await this.pool.execute(provider => provider.getBlock(blockNumber, true), { method: 'eth_getBlockByNumber' });
       if (!block) {
         throw new Error(`Failed to fetch block ${blockNumber}`);
       }
@@ -75,42 +247,153 @@ export class BlockchainFetcher {
     });
   }
 
+  /**
+   * Get several blocks at once; concurrent requests are sent as JSON-RPC batches and only failed blocks are retried
+   */
+  async getBlocks(blockNumbers: number[]): Promise<ethers.Block[]> {
+    return await Promise.all(blockNumbers.map(blockNumber => this.getBlock(blockNumber)));
+  }
+
   /**
    * Get block transactions with retry logic
    */
   async getBlockTransactions(blockNumber: number): Promise<ethers.TransactionResponse[]> {
     return await this.retryOperation(async () => {
-      const block = await this.provider.getBlock(blockNumber, true);
+      const block = await this.pool.execute(provider => provider.getBlock(blockNumber, true), { method: 'eth_getBlockByNumber' });
       if (!block || !block.transactions) {
         throw new Error(`Failed to fetch transactions for block ${blockNumber}`);
       }
-      // Filter out transaction hashes and return only transaction objects
-      return block.transactions.filter(tx => typeof tx === 'object') as ethers.TransactionResponse[];
+      // block.transactions only holds hashes; the full objects are the prefetched ones
+      return block.prefetchedTransactions;
+    });
+  }
+
+  /**
+   * Get receipts for a block keyed by transaction hash.
+   * Uses a single eth_getBlockReceipts call where the node supports it, per-transaction receipts otherwise.
+   */
+  async getBlockReceipts(blockNumber: number, txHashes: string[]): Promise<Map<string, TransactionReceiptData>> {
+    return await this.retryOperation(async () => {
+      let rawReceipts: Array<RawReceipt | null> | null = null;
+
+      if (this.supportsBlockReceipts) {
+        try {
+          rawReceipts = await this.batcher.call<RawReceipt[]>('eth_getBlockReceipts', [ethers.toQuantity(blockNumber)]);
+        } catch (error) {
+          if (!this.isMethodUnsupported(error)) {
+            throw error;
+          }
+          console.warn('⚠️  eth_getBlockReceipts is not supported by this node, falling back to per-transaction receipts');
+          this.supportsBlockReceipts = false;
+        }
+      }
+
+      if (!rawReceipts) {
+        rawReceipts = await Promise.all(
+          txHashes.map(hash => this.batcher.call<RawReceipt | null>('eth_getTransactionReceipt', [hash]))
+        );
+      }
+
+      const receipts = new Map<string, TransactionReceiptData>();
+      for (const rawReceipt of rawReceipts) {
+        if (rawReceipt) {
+          const receipt = this.parseReceipt(rawReceipt);
+          receipts.set(receipt.transactionHash, receipt);
+        }
+      }
+
+      const missing = txHashes.filter(hash => !receipts.has(hash));
+      if (missing.length > 0) {
+        throw new Error(`Missing ${missing.length} receipts for block ${blockNumber}`);
+      }
+
+      return receipts;
+    });
+  }
+
+  /**
+   * Get the beacon-chain withdrawals of a block (empty before Shanghai).
+   * ethers does not expose withdrawals, so the header is fetched raw without transactions.
+   */
+  async getBlockWithdrawals(blockNumber: number): Promise<WithdrawalData[]> {
+    return await this.retryOperation(async () => {
+      const rawBlock = await this.batcher.call<RawBlock | null>('eth_getBlockByNumber', [ethers.toQuantity(blockNumber), false]);
+      if (!rawBlock) {
+        throw new Error(`Failed to fetch withdrawals for block ${blockNumber}`);
+      }
+
+      return (rawBlock.withdrawals || []).map(withdrawal => ({
+        index: BigInt(withdrawal.index),
+        validatorIndex: BigInt(withdrawal.validatorIndex),
+        address: ethers.getAddress(withdrawal.address),
+        amount: BigInt(withdrawal.amount)
+      }));
+    });
+  }
+
+  /**
+   * Get the ETH moved by internal calls of a block's transactions from call traces.
+   * Returns an empty list when tracing is disabled (ETH_TRACE_METHOD unset).
+   */
+  async getBlockInternalTransfers(blockNumber: number, txHashes: string[]): Promise<InternalTransferData[]> {
+    const method = this.config.traceMethod;
+    if (!method || txHashes.length === 0) {
+      return [];
+    }
+
+    return await this.retryOperation(async () => {
+      const blockTag = ethers.toQuantity(blockNumber);
+      if (method === 'debug') {
+        const results = await this.batcher.call<CallTracerResult[] | null>('debug_traceBlockByNumber', [blockTag, { tracer: 'callTracer' }]);
+        return parseCallTracerResults(results || [], txHashes);
+      }
+      const traces = await this.batcher.call<TraceBlockEntry[] | null>('trace_block', [blockTag]);
+      return parseTraceBlockResults(traces || []);
     });
   }
 
+  /**
+   * Convert a raw JSON-RPC receipt into typed receipt data
+   */
+  private parseReceipt(raw: RawReceipt): TransactionReceiptData {
+    return {
+      transactionHash: raw.transactionHash,
+      // Pre-Byzantium receipts carry a state root instead of a status
+      status: raw.status !== undefined && raw.status !== null ? Number(raw.status) : null,
+      gasUsed: BigInt(raw.gasUsed),
+      cumulativeGasUsed: BigInt(raw.cumulativeGasUsed),
+      effectiveGasPrice: raw.effectiveGasPrice ? BigInt(raw.effectiveGasPrice) : null,
+      contractAddress: raw.contractAddress ? ethers.getAddress(raw.contractAddress) : null,
+      logsBloom: raw.logsBloom,
+      blobGasUsed: raw.blobGasUsed ? BigInt(raw.blobGasUsed) : null,
+      blobGasPrice: raw.blobGasPrice ? BigInt(raw.blobGasPrice) : null,
+      logs: (raw.logs || []).map(parseReceiptLog)
+    };
+  }
+
+  private isMethodUnsupported(error: unknown): boolean {
+    // The batcher attaches the JSON-RPC error object to what it rejects with
+    const rpcError = (error as { error?: ethers.JsonRpcError['error'] } | null)?.error;
+    if (rpcError?.code === -32601) {
+      return true;
+    }
+    const message = error instanceof Error ? error.message.toLowerCase() : '';
+    return message.includes('method not found') ||
+      message.includes('not supported') ||
+      message.includes('does not exist') ||
+      message.includes('not available');
+  }
+
   /**
    * Store block data in database
    */
   async storeBlock(block: ethers.Block): Promise<void> {
     try {
+      const { number, ...blockData } = toBlockRow(block);
       await this.db.block.upsert({
-        where: { number: block.number },
-        update: {
-          hash: block.hash || '',
-          timestamp: new Date(block.timestamp * 1000),
-          parentHash: block.parentHash,
-          gasUsed: block.gasUsed,
-          gasLimit: block.gasLimit
-        },
-        create: {
-          number: block.number,
-          hash: block.hash || '',
-          timestamp: new Date(block.timestamp * 1000),
-          parentHash: block.parentHash,
-          gasUsed: block.gasUsed,
-          gasLimit: block.gasLimit
-        }
+        where: { number },
+        update: blockData,
+        create: { number, ...blockData }
       });
       console.log(`✅ Stored block ${block.number}`);
     } catch (error) {
@@ -120,32 +403,34 @@ export class BlockchainFetcher {
   }
 
   /**
-   * Store transaction data in database
+   * Store transaction data with its receipt and raw logs in database
    */
-  async storeTransaction(tx: ethers.TransactionResponse, blockNumber: bigint): Promise<void> {
+  async storeTransaction(tx: ethers.TransactionResponse, blockNumber: bigint, receipt: TransactionReceiptData): Promise<void> {
     try {
+      const transactionData = toTransactionRow(tx, blockNumber, receipt);
+
       await this.db.transaction.upsert({
         where: { hash: tx.hash },
-        update: {
-          blockNumber: blockNumber,
-          from: tx.from,
-          to: tx.to || null,
-          value: tx.value.toString(),
-          gasUsed: tx.gasLimit,
-          gasPrice: tx.gasPrice?.toString() || '0',
-          status: 1 // Assuming successful for now
-        },
+        update: transactionData,
         create: {
           hash: tx.hash,
-          blockNumber: blockNumber,
-          from: tx.from,
-          to: tx.to || null,
-          value: tx.value.toString(),
-          gasUsed: tx.gasLimit,
-          gasPrice: tx.gasPrice?.toString() || '0',
-          status: 1
+          ...transactionData
         }
       });
+
+      if (receipt.logs.length > 0) {
+        await this.db.log.createMany({
+          data: receipt.logs.map(log => ({
+            txHash: tx.hash,
+            blockNumber: blockNumber,
+            logIndex: log.logIndex,
+            address: log.address,
+            topics: log.topics,
+            data: log.data
+          })),
+          skipDuplicates: true
+        });
+      }
       console.log(`✅ Stored transaction ${tx.hash.substring(0, 10)}...`);
     } catch (error) {
       console.error(`❌ Failed to store transaction ${tx.hash}:`, error);
@@ -188,7 +473,7 @@ export class BlockchainFetcher {
    * Get network information
    */
   async getNetworkInfo(): Promise<{ chainId: number; name: string }> {
-    const network = await this.provider.getNetwork();
+    const network = await this.pool.execute(provider => provider.getNetwork(), { method: 'eth_chainId' });
     return {
       chainId: Number(network.chainId),
       name: network.name
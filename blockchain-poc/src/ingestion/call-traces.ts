@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+
+/**
+ * - `debug`: `debug_traceBlockByNumber` with the `callTracer` (Geth, Reth, Nethermind)
+ * - `trace`: `trace_block` (Erigon, Nethermind, OpenEthereum-style trace API)
+ */
+export type TraceMethod = 'debug' | 'trace';
+
+export interface InternalTransferData {
+  txHash: string;
+  // Position of the call in the transaction's call tree, e.g. "0.2.1"
+  traceAddress: string;
+  type: 'call' | 'create' | 'selfdestruct';
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+// One transaction of a `debug_traceBlockByNumber` result
+export interface CallTracerResult {
+  txHash?: string;
+  result?: CallFrame;
+}
+
+// One trace of a `trace_block` result; the action fields depend on the trace type
+export interface TraceBlockEntry {
+  type: string;
+  transactionHash?: string | null;
+  traceAddress?: number[];
+  error?: string;
+  action?: {
+    callType?: string;
+    from?: string;
+    to?: string;
+    value?: string;
+    address?: string;
+    refundAddress?: string;
+    balance?: string;
+    // Block and uncle rewards
+    author?: string;
+    rewardType?: string;
+  };
+  result?: { address?: string } | null;
+}
+
+/**
+ * Parse the trace method setting; an empty value disables tracing
+ */
+export function parseTraceMethod(value: string | undefined): TraceMethod | null {
+  const method = (value || '').trim().toLowerCase();
+  if (!method) {
+    return null;
+  }
+  if (method === 'debug' || method === 'debug_traceblockbynumber') {
+    return 'debug';
+  }
+  if (method === 'trace' || method === 'trace_block') {
+    return 'trace';
+  }
+  throw new Error(`❌ Unknown trace method "${value}" (expected debug or trace)`);
+}
+
+const CALL_FRAME_TYPES: Record<string, InternalTransferData['type']> = {
+  CALL: 'call',
+  CREATE: 'create',
+  CREATE2: 'create',
+  SELFDESTRUCT: 'selfdestruct'
+};
+
+/**
+ * Collect the value-carrying internal calls and every contract creation of `callTracer` results. The
+ * top-level call is the transaction itself and is skipped; reverted frames and everything below them moved no
+ * ETH and deployed nothing. Results without a `txHash` (older clients) are matched to the block's
+ * transactions by position.
+ */
+export function parseCallTracerResults(results: CallTracerResult[], txHashes: string[]): InternalTransferData[] {
+  const transfers: InternalTransferData[] = [];
+
+  const visit = (frame: CallFrame, txHash: string, path: number[]) => {
+    if (frame.error) {
+      return;
+    }
+
+    const type = CALL_FRAME_TYPES[frame.type?.toUpperCase()];
+    const value = frame.value ? BigInt(frame.value) : 0n;
+    // Creations are kept without value too, so the contract registry sees factory deployments
+    if (path.length > 0 && type && (value > 0n || type === 'create') && frame.to) {
+      transfers.push({
+        txHash,
+        traceAddress: path.join('.'),
+        type,
+        from: ethers.getAddress(frame.from),
+        to: ethers.getAddress(frame.to),
+        value
+      });
+    }
+    (frame.calls || []).forEach((call, i) => visit(call, txHash, [...path, i]));
+  };
+
+  results.forEach((entry, i) => {
+    const txHash = entry.txHash ?? txHashes[i];
+    if (entry.result && txHash) {
+      visit(entry.result, txHash, []);
+    }
+  });
+  return transfers;
+}
+
+/**
+ * Collect the value-carrying internal calls and every contract creation of `trace_block` results. Top-level
+ * traces, block rewards, delegate/static calls and everything below a failed trace are skipped.
+ */
+export function parseTraceBlockResults(traces: TraceBlockEntry[]): InternalTransferData[] {
+  const transfers: InternalTransferData[] = [];
+  const failed: Array<{ txHash: string; traceAddress: number[] }> = [];
+
+  for (const trace of traces) {
+    const txHash = trace.transactionHash;
+    const traceAddress = trace.traceAddress || [];
+    if (!txHash) {
+      continue;
+    }
+    const underFailure = failed.some(parent => parent.txHash === txHash &&
+      parent.traceAddress.every((index, i) => traceAddress[i] === index));
+    if (trace.error) {
+      failed.push({ txHash, traceAddress });
+    }
+    if (trace.error || underFailure || traceAddress.length === 0) {
+      continue;
+    }
+
+    const { action = {}, result } = trace;
+    let transfer: Omit<InternalTransferData, 'txHash' | 'traceAddress'> | null = null;
+    if (trace.type === 'call' && action.callType === 'call' && action.from && action.to) {
+      transfer = { type: 'call', from: action.from, to: action.to, value: BigInt(action.value || 0) };
+    } else if (trace.type === 'create' && action.from && result?.address) {
+      transfer = { type: 'create', from: action.from, to: result.address, value: BigInt(action.value || 0) };
+    } else if (trace.type === 'suicide' && action.address && action.refundAddress) {
+      transfer = { type: 'selfdestruct', from: action.address, to: action.refundAddress, value: BigInt(action.balance || 0) };
+    }
+
+    if (transfer && (transfer.value > 0n || transfer.type === 'create')) {
+      transfers.push({
+        ...transfer,
+        txHash,
+        traceAddress: traceAddress.join('.'),
+        from: ethers.getAddress(transfer.from),
+        to: ethers.getAddress(transfer.to)
+      });
+    }
+  }
+  return transfers;
+}
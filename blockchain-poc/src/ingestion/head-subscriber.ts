@@ -0,0 +1,219 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface SubscriberConfig {
+  wsUrl: string;
+  logAddresses: string[];
+  reconnectDelay: number;
+  maxReconnectDelay: number;
+  staleTimeout: number;
+}
+
+export interface SubscriberHandlers {
+  onHead: (blockNumber: number) => void;
+  onLog?: (log: ethers.Log) => void;
+}
+
+export interface SubscriberStatus {
+  state: 'connecting' | 'connected' | 'disconnected' | 'stopped';
+  lastHead?: number;
+  lastHeadAt?: string;
+  reconnects: number;
+  missedBlocks: number;
+  lastError?: string;
+}
+
+/**
+ * Split a comma separated list of contract addresses ("0xabc,0xdef")
+ */
+export function parseAddressList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').map(address => address.trim()).filter(address => ethers.isAddress(address));
+}
+
+/**
+ * Subscribes to `newHeads` (and optionally `logs`) over a WebSocket endpoint.
+ * The socket is re-opened with exponential back-off when it closes, errors or stops announcing heads;
+ * announced heads that skip block numbers are reported as missed so the caller can fill the gap.
+ */
+export class HeadSubscriber {
+  private config: SubscriberConfig;
+  private handlers: SubscriberHandlers;
+  private provider?: ethers.WebSocketProvider;
+  private state: SubscriberStatus['state'] = 'disconnected';
+  private reconnectAttempts: number = 0;
+  private reconnects: number = 0;
+  private missedBlocks: number = 0;
+  private lastHead?: number;
+  private lastHeadAt?: number;
+  private lastError?: string;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Partial<SubscriberConfig> & { wsUrl: string }, handlers: SubscriberHandlers) {
+    this.config = {
+      logAddresses: [],
+      reconnectDelay: 1000,
+      maxReconnectDelay: 60000,
+      staleTimeout: 60000,
+      ...config
+    };
+    this.handlers = handlers;
+  }
+
+  /**
+   * Open the socket and subscribe
+   */
+  start(): void {
+    if (this.state === 'connecting' || this.state === 'connected') {
+      return;
+    }
+    console.log(`🔌 Subscribing to new heads at ${this.config.wsUrl}`);
+    this.connect();
+  }
+
+  /**
+   * Close the socket and stop reconnecting
+   */
+  async stop(): Promise<void> {
+    this.state = 'stopped';
+    this.clearTimers();
+
+    const provider = this.provider;
+    this.provider = undefined;
+    await this.destroyProvider(provider);
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  getStatus(): SubscriberStatus {
+    return {
+      state: this.state,
+      lastHead: this.lastHead,
+      lastHeadAt: this.lastHeadAt ? new Date(this.lastHeadAt).toISOString() : undefined,
+      reconnects: this.reconnects,
+      missedBlocks: this.missedBlocks,
+      lastError: this.lastError
+    };
+  }
+
+  private connect(): void {
+    this.state = 'connecting';
+
+    let provider: ethers.WebSocketProvider;
+    try {
+      provider = new ethers.WebSocketProvider(this.config.wsUrl);
+    } catch (error) {
+      this.scheduleReconnect(error instanceof Error ? error.message : 'Failed to open socket');
+      return;
+    }
+    this.provider = provider;
+
+    // ethers does not reconnect on its own, so watch the underlying socket
+    const socket = provider.websocket as ethers.WebSocketLike & { onclose?: ((...args: unknown[]) => unknown) | null };
+    socket.onerror = (error: unknown) => this.handleDisconnect(provider, `Socket error: ${error instanceof Error ? error.message : 'unknown'}`);
+    socket.onclose = () => this.handleDisconnect(provider, 'Socket closed');
+
+    provider.on('block', (blockNumber: number) => this.handleHead(provider, blockNumber))
+      .catch(error => this.handleDisconnect(provider, `newHeads subscription failed: ${error.message}`));
+
+    if (this.config.logAddresses.length > 0) {
+      provider.on({ address: this.config.logAddresses }, (log: ethers.Log) => this.handlers.onLog?.(log))
+        .catch(error => this.handleDisconnect(provider, `logs subscription failed: ${error.message}`));
+    }
+
+    this.resetStaleTimer(provider);
+  }
+
+  private handleHead(provider: ethers.WebSocketProvider, blockNumber: number): void {
+    if (provider !== this.provider) {
+      return;
+    }
+
+    if (this.state !== 'connected') {
+      console.log(`✅ WebSocket subscription active (head: ${blockNumber})`);
+      this.state = 'connected';
+      this.reconnectAttempts = 0;
+    }
+
+    if (this.lastHead !== undefined && blockNumber > this.lastHead + 1) {
+      const missed = blockNumber - this.lastHead - 1;
+      this.missedBlocks += missed;
+      console.warn(`⚠️  Missed ${missed} heads (${this.lastHead + 1}-${blockNumber - 1}), they will be backfilled`);
+    }
+
+    this.lastHead = this.lastHead === undefined ? blockNumber : Math.max(this.lastHead, blockNumber);
+    this.lastHeadAt = Date.now();
+    this.resetStaleTimer(provider);
+    this.handlers.onHead(blockNumber);
+  }
+
+  private handleDisconnect(provider: ethers.WebSocketProvider, reason: string): void {
+    // Ignore late events from a socket that has already been replaced or stopped
+    if (provider !== this.provider || this.state === 'stopped') {
+      return;
+    }
+
+    this.provider = undefined;
+    this.destroyProvider(provider);
+    this.scheduleReconnect(reason);
+  }
+
+  private scheduleReconnect(reason: string): void {
+    this.clearTimers();
+    this.state = 'disconnected';
+    this.lastError = reason;
+
+    const delay = Math.min(this.config.maxReconnectDelay, this.config.reconnectDelay * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts++;
+    console.warn(`⚠️  WebSocket disconnected (${reason}), falling back to polling and reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnects++;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * A socket can stay open without delivering anything; treat a silent one as dead
+   */
+  private resetStaleTimer(provider: ethers.WebSocketProvider): void {
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+    }
+    this.staleTimer = setTimeout(() => {
+      this.staleTimer = null;
+      this.handleDisconnect(provider, `No new head for ${this.config.staleTimeout}ms`);
+    }, this.config.staleTimeout);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private async destroyProvider(provider: ethers.WebSocketProvider | undefined): Promise<void> {
+    if (!provider) {
+      return;
+    }
+    try {
+      await provider.destroy();
+    } catch (error) {
+      // The socket may already be gone
+    }
+  }
+}
@@ -1,18 +1,50 @@
+import { ethers } from 'ethers';
 import { BlockchainFetcher } from './blockchain-fetcher';
+import { ReorgHandler, ReorgResult } from './reorg-handler';
+import { BlockPersister } from './block-persister';
+import { HeadSubscriber, SubscriberStatus, parseAddressList } from './head-subscriber';
+import { DeadLetterQueue } from '../processing/dead-letter-queue';
 import { PrismaClient } from '@prisma/client';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config({ path: './config.env' });
 
+const FOLLOW_CHECKPOINT = 'follow-head';
+
+interface FollowOptions {
+  pollInterval: number;
+  confirmations: number;
+  startBlock?: number;
+  wsUrl?: string;
+  logAddresses: string[];
+}
+
+interface IngestionCursor {
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: Date;
+}
+
 export class IngestionService {
   private fetcher: BlockchainFetcher;
+  private reorgHandler: ReorgHandler;
+  private persister: BlockPersister;
+  private deadLetters: DeadLetterQueue;
   private db: PrismaClient;
   private isRunning: boolean = false;
+  private isFollowing: boolean = false;
+  private lastError?: string;
+  private wakeFollower?: () => void;
+  private subscriber?: HeadSubscriber;
+  private announcedHead?: number;
 
   constructor(rpcUrl: string, db: PrismaClient) {
     this.db = db;
     this.fetcher = new BlockchainFetcher(rpcUrl, db);
+    this.reorgHandler = new ReorgHandler(db, this.fetcher);
+    this.persister = new BlockPersister(db);
+    this.deadLetters = new DeadLetterQueue(db);
   }
 
   /**
@@ -55,33 +87,235 @@ export class IngestionService {
   }
 
   /**
-   * Process a single block
+   * Follow the chain head, ingesting every block in order from the persisted cursor.
+   * With a WebSocket URL, announced heads wake the follower immediately; polling continues as a fallback.
+   * Runs until stopFollowing() is called.
    */
-  private async processBlock(blockNumber: number): Promise<void> {
+  async startFollowing(options?: Partial<FollowOptions>): Promise<void> {
+    if (this.isRunning) {
+      throw new Error('❌ Ingestion is already running');
+    }
+
+    const followOptions: FollowOptions = {
+      pollInterval: 12000,
+      confirmations: 0,
+      wsUrl: process.env.ETH_WS_URL || undefined,
+      logAddresses: parseAddressList(process.env.ETH_WS_LOG_ADDRESSES),
+      ...options
+    };
+
+    this.isRunning = true;
+    this.isFollowing = true;
+    console.log(`🚀 Following chain head (poll interval: ${followOptions.pollInterval}ms, confirmations: ${followOptions.confirmations})...`);
+
+    if (followOptions.wsUrl) {
+      this.subscriber = new HeadSubscriber(
+        { wsUrl: followOptions.wsUrl, logAddresses: followOptions.logAddresses },
+        {
+          onHead: blockNumber => this.announceHead(blockNumber),
+          onLog: log => this.handleSubscribedLog(log)
+        }
+      );
+      this.subscriber.start();
+    }
+
+    try {
+      while (this.isFollowing) {
+        try {
+          await this.ingestUpToHead(followOptions);
+          this.lastError = undefined;
+        } catch (error) {
+          this.lastError = error instanceof Error ? error.message : 'Unknown error';
+          console.error('❌ Follow iteration failed:', error);
+          await this.recordCheckpointError(this.lastError);
+        }
+
+        // A head announced while ingesting is picked up right away
+        if (this.isFollowing && this.announcedHead === undefined) {
+          await this.waitForNextHead(followOptions.pollInterval);
+        }
+      }
+    } finally {
+      await this.subscriber?.stop();
+      this.announcedHead = undefined;
+      this.isFollowing = false;
+      this.isRunning = false;
+      console.log('🛑 Stopped following chain head');
+    }
+  }
+
+  /**
+   * Stop follow mode after the block currently being processed
+   */
+  stopFollowing(): void {
+    this.isFollowing = false;
+    this.wakeFollower?.();
+  }
+
+  /**
+   * Ingest every block between the cursor and the (confirmed) chain head, advancing the cursor per block
+   */
+  private async ingestUpToHead(options: FollowOptions): Promise<void> {
+    const announcedHead = this.announcedHead;
+    this.announcedHead = undefined;
+    const chainHead = announcedHead ?? await this.fetcher.getLatestBlockNumber();
+    const targetBlock = chainHead - options.confirmations;
+    const cursor = await this.getCursor();
+
+    let nextBlock = cursor ? cursor.blockNumber + 1 : (options.startBlock ?? targetBlock);
+
+    if (nextBlock > targetBlock) {
+      return;
+    }
+
+    console.log(`📊 Chain head: ${chainHead}, ingesting blocks ${nextBlock} to ${targetBlock}`);
+
+    while (this.isFollowing && nextBlock <= targetBlock) {
+      const { block, reorg } = await this.processBlock(nextBlock);
+
+      if (reorg) {
+        // Rewind to the common ancestor and re-ingest the canonical branch from there
+        await this.saveCursor(reorg.commonAncestor);
+        nextBlock = reorg.commonAncestor.blockNumber + 1;
+        continue;
+      }
+
+      await this.saveCursor({
+        blockNumber: Number(block.number),
+        blockHash: block.hash || '',
+        blockTimestamp: new Date(block.timestamp * 1000)
+      });
+      nextBlock++;
+    }
+  }
+
+  /**
+   * Record a head announced by the subscriber and wake the follower.
+   * Blocks missed while the socket was down are filled from the cursor on the next iteration.
+   */
+  private announceHead(blockNumber: number): void {
+    this.announcedHead = Math.max(this.announcedHead ?? 0, blockNumber);
+    this.wakeFollower?.();
+  }
+
+  /**
+   * A subscribed log announces its block; a removed log means that block was reorged away
+   */
+  private handleSubscribedLog(log: ethers.Log): void {
+    if (log.removed) {
+      console.warn(`⚠️  Log ${log.transactionHash}:${log.index} was removed from block ${log.blockNumber}, checking for a reorg`);
+    }
+    this.announceHead(log.blockNumber);
+  }
+
+  /**
+   * Sleep until the poll interval elapses or the follower is woken up
+   */
+  private waitForNextHead(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeFollower = undefined;
+        resolve();
+      }, ms);
+
+      this.wakeFollower = () => {
+        clearTimeout(timer);
+        this.wakeFollower = undefined;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Load the persisted follow cursor
+   */
+  async getCursor(): Promise<IngestionCursor | undefined> {
+    const checkpoint = await this.db.ingestionCheckpoint.findUnique({
+      where: { name: FOLLOW_CHECKPOINT }
+    });
+
+    if (!checkpoint) {
+      return undefined;
+    }
+
+    return {
+      blockNumber: Number(checkpoint.blockNumber),
+      blockHash: checkpoint.blockHash,
+      blockTimestamp: checkpoint.blockTimestamp
+    };
+  }
+
+  /**
+   * Persist the follow cursor after a block has been fully ingested
+   */
+  private async saveCursor(position: IngestionCursor): Promise<void> {
+    const cursor = {
+      blockNumber: BigInt(position.blockNumber),
+      blockHash: position.blockHash,
+      blockTimestamp: position.blockTimestamp,
+      lastError: null
+    };
+
+    await this.db.ingestionCheckpoint.upsert({
+      where: { name: FOLLOW_CHECKPOINT },
+      update: cursor,
+      create: {
+        name: FOLLOW_CHECKPOINT,
+        ...cursor
+      }
+    });
+  }
+
+  /**
+   * Record the last follow error on the checkpoint so other processes can report it
+   */
+  private async recordCheckpointError(message: string): Promise<void> {
+    try {
+      await this.db.ingestionCheckpoint.updateMany({
+        where: { name: FOLLOW_CHECKPOINT },
+        data: { lastError: message }
+      });
+    } catch (error) {
+      console.error('❌ Failed to record checkpoint error:', error);
+    }
+  }
+
+  /**
+   * Ingest a single block again, e.g. one that failed before
+   */
+  async ingestBlock(blockNumber: number): Promise<void> {
+    await this.processBlock(blockNumber);
+  }
+
+  /**
+   * Process a single block, rolling back any orphaned branch it reveals first.
+   * The block is stored atomically with all of its transactions, receipts, logs, withdrawals and internal transfers.
+   * Failures go to the dead-letter queue and are resolved once the block is ingested.
+   */
+  private async processBlock(blockNumber: number): Promise<{ block: ethers.Block; reorg: ReorgResult | null }> {
     try {
       console.log(`🔄 Processing block ${blockNumber}...`);
       
       // Fetch block data
       const block = await this.fetcher.getBlock(blockNumber);
-      await this.fetcher.storeBlock(block);
+      const reorg = await this.reorgHandler.handleBlock(block);
 
-      // Fetch and store transactions
-      const transactions = await this.fetcher.getBlockTransactions(blockNumber);
-      let transactionCount = 0;
-      
-      for (const tx of transactions) {
-        try {
-          await this.fetcher.storeTransaction(tx, BigInt(blockNumber));
-          transactionCount++;
-        } catch (error) {
-          console.error(`❌ Failed to store transaction ${tx.hash}:`, error);
-          // Continue with next transaction
-        }
-      }
+      // Fetch receipts and store everything in one database transaction
+      const transactions = block.prefetchedTransactions;
+      const txHashes = transactions.map(tx => tx.hash);
+      const [receipts, withdrawals, internalTransfers] = await Promise.all([
+        this.fetcher.getBlockReceipts(blockNumber, txHashes),
+        this.fetcher.getBlockWithdrawals(blockNumber),
+        this.fetcher.getBlockInternalTransfers(blockNumber, txHashes)
+      ]);
+      await this.persister.persistBlock({ block, transactions, receipts, withdrawals, internalTransfers });
+      await this.deadLetters.resolve('ingest', String(blockNumber));
 
-      console.log(`✅ Successfully processed block ${blockNumber} with ${transactionCount}/${transactions.length} transactions`);
+      return { block, reorg };
     } catch (error) {
       console.error(`❌ Failed to process block ${blockNumber}:`, error);
+      await this.deadLetters.record({ stage: 'ingest', key: String(blockNumber), blockNumber, error, payload: { blockNumber } })
+        .catch(recordError => console.warn('⚠️  Failed to record the failure:', recordError));
       throw error;
     }
   }
@@ -91,23 +325,46 @@ export class IngestionService {
    */
   async getIngestionStatus(): Promise<{ 
     isRunning: boolean; 
+    isFollowing: boolean;
     lastProcessedBlock?: number;
     totalBlocks: number;
     totalTransactions: number;
+    cursor?: IngestionCursor;
+    chainHead?: number;
+    lag?: number;
+    lastError?: string;
+    subscription?: SubscriberStatus;
   }> {
-    const [lastBlock, blockCount, transactionCount] = await Promise.all([
+    const [lastBlock, blockCount, transactionCount, checkpoint, connection] = await Promise.all([
       this.db.block.findFirst({
         orderBy: { number: 'desc' }
       }),
       this.db.block.count(),
-      this.db.transaction.count()
+      this.db.transaction.count(),
+      this.db.ingestionCheckpoint.findUnique({
+        where: { name: FOLLOW_CHECKPOINT }
+      }),
+      this.fetcher.testConnection()
     ]);
 
+    const cursor = checkpoint ? {
+      blockNumber: Number(checkpoint.blockNumber),
+      blockHash: checkpoint.blockHash,
+      blockTimestamp: checkpoint.blockTimestamp
+    } : undefined;
+    const chainHead = connection.success ? connection.blockNumber : undefined;
+
     return {
       isRunning: this.isRunning,
+      isFollowing: this.isFollowing,
       lastProcessedBlock: lastBlock ? Number(lastBlock.number) : undefined,
       totalBlocks: blockCount,
-      totalTransactions: transactionCount
+      totalTransactions: transactionCount,
+      cursor,
+      chainHead,
+      lag: cursor && chainHead !== undefined ? Math.max(chainHead - cursor.blockNumber, 0) : undefined,
+      lastError: this.lastError ?? checkpoint?.lastError ?? undefined,
+      subscription: this.subscriber?.getStatus()
     };
   }
 
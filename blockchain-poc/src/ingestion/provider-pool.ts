@@ -0,0 +1,446 @@
+import { ethers } from 'ethers';
+import { RateLimiter, RateLimitStatus, getComputeUnits, isRateLimitError, getRetryAfterMs } from './rate-limiter';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface RpcEndpointConfig {
+  url: string;
+  weight?: number;
+  requestsPerSecond?: number;
+  dailyComputeUnits?: number;
+}
+
+interface PoolConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+  maxHeadLag: number;
+  hedgeDelay: number;
+  latencyAlpha: number;
+  requestsPerSecond: number;
+  dailyComputeUnits?: number;
+  batchMaxCount: number;
+  batchStallTime: number;
+}
+
+interface ExecuteOptions {
+  hedge?: boolean;
+  method?: string;
+  computeUnits?: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface EndpointState {
+  url: string;
+  weight: number;
+  provider: ethers.JsonRpcProvider;
+  limiter: RateLimiter;
+  circuit: CircuitState;
+  openedAt: number;
+  consecutiveFailures: number;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  errors: number;
+  headBlock?: number;
+  lastError?: string;
+}
+
+export interface EndpointHealth {
+  url: string;
+  weight: number;
+  circuit: CircuitState;
+  healthy: boolean;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  errors: number;
+  headBlock?: number;
+  headLag?: number;
+  lastError?: string;
+  rateLimit: RateLimitStatus;
+}
+
+export interface PoolHealth {
+  healthyEndpoints: number;
+  totalEndpoints: number;
+  headBlock?: number;
+  endpoints: EndpointHealth[];
+}
+
+// Limiters are shared per URL so every pool in the process draws from the same budget
+const sharedLimiters = new Map<string, RateLimiter>();
+
+function getSharedLimiter(url: string, requestsPerSecond: number, dailyComputeUnits?: number): RateLimiter {
+  let limiter = sharedLimiters.get(url);
+  if (!limiter) {
+    limiter = new RateLimiter({ requestsPerSecond, burst: Math.max(1, Math.ceil(requestsPerSecond)), dailyComputeUnits });
+    sharedLimiters.set(url, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Parse an endpoint list such as "https://a.example|3|25|3000000,https://b.example".
+ * Fields after the url are weight (default 1), requests per second and daily compute units.
+ */
+export function parseEndpointList(value: string | undefined): RpcEndpointConfig[] {
+  if (!value) {
+    return [];
+  }
+
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [url, weight, requestsPerSecond, dailyComputeUnits] = entry.split('|');
+      return {
+        url: url.trim(),
+        weight: weight ? parseFloat(weight) : 1,
+        requestsPerSecond: requestsPerSecond ? parseFloat(requestsPerSecond) : undefined,
+        dailyComputeUnits: dailyComputeUnits ? parseInt(dailyComputeUnits, 10) : undefined
+      };
+    });
+}
+
+export class RpcProviderPool {
+  private endpoints: EndpointState[];
+  private config: PoolConfig;
+
+  constructor(endpoints: RpcEndpointConfig[], config?: Partial<PoolConfig>) {
+    if (endpoints.length === 0) {
+      throw new Error('❌ At least one RPC endpoint is required');
+    }
+
+    this.config = {
+      failureThreshold: 3,
+      cooldownMs: 30000,
+      maxHeadLag: 5,
+      hedgeDelay: 0,
+      latencyAlpha: 0.3,
+      requestsPerSecond: 10,
+      batchMaxCount: 20,
+      batchStallTime: 10,
+      ...config
+    };
+
+    // Deduplicate by URL, keeping the first weight given
+    const uniqueEndpoints = endpoints.filter((endpoint, index) =>
+      endpoints.findIndex(other => other.url === endpoint.url) === index
+    );
+
+    this.endpoints = uniqueEndpoints.map(endpoint => ({
+      url: endpoint.url,
+      weight: endpoint.weight ?? 1,
+      provider: this.createProvider(endpoint.url),
+      limiter: getSharedLimiter(
+        endpoint.url,
+        endpoint.requestsPerSecond ?? this.config.requestsPerSecond,
+        endpoint.dailyComputeUnits ?? this.config.dailyComputeUnits
+      ),
+      circuit: 'closed',
+      openedAt: 0,
+      consecutiveFailures: 0,
+      latencyMs: 0,
+      errorRate: 0,
+      requests: 0,
+      errors: 0
+    }));
+  }
+
+  /**
+   * Run an operation against the best available endpoint, failing over to the others on error.
+   * With hedging, a second endpoint is raced once the first has not answered within hedgeDelay.
+   * The method name (or an explicit cost for batches) prices the request against each endpoint's compute-unit budget.
+   */
+  async execute<T>(operation: (provider: ethers.JsonRpcProvider) => Promise<T>, options?: ExecuteOptions): Promise<T> {
+    const computeUnits = options?.computeUnits ?? getComputeUnits(options?.method);
+    const candidates = this.selectEndpoints(computeUnits);
+    const hedge = (options?.hedge ?? true) && this.config.hedgeDelay > 0;
+    let lastError: unknown = new Error('No RPC endpoints available');
+
+    if (candidates.length === 0) {
+      throw new Error('❌ Daily RPC compute-unit budget exhausted on every endpoint');
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      const primary = candidates[i];
+      const backup = hedge ? candidates[i + 1] : undefined;
+
+      try {
+        if (backup) {
+          i++;
+          return await this.runHedged(primary, backup, operation, computeUnits);
+        }
+        return await this.runOn(primary, operation, computeUnits);
+      } catch (error) {
+        lastError = error;
+        if (i + 1 < candidates.length) {
+          console.warn(`⚠️  RPC endpoint ${primary.url} failed, failing over:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Probe every endpoint for its head block, updating latency, error and head-lag statistics
+   */
+  async checkHealth(): Promise<PoolHealth> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      try {
+        const blockNumber = await this.runOn(endpoint, provider => provider.getBlockNumber(), getComputeUnits('eth_blockNumber'));
+        endpoint.headBlock = Number(blockNumber);
+      } catch (error) {
+        // Already recorded against the endpoint
+      }
+    }));
+
+    return this.getHealth();
+  }
+
+  /**
+   * Get the current health of the pool without probing the endpoints
+   */
+  getHealth(): PoolHealth {
+    const headBlock = this.getBestHead();
+    const endpoints = this.endpoints.map(endpoint => {
+      const headLag = headBlock !== undefined && endpoint.headBlock !== undefined
+        ? headBlock - endpoint.headBlock
+        : undefined;
+
+      return {
+        url: endpoint.url,
+        weight: endpoint.weight,
+        circuit: endpoint.circuit,
+        healthy: this.isHealthy(endpoint, headBlock),
+        latencyMs: Math.round(endpoint.latencyMs),
+        errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+        requests: endpoint.requests,
+        errors: endpoint.errors,
+        headBlock: endpoint.headBlock,
+        headLag,
+        lastError: endpoint.lastError,
+        rateLimit: endpoint.limiter.getStatus()
+      };
+    });
+
+    return {
+      healthyEndpoints: endpoints.filter(endpoint => endpoint.healthy).length,
+      totalEndpoints: endpoints.length,
+      headBlock,
+      endpoints
+    };
+  }
+
+  /**
+   * Get the request rate and remaining daily compute units of every endpoint
+   */
+  getBudget(): { remainingComputeUnits?: number; endpoints: Array<{ url: string } & RateLimitStatus> } {
+    const endpoints = this.endpoints.map(endpoint => ({ url: endpoint.url, ...endpoint.limiter.getStatus() }));
+    const unlimited = endpoints.some(endpoint => endpoint.remainingComputeUnits === undefined);
+
+    return {
+      remainingComputeUnits: unlimited
+        ? undefined
+        : endpoints.reduce((sum, endpoint) => sum + (endpoint.remainingComputeUnits ?? 0), 0),
+      endpoints
+    };
+  }
+
+  getUrls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  /**
+   * Order endpoints for a request: a weighted random pick among healthy ones first, then the rest by score.
+   * Endpoints without budget left for the request are skipped; throttled ones are only used as a last resort.
+   * When every circuit is open the pool fails open and tries all endpoints.
+   */
+  private selectEndpoints(computeUnits: number): EndpointState[] {
+    const now = Date.now();
+    const headBlock = this.getBestHead();
+
+    for (const endpoint of this.endpoints) {
+      if (endpoint.circuit === 'open' && now - endpoint.openedAt >= this.config.cooldownMs) {
+        endpoint.circuit = 'half-open';
+      }
+    }
+
+    const withBudget = this.endpoints.filter(endpoint => endpoint.limiter.hasBudget(computeUnits));
+    const available = withBudget.filter(endpoint => endpoint.circuit !== 'open');
+    if (available.length === 0) {
+      return [...withBudget].sort((a, b) => a.openedAt - b.openedAt);
+    }
+
+    const healthy = available.filter(endpoint => this.isHealthy(endpoint, headBlock));
+    const pool = healthy.length > 0 ? healthy : available;
+    const rest = available.filter(endpoint => !pool.includes(endpoint));
+
+    const byScore = (a: EndpointState, b: EndpointState) => this.score(b) - this.score(a);
+    const first = this.weightedPick(pool);
+
+    return [
+      first,
+      ...pool.filter(endpoint => endpoint !== first).sort(byScore),
+      ...rest.sort(byScore)
+    ];
+  }
+
+  private weightedPick(endpoints: EndpointState[]): EndpointState {
+    const totalScore = endpoints.reduce((sum, endpoint) => sum + this.score(endpoint), 0);
+    let target = Math.random() * totalScore;
+
+    for (const endpoint of endpoints) {
+      target -= this.score(endpoint);
+      if (target <= 0) {
+        return endpoint;
+      }
+    }
+
+    return endpoints[endpoints.length - 1];
+  }
+
+  /**
+   * Higher is better: weight scaled down by latency and recent error rate
+   */
+  private score(endpoint: EndpointState): number {
+    return endpoint.weight * (1 - endpoint.errorRate * 0.9) / (1 + endpoint.latencyMs / 1000);
+  }
+
+  private isHealthy(endpoint: EndpointState, headBlock?: number): boolean {
+    if (endpoint.circuit === 'open' || endpoint.limiter.isThrottled()) {
+      return false;
+    }
+    if (headBlock !== undefined && endpoint.headBlock !== undefined) {
+      return headBlock - endpoint.headBlock <= this.config.maxHeadLag;
+    }
+    return true;
+  }
+
+  private getBestHead(): number | undefined {
+    const heads = this.endpoints
+      .map(endpoint => endpoint.headBlock)
+      .filter((head): head is number => head !== undefined);
+    return heads.length > 0 ? Math.max(...heads) : undefined;
+  }
+
+  private runHedged<T>(
+    primary: EndpointState,
+    backup: EndpointState,
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    computeUnits: number
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pending = 0;
+      let backupStarted = false;
+
+      const attempt = (endpoint: EndpointState) => {
+        pending++;
+        this.runOn(endpoint, operation, computeUnits).then(result => {
+          if (!settled) {
+            settled = true;
+            clearTimeout(timer);
+            resolve(result);
+          }
+        }, error => {
+          pending--;
+          if (settled) {
+            return;
+          }
+          if (!backupStarted) {
+            startBackup();
+          } else if (pending === 0) {
+            settled = true;
+            reject(error);
+          }
+        });
+      };
+
+      const startBackup = () => {
+        if (backupStarted || settled) {
+          return;
+        }
+        backupStarted = true;
+        clearTimeout(timer);
+        attempt(backup);
+      };
+
+      const timer = setTimeout(startBackup, this.config.hedgeDelay);
+      attempt(primary);
+    });
+  }
+
+  private async runOn<T>(
+    endpoint: EndpointState,
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    computeUnits: number
+  ): Promise<T> {
+    await endpoint.limiter.acquire(computeUnits);
+    const startedAt = Date.now();
+    endpoint.requests++;
+
+    try {
+      const result = await operation(endpoint.provider);
+      endpoint.limiter.recordSuccess();
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        // Back-pressure rather than a fault: slow down without tripping the circuit breaker
+        endpoint.errors++;
+        endpoint.lastError = error instanceof Error ? error.message : String(error);
+        endpoint.limiter.recordThrottle(getRetryAfterMs(error));
+        console.warn(`⚠️  RPC endpoint ${endpoint.url} is rate limiting requests, backing off`);
+      } else {
+        this.recordFailure(endpoint, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build a provider whose 429 responses surface immediately instead of being retried inside ethers.
+   * Concurrent typed calls (getBlock etc.) are combined by ethers' own JSON-RPC batching.
+   */
+  private createProvider(url: string): ethers.JsonRpcProvider {
+    const request = new ethers.FetchRequest(url);
+    request.retryFunc = async () => false;
+    return new ethers.JsonRpcProvider(request, undefined, {
+      batchMaxCount: this.config.batchMaxCount,
+      batchStallTime: this.config.batchStallTime
+    });
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    const alpha = this.config.latencyAlpha;
+    endpoint.latencyMs = endpoint.latencyMs === 0 ? latencyMs : alpha * latencyMs + (1 - alpha) * endpoint.latencyMs;
+    endpoint.errorRate = (1 - alpha) * endpoint.errorRate;
+    endpoint.consecutiveFailures = 0;
+
+    if (endpoint.circuit === 'half-open') {
+      console.log(`✅ RPC endpoint ${endpoint.url} recovered`);
+      endpoint.circuit = 'closed';
+    }
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown): void {
+    const alpha = this.config.latencyAlpha;
+    endpoint.errors++;
+    endpoint.errorRate = alpha + (1 - alpha) * endpoint.errorRate;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+
+    if (endpoint.circuit === 'half-open' || endpoint.consecutiveFailures >= this.config.failureThreshold) {
+      if (endpoint.circuit !== 'open') {
+        console.warn(`⚠️  Taking RPC endpoint ${endpoint.url} out of rotation after ${endpoint.consecutiveFailures} failures`);
+      }
+      endpoint.circuit = 'open';
+      endpoint.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface RateLimitConfig {
+  requestsPerSecond: number;
+  burst: number;
+  dailyComputeUnits?: number;
+  minRequestsPerSecond: number;
+  maxBackoffMs: number;
+}
+
+export interface RateLimitStatus {
+  requestsPerSecond: number;
+  currentRequestsPerSecond: number;
+  dailyComputeUnits?: number;
+  usedComputeUnits: number;
+  remainingComputeUnits?: number;
+  requestsToday: number;
+  throttledCount: number;
+  throttledUntil?: string;
+  resetsAt: string;
+}
+
+/**
+ * Approximate compute-unit cost per JSON-RPC method, following the free-tier pricing of the hosted providers
+ */
+export const METHOD_COMPUTE_UNITS: Record<string, number> = {
+  eth_chainId: 0,
+  net_version: 0,
+  eth_blockNumber: 10,
+  eth_getBlockByNumber: 16,
+  eth_getBlockByHash: 16,
+  eth_getTransactionByHash: 17,
+  eth_getTransactionReceipt: 15,
+  eth_getBlockReceipts: 500,
+  eth_getBalance: 19,
+  eth_getCode: 19,
+  eth_getStorageAt: 17,
+  eth_call: 26,
+  eth_getLogs: 75,
+  debug_traceBlockByNumber: 500,
+  trace_block: 500
+};
+
+const DEFAULT_COMPUTE_UNITS = 20;
+
+export function getComputeUnits(method?: string): number {
+  if (!method) {
+    return DEFAULT_COMPUTE_UNITS;
+  }
+  return METHOD_COMPUTE_UNITS[method] ?? DEFAULT_COMPUTE_UNITS;
+}
+
+// Fields of ethers' SERVER_ERROR (HTTP) and of the batcher's JSON-RPC errors that tell a throttle apart
+interface RpcFailure {
+  response?: { statusCode?: number; headers?: Record<string, string> };
+  info?: { responseStatus?: string };
+  error?: { code?: number };
+}
+
+const asRpcFailure = (error: unknown): RpcFailure => typeof error === 'object' && error !== null ? error as RpcFailure : {};
+
+// JSON-RPC "limit exceeded" (EIP-1474) and "rate limited" codes
+const RATE_LIMIT_RPC_CODES = [-32005, -32029];
+
+/**
+ * Recognise HTTP 429 responses, JSON-RPC rate-limit codes and explicit rate-limit messages
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const failure = asRpcFailure(error);
+  if (failure.response?.statusCode === 429 || failure.info?.responseStatus?.startsWith('429 ')) {
+    return true;
+  }
+  if (failure.error?.code !== undefined && RATE_LIMIT_RPC_CODES.includes(failure.error.code)) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return message.includes('too many requests') || message.includes('rate limit');
+}
+
+/**
+ * Read a Retry-After header (delta seconds or HTTP date) from a throttled response, in milliseconds
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfter = asRpcFailure(error).response?.headers?.['retry-after'];
+  if (typeof retryAfter !== 'string' || retryAfter.trim() === '') {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(retryAfter.trim())) {
+    return parseInt(retryAfter, 10) * 1000;
+  }
+
+  const retryAt = Date.parse(retryAfter);
+  return isNaN(retryAt) ? undefined : Math.max(0, retryAt - Date.now());
+}
+
+/**
+ * Token bucket for one RPC endpoint with a daily compute-unit budget.
+ * A 429 halves the request rate and pauses the endpoint; successes grow the rate back to the configured one.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private tokens: number;
+  private lastRefill: number;
+  private currentRps: number;
+  private throttledUntil: number = 0;
+  private consecutiveThrottles: number = 0;
+  private throttledCount: number = 0;
+  private dayStart: number;
+  private usedComputeUnits: number = 0;
+  private requestsToday: number = 0;
+
+  constructor(config?: Partial<RateLimitConfig>) {
+    this.config = {
+      requestsPerSecond: 10,
+      burst: 10,
+      minRequestsPerSecond: 0.5,
+      maxBackoffMs: 60000,
+      ...config
+    };
+    this.tokens = this.config.burst;
+    this.lastRefill = Date.now();
+    this.currentRps = this.config.requestsPerSecond;
+    this.dayStart = this.getDayStart(Date.now());
+  }
+
+  /**
+   * Whether today's budget still covers a request of the given cost
+   */
+  hasBudget(computeUnits: number): boolean {
+    this.resetDayIfNeeded();
+    if (this.config.dailyComputeUnits === undefined) {
+      return true;
+    }
+    return this.usedComputeUnits + computeUnits <= this.config.dailyComputeUnits;
+  }
+
+  isThrottled(): boolean {
+    return Date.now() < this.throttledUntil;
+  }
+
+  /**
+   * Wait for a token, then charge the request against the daily budget
+   */
+  async acquire(computeUnits: number): Promise<void> {
+    while (true) {
+      this.resetDayIfNeeded();
+      const now = Date.now();
+
+      if (now < this.throttledUntil) {
+        await this.sleep(this.throttledUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        this.usedComputeUnits += computeUnits;
+        this.requestsToday++;
+        return;
+      }
+
+      await this.sleep(Math.ceil(((1 - this.tokens) / this.getEffectiveRps()) * 1000));
+    }
+  }
+
+  /**
+   * Treat a 429 as back-pressure: halve the rate and pause until Retry-After (or an exponential backoff)
+   */
+  recordThrottle(retryAfterMs?: number): void {
+    this.consecutiveThrottles++;
+    this.throttledCount++;
+    this.currentRps = Math.max(this.config.minRequestsPerSecond, this.currentRps / 2);
+    this.tokens = 0;
+
+    const backoffMs = retryAfterMs ?? Math.min(this.config.maxBackoffMs, 1000 * Math.pow(2, this.consecutiveThrottles - 1));
+    this.throttledUntil = Math.max(this.throttledUntil, Date.now() + backoffMs);
+  }
+
+  recordSuccess(): void {
+    this.consecutiveThrottles = 0;
+    if (this.currentRps < this.config.requestsPerSecond) {
+      this.currentRps = Math.min(this.config.requestsPerSecond, this.currentRps + 0.1);
+    }
+  }
+
+  getStatus(): RateLimitStatus {
+    this.resetDayIfNeeded();
+    const { dailyComputeUnits } = this.config;
+
+    return {
+      requestsPerSecond: this.config.requestsPerSecond,
+      currentRequestsPerSecond: Math.round(this.getEffectiveRps() * 100) / 100,
+      dailyComputeUnits,
+      usedComputeUnits: this.usedComputeUnits,
+      remainingComputeUnits: dailyComputeUnits !== undefined ? Math.max(0, dailyComputeUnits - this.usedComputeUnits) : undefined,
+      requestsToday: this.requestsToday,
+      throttledCount: this.throttledCount,
+      throttledUntil: this.isThrottled() ? new Date(this.throttledUntil).toISOString() : undefined,
+      resetsAt: new Date(this.dayStart + 86400000).toISOString()
+    };
+  }
+
+  /**
+   * The adaptive rate, further capped so the remaining budget lasts until the daily reset
+   */
+  private getEffectiveRps(): number {
+    const { dailyComputeUnits } = this.config;
+    if (dailyComputeUnits === undefined) {
+      return this.currentRps;
+    }
+
+    const remaining = Math.max(0, dailyComputeUnits - this.usedComputeUnits);
+    const secondsToReset = Math.max(1, (this.dayStart + 86400000 - Date.now()) / 1000);
+    const unitsPerRequest = this.requestsToday > 0 ? this.usedComputeUnits / this.requestsToday : DEFAULT_COMPUTE_UNITS;
+    const budgetRps = remaining / Math.max(1, unitsPerRequest) / secondsToReset;
+
+    return Math.max(this.config.minRequestsPerSecond, Math.min(this.currentRps, budgetRps));
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsedSeconds * this.getEffectiveRps());
+    this.lastRefill = now;
+  }
+
+  private resetDayIfNeeded(): void {
+    const dayStart = this.getDayStart(Date.now());
+    if (dayStart !== this.dayStart) {
+      this.dayStart = dayStart;
+      this.usedComputeUnits = 0;
+      this.requestsToday = 0;
+    }
+  }
+
+  private getDayStart(timestamp: number): number {
+    return timestamp - (timestamp % 86400000);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
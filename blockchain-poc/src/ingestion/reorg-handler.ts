@@ -0,0 +1,180 @@
+import { ethers } from 'ethers';
+import { PrismaClient } from '@prisma/client';
+import { BlockchainFetcher } from './blockchain-fetcher';
+import { revertNftTransfers } from '../processing/nft-tracker';
+import { revertAllowanceChanges } from '../processing/allowance-tracker';
+import { revertBalanceEntries } from '../processing/balance-ledger';
+import { revertDexEvents } from '../processing/dex-tracker';
+import { revertTokenPrices } from '../processing/price-oracle';
+import { revertLiquidityPositions } from '../processing/position-tracker';
+import { revertProxyUpgrades } from '../processing/proxy-resolver';
+import { revertContracts } from '../processing/contract-registry';
+import { revertFailedItems } from '../processing/dead-letter-queue';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface ReorgHandlerConfig {
+  maxDepth: number;
+}
+
+interface StoredBlock {
+  number: bigint;
+  hash: string;
+  timestamp: Date;
+}
+
+export interface ReorgResult {
+  detectedAtBlock: number;
+  depth: number;
+  commonAncestor: {
+    blockNumber: number;
+    blockHash: string;
+    blockTimestamp: Date;
+  };
+  orphanedHashes: string[];
+  canonicalHashes: string[];
+}
+
+export class ReorgHandler {
+  private db: PrismaClient;
+  private fetcher: BlockchainFetcher;
+  private config: ReorgHandlerConfig;
+
+  constructor(db: PrismaClient, fetcher: BlockchainFetcher, config?: Partial<ReorgHandlerConfig>) {
+    this.db = db;
+    this.fetcher = fetcher;
+    this.config = {
+      maxDepth: 64,
+      ...config
+    };
+  }
+
+  /**
+   * Check an incoming canonical block against stored data and roll back any orphaned branch.
+   * Returns null when the stored chain is consistent with the block.
+   */
+  async handleBlock(block: ethers.Block): Promise<ReorgResult | null> {
+    const blockNumber = Number(block.number);
+    const orphaned: StoredBlock[] = [];
+    const canonicalHashes: string[] = [];
+
+    // A stored block at the same height with a different hash is on the old branch
+    const storedAtHeight = await this.findStoredBlock(blockNumber);
+    if (storedAtHeight && storedAtHeight.hash !== block.hash) {
+      orphaned.push(storedAtHeight);
+      canonicalHashes.push(block.hash || '');
+    }
+
+    // Walk back until the stored parent matches the canonical parent hash
+    let child: ethers.Block = block;
+    let ancestorNumber = blockNumber - 1;
+    let ancestor: StoredBlock | null = null;
+
+    while (ancestorNumber >= 0) {
+      const stored = await this.findStoredBlock(ancestorNumber);
+      if (!stored || stored.hash === child.parentHash) {
+        ancestor = stored;
+        break;
+      }
+
+      if (orphaned.length >= this.config.maxDepth) {
+        throw new Error(`❌ Reorg at block ${blockNumber} is deeper than ${this.config.maxDepth} blocks`);
+      }
+
+      orphaned.push(stored);
+      child = await this.fetcher.getBlock(ancestorNumber);
+      canonicalHashes.push(child.hash || '');
+      ancestorNumber--;
+    }
+
+    if (orphaned.length === 0) {
+      return null;
+    }
+
+    const commonAncestor = ancestor
+      ? { blockNumber: Number(ancestor.number), blockHash: ancestor.hash, blockTimestamp: ancestor.timestamp }
+      : await this.getCanonicalAncestor(ancestorNumber, child.parentHash);
+
+    const result: ReorgResult = {
+      detectedAtBlock: blockNumber,
+      depth: orphaned.length,
+      commonAncestor,
+      orphanedHashes: orphaned.map(stored => stored.hash),
+      canonicalHashes
+    };
+
+    console.warn(`⚠️  Reorg detected at block ${blockNumber}: depth ${result.depth}, common ancestor ${commonAncestor.blockNumber}`);
+    await this.rollback(orphaned, result);
+
+    return result;
+  }
+
+  /**
+   * Delete orphaned blocks and every row derived from them, and record the reorg, atomically
+   */
+  private async rollback(orphaned: StoredBlock[], result: ReorgResult): Promise<void> {
+    const blockNumbers = orphaned.map(stored => stored.number);
+
+    await this.db.$transaction(async (tx) => {
+      const transactions = await tx.transaction.findMany({
+        where: { blockNumber: { in: blockNumbers } },
+        select: { hash: true }
+      });
+      const txHashes = transactions.map(transaction => transaction.hash);
+
+      await revertNftTransfers(tx, txHashes);
+      await revertAllowanceChanges(tx, txHashes);
+      await revertBalanceEntries(tx, txHashes);
+      await revertDexEvents(tx, txHashes);
+      await revertTokenPrices(tx, blockNumbers);
+      await revertLiquidityPositions(tx, txHashes, blockNumbers);
+      await revertProxyUpgrades(tx, txHashes);
+      await revertContracts(tx, blockNumbers);
+      await revertFailedItems(tx, blockNumbers);
+      await tx.transfer.deleteMany({ where: { txHash: { in: txHashes } } });
+      await tx.event.deleteMany({ where: { txHash: { in: txHashes } } });
+      await tx.log.deleteMany({ where: { txHash: { in: txHashes } } });
+      await tx.transaction.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+      await tx.withdrawal.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+      await tx.internalTransfer.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+      await tx.block.deleteMany({ where: { number: { in: blockNumbers } } });
+
+      await tx.reorg.create({
+        data: {
+          detectedAtBlock: BigInt(result.detectedAtBlock),
+          commonAncestor: BigInt(result.commonAncestor.blockNumber),
+          depth: result.depth,
+          orphanedHashes: result.orphanedHashes,
+          canonicalHashes: result.canonicalHashes
+        }
+      });
+    });
+
+    console.log(`✅ Rolled back ${orphaned.length} orphaned blocks to common ancestor ${result.commonAncestor.blockNumber}`);
+  }
+
+  /**
+   * Build the common ancestor from the chain when it was never stored locally
+   */
+  private async getCanonicalAncestor(blockNumber: number, blockHash: string): Promise<ReorgResult['commonAncestor']> {
+    if (blockNumber < 0) {
+      return { blockNumber, blockHash, blockTimestamp: new Date(0) };
+    }
+
+    const block = await this.fetcher.getBlock(blockNumber);
+    return {
+      blockNumber,
+      blockHash: block.hash || blockHash,
+      blockTimestamp: new Date(block.timestamp * 1000)
+    };
+  }
+
+  private async findStoredBlock(blockNumber: number): Promise<StoredBlock | null> {
+    return await this.db.block.findUnique({
+      where: { number: BigInt(blockNumber) },
+      select: { number: true, hash: true, timestamp: true }
+    });
+  }
+}
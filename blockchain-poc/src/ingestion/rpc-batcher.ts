@@ -0,0 +1,148 @@
+import { ethers } from 'ethers';
+import { getComputeUnits } from './rate-limiter';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface BatcherConfig {
+  maxBatchSize: number;
+  flushInterval: number;
+  maxRetries: number;
+  retryDelay: number;
+}
+
+/**
+ * Sends one JSON-RPC batch and resolves to the raw responses (results and per-element errors)
+ */
+export type BatchTransport = (payloads: ethers.JsonRpcPayload[], computeUnits: number) => Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>>;
+
+interface PendingCall {
+  method: string;
+  params: unknown[];
+  attempts: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Errors that will not go away on a retry: malformed requests, unknown methods and reverts
+const NON_RETRYABLE_CODES = new Set([-32600, -32601, -32602, 3]);
+
+/**
+ * Combine concurrent JSON-RPC calls into batch requests.
+ * A batch is sent once it reaches maxBatchSize or flushInterval ms after its first call.
+ * Failed elements are re-queued on their own; the rest of the batch resolves normally.
+ */
+export class RpcBatcher {
+  private transport: BatchTransport;
+  private config: BatcherConfig;
+  private queue: PendingCall[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private nextId: number = 1;
+
+  constructor(transport: BatchTransport, config?: Partial<BatcherConfig>) {
+    this.transport = transport;
+    this.config = {
+      maxBatchSize: 20,
+      flushInterval: 10,
+      maxRetries: 3,
+      retryDelay: 500,
+      ...config
+    };
+  }
+
+  /**
+   * Queue a call for the next batch and resolve to its result
+   */
+  call<T = unknown>(method: string, params: unknown[]): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      // The node's JSON result is trusted to have the shape the caller asked for
+      this.enqueue({ method, params, attempts: 0, resolve: value => resolve(value as T), reject });
+    });
+  }
+
+  /**
+   * Send everything queued right away
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const sends: Promise<void>[] = [];
+    while (this.queue.length > 0) {
+      sends.push(this.sendBatch(this.queue.splice(0, this.config.maxBatchSize)));
+    }
+    await Promise.all(sends);
+  }
+
+  private enqueue(call: PendingCall): void {
+    this.queue.push(call);
+
+    if (this.queue.length >= this.config.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.config.flushInterval);
+    }
+  }
+
+  private async sendBatch(calls: PendingCall[]): Promise<void> {
+    const payloads = calls.map(call => ({
+      jsonrpc: '2.0' as const,
+      id: this.nextId++,
+      method: call.method,
+      params: call.params
+    }));
+    const computeUnits = calls.reduce((sum, call) => sum + getComputeUnits(call.method), 0);
+
+    let responses: Array<ethers.JsonRpcResult | ethers.JsonRpcError>;
+    try {
+      responses = await this.transport(payloads, computeUnits);
+    } catch (error) {
+      // The whole request failed, so every element gets another attempt
+      const reason = error instanceof Error ? error : new Error(String(error));
+      calls.forEach(call => this.handleFailure(call, reason, true));
+      return;
+    }
+
+    const responsesById = new Map(responses.map(response => [response.id, response]));
+    calls.forEach((call, index) => {
+      const response = responsesById.get(payloads[index].id);
+
+      if (!response) {
+        this.handleFailure(call, new Error(`No response for ${call.method} in batch`), true);
+      } else if ('error' in response) {
+        const rpcError = Object.assign(new Error(response.error.message || `${call.method} failed with code ${response.error.code}`), {
+          error: response.error
+        });
+        this.handleFailure(call, rpcError, this.isRetryable(response.error));
+      } else {
+        call.resolve(response.result);
+      }
+    });
+  }
+
+  private handleFailure(call: PendingCall, error: Error, retryable: boolean): void {
+    call.attempts++;
+
+    if (!retryable || call.attempts >= this.config.maxRetries) {
+      call.reject(error);
+      return;
+    }
+
+    const delay = this.config.retryDelay * Math.pow(2, call.attempts - 1);
+    console.warn(`⚠️  ${call.method} failed in batch (attempt ${call.attempts}), retrying in ${delay}ms:`, error.message);
+    setTimeout(() => this.enqueue(call), delay);
+  }
+
+  private isRetryable(error: { code: number; message?: string }): boolean {
+    if (NON_RETRYABLE_CODES.has(error.code)) {
+      return false;
+    }
+    return !(error.message || '').toLowerCase().includes('revert');
+  }
+}
@@ -0,0 +1,295 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface RegistryConfig {
+  chainId: number;
+  refreshInterval: number;
+}
+
+export interface AbiEntry {
+  address?: string;
+  name?: string;
+  abi: ethers.InterfaceAbi;
+}
+
+export interface RegisteredAbi {
+  chainId: number;
+  address: string;
+  version: number;
+  name?: string;
+  source: string;
+  created: boolean;
+}
+
+export interface LoadResult {
+  registered: RegisteredAbi[];
+  skipped: string[];
+}
+
+/**
+ * Read ABIs from a JSON file. Accepts a bare ABI array, an `{ address, name, abi }` entry or a list of them,
+ * and Hardhat, hardhat-deploy and Foundry artifacts (named after `contractName` or the file name).
+ */
+export function readAbiFile(filePath: string): AbiEntry[] {
+  const json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const fileName = path.basename(filePath, '.json');
+
+  if (Array.isArray(json)) {
+    // Either a bare ABI (fragments have a "type") or a list of entries
+    if (json.every(item => item && Array.isArray(item.abi))) {
+      return json.map(item => ({ address: item.address, name: item.name ?? item.contractName, abi: item.abi }));
+    }
+    return [{ name: fileName, abi: json }];
+  }
+
+  if (json && Array.isArray(json.abi)) {
+    return [{ address: json.address, name: json.contractName ?? json.name ?? fileName, abi: json.abi }];
+  }
+
+  throw new Error(`❌ No ABI found in ${filePath}`);
+}
+
+/**
+ * Persistent contract-to-ABI mapping per chain.
+ * Every registration of a changed ABI adds a new version; the latest version is the one used for decoding.
+ * Built-in ABIs (e.g. ERC-20 for well-known tokens) are kept in memory and lose to registered ones.
+ */
+export class AbiRegistry {
+  private db: PrismaClient;
+  private config: RegistryConfig;
+  private interfaces: Map<string, ethers.Interface> = new Map();
+  private builtins: Map<string, ethers.Interface> = new Map();
+  private lastLoaded: number = 0;
+  private loading?: Promise<void>;
+
+  constructor(db: PrismaClient, config?: Partial<RegistryConfig>) {
+    this.db = db;
+    this.config = {
+      chainId: parseInt(process.env.CHAIN_ID || '1', 10),
+      refreshInterval: 60000,
+      ...config
+    };
+  }
+
+  /**
+   * Use an ABI for an address unless a registered one exists (not persisted)
+   */
+  registerBuiltin(address: string, abi: ethers.InterfaceAbi | ethers.Interface): void {
+    this.builtins.set(address.toLowerCase(), abi instanceof ethers.Interface ? abi : new ethers.Interface(abi));
+  }
+
+  /**
+   * Get the interface used to decode logs of an address, reloading the registry when it is stale
+   */
+  async getInterface(address: string): Promise<ethers.Interface | undefined> {
+    const key = address.toLowerCase();
+    if (Date.now() - this.lastLoaded >= this.config.refreshInterval) {
+      await this.load();
+    }
+    return this.interfaces.get(key) ?? this.builtins.get(key);
+  }
+
+  /**
+   * Load the latest version of every registered ABI of the chain into memory
+   */
+  async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadLatest().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Register an ABI for a contract. Registering the same ABI again is a no-op; a different one becomes a new version.
+   */
+  async register(address: string, abi: ethers.InterfaceAbi, options?: { name?: string; source?: string }): Promise<RegisteredAbi> {
+    if (!ethers.isAddress(address)) {
+      throw new Error(`❌ Invalid contract address: ${address}`);
+    }
+
+    const key = address.toLowerCase();
+    const contractInterface = new ethers.Interface(abi);
+    const formatted = contractInterface.formatJson();
+    const source = options?.source ?? 'manual';
+
+    const latest = await this.db.contractAbi.findFirst({
+      where: { chainId: this.config.chainId, address: key },
+      orderBy: { version: 'desc' }
+    });
+
+    // JSONB reorders object keys, so compare the stored ABI in the same format rather than as stored
+    if (latest && new ethers.Interface(latest.abi as ethers.InterfaceAbi).formatJson() === formatted) {
+      this.interfaces.set(key, contractInterface);
+      return this.toRegistered(latest, false);
+    }
+
+    let created;
+    try {
+      created = await this.db.contractAbi.create({
+        data: {
+          chainId: this.config.chainId,
+          address: key,
+          version: (latest?.version ?? 0) + 1,
+          name: options?.name ?? latest?.name ?? null,
+          abi: JSON.parse(formatted) as Prisma.InputJsonValue,
+          source
+        }
+      });
+    } catch (error) {
+      // Another process registered the next version first: compare with that one
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return await this.register(address, abi, options);
+      }
+      throw error;
+    }
+    this.interfaces.set(key, contractInterface);
+
+    console.log(`✅ Registered ABI v${created.version} for ${created.name || key}`);
+    return this.toRegistered(created, true);
+  }
+
+  /**
+   * Register every ABI in a JSON file. A bare ABI needs an address; entries and artifacts may carry their own.
+   */
+  async loadFile(filePath: string, address?: string): Promise<LoadResult> {
+    const result: LoadResult = { registered: [], skipped: [] };
+
+    for (const entry of readAbiFile(filePath)) {
+      const entryAddress = address ?? entry.address;
+      if (!entryAddress) {
+        result.skipped.push(entry.name ?? filePath);
+        continue;
+      }
+      result.registered.push(await this.register(entryAddress, entry.abi, { name: entry.name, source: `file:${filePath}` }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Register the artifacts of a Hardhat (`artifacts/`), hardhat-deploy (`deployments/<network>/`) or Foundry (`out/`) build.
+   * Artifacts without a deployed address are matched by contract name against `addresses`.
+   */
+  async loadArtifactsDirectory(directory: string, addresses: Record<string, string> = {}): Promise<LoadResult> {
+    const result: LoadResult = { registered: [], skipped: [] };
+
+    for (const filePath of this.findArtifactFiles(directory)) {
+      let entries: AbiEntry[];
+      try {
+        entries = readAbiFile(filePath);
+      } catch (error) {
+        // Not every JSON file in a build directory is an artifact
+        continue;
+      }
+
+      for (const entry of entries) {
+        const entryAddress = entry.address ?? (entry.name ? addresses[entry.name] : undefined);
+        if (!entryAddress) {
+          result.skipped.push(entry.name ?? filePath);
+          continue;
+        }
+        result.registered.push(await this.register(entryAddress, entry.abi, { name: entry.name, source: `artifact:${filePath}` }));
+      }
+    }
+
+    console.log(`📦 Loaded ${result.registered.length} ABIs from ${directory} (${result.skipped.length} artifacts without an address)`);
+    return result;
+  }
+
+  /**
+   * List every registered version of a contract's ABI, newest first
+   */
+  async getVersions(address: string): Promise<Array<RegisteredAbi & { abi: Prisma.JsonValue; createdAt: Date }>> {
+    const versions = await this.db.contractAbi.findMany({
+      where: { chainId: this.config.chainId, address: address.toLowerCase() },
+      orderBy: { version: 'desc' }
+    });
+    return versions.map(version => ({ ...this.toRegistered(version, false), abi: version.abi, createdAt: version.createdAt }));
+  }
+
+  /**
+   * Which of the given addresses have a registered or built-in ABI
+   */
+  async getKnownAddresses(addresses: string[]): Promise<Set<string>> {
+    const keys = [...new Set(addresses.map(address => address.toLowerCase()))];
+    if (keys.length === 0) {
+      return new Set();
+    }
+
+    const rows = await this.db.contractAbi.findMany({
+      where: { chainId: this.config.chainId, address: { in: keys } },
+      select: { address: true },
+      distinct: ['address']
+    });
+    const known = new Set(rows.map(row => row.address));
+    keys.filter(key => this.builtins.has(key)).forEach(key => known.add(key));
+    return known;
+  }
+
+  /**
+   * List the latest version of every registered contract
+   */
+  async list(): Promise<RegisteredAbi[]> {
+    const rows = await this.db.contractAbi.findMany({
+      where: { chainId: this.config.chainId },
+      distinct: ['address'],
+      orderBy: [{ address: 'asc' }, { version: 'desc' }]
+    });
+    return rows.map(row => this.toRegistered(row, false));
+  }
+
+  private async loadLatest(): Promise<void> {
+    const rows = await this.db.contractAbi.findMany({
+      where: { chainId: this.config.chainId },
+      distinct: ['address'],
+      orderBy: [{ address: 'asc' }, { version: 'desc' }]
+    });
+
+    const interfaces = new Map<string, ethers.Interface>();
+    for (const row of rows) {
+      try {
+        interfaces.set(row.address, new ethers.Interface(row.abi as ethers.InterfaceAbi));
+      } catch (error) {
+        console.warn(`⚠️  Ignoring invalid ABI v${row.version} for ${row.address}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.interfaces = interfaces;
+    this.lastLoaded = Date.now();
+  }
+
+  private findArtifactFiles(directory: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        // Compiler inputs and outputs, not artifacts
+        if (entry.name !== 'build-info') {
+          files.push(...this.findArtifactFiles(entryPath));
+        }
+      } else if (entry.name.endsWith('.json') && !entry.name.endsWith('.dbg.json')) {
+        files.push(entryPath);
+      }
+    }
+    return files.sort();
+  }
+
+  private toRegistered(row: { chainId: number; address: string; version: number; name: string | null; source: string }, created: boolean): RegisteredAbi {
+    return {
+      chainId: row.chainId,
+      address: row.address,
+      version: row.version,
+      name: row.name ?? undefined,
+      source: row.source,
+      created
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ApprovalEvent, TransferEvent } from './event-decoder';
+import { AbiRegistry } from './abi-registry';
+import { Amount, knownDecimals, toAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export type AllowanceRisk = 'unlimited' | 'unverified_spender';
+
+export interface TransactionCaller {
+  from: string;
+  to: string | null;
+}
+
+export interface AllowanceApplyResult {
+  approvals: number;
+  consumed: number;
+}
+
+export interface AllowanceReportEntry {
+  token: {
+    address: string;
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+  };
+  spender: string;
+  allowance: Amount;
+  unlimited: boolean;
+  verifiedSpender: boolean;
+  risks: AllowanceRisk[];
+  blockNumber: string;
+  txHash: string;
+}
+
+export interface AllowanceReport {
+  owner: string;
+  approvals: AllowanceReportEntry[];
+  summary: {
+    total: number;
+    unlimited: number;
+    unverifiedSpender: number;
+  };
+}
+
+interface AllowanceState {
+  tokenId: number;
+  owner: string;
+  spender: string;
+  allowance: bigint;
+  blockNumber: bigint;
+  txHash: string;
+}
+
+const allowanceKey = (tokenId: number, owner: string, spender: string): string => `${tokenId}:${owner}:${spender}`;
+
+/**
+ * Write the current allowance of a key, dropping the row when nothing is left to spend
+ */
+async function saveAllowance(tx: Prisma.TransactionClient, state: AllowanceState): Promise<void> {
+  const { tokenId, owner, spender } = state;
+  if (state.allowance === 0n) {
+    await tx.tokenAllowance.deleteMany({ where: { tokenId, owner, spender } });
+    return;
+  }
+
+  const data = {
+    allowance: state.allowance.toString(),
+    unlimited: state.allowance === ethers.MaxUint256,
+    blockNumber: state.blockNumber,
+    txHash: state.txHash
+  };
+  await tx.tokenAllowance.upsert({
+    where: { tokenId_owner_spender: { tokenId, owner, spender } },
+    update: data,
+    create: { tokenId, owner, spender, ...data }
+  });
+}
+
+/**
+ * Undo the allowance changes of orphaned transactions, restoring each allowance from its latest remaining change.
+ * Runs inside the reorg rollback.
+ */
+export async function revertAllowanceChanges(tx: Prisma.TransactionClient, txHashes: string[]): Promise<void> {
+  if (txHashes.length === 0) {
+    return;
+  }
+
+  const changes = await tx.allowanceChange.findMany({
+    where: { txHash: { in: txHashes } },
+    select: { tokenId: true, owner: true, spender: true }
+  });
+  await tx.allowanceChange.deleteMany({ where: { txHash: { in: txHashes } } });
+
+  const keys = new Map(changes.map(change => [allowanceKey(change.tokenId, change.owner, change.spender), change]));
+  for (const { tokenId, owner, spender } of keys.values()) {
+    const latest = await tx.allowanceChange.findFirst({
+      where: { tokenId, owner, spender },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+    });
+    await saveAllowance(tx, {
+      tokenId,
+      owner,
+      spender,
+      allowance: latest ? BigInt(latest.allowance.toFixed()) : 0n,
+      blockNumber: latest?.blockNumber ?? 0n,
+      txHash: latest?.txHash ?? ''
+    });
+  }
+}
+
+/**
+ * Maintains the current ERC-20 allowance of every (owner, token, spender) from `Approval` events and
+ * the `transferFrom` calls that spend them. Logs do not show who called `transferFrom`, so a Transfer
+ * out of an owner who did not send the transaction is charged to the allowance of the transaction's
+ * target contract, or else of its sender. Unlimited (2^256-1) allowances are never reduced, and a
+ * Transfer is not charged when the token emitted a fresh Approval for the owner in the same transaction.
+ * Blocks applied out of order (e.g. by a backfill) are replayed against the allowance history up to
+ * that block, and never overwrite a current allowance that a later block already set.
+ */
+export class AllowanceTracker {
+  private db: PrismaClient;
+  private registry: AbiRegistry;
+
+  constructor(db: PrismaClient, registry?: AbiRegistry) {
+    this.db = db;
+    this.registry = registry ?? new AbiRegistry(db);
+  }
+
+  /**
+   * Apply a block's approvals and transferFrom spending in log order, inside the block's database transaction
+   */
+  async applyBlock(
+    tx: Prisma.TransactionClient,
+    blockNumber: number,
+    approvals: ApprovalEvent[],
+    transfers: TransferEvent[],
+    callers: Map<string, TransactionCaller>,
+    tokenIds: Map<string, number>
+  ): Promise<AllowanceApplyResult> {
+    const ownerApprovals = new Set(approvals.map(approval => `${approval.txHash}:${approval.contract}:${approval.owner.toLowerCase()}`));
+    const spending = transfers.filter(transfer => {
+      const caller = callers.get(transfer.txHash);
+      const from = transfer.from.toLowerCase();
+      return caller !== undefined &&
+        from !== ethers.ZeroAddress &&
+        from !== caller.from.toLowerCase() &&
+        !ownerApprovals.has(`${transfer.txHash}:${transfer.contract}:${from}`);
+    });
+
+    if (approvals.length === 0 && spending.length === 0) {
+      return { approvals: 0, consumed: 0 };
+    }
+
+    const txHashes = [...new Set([...approvals, ...spending].map(event => event.txHash))];
+    const existing = await tx.allowanceChange.findMany({
+      where: { txHash: { in: txHashes } },
+      select: { txHash: true, logIndex: true }
+    });
+    const seen = new Set(existing.map(change => `${change.txHash}:${change.logIndex}`));
+
+    const pairs = new Map<string, { tokenId: number; owner: string }>();
+    [...approvals.map(approval => ({ contract: approval.contract, owner: approval.owner })), ...spending.map(transfer => ({ contract: transfer.contract, owner: transfer.from }))]
+      .forEach(({ contract, owner }) => {
+        const tokenId = tokenIds.get(contract)!;
+        pairs.set(`${tokenId}:${owner.toLowerCase()}`, { tokenId, owner: owner.toLowerCase() });
+      });
+    // Start from the allowances as of this block rather than the current ones, which may already include later blocks
+    const history = await tx.allowanceChange.findMany({
+      where: { OR: [...pairs.values()], blockNumber: { lte: BigInt(blockNumber) } },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+      distinct: ['tokenId', 'owner', 'spender']
+    });
+    const later = await tx.allowanceChange.findMany({
+      where: { OR: [...pairs.values()], blockNumber: { gt: BigInt(blockNumber) } },
+      select: { tokenId: true, owner: true, spender: true },
+      distinct: ['tokenId', 'owner', 'spender']
+    });
+    const superseded = new Set(later.map(change => allowanceKey(change.tokenId, change.owner, change.spender)));
+
+    const states = new Map<string, AllowanceState>();
+    history.forEach(change => states.set(allowanceKey(change.tokenId, change.owner, change.spender), {
+      tokenId: change.tokenId,
+      owner: change.owner,
+      spender: change.spender,
+      allowance: BigInt(change.allowance.toFixed()),
+      blockNumber: change.blockNumber,
+      txHash: change.txHash
+    }));
+
+    const changes: Prisma.AllowanceChangeCreateManyInput[] = [];
+    const changed = new Set<string>();
+    const events = [
+      ...approvals.map(approval => ({ kind: 'approval' as const, event: approval })),
+      ...spending.map(transfer => ({ kind: 'transferFrom' as const, event: transfer }))
+    ].sort((a, b) => a.event.logIndex - b.event.logIndex);
+
+    for (const { kind, event } of events) {
+      if (seen.has(`${event.txHash}:${event.logIndex}`)) {
+        continue;
+      }
+
+      const tokenId = tokenIds.get(event.contract)!;
+      let state: AllowanceState;
+      let amount: bigint;
+
+      if (kind === 'approval') {
+        const approval = event as ApprovalEvent;
+        const owner = approval.owner.toLowerCase();
+        const spender = approval.spender.toLowerCase();
+        amount = BigInt(approval.value);
+        state = { tokenId, owner, spender, allowance: amount, blockNumber: BigInt(blockNumber), txHash: approval.txHash };
+      } else {
+        const transfer = event as TransferEvent;
+        const owner = transfer.from.toLowerCase();
+        const caller = callers.get(transfer.txHash)!;
+        const spender = [caller.to, caller.from]
+          .filter((address): address is string => Boolean(address))
+          .map(address => address.toLowerCase())
+          .find(address => (states.get(allowanceKey(tokenId, owner, address))?.allowance ?? 0n) > 0n);
+        const previous = spender ? states.get(allowanceKey(tokenId, owner, spender)) : undefined;
+        if (!previous || previous.allowance === ethers.MaxUint256) {
+          continue;
+        }
+
+        amount = BigInt(transfer.amount);
+        const remaining = previous.allowance > amount ? previous.allowance - amount : 0n;
+        state = { ...previous, allowance: remaining, blockNumber: BigInt(blockNumber), txHash: transfer.txHash };
+      }
+
+      const key = allowanceKey(state.tokenId, state.owner, state.spender);
+      states.set(key, state);
+      changed.add(key);
+      changes.push({
+        txHash: event.txHash,
+        logIndex: event.logIndex,
+        blockNumber: BigInt(blockNumber),
+        tokenId: state.tokenId,
+        owner: state.owner,
+        spender: state.spender,
+        kind,
+        amount: amount.toString(),
+        allowance: state.allowance.toString()
+      });
+    }
+
+    if (changes.length > 0) {
+      await tx.allowanceChange.createMany({ data: changes, skipDuplicates: true });
+    }
+    for (const key of changed) {
+      if (!superseded.has(key)) {
+        await saveAllowance(tx, states.get(key)!);
+      }
+    }
+
+    const approvalCount = changes.filter(change => change.kind === 'approval').length;
+    const consumed = changes.length - approvalCount;
+    if (changes.length > 0) {
+      console.log(`🔐 Block ${blockNumber}: ${approvalCount} approvals, ${consumed} transferFrom allowance updates`);
+    }
+    return { approvals: approvalCount, consumed };
+  }
+
+  /**
+   * Report the open allowances of an owner, flagging unlimited ones and spenders without a verified ABI
+   */
+  async getApprovalReport(owner: string): Promise<AllowanceReport> {
+    const rows = await this.db.tokenAllowance.findMany({
+      where: { owner: owner.toLowerCase(), allowance: { gt: 0 } },
+      include: { token: true },
+      orderBy: [{ blockNumber: 'desc' }, { id: 'desc' }]
+    });
+    const verified = await this.registry.getKnownAddresses(rows.map(row => row.spender));
+
+    const approvals = rows.map(row => {
+      const verifiedSpender = verified.has(row.spender);
+      const risks: AllowanceRisk[] = [];
+      if (row.unlimited) {
+        risks.push('unlimited');
+      }
+      if (!verifiedSpender) {
+        risks.push('unverified_spender');
+      }
+
+      return {
+        token: {
+          address: row.token.address,
+          name: row.token.name,
+          symbol: row.token.symbol,
+          decimals: knownDecimals(row.token)
+        },
+        spender: row.spender,
+        allowance: toAmount(row.allowance, knownDecimals(row.token)),
+        unlimited: row.unlimited,
+        verifiedSpender,
+        risks,
+        blockNumber: row.blockNumber.toString(),
+        txHash: row.txHash
+      };
+    });
+
+    return {
+      owner: owner.toLowerCase(),
+      approvals,
+      summary: {
+        total: approvals.length,
+        unlimited: approvals.filter(approval => approval.unlimited).length,
+        unverifiedSpender: approvals.filter(approval => !approval.verifiedSpender).length
+      }
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TransferEvent } from './event-decoder';
+import { Amount, knownDecimals, toAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface LedgerApplyResult {
+  entries: number;
+  balances: number;
+}
+
+export interface AddressBalance {
+  token: {
+    address: string;
+    name: string | null;
+    symbol: string | null;
+  };
+  balance: Amount;
+  // Block of the last transfer that changed the balance
+  blockNumber: string;
+  reconciliation: {
+    status: string;
+    blockNumber: string;
+    chainBalance: string | null;
+  } | null;
+}
+
+interface BalanceDelta {
+  tokenId: number;
+  address: string;
+  delta: bigint;
+}
+
+/**
+ * Add a debit or credit per (token, address). Mints and burns only move the balance of the other side.
+ */
+function addBalanceDelta(deltas: Map<string, BalanceDelta>, tokenId: number, address: string, delta: bigint): void {
+  if (address === ethers.ZeroAddress) {
+    return;
+  }
+  const key = `${tokenId}:${address}`;
+  const current = deltas.get(key);
+  deltas.set(key, { tokenId, address, delta: (current?.delta ?? 0n) + delta });
+}
+
+/**
+ * Add a block's delta to the balance at that block and to every later checkpoint, then set the current balance
+ * from the latest checkpoint. Blocks can be applied in any order: backwards from the head or by concurrent
+ * backfill ranges.
+ */
+async function applyCheckpointDelta(tx: Prisma.TransactionClient, blockNumber: bigint, { tokenId, address, delta }: BalanceDelta): Promise<void> {
+  // Balance at the end of the block so far: its own checkpoint when the block was partly applied, else the one before
+  const base = await tx.balanceCheckpoint.findFirst({
+    where: { tokenId, address, blockNumber: { lte: blockNumber } },
+    orderBy: { blockNumber: 'desc' }
+  });
+  const balance = (base ? BigInt(base.balance.toFixed()) : 0n) + delta;
+  await tx.balanceCheckpoint.upsert({
+    where: { tokenId_address_blockNumber: { tokenId, address, blockNumber } },
+    update: { balance: balance.toString() },
+    create: { tokenId, address, blockNumber, balance: balance.toString() }
+  });
+  await tx.balanceCheckpoint.updateMany({
+    where: { tokenId, address, blockNumber: { gt: blockNumber } },
+    data: { balance: { increment: delta.toString() } }
+  });
+
+  const latest = await tx.balanceCheckpoint.findFirst({
+    where: { tokenId, address },
+    orderBy: { blockNumber: 'desc' }
+  });
+  // Checkpoints keep a zero balance; the current balance row is no longer needed
+  if (!latest || latest.balance.isZero()) {
+    await tx.tokenBalance.deleteMany({ where: { tokenId, address } });
+    return;
+  }
+  const data = { balance: latest.balance, blockNumber: latest.blockNumber };
+  await tx.tokenBalance.upsert({
+    where: { tokenId_address: { tokenId, address } },
+    update: data,
+    create: { tokenId, address, ...data }
+  });
+}
+
+/**
+ * Undo the ledger entries of orphaned transactions, restoring each balance from its latest remaining checkpoint.
+ * Runs inside the reorg rollback.
+ */
+export async function revertBalanceEntries(tx: Prisma.TransactionClient, txHashes: string[]): Promise<void> {
+  if (txHashes.length === 0) {
+    return;
+  }
+
+  const entries = await tx.balanceEntry.findMany({
+    where: { txHash: { in: txHashes } },
+    select: { tokenId: true, address: true, blockNumber: true }
+  });
+  await tx.balanceEntry.deleteMany({ where: { txHash: { in: txHashes } } });
+  if (entries.length === 0) {
+    return;
+  }
+
+  const keys = [...new Map(entries.map(({ tokenId, address }) => [`${tokenId}:${address}`, { tokenId, address }])).values()];
+  const blockNumbers = [...new Set(entries.map(entry => entry.blockNumber))];
+  await tx.balanceCheckpoint.deleteMany({ where: { OR: keys, blockNumber: { in: blockNumbers } } });
+
+  for (const { tokenId, address } of keys) {
+    const latest = await tx.balanceCheckpoint.findFirst({
+      where: { tokenId, address },
+      orderBy: { blockNumber: 'desc' }
+    });
+    if (!latest || latest.balance.isZero()) {
+      await tx.tokenBalance.deleteMany({ where: { tokenId, address } });
+      continue;
+    }
+
+    const data = { balance: latest.balance, blockNumber: latest.blockNumber };
+    await tx.tokenBalance.upsert({
+      where: { tokenId_address: { tokenId, address } },
+      update: data,
+      create: { tokenId, address, ...data }
+    });
+  }
+}
+
+/**
+ * Keeps the ERC-20 balance of every (address, token) from decoded transfers. Each transfer is recorded
+ * as a debit of the sender and a credit of the receiver in `BalanceEntry`, keyed by (txHash, logIndex,
+ * address) so processing a block again changes nothing. `TokenBalance` holds the current balance and
+ * `BalanceCheckpoint` the balance at the end of every block in which it changed, which answers balance
+ * queries at a past block.
+ */
+export class BalanceLedger {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient) {
+    this.db = db;
+  }
+
+  /**
+   * Apply a block's transfers to the ledger, inside the block's database transaction
+   */
+  async applyBlock(tx: Prisma.TransactionClient, blockNumber: number, transfers: TransferEvent[], tokenIds: Map<string, number>): Promise<LedgerApplyResult> {
+    // A transfer to oneself does not change the balance
+    const moving = transfers.filter(transfer => transfer.from.toLowerCase() !== transfer.to.toLowerCase());
+    if (moving.length === 0) {
+      return { entries: 0, balances: 0 };
+    }
+
+    const txHashes = [...new Set(moving.map(transfer => transfer.txHash))];
+    const existing = await tx.balanceEntry.findMany({
+      where: { txHash: { in: txHashes } },
+      select: { txHash: true, logIndex: true }
+    });
+    const seen = new Set(existing.map(entry => `${entry.txHash}:${entry.logIndex}`));
+
+    const entries: Prisma.BalanceEntryCreateManyInput[] = [];
+    const deltas = new Map<string, BalanceDelta>();
+    for (const transfer of moving) {
+      if (seen.has(`${transfer.txHash}:${transfer.logIndex}`)) {
+        continue;
+      }
+
+      const tokenId = tokenIds.get(transfer.contract)!;
+      const amount = BigInt(transfer.amount);
+      const sides: Array<[string, bigint]> = [[transfer.from.toLowerCase(), -amount], [transfer.to.toLowerCase(), amount]];
+      for (const [address, delta] of sides) {
+        if (address === ethers.ZeroAddress) {
+          continue;
+        }
+        entries.push({
+          txHash: transfer.txHash,
+          logIndex: transfer.logIndex,
+          blockNumber: BigInt(blockNumber),
+          tokenId,
+          address,
+          delta: delta.toString()
+        });
+        addBalanceDelta(deltas, tokenId, address, delta);
+      }
+    }
+
+    if (entries.length === 0) {
+      return { entries: 0, balances: 0 };
+    }
+    await tx.balanceEntry.createMany({ data: entries, skipDuplicates: true });
+
+    for (const balanceDelta of deltas.values()) {
+      await applyCheckpointDelta(tx, BigInt(blockNumber), balanceDelta);
+    }
+
+    console.log(`📒 Block ${blockNumber}: ${entries.length} ledger entries, ${deltas.size} balances updated`);
+    return { entries: entries.length, balances: deltas.size };
+  }
+
+  /**
+   * Positive token balances of an address, currently or at the end of a past block
+   */
+  async getBalances(address: string, blockNumber?: number): Promise<AddressBalance[]> {
+    const owner = address.toLowerCase();
+    const rows = blockNumber === undefined
+      ? await this.db.tokenBalance.findMany({
+        where: { address: owner, balance: { gt: 0 } },
+        include: { token: true },
+        orderBy: { tokenId: 'asc' }
+      })
+      : (await this.db.balanceCheckpoint.findMany({
+        where: { address: owner, blockNumber: { lte: BigInt(blockNumber) } },
+        include: { token: true },
+        orderBy: [{ tokenId: 'asc' }, { blockNumber: 'desc' }],
+        distinct: ['tokenId']
+      })).filter(row => row.balance.gt(0));
+
+    const reconciliations = await this.db.balanceReconciliation.findMany({
+      where: { address: owner, tokenId: { in: rows.map(row => row.tokenId) } },
+      orderBy: [{ tokenId: 'asc' }, { createdAt: 'desc' }],
+      distinct: ['tokenId']
+    });
+    const latest = new Map(reconciliations.map(reconciliation => [reconciliation.tokenId, reconciliation]));
+
+    return rows.map(row => {
+      const reconciliation = latest.get(row.tokenId);
+      return {
+        token: {
+          address: row.token.address,
+          name: row.token.name,
+          symbol: row.token.symbol
+        },
+        balance: toAmount(row.balance, knownDecimals(row.token)),
+        blockNumber: row.blockNumber.toString(),
+        reconciliation: reconciliation
+          ? {
+            status: reconciliation.status,
+            blockNumber: reconciliation.blockNumber.toString(),
+            chainBalance: reconciliation.chainBalance?.toFixed() ?? null
+          }
+          : null
+      };
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AbiRegistry } from './abi-registry';
+import { DecodeConfidence } from './event-signatures';
+import { FunctionSignatureDatabase, functionSelector } from './function-signatures';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface CallTransaction {
+  hash: string;
+  to: string | null;
+  input: string | null;
+}
+
+export interface DecodedCall {
+  txHash: string;
+  selector: string;
+  methodName: string;
+  // Canonical signature, e.g. "transfer(address,uint256)"
+  methodSignature: string;
+  args: Prisma.InputJsonValue;
+  confidence: DecodeConfidence;
+}
+
+/**
+ * Convert a decoded value to JSON, keying tuples by component name and writing bigints as strings
+ */
+function toJsonValue(value: unknown, param: ethers.ParamType): Prisma.InputJsonValue {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (param.isTuple()) {
+    const components = value as ArrayLike<unknown>;
+    return Object.fromEntries(param.components.map((component, i) => [component.name || `arg${i}`, toJsonValue(components[i], component)]));
+  }
+  if (param.isArray()) {
+    return Array.from(value as ArrayLike<unknown>).map(item => toJsonValue(item, param.arrayChildren));
+  }
+  // Addresses, bytes and strings decode to strings, bools to booleans
+  return value as string | boolean;
+}
+
+/**
+ * Decodes transaction calldata into a method name and arguments, with the target contract's ABI from the
+ * registry or, failing that, a bundled database of common function signatures.
+ */
+export class CallDecoder {
+  private registry: AbiRegistry;
+  private signatures: FunctionSignatureDatabase;
+
+  constructor(db: PrismaClient, registry?: AbiRegistry, signatures?: FunctionSignatureDatabase) {
+    this.registry = registry ?? new AbiRegistry(db);
+    this.signatures = signatures ?? new FunctionSignatureDatabase();
+  }
+
+  /**
+   * Decode the calldata of a transaction; null for contract creations, plain transfers and unknown selectors
+   */
+  async decodeCall(tx: CallTransaction): Promise<DecodedCall | null> {
+    const selector = functionSelector(tx.to, tx.input);
+    if (!selector) {
+      return null;
+    }
+
+    const contractInterface = await this.registry.getInterface(tx.to!);
+    if (contractInterface) {
+      try {
+        const parsed = contractInterface.parseTransaction({ data: tx.input! });
+        if (parsed) {
+          return this.toDecodedCall(tx.hash, selector, parsed.fragment, parsed.args, 'abi');
+        }
+      } catch (error) {
+        console.warn(`Failed to parse calldata of ${tx.hash} with the ABI of ${tx.to}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    const match = this.signatures.decode(tx.input!);
+    return match ? this.toDecodedCall(tx.hash, selector, match.fragment, match.args, match.confidence) : null;
+  }
+
+  /**
+   * Decode the calls of a block's transactions and store the method on each transaction, inside the block's
+   * database transaction
+   */
+  async applyBlock(tx: Prisma.TransactionClient, transactions: CallTransaction[]): Promise<number> {
+    const decoded: DecodedCall[] = [];
+    for (const transaction of transactions) {
+      const call = await this.decodeCall(transaction);
+      if (call) {
+        decoded.push(call);
+      }
+    }
+    if (decoded.length === 0) {
+      return 0;
+    }
+
+    for (const call of decoded) {
+      await tx.transaction.update({
+        where: { hash: call.txHash },
+        data: {
+          selector: call.selector,
+          methodName: call.methodName,
+          methodSignature: call.methodSignature,
+          methodArgs: call.args,
+          methodConfidence: call.confidence
+        }
+      });
+    }
+    return decoded.length;
+  }
+
+  private toDecodedCall(
+    txHash: string,
+    selector: string,
+    fragment: ethers.FunctionFragment,
+    args: ethers.Result,
+    confidence: DecodeConfidence
+  ): DecodedCall {
+    return {
+      txHash,
+      selector,
+      methodName: fragment.name,
+      methodSignature: fragment.format('sighash'),
+      args: Object.fromEntries(fragment.inputs.map((input, i) => [input.name || `arg${i}`, toJsonValue(args[i], input)])),
+      confidence
+    };
+  }
+}
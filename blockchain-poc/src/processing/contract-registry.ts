@@ -0,0 +1,345 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import { ProxyResolver } from './proxy-resolver';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface ContractRegistryConfig {
+  refreshInterval: number;
+}
+
+export type ContractInterface = 'erc165' | 'erc20' | 'erc721' | 'erc1155';
+
+export interface ContractInfo {
+  address: string;
+  deployer: string;
+  txHash: string;
+  // Position of the creating call in the transaction's call tree; null when the transaction created it
+  traceAddress: string | null;
+  blockNumber: string;
+  codeHash: string | null;
+  codeSize: number | null;
+  interfaces: ContractInterface[];
+  // False when the code could not be read or delegates to an implementation that was not found
+  classified: boolean;
+}
+
+export interface ContractFilter {
+  deployer?: string;
+  interface?: ContractInterface;
+  codeHash?: string;
+  limit?: number;
+}
+
+export interface DeployingTransaction {
+  hash: string;
+  from: string;
+  contractAddress: string | null;
+  status: number | null;
+}
+
+interface Deployment {
+  address: string;
+  deployer: string;
+  txHash: string;
+  traceAddress: string | null;
+}
+
+interface Classification {
+  codeHash: string | null;
+  codeSize: number | null;
+  interfaces: ContractInterface[];
+  classified: boolean;
+}
+
+interface CachedInterfaces {
+  // null when the contract was not deployed in the indexed blocks or could not be classified
+  interfaces: ContractInterface[] | null;
+  loadedAt: number;
+}
+
+const erc165Interface = new ethers.Interface(['function supportsInterface(bytes4 interfaceId) view returns (bool)']);
+
+const ERC165_IDS: Array<[ContractInterface, string]> = [
+  ['erc721', '0x80ac58cd'],
+  ['erc1155', '0xd9b67a26']
+];
+
+// Functions every implementation of a standard has; all of them must be in the bytecode
+const STANDARD_FUNCTIONS: Array<[ContractInterface, string[]]> = [
+  ['erc20', [
+    'totalSupply()', 'balanceOf(address)', 'transfer(address,uint256)', 'transferFrom(address,address,uint256)',
+    'approve(address,uint256)', 'allowance(address,address)'
+  ]],
+  ['erc721', [
+    'ownerOf(uint256)', 'balanceOf(address)', 'safeTransferFrom(address,address,uint256)',
+    'transferFrom(address,address,uint256)', 'setApprovalForAll(address,bool)', 'getApproved(uint256)'
+  ]],
+  ['erc1155', [
+    'safeTransferFrom(address,address,uint256,uint256,bytes)', 'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+    'balanceOfBatch(address[],uint256[])', 'setApprovalForAll(address,bool)'
+  ]]
+];
+
+const STANDARD_SELECTORS: Array<[ContractInterface, string[]]> = STANDARD_FUNCTIONS.map(([standard, signatures]) =>
+  [standard, signatures.map(signature => ethers.id(signature).slice(2, 10))]);
+
+/**
+ * Standards whose functions all appear in runtime bytecode as `PUSH4 <selector>`, the way compiled
+ * dispatchers compare calldata selectors
+ */
+export function detectSelectorInterfaces(code: string): ContractInterface[] {
+  const hex = code.toLowerCase();
+  return STANDARD_SELECTORS
+    .filter(([, selectors]) => selectors.every(selector => hex.includes(`63${selector}`)))
+    .map(([standard]) => standard);
+}
+
+const DELEGATECALL = 0xf4;
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+/**
+ * Whether runtime bytecode contains a DELEGATECALL instruction, skipping the data of PUSH instructions
+ */
+export function hasDelegateCall(code: string): boolean {
+  const bytes = ethers.getBytes(code);
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === DELEGATECALL) {
+      return true;
+    }
+    if (bytes[i] >= PUSH1 && bytes[i] <= PUSH32) {
+      i += bytes[i] - PUSH1 + 1;
+    }
+  }
+  return false;
+}
+
+/**
+ * Undo deployments of orphaned blocks; runs inside the reorg rollback
+ */
+export async function revertContracts(tx: Prisma.TransactionClient, blockNumbers: bigint[]): Promise<void> {
+  if (blockNumbers.length === 0) {
+    return;
+  }
+  await tx.contract.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+}
+
+/**
+ * Registry of the contracts deployed in the indexed blocks, by transactions (the receipt's
+ * `contractAddress`) or by other contracts (`create` rows of the call traces). Each contract keeps its
+ * deployer, creation block, code hash and the token standards it implements. Standards are read with
+ * ERC-165 `supportsInterface` and from the function selectors in the bytecode; for proxies the selectors
+ * come from the implementation.
+ */
+export class ContractRegistry {
+  private db: PrismaClient;
+  private batcher?: RpcBatcher;
+  private proxies?: ProxyResolver;
+  private config: ContractRegistryConfig;
+  private cache: Map<string, CachedInterfaces> = new Map();
+
+  constructor(db: PrismaClient, batcher?: RpcBatcher, proxies?: ProxyResolver, config?: Partial<ContractRegistryConfig>) {
+    this.db = db;
+    this.batcher = batcher;
+    this.proxies = proxies;
+    this.config = {
+      refreshInterval: 60000,
+      ...config
+    };
+  }
+
+  /**
+   * Register the contracts deployed in a block and classify them; returns the number of new contracts.
+   * Contracts already classified are skipped, so processing a block again is safe; those whose classification
+   * failed are classified again.
+   */
+  async applyBlock(blockNumber: number, transactions: DeployingTransaction[]): Promise<number> {
+    const internalCreations = await this.db.internalTransfer.findMany({
+      where: { blockNumber: BigInt(blockNumber), type: 'create' },
+      orderBy: { id: 'asc' }
+    });
+
+    const deployments = new Map<string, Deployment>();
+    for (const tx of transactions) {
+      // Pre-Byzantium receipts have no status, so only creations known to have failed are left out
+      if (tx.contractAddress && tx.status !== 0) {
+        const address = tx.contractAddress.toLowerCase();
+        deployments.set(address, { address, deployer: tx.from.toLowerCase(), txHash: tx.hash, traceAddress: null });
+      }
+    }
+    for (const creation of internalCreations) {
+      const address = creation.to.toLowerCase();
+      deployments.set(address, { address, deployer: creation.from.toLowerCase(), txHash: creation.txHash, traceAddress: creation.traceAddress });
+    }
+    if (deployments.size === 0) {
+      return 0;
+    }
+
+    const known = await this.db.contract.findMany({
+      where: { address: { in: [...deployments.keys()] } },
+      select: { address: true, classified: true }
+    });
+    const unclassified = new Set(known.filter(contract => !contract.classified).map(contract => contract.address));
+    known.filter(contract => contract.classified).forEach(contract => deployments.delete(contract.address));
+
+    const rows: Prisma.ContractCreateManyInput[] = [];
+    for (const deployment of deployments.values()) {
+      const classification = await this.classify(deployment.address, blockNumber);
+      this.cache.delete(deployment.address);
+      if (!unclassified.has(deployment.address)) {
+        rows.push({ ...deployment, blockNumber: BigInt(blockNumber), ...classification });
+      } else if (classification.classified) {
+        await this.db.contract.update({ where: { address: deployment.address }, data: classification });
+        console.log(`🏗️  Classified contract ${deployment.address}: ${classification.interfaces.join(', ') || 'no token standard'}`);
+      }
+    }
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const result = await this.db.contract.createMany({ data: rows, skipDuplicates: true });
+    console.log(`🏗️  Registered ${result.count} contracts deployed in block ${blockNumber}`);
+    return result.count;
+  }
+
+  /**
+   * Standards a contract implements, or null when it was not deployed in the indexed blocks or its code could
+   * not be classified
+   */
+  async getInterfaces(address: string): Promise<ContractInterface[] | null> {
+    const key = address.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < this.config.refreshInterval) {
+      return cached.interfaces;
+    }
+
+    const contract = await this.db.contract.findUnique({ where: { address: key }, select: { interfaces: true, classified: true } });
+    const interfaces = contract?.classified ? contract.interfaces as ContractInterface[] : null;
+    this.cache.set(key, { interfaces, loadedAt: Date.now() });
+    return interfaces;
+  }
+
+  /**
+   * Whether a contract is known to be an ERC-721 or ERC-1155 collection and not also an ERC-20 token
+   */
+  async isNftContract(address: string): Promise<boolean> {
+    const interfaces = await this.getInterfaces(address);
+    return interfaces !== null && !interfaces.includes('erc20') &&
+      (interfaces.includes('erc721') || interfaces.includes('erc1155'));
+  }
+
+  /**
+   * Whether a contract is registered and does not implement ERC-20: an NFT collection, a factory, a router...
+   * Unregistered and unclassified contracts are not known either way.
+   */
+  async isKnownNonToken(address: string): Promise<boolean> {
+    const interfaces = await this.getInterfaces(address);
+    return interfaces !== null && !interfaces.includes('erc20');
+  }
+
+  async getContract(address: string): Promise<ContractInfo | null> {
+    const contract = await this.db.contract.findUnique({ where: { address: address.toLowerCase() } });
+    return contract ? this.toContractInfo(contract) : null;
+  }
+
+  /**
+   * Latest deployments, optionally of one deployer, standard or code hash
+   */
+  async getContracts(filter: ContractFilter = {}): Promise<ContractInfo[]> {
+    const contracts = await this.db.contract.findMany({
+      where: {
+        deployer: filter.deployer?.toLowerCase(),
+        codeHash: filter.codeHash?.toLowerCase(),
+        interfaces: filter.interface ? { has: filter.interface } : undefined
+      },
+      orderBy: [{ blockNumber: 'desc' }, { id: 'desc' }],
+      take: filter.limit ?? 100
+    });
+    return contracts.map(contract => this.toContractInfo(contract));
+  }
+
+  /**
+   * Code details and standards of a contract. It stays unclassified when its code cannot be read, or when it
+   * delegates calls and neither its own code nor a resolved implementation shows a standard (e.g. a diamond).
+   */
+  private async classify(address: string, blockNumber: number): Promise<Classification> {
+    if (!this.batcher) {
+      return { codeHash: null, codeSize: null, interfaces: [], classified: false };
+    }
+    const blockTag = ethers.toQuantity(blockNumber);
+
+    let code: string;
+    try {
+      code = await this.batcher.call<string>('eth_getCode', [address, blockTag]);
+    } catch (error) {
+      console.warn(`⚠️  Failed to read the code of ${address}: ${error instanceof Error ? error.message : error}`);
+      return { codeHash: null, codeSize: null, interfaces: [], classified: false };
+    }
+    // Self-destructed in the block it was created in; CREATE2 can deploy other code at the address later
+    if (code === '0x') {
+      return { codeHash: null, codeSize: 0, interfaces: [], classified: false };
+    }
+
+    const interfaces = new Set<ContractInterface>(detectSelectorInterfaces(code));
+    const implementation = interfaces.size === 0 ? await this.proxies?.getImplementation(address, blockNumber) : null;
+    let implementationRead = false;
+    if (implementation) {
+      try {
+        const implementationCode = await this.batcher.call<string>('eth_getCode', [implementation, blockTag]);
+        detectSelectorInterfaces(implementationCode).forEach(standard => interfaces.add(standard));
+        implementationRead = true;
+      } catch (error) {
+        console.warn(`⚠️  Failed to read the code of implementation ${implementation}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // A compliant ERC-165 contract supports 0x01ffc9a7 and rejects 0xffffffff
+    if (await this.supportsInterface(address, '0x01ffc9a7', blockTag) && !await this.supportsInterface(address, '0xffffffff', blockTag)) {
+      interfaces.add('erc165');
+      for (const [standard, interfaceId] of ERC165_IDS) {
+        if (await this.supportsInterface(address, interfaceId, blockTag)) {
+          interfaces.add(standard);
+        }
+      }
+    }
+
+    return {
+      codeHash: ethers.keccak256(code),
+      codeSize: ethers.dataLength(code),
+      interfaces: [...interfaces].sort(),
+      // Diamonds support ERC-165 too, so only a token standard makes a delegating contract classified
+      classified: [...interfaces].some(standard => standard !== 'erc165') || implementationRead || !hasDelegateCall(code)
+    };
+  }
+
+  private async supportsInterface(address: string, interfaceId: string, blockTag: string): Promise<boolean> {
+    try {
+      const data = await this.batcher!.call<string>('eth_call', [
+        { to: address, data: erc165Interface.encodeFunctionData('supportsInterface', [interfaceId]) },
+        blockTag
+      ]);
+      return erc165Interface.decodeFunctionResult('supportsInterface', data)[0] === true;
+    } catch (error) {
+      // Reverts and empty results mean the contract does not implement ERC-165
+      return false;
+    }
+  }
+
+  private toContractInfo(contract: Prisma.ContractGetPayload<{}>): ContractInfo {
+    return {
+      address: contract.address,
+      deployer: contract.deployer,
+      txHash: contract.txHash,
+      traceAddress: contract.traceAddress,
+      blockNumber: contract.blockNumber.toString(),
+      codeHash: contract.codeHash,
+      codeSize: contract.codeSize,
+      interfaces: contract.interfaces as ContractInterface[],
+      classified: contract.classified
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface DeadLetterConfig {
+  maxAttempts: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+}
+
+/**
+ * - `ingest`: fetching or storing a block failed
+ * - `block`: processing the events of a block failed as a whole
+ * - `transaction`: decoding the logs of one transaction failed
+ * - `log`: a log matched no ABI and no known event signature (stored as an `Unknown` event)
+ */
+export type FailureStage = 'ingest' | 'block' | 'transaction' | 'log';
+
+/**
+ * - `pending`: retried at `nextRetryAt`
+ * - `resolved`: a later attempt succeeded
+ * - `dead`: gave up after `maxAttempts`; only reprocessed on request
+ */
+export type FailureStatus = 'pending' | 'resolved' | 'dead';
+
+export interface FailureInput {
+  stage: FailureStage;
+  // Identifies the item within its stage: block number, transaction hash or `txHash:logIndex`
+  key: string;
+  blockNumber?: number | null;
+  txHash?: string | null;
+  error: unknown;
+  payload: Prisma.InputJsonValue;
+}
+
+export interface FailureFilter {
+  stage?: FailureStage;
+  status?: FailureStatus;
+  limit?: number;
+}
+
+export interface FailedItemView {
+  id: number;
+  stage: string;
+  key: string;
+  blockNumber: string | null;
+  txHash: string | null;
+  error: string;
+  payload: Prisma.JsonValue;
+  status: string;
+  attempts: number;
+  nextRetryAt: Date | null;
+  lastAttemptAt: Date;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+// Stages settled by processing a block; ingest failures are settled by ingesting it
+const PROCESSING_STAGES: FailureStage[] = ['block', 'transaction', 'log'];
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * Drop failures of orphaned blocks; the canonical blocks are ingested and processed afresh. Runs inside the reorg rollback.
+ */
+export async function revertFailedItems(tx: Prisma.TransactionClient, blockNumbers: bigint[]): Promise<void> {
+  if (blockNumbers.length === 0) {
+    return;
+  }
+  await tx.failedItem.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+}
+
+/**
+ * Durable record of what failed to ingest, process or decode, in the `FailedItem` table. Each item is keyed
+ * by stage and key, so failing again updates the same row: the attempt count goes up and the next retry is
+ * pushed back exponentially from `retryDelay` up to `maxRetryDelay`. After `maxAttempts` the item is dead.
+ * The `Reprocessor` picks up due items; processing a block again resolves the items it no longer fails on.
+ */
+export class DeadLetterQueue {
+  private db: PrismaClient;
+  private config: DeadLetterConfig;
+
+  constructor(db: PrismaClient, config?: Partial<DeadLetterConfig>) {
+    this.db = db;
+    this.config = {
+      maxAttempts: parseInt(process.env.DLQ_MAX_ATTEMPTS || '5', 10),
+      retryDelay: parseInt(process.env.DLQ_RETRY_DELAY_MS || '60000', 10),
+      maxRetryDelay: parseInt(process.env.DLQ_MAX_RETRY_DELAY_MS || '3600000', 10),
+      ...config
+    };
+  }
+
+  /**
+   * Delay before the next retry of an item that failed `attempts` times
+   */
+  retryDelay(attempts: number): number {
+    return Math.min(this.config.retryDelay * 2 ** (attempts - 1), this.config.maxRetryDelay);
+  }
+
+  async record(failure: FailureInput): Promise<void> {
+    await this.recordMany([failure]);
+  }
+
+  /**
+   * Record failures, counting another attempt for items already recorded. Resolved items that fail again start over.
+   */
+  async recordMany(failures: FailureInput[]): Promise<void> {
+    if (failures.length === 0) {
+      return;
+    }
+
+    const existing = await this.db.failedItem.findMany({
+      where: { OR: failures.map(failure => ({ stage: failure.stage, key: failure.key })) },
+      select: { id: true, stage: true, key: true, status: true, attempts: true }
+    });
+    const byKey = new Map(existing.map(item => [`${item.stage}/${item.key}`, item]));
+
+    const now = new Date();
+    const schedule = (attempts: number) => attempts >= this.config.maxAttempts
+      ? { status: 'dead', nextRetryAt: null }
+      : { status: 'pending', nextRetryAt: new Date(now.getTime() + this.retryDelay(attempts)) };
+
+    const created: Prisma.FailedItemCreateManyInput[] = [];
+    for (const failure of failures) {
+      const fields = {
+        blockNumber: failure.blockNumber !== undefined && failure.blockNumber !== null ? BigInt(failure.blockNumber) : null,
+        txHash: failure.txHash ?? null,
+        error: errorMessage(failure.error),
+        payload: failure.payload,
+        lastAttemptAt: now
+      };
+      const item = byKey.get(`${failure.stage}/${failure.key}`);
+      if (!item) {
+        created.push({ stage: failure.stage, key: failure.key, ...fields, attempts: 1, ...schedule(1) });
+        continue;
+      }
+
+      const attempts = item.status === 'resolved' ? 1 : item.attempts + 1;
+      await this.db.failedItem.update({
+        where: { id: item.id },
+        data: { ...fields, attempts, resolvedAt: null, ...schedule(attempts) }
+      });
+    }
+
+    if (created.length > 0) {
+      await this.db.failedItem.createMany({ data: created, skipDuplicates: true });
+    }
+  }
+
+  /**
+   * Mark an item resolved, if it was recorded
+   */
+  async resolve(stage: FailureStage, key: string): Promise<void> {
+    await this.db.failedItem.updateMany({
+      where: { stage, key, status: { not: 'resolved' } },
+      data: { status: 'resolved', resolvedAt: new Date(), nextRetryAt: null }
+    });
+  }
+
+  /**
+   * Record the failures of a block's processing run and resolve the block's earlier items that did not fail again
+   */
+  async settleBlock(blockNumber: number, failures: FailureInput[], startedAt: Date): Promise<void> {
+    await this.recordMany(failures);
+    await this.db.failedItem.updateMany({
+      where: {
+        blockNumber: BigInt(blockNumber),
+        stage: { in: PROCESSING_STAGES },
+        status: { not: 'resolved' },
+        lastAttemptAt: { lt: startedAt }
+      },
+      data: { status: 'resolved', resolvedAt: new Date(), nextRetryAt: null }
+    });
+  }
+
+  /**
+   * Pending items whose retry is due, oldest first
+   */
+  async due(limit: number = 50): Promise<FailedItemView[]> {
+    const items = await this.db.failedItem.findMany({
+      where: { status: 'pending', nextRetryAt: { lte: new Date() } },
+      orderBy: { nextRetryAt: 'asc' },
+      take: limit
+    });
+    return items.map(item => this.toView(item));
+  }
+
+  /**
+   * Latest items, optionally of one stage or status
+   */
+  async list(filter: FailureFilter = {}): Promise<FailedItemView[]> {
+    const items = await this.db.failedItem.findMany({
+      where: { stage: filter.stage, status: filter.status },
+      orderBy: [{ lastAttemptAt: 'desc' }, { id: 'desc' }],
+      take: filter.limit ?? 100
+    });
+    return items.map(item => this.toView(item));
+  }
+
+  /**
+   * Items by id, or all unresolved items (dead ones included) of a stage
+   */
+  async find(selection: { ids?: number[]; stage?: FailureStage; limit?: number }): Promise<FailedItemView[]> {
+    const items = await this.db.failedItem.findMany({
+      where: selection.ids
+        ? { id: { in: selection.ids } }
+        : { stage: selection.stage, status: { in: ['pending', 'dead'] } },
+      orderBy: { id: 'asc' },
+      take: selection.limit
+    });
+    return items.map(item => this.toView(item));
+  }
+
+  /**
+   * Item counts by stage and status
+   */
+  async summary(): Promise<Array<{ stage: string; status: string; count: number }>> {
+    const groups = await this.db.failedItem.groupBy({ by: ['stage', 'status'], _count: { _all: true } });
+    return groups.map(group => ({ stage: group.stage, status: group.status, count: group._count._all }));
+  }
+
+  private toView(item: Prisma.FailedItemGetPayload<{}>): FailedItemView {
+    return {
+      id: item.id,
+      stage: item.stage,
+      key: item.key,
+      blockNumber: item.blockNumber?.toString() ?? null,
+      txHash: item.txHash,
+      error: item.error,
+      payload: item.payload,
+      status: item.status,
+      attempts: item.attempts,
+      nextRetryAt: item.nextRetryAt,
+      lastAttemptAt: item.lastAttemptAt,
+      resolvedAt: item.resolvedAt,
+      createdAt: item.createdAt
+    };
+  }
+}
@@ -0,0 +1,339 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DexEvent, PoolProtocol, ResolvedToken } from './event-decoder';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import { Amount, formatAmount, knownDecimals, toAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+// Swap prices are stored with this many decimals
+const PRICE_DECIMALS = 18;
+
+export interface ResolvedPool {
+  id: number;
+  address: string;
+  protocol: PoolProtocol;
+  token0: string;
+  token1: string;
+}
+
+export interface DexApplyResult {
+  swaps: number;
+  poolEvents: number;
+}
+
+export interface SwapFilter {
+  pool?: string;
+  token?: string;
+  trader?: string;
+  limit?: number;
+}
+
+export interface SwapEntry {
+  txHash: string;
+  logIndex: number;
+  blockNumber: string;
+  pool: { address: string; protocol: string; fee: number | null };
+  sender: string;
+  recipient: string;
+  trader: string;
+  tokenIn: { address: string; symbol: string | null };
+  tokenOut: { address: string; symbol: string | null };
+  amountIn: Amount;
+  amountOut: Amount;
+  // Units of tokenOut per unit of tokenIn, when both tokens' decimals are known
+  price: string | null;
+}
+
+// A view call either returns data, reverts (the contract is not a pool) or fails for another reason
+type CallResult = { data: string } | { reverted: true } | { error: string };
+
+const poolInterface = new ethers.Interface([
+  'function factory() view returns (address)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)'
+]);
+
+/**
+ * Effective price of a swap in tokenOut per tokenIn, adjusted for decimals
+ */
+export function swapPrice(amountIn: bigint, decimalsIn: number | null, amountOut: bigint, decimalsOut: number | null): string | null {
+  if (amountIn <= 0n || decimalsIn === null || decimalsOut === null) {
+    return null;
+  }
+  const scaled = amountOut * 10n ** BigInt(decimalsIn + PRICE_DECIMALS) / (amountIn * 10n ** BigInt(decimalsOut));
+  return formatAmount(scaled, PRICE_DECIMALS);
+}
+
+/**
+ * Undo the swaps and pool events of orphaned transactions; runs inside the reorg rollback
+ */
+export async function revertDexEvents(tx: Prisma.TransactionClient, txHashes: string[]): Promise<void> {
+  if (txHashes.length === 0) {
+    return;
+  }
+  await tx.swap.deleteMany({ where: { txHash: { in: txHashes } } });
+  await tx.poolEvent.deleteMany({ where: { txHash: { in: txHashes } } });
+}
+
+/**
+ * Stores Uniswap V2/V3-style pool events. Every contract that emits them is resolved once to its factory,
+ * token0 and token1 with view calls; contracts that revert them are marked `failed` and ignored from then on.
+ * Swaps are normalized to the token that went into the pool and the token that came out, with the trader
+ * being the sender of the transaction. Sync, Mint, Burn and Collect are kept as pool events. Rows are keyed
+ * by (txHash, logIndex), so processing a block again changes nothing.
+ */
+export class DexTracker {
+  private db: PrismaClient;
+  private batcher?: RpcBatcher;
+
+  constructor(db: PrismaClient, batcher?: RpcBatcher) {
+    this.db = db;
+    this.batcher = batcher;
+  }
+
+  /**
+   * Get the pools behind a set of DEX events, reading unknown ones from the chain. Only real pools are returned.
+   */
+  async resolvePools(events: DexEvent[]): Promise<Map<string, ResolvedPool>> {
+    const protocols = new Map(events.map(event => [event.pool.toLowerCase(), event.protocol]));
+    if (protocols.size === 0) {
+      return new Map();
+    }
+
+    const addresses = [...protocols.keys()];
+    const known = await this.db.pool.findMany({ where: { address: { in: addresses } } });
+    const missing = addresses.filter(address => !known.some(pool => pool.address === address));
+
+    if (missing.length > 0 && !this.batcher) {
+      console.warn(`⚠️  Cannot resolve ${missing.length} pools without an RPC batcher`);
+    } else if (missing.length > 0) {
+      const rows = (await Promise.all(missing.map(address => this.fetchPool(address, protocols.get(address)!))))
+        .filter((row): row is Prisma.PoolCreateManyInput => row !== null);
+      if (rows.length > 0) {
+        await this.db.pool.createMany({ data: rows, skipDuplicates: true });
+        known.push(...await this.db.pool.findMany({ where: { address: { in: rows.map(row => row.address) } } }));
+      }
+    }
+
+    return new Map(known
+      .filter(pool => pool.status === 'ok' && pool.token0 && pool.token1)
+      .map(pool => [pool.address, {
+        id: pool.id,
+        address: pool.address,
+        protocol: pool.protocol as PoolProtocol,
+        token0: pool.token0!,
+        token1: pool.token1!
+      }]));
+  }
+
+  /**
+   * Record a block's swaps and pool events, inside the block's database transaction
+   */
+  async applyBlock(
+    tx: Prisma.TransactionClient,
+    blockNumber: number,
+    events: DexEvent[],
+    pools: Map<string, ResolvedPool>,
+    tokens: Map<string, ResolvedToken>,
+    traders: Map<string, { from: string }>
+  ): Promise<DexApplyResult> {
+    const poolEvents = events.filter(event => pools.has(event.pool.toLowerCase()));
+    if (poolEvents.length === 0) {
+      return { swaps: 0, poolEvents: 0 };
+    }
+
+    const txHashes = [...new Set(poolEvents.map(event => event.txHash))];
+    const [existingSwaps, existingEvents] = await Promise.all([
+      tx.swap.findMany({ where: { txHash: { in: txHashes } }, select: { txHash: true, logIndex: true } }),
+      tx.poolEvent.findMany({ where: { txHash: { in: txHashes } }, select: { txHash: true, logIndex: true } })
+    ]);
+    const seen = new Set([...existingSwaps, ...existingEvents].map(row => `${row.txHash}:${row.logIndex}`));
+    const fresh = poolEvents.filter(event => !seen.has(`${event.txHash}:${event.logIndex}`));
+
+    const swapRows: Prisma.SwapCreateManyInput[] = [];
+    const eventRows: Prisma.PoolEventCreateManyInput[] = [];
+    for (const event of fresh) {
+      const pool = pools.get(event.pool.toLowerCase())!;
+      if (event.kind === 'swap') {
+        const swap = this.toSwapRow(blockNumber, event, pool, tokens, traders);
+        if (swap) {
+          swapRows.push(swap);
+        }
+      } else {
+        eventRows.push({
+          txHash: event.txHash,
+          logIndex: event.logIndex,
+          blockNumber: BigInt(blockNumber),
+          poolId: pool.id,
+          type: event.kind,
+          sender: event.sender?.toLowerCase() ?? null,
+          owner: event.owner?.toLowerCase() ?? null,
+          recipient: event.recipient?.toLowerCase() ?? null,
+          amount0: event.amount0,
+          amount1: event.amount1,
+          liquidity: event.liquidity ?? null,
+          tickLower: event.tickLower ?? null,
+          tickUpper: event.tickUpper ?? null
+        });
+      }
+    }
+
+    if (swapRows.length > 0) {
+      await tx.swap.createMany({ data: swapRows, skipDuplicates: true });
+    }
+    if (eventRows.length > 0) {
+      await tx.poolEvent.createMany({ data: eventRows, skipDuplicates: true });
+    }
+
+    if (swapRows.length > 0 || eventRows.length > 0) {
+      console.log(`🔁 Block ${blockNumber}: ${swapRows.length} swaps, ${eventRows.length} pool events`);
+    }
+    return { swaps: swapRows.length, poolEvents: eventRows.length };
+  }
+
+  /**
+   * Latest swaps, optionally of one pool, token or trader
+   */
+  async getSwaps(filter: SwapFilter = {}): Promise<SwapEntry[]> {
+    const where: Prisma.SwapWhereInput = {};
+    if (filter.pool) {
+      where.pool = { address: filter.pool.toLowerCase() };
+    }
+    if (filter.token) {
+      const token = { address: { equals: filter.token, mode: 'insensitive' as const } };
+      where.OR = [{ tokenIn: token }, { tokenOut: token }];
+    }
+    if (filter.trader) {
+      where.trader = filter.trader.toLowerCase();
+    }
+
+    const swaps = await this.db.swap.findMany({
+      where,
+      include: { pool: true, tokenIn: true, tokenOut: true },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+      take: filter.limit ?? 100
+    });
+
+    return swaps.map(swap => ({
+      txHash: swap.txHash,
+      logIndex: swap.logIndex,
+      blockNumber: swap.blockNumber.toString(),
+      pool: { address: swap.pool.address, protocol: swap.pool.protocol, fee: swap.pool.fee },
+      sender: swap.sender,
+      recipient: swap.recipient,
+      trader: swap.trader,
+      tokenIn: { address: swap.tokenIn.address, symbol: swap.tokenIn.symbol },
+      tokenOut: { address: swap.tokenOut.address, symbol: swap.tokenOut.symbol },
+      amountIn: toAmount(swap.amountIn, knownDecimals(swap.tokenIn)),
+      amountOut: toAmount(swap.amountOut, knownDecimals(swap.tokenOut)),
+      price: swap.price?.toFixed() ?? null
+    }));
+  }
+
+  /**
+   * Normalize a swap to the token the pool received and the token it paid out
+   */
+  private toSwapRow(
+    blockNumber: number,
+    event: DexEvent,
+    pool: ResolvedPool,
+    tokens: Map<string, ResolvedToken>,
+    traders: Map<string, { from: string }>
+  ): Prisma.SwapCreateManyInput | null {
+    const amount0 = BigInt(event.amount0);
+    const amount1 = BigInt(event.amount1);
+    const zeroIn = amount0 > 0n;
+    const [tokenInAddress, tokenOutAddress] = zeroIn ? [pool.token0, pool.token1] : [pool.token1, pool.token0];
+    const amountIn = zeroIn ? amount0 : amount1;
+    const amountOut = -(zeroIn ? amount1 : amount0);
+    const tokenIn = tokens.get(tokenInAddress);
+    const tokenOut = tokens.get(tokenOutAddress);
+    if (amountIn <= 0n || amountOut < 0n || !tokenIn || !tokenOut) {
+      return null;
+    }
+
+    return {
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      blockNumber: BigInt(blockNumber),
+      poolId: pool.id,
+      sender: (event.sender ?? '').toLowerCase(),
+      recipient: (event.recipient ?? '').toLowerCase(),
+      trader: (traders.get(event.txHash)?.from ?? event.sender ?? '').toLowerCase(),
+      tokenInId: tokenIn.id,
+      tokenOutId: tokenOut.id,
+      amountIn: amountIn.toString(),
+      amountOut: amountOut.toString(),
+      price: swapPrice(amountIn, tokenIn.decimals, amountOut, tokenOut.decimals),
+      sqrtPriceX96: event.sqrtPriceX96 ?? null,
+      liquidity: event.liquidity ?? null,
+      tick: event.tick ?? null
+    };
+  }
+
+  /**
+   * Read a pool's factory, tokens and (V3) fee tier. Null when the calls failed for a reason other than a revert,
+   * so the pool is tried again next time.
+   */
+  private async fetchPool(address: string, protocol: PoolProtocol): Promise<Prisma.PoolCreateManyInput | null> {
+    const fields = protocol === 'uniswap-v3' ? ['factory', 'token0', 'token1', 'fee'] : ['factory', 'token0', 'token1'];
+    const results = await Promise.all(fields.map(field => this.callView(address, field)));
+    const failure = results.find((result): result is { error: string } => 'error' in result);
+    if (failure) {
+      console.warn(`⚠️  Failed to resolve pool ${address}: ${failure.error}`);
+      return null;
+    }
+
+    // Addresses decode as strings, the fee as a bigint
+    const values = new Map<string, string | bigint>();
+    results.forEach((result, i) => {
+      if ('data' in result && result.data !== '0x') {
+        try {
+          values.set(fields[i], poolInterface.decodeFunctionResult(fields[i], result.data)[0]);
+        } catch (error) {
+          // Not the expected return type
+        }
+      }
+    });
+
+    const addressOf = (field: string) => {
+      const value = values.get(field);
+      return typeof value === 'string' ? value.toLowerCase() : null;
+    };
+    const token0 = addressOf('token0');
+    const token1 = addressOf('token1');
+    const fee = values.get('fee');
+    return {
+      address,
+      protocol,
+      factory: addressOf('factory'),
+      token0,
+      token1,
+      fee: typeof fee === 'bigint' ? Number(fee) : null,
+      status: token0 && token1 ? 'ok' : 'failed',
+      error: token0 && token1 ? null : 'token0() or token1() not available'
+    };
+  }
+
+  private async callView(address: string, field: string): Promise<CallResult> {
+    try {
+      const data = await this.batcher!.call<string>('eth_call', [
+        { to: address, data: poolInterface.encodeFunctionData(field) },
+        'latest'
+      ]);
+      return { data };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Code 3 is the JSON-RPC execution error the batcher attaches for reverts
+      const code = (error as { error?: { code?: number } } | null)?.error?.code;
+      if (code === 3 || message.toLowerCase().includes('revert')) {
+        return { reverted: true };
+      }
+      return { error: message };
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Amount, ETH_DECIMALS, toAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+// Withdrawal amounts are stored in gwei
+const GWEI = 1000000000n;
+
+export type EthMovementKind = 'transaction' | 'internal' | 'withdrawal';
+
+export interface EthMovement {
+  kind: EthMovementKind;
+  direction: 'in' | 'out' | 'self';
+  blockNumber: string;
+  txHash: string | null;
+  // Call path of an internal transfer, e.g. "0.1"
+  traceAddress: string | null;
+  from: string | null;
+  to: string | null;
+  value: Amount;
+}
+
+export interface EthBalance {
+  address: string;
+  // Last block included, or null for everything indexed
+  blockNumber: string | null;
+  balance: Amount;
+  breakdown: {
+    received: Amount;
+    sent: Amount;
+    internalReceived: Amount;
+    internalSent: Amount;
+    withdrawals: Amount;
+    fees: Amount;
+  };
+}
+
+const eth = (value: bigint): Amount => toAmount(value, ETH_DECIMALS);
+const receivedBy = (address: string): Prisma.TransactionWhereInput[] => [{ to: address }, { to: null, contractAddress: address }];
+// Pre-Byzantium receipts have no status; their transactions are counted as successful
+const notFailed: Prisma.TransactionWhereInput = { OR: [{ status: 1 }, { status: null }] };
+const toWei = (value: Prisma.Decimal | null | undefined): bigint => BigInt(value?.toFixed() ?? '0');
+
+/**
+ * Native ETH history and balance of an address from indexed data: top-level transaction values, internal
+ * transfers from call traces, beacon-chain withdrawals and the gas fees the address paid. The balance is
+ * the net flow over the indexed blocks, so it equals the on-chain balance only when the address's whole
+ * history is indexed. Priority fees received as block proposer are not included.
+ */
+export class EthHistory {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient) {
+    this.db = db;
+  }
+
+  /**
+   * Latest ETH movements of an address, newest first
+   */
+  async getHistory(address: string, limit: number = 100, blockNumber?: number): Promise<EthMovement[]> {
+    const owner = ethers.getAddress(address);
+    const upTo = blockNumber !== undefined ? { lte: BigInt(blockNumber) } : undefined;
+
+    const [transactions, internalTransfers, withdrawals] = await Promise.all([
+      this.db.transaction.findMany({
+        where: { OR: [{ from: owner }, ...receivedBy(owner)], AND: [notFailed], valueRaw: { gt: 0 }, blockNumber: upTo },
+        orderBy: { blockNumber: 'desc' },
+        take: limit
+      }),
+      this.db.internalTransfer.findMany({
+        // Contract creations are kept without value for the contract registry
+        where: { OR: [{ from: owner }, { to: owner }], value: { gt: 0 }, blockNumber: upTo },
+        orderBy: [{ blockNumber: 'desc' }, { id: 'desc' }],
+        take: limit
+      }),
+      this.db.withdrawal.findMany({
+        where: { address: owner, blockNumber: upTo },
+        orderBy: { index: 'desc' },
+        take: limit
+      })
+    ]);
+
+    const direction = (from: string | null, to: string | null): EthMovement['direction'] =>
+      from === owner && to === owner ? 'self' : from === owner ? 'out' : 'in';
+
+    const movements: EthMovement[] = [
+      ...transactions.map(tx => ({
+        kind: 'transaction' as const,
+        direction: direction(tx.from, tx.to ?? tx.contractAddress),
+        blockNumber: tx.blockNumber.toString(),
+        txHash: tx.hash,
+        traceAddress: null,
+        from: tx.from,
+        // A contract creation sends its value to the new contract
+        to: tx.to ?? tx.contractAddress,
+        value: eth(toWei(tx.valueRaw))
+      })),
+      ...internalTransfers.map(transfer => ({
+        kind: 'internal' as const,
+        direction: direction(transfer.from, transfer.to),
+        blockNumber: transfer.blockNumber.toString(),
+        txHash: transfer.txHash,
+        traceAddress: transfer.traceAddress,
+        from: transfer.from,
+        to: transfer.to,
+        value: eth(toWei(transfer.value))
+      })),
+      ...withdrawals.map(withdrawal => ({
+        kind: 'withdrawal' as const,
+        direction: 'in' as const,
+        blockNumber: withdrawal.blockNumber.toString(),
+        txHash: null,
+        traceAddress: null,
+        from: null,
+        to: withdrawal.address,
+        value: eth(BigInt(withdrawal.amount) * GWEI)
+      }))
+    ];
+
+    return movements
+      .sort((a, b) => Number(BigInt(b.blockNumber) - BigInt(a.blockNumber)))
+      .slice(0, limit);
+  }
+
+  /**
+   * ETH balance of an address from the indexed blocks, at the end of a block or over everything indexed
+   */
+  async getBalance(address: string, blockNumber?: number): Promise<EthBalance> {
+    const owner = ethers.getAddress(address);
+    const upTo = blockNumber !== undefined ? { lte: BigInt(blockNumber) } : undefined;
+    const upToSql = blockNumber !== undefined ? Prisma.sql`AND "blockNumber" <= ${BigInt(blockNumber)}` : Prisma.empty;
+
+    const [received, sent, internalReceived, internalSent, totals] = await Promise.all([
+      this.db.transaction.aggregate({ _sum: { valueRaw: true }, where: { OR: receivedBy(owner), AND: [notFailed], blockNumber: upTo } }),
+      this.db.transaction.aggregate({ _sum: { valueRaw: true }, where: { from: owner, AND: [notFailed], blockNumber: upTo } }),
+      this.db.internalTransfer.aggregate({ _sum: { value: true }, where: { to: owner, blockNumber: upTo } }),
+      this.db.internalTransfer.aggregate({ _sum: { value: true }, where: { from: owner, blockNumber: upTo } }),
+      // Fees are charged for failed transactions too; amounts stored as strings are summed in SQL
+      this.db.$queryRaw<Array<{ fees: Prisma.Decimal | null; withdrawals: Prisma.Decimal | null }>>`
+        SELECT
+          (SELECT SUM("gasUsed"::numeric * COALESCE("effectiveGasPrice", "gasPrice")::numeric
+            + COALESCE("blobGasUsed", 0)::numeric * COALESCE("blobGasPrice", '0')::numeric)
+            FROM "Transaction" WHERE "from" = ${owner} ${upToSql}) AS "fees",
+          (SELECT SUM("amount"::numeric) FROM "Withdrawal" WHERE "address" = ${owner} ${upToSql}) AS "withdrawals"
+      `
+    ]);
+
+    const breakdown = {
+      received: toWei(received._sum.valueRaw),
+      sent: toWei(sent._sum.valueRaw),
+      internalReceived: toWei(internalReceived._sum.value),
+      internalSent: toWei(internalSent._sum.value),
+      withdrawals: toWei(totals[0]?.withdrawals) * GWEI,
+      fees: toWei(totals[0]?.fees)
+    };
+    const balance = breakdown.received - breakdown.sent + breakdown.internalReceived - breakdown.internalSent +
+      breakdown.withdrawals - breakdown.fees;
+
+    return {
+      address: owner,
+      blockNumber: blockNumber !== undefined ? blockNumber.toString() : null,
+      balance: eth(balance),
+      breakdown: {
+        received: eth(breakdown.received),
+        sent: eth(breakdown.sent),
+        internalReceived: eth(breakdown.internalReceived),
+        internalSent: eth(breakdown.internalSent),
+        withdrawals: eth(breakdown.withdrawals),
+        fees: eth(breakdown.fees)
+      }
+    };
+  }
+}
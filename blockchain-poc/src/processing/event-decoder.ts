@@ -1,11 +1,17 @@
 import { ethers } from 'ethers';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PersistedEvent } from '../ingestion/block-persister';
+import { AbiRegistry } from './abi-registry';
+import { DecodeConfidence, EventSignatureDatabase } from './event-signatures';
+import { ProxyResolver } from './proxy-resolver';
+import { ContractRegistry } from './contract-registry';
+import { knownDecimals, normalizeAmount } from '../utils/amount';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config({ path: './config.env' });
 
-interface TransferEvent {
+export interface TransferEvent {
   from: string;
   to: string;
   amount: string;
@@ -14,17 +20,107 @@ interface TransferEvent {
   logIndex: number;
 }
 
-interface DecodedEvent {
+export interface ApprovalEvent {
+  owner: string;
+  spender: string;
+  value: string;
+  contract: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export type NftStandard = 'ERC721' | 'ERC1155';
+
+export interface NftTransferEvent {
+  contract: string;
+  standard: NftStandard;
+  txHash: string;
+  logIndex: number;
+  // Position in an ERC-1155 TransferBatch, 0 otherwise
+  batchIndex: number;
+  operator?: string;
+  from: string;
+  to: string;
+  tokenId: string;
+  amount: string;
+}
+
+export interface NftApprovalEvent {
+  contract: string;
+  txHash: string;
+  logIndex: number;
+  owner: string;
+  operator: string;
+  approved: boolean;
+}
+
+export type PoolProtocol = 'uniswap-v2' | 'uniswap-v3';
+
+export interface DexEvent {
+  kind: 'swap' | 'sync' | 'mint' | 'burn' | 'collect';
+  protocol: PoolProtocol;
+  pool: string;
+  txHash: string;
+  logIndex: number;
+  sender?: string;
+  recipient?: string;
+  // Position owner of V3 mints, burns and collects
+  owner?: string;
+  // Swaps: net amounts the pool received (negative when it paid out). Sync: reserves. Otherwise the event amounts.
+  amount0: string;
+  amount1: string;
+  liquidity?: string;
+  tickLower?: number;
+  tickUpper?: number;
+  // Pool price and tick after a V3 swap
+  sqrtPriceX96?: string;
+  tick?: number;
+}
+
+// IncreaseLiquidity, DecreaseLiquidity and Collect of a V3 NonfungiblePositionManager, keyed by the position NFT
+export interface PositionManagerEvent {
+  kind: 'increase' | 'decrease' | 'collect';
+  manager: string;
+  tokenId: string;
+  txHash: string;
+  logIndex: number;
+  // Liquidity added or removed; absent for collects
+  liquidity?: string;
+  amount0: string;
+  amount1: string;
+  recipient?: string;
+}
+
+export interface ResolvedToken {
+  id: number;
+  decimals: number | null;
+}
+
+export interface RawLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  transactionHash: string;
+  logIndex: number;
+  // Needed to pick the implementation ABI a proxy delegated to when the log was emitted
+  blockNumber?: number;
+}
+
+export interface DecodedEvent {
   eventName: string;
   args: any;
   contract: string;
   txHash: string;
   logIndex: number;
+  confidence?: DecodeConfidence;
 }
 
 export class EventDecoder {
   private db: PrismaClient;
-  private abiCache: Map<string, ethers.Interface> = new Map();
+  private registry: AbiRegistry;
+  private signatures: EventSignatureDatabase;
+  private proxies?: ProxyResolver;
+  private contracts?: ContractRegistry;
   
   // Common ERC-20 ABI
   private erc20Abi = [
@@ -35,71 +131,153 @@ export class EventDecoder {
   // Popular token addresses for testing
   private popularTokens: Record<string, string> = {
     '0xdAC17F958D2ee523a2206206994597C13D831ec7': 'USDT', // Tether
-    '0xA0b86a33E6441c8C4C4C4C4C4C4C4C4C4C4C4C': 'USDC', // USD Coin
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': 'USDC', // USD Coin
     '0x6B175474E89094C44Da98b954EedeAC495271d0F': 'DAI'   // Dai Stablecoin
   };
 
-  constructor(db: PrismaClient) {
+  constructor(
+    db: PrismaClient,
+    registry?: AbiRegistry,
+    signatures?: EventSignatureDatabase,
+    proxies?: ProxyResolver,
+    contracts?: ContractRegistry
+  ) {
     this.db = db;
-    this.initializeAbiCache();
+    this.registry = registry ?? new AbiRegistry(db);
+    this.signatures = signatures ?? new EventSignatureDatabase();
+    this.proxies = proxies;
+    this.contracts = contracts;
+    this.initializeBuiltinAbis();
   }
 
-  private initializeAbiCache(): void {
-    // Cache ERC-20 ABI for popular tokens
+  private initializeBuiltinAbis(): void {
+    // ERC-20 ABI for popular tokens, unless a registered ABI replaces it
     const erc20Interface = new ethers.Interface(this.erc20Abi);
     
     Object.keys(this.popularTokens).forEach(address => {
-      this.abiCache.set(address.toLowerCase(), erc20Interface);
+      this.registry.registerBuiltin(address, erc20Interface);
     });
   }
 
-  async decodeTransactionLogs(txHash: string, logs: ethers.Log[]): Promise<DecodedEvent[]> {
+  /**
+   * Decode the logs of a transaction; logs that do not decode are left out (see rawEvents)
+   */
+  async decodeTransactionLogs(txHash: string, logs: RawLog[]): Promise<DecodedEvent[]> {
     const decodedEvents: DecodedEvent[] = [];
 
+    // Implementation upgrades first, so logs after them in the transaction decode with the new ABI
+    if (this.proxies) {
+      for (const log of logs) {
+        try {
+          await this.proxies.recordUpgrade(log);
+        } catch (error) {
+          console.warn(`⚠️  Failed to record proxy upgrade in transaction ${txHash}:`, error);
+        }
+      }
+    }
+
     for (const log of logs) {
       try {
         const decoded = await this.decodeLog(log);
         if (decoded) {
-          decodedEvents.push(decoded);
+          decodedEvents.push(await this.applyContractStandard(decoded));
         }
       } catch (error) {
         console.warn(`Failed to decode log in transaction ${txHash}:`, error);
-        // Store raw log for debugging
-        await this.storeRawEvent(log, txHash);
       }
     }
 
     return decodedEvents;
   }
 
-  private async decodeLog(log: ethers.Log): Promise<DecodedEvent | null> {
+  /**
+   * Decode a log with the contract's ABI, then with the ABI of the implementation a proxy delegated to at the
+   * log's block, falling back to known event signatures by topic0
+   */
+  private async decodeLog(log: RawLog): Promise<DecodedEvent | null> {
     const contractAddress = log.address.toLowerCase();
-    const contractInterface = this.abiCache.get(contractAddress);
+    const contractInterface = await this.registry.getInterface(contractAddress);
+
+    const decoded = contractInterface ? this.parseWithInterface(contractInterface, log, contractAddress) : null;
+    if (decoded) {
+      return decoded;
+    }
 
-    if (!contractInterface) {
-      console.warn(`No ABI found for contract ${contractAddress}`);
+    const implementation = await this.getImplementation(log);
+    const implementationInterface = implementation ? await this.registry.getInterface(implementation) : null;
+    const delegated = implementationInterface ? this.parseWithInterface(implementationInterface, log, implementation!) : null;
+    if (delegated) {
+      return delegated;
+    }
+
+    const match = this.signatures.decode(log);
+    if (!match) {
+      if (!contractInterface && !implementationInterface) {
+        console.warn(`No ABI found for contract ${contractAddress}`);
+      }
       return null;
     }
 
+    return {
+      eventName: match.fragment.name,
+      args: match.args,
+      contract: log.address,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      confidence: match.confidence
+    };
+  }
+
+  /**
+   * Early ERC-721 contracts index `from` and `to` but not the tokenId, so their Transfer and Approval logs
+   * have the ERC-20 layout. When the contract registry knows the emitter is an NFT collection, the third
+   * value is re-keyed as the tokenId.
+   */
+  private async applyContractStandard(event: DecodedEvent): Promise<DecodedEvent> {
+    if (!this.contracts || event.args.value === undefined || !['Transfer', 'Approval'].includes(event.eventName)) {
+      return event;
+    }
+    if (!await this.contracts.isNftContract(event.contract)) {
+      return event;
+    }
+
+    const args = event.eventName === 'Transfer'
+      ? { from: event.args.from, to: event.args.to, tokenId: event.args.value }
+      : { owner: event.args.owner, approved: event.args.spender, tokenId: event.args.value };
+    return { ...event, args };
+  }
+
+  private parseWithInterface(contractInterface: ethers.Interface, log: RawLog, abiAddress: string): DecodedEvent | null {
     try {
       const decoded = contractInterface.parseLog({
         topics: log.topics,
         data: log.data
       });
 
-      if (!decoded) {
-        return null;
+      if (decoded) {
+        return {
+          eventName: decoded.name,
+          args: decoded.args,
+          contract: log.address,
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          confidence: 'abi'
+        };
       }
+    } catch (error) {
+      console.warn(`Failed to parse log for contract ${abiAddress}:`, error);
+    }
+    return null;
+  }
 
-      return {
-        eventName: decoded.name,
-        args: decoded.args,
-        contract: log.address,
-        txHash: log.transactionHash,
-        logIndex: (log as any).logIndex || 0
-      };
+  private async getImplementation(log: RawLog): Promise<string | null> {
+    if (!this.proxies) {
+      return null;
+    }
+    try {
+      return await this.proxies.getImplementation(log.address, log.blockNumber, log.logIndex);
     } catch (error) {
-      console.warn(`Failed to parse log for contract ${contractAddress}:`, error);
+      console.warn(`⚠️  Failed to resolve proxy implementation of ${log.address}:`, error);
       return null;
     }
   }
@@ -108,7 +286,8 @@ export class EventDecoder {
     const transferEvents: TransferEvent[] = [];
 
     for (const event of decodedEvents) {
-      if (event.eventName === 'Transfer') {
+      // ERC-721 Transfer shares the name but carries a tokenId instead of a value
+      if (event.eventName === 'Transfer' && event.args.value !== undefined) {
         const transferEvent: TransferEvent = {
           from: event.args.from,
           to: event.args.to,
@@ -124,6 +303,193 @@ export class EventDecoder {
     return transferEvents;
   }
 
+  /**
+   * Extract ERC-20 Approval events; ERC-721 Approvals carry a tokenId instead of a value
+   */
+  extractApprovalEvents(decodedEvents: DecodedEvent[]): ApprovalEvent[] {
+    return decodedEvents
+      .filter(event => event.eventName === 'Approval' && event.args.value !== undefined && event.args.spender !== undefined)
+      .map(event => ({
+        owner: event.args.owner,
+        spender: event.args.spender,
+        value: event.args.value.toString(),
+        contract: event.contract,
+        txHash: event.txHash,
+        logIndex: event.logIndex
+      }));
+  }
+
+  /**
+   * Extract ERC-721 Transfer and ERC-1155 TransferSingle/TransferBatch events, one entry per token moved
+   */
+  extractNftTransfers(decodedEvents: DecodedEvent[]): NftTransferEvent[] {
+    const nftTransfers: NftTransferEvent[] = [];
+
+    for (const event of decodedEvents) {
+      const base = { contract: event.contract, txHash: event.txHash, logIndex: event.logIndex };
+
+      if (event.eventName === 'Transfer' && event.args.tokenId !== undefined) {
+        nftTransfers.push({
+          ...base,
+          standard: 'ERC721',
+          batchIndex: 0,
+          from: event.args.from,
+          to: event.args.to,
+          tokenId: event.args.tokenId.toString(),
+          amount: '1'
+        });
+      } else if (event.eventName === 'TransferSingle' && event.args.id !== undefined) {
+        nftTransfers.push({
+          ...base,
+          standard: 'ERC1155',
+          batchIndex: 0,
+          operator: event.args.operator,
+          from: event.args.from,
+          to: event.args.to,
+          tokenId: event.args.id.toString(),
+          amount: event.args.value.toString()
+        });
+      } else if (event.eventName === 'TransferBatch' && event.args.ids !== undefined) {
+        const ids = Array.from(event.args.ids as ArrayLike<bigint>);
+        const values = Array.from(event.args.values as ArrayLike<bigint>);
+        ids.forEach((id, batchIndex) => {
+          nftTransfers.push({
+            ...base,
+            standard: 'ERC1155',
+            batchIndex,
+            operator: event.args.operator,
+            from: event.args.from,
+            to: event.args.to,
+            tokenId: id.toString(),
+            amount: (values[batchIndex] ?? 0n).toString()
+          });
+        });
+      }
+    }
+
+    return nftTransfers;
+  }
+
+  /**
+   * Extract ApprovalForAll events (shared by ERC-721 and ERC-1155)
+   */
+  extractNftApprovals(decodedEvents: DecodedEvent[]): NftApprovalEvent[] {
+    return decodedEvents
+      .filter(event => event.eventName === 'ApprovalForAll' && event.args.operator !== undefined)
+      .map(event => ({
+        contract: event.contract,
+        txHash: event.txHash,
+        logIndex: event.logIndex,
+        owner: event.args.owner,
+        operator: event.args.operator,
+        approved: Boolean(event.args.approved)
+      }));
+  }
+
+  /**
+   * Extract Uniswap V2 Swap/Sync/Mint/Burn and V3 Swap/Mint/Burn/Collect pool events, telling the versions apart by their parameters
+   */
+  extractDexEvents(decodedEvents: DecodedEvent[]): DexEvent[] {
+    const dexEvents: DexEvent[] = [];
+
+    for (const event of decodedEvents) {
+      const { args } = event;
+      const base = { pool: event.contract, txHash: event.txHash, logIndex: event.logIndex };
+      const v3Range = args.tickLower !== undefined && args.tickUpper !== undefined
+        ? { tickLower: Number(args.tickLower), tickUpper: Number(args.tickUpper) }
+        : undefined;
+
+      if (event.eventName === 'Swap' && args.amount0In !== undefined) {
+        dexEvents.push({
+          ...base,
+          kind: 'swap',
+          protocol: 'uniswap-v2',
+          sender: args.sender,
+          recipient: args.to,
+          amount0: (BigInt(args.amount0In) - BigInt(args.amount0Out)).toString(),
+          amount1: (BigInt(args.amount1In) - BigInt(args.amount1Out)).toString()
+        });
+      } else if (event.eventName === 'Swap' && args.sqrtPriceX96 !== undefined) {
+        dexEvents.push({
+          ...base,
+          kind: 'swap',
+          protocol: 'uniswap-v3',
+          sender: args.sender,
+          recipient: args.recipient,
+          amount0: args.amount0.toString(),
+          amount1: args.amount1.toString(),
+          liquidity: args.liquidity.toString(),
+          sqrtPriceX96: args.sqrtPriceX96.toString(),
+          tick: Number(args.tick)
+        });
+      } else if (event.eventName === 'Sync' && args.reserve0 !== undefined) {
+        dexEvents.push({
+          ...base,
+          kind: 'sync',
+          protocol: 'uniswap-v2',
+          amount0: args.reserve0.toString(),
+          amount1: args.reserve1.toString()
+        });
+      } else if ((event.eventName === 'Mint' || event.eventName === 'Burn') && args.amount0 !== undefined && args.amount1 !== undefined) {
+        const amounts = { amount0: args.amount0.toString(), amount1: args.amount1.toString() };
+        const kind = event.eventName === 'Mint' ? 'mint' : 'burn';
+        if (v3Range) {
+          dexEvents.push({ ...base, ...amounts, ...v3Range, kind, protocol: 'uniswap-v3', sender: args.sender, owner: args.owner, liquidity: args.amount.toString() });
+        } else {
+          dexEvents.push({ ...base, ...amounts, kind, protocol: 'uniswap-v2', sender: args.sender, recipient: args.to });
+        }
+      } else if (event.eventName === 'Collect' && v3Range && args.amount0 !== undefined) {
+        // The position manager's Collect carries a tokenId instead of a tick range
+        dexEvents.push({
+          ...base,
+          ...v3Range,
+          kind: 'collect',
+          protocol: 'uniswap-v3',
+          owner: args.owner,
+          recipient: args.recipient,
+          amount0: args.amount0.toString(),
+          amount1: args.amount1.toString()
+        });
+      }
+    }
+
+    return dexEvents;
+  }
+
+  /**
+   * Extract V3 position manager events; the manager's Collect is told apart from the pool's by its tokenId
+   */
+  extractPositionEvents(decodedEvents: DecodedEvent[]): PositionManagerEvent[] {
+    const positionEvents: PositionManagerEvent[] = [];
+
+    for (const event of decodedEvents) {
+      const { args } = event;
+      if (args.tokenId === undefined || args.amount0 === undefined || args.amount1 === undefined) {
+        continue;
+      }
+      const base = {
+        manager: event.contract,
+        tokenId: args.tokenId.toString(),
+        txHash: event.txHash,
+        logIndex: event.logIndex,
+        amount0: args.amount0.toString(),
+        amount1: args.amount1.toString()
+      };
+
+      if ((event.eventName === 'IncreaseLiquidity' || event.eventName === 'DecreaseLiquidity') && args.liquidity !== undefined) {
+        positionEvents.push({
+          ...base,
+          kind: event.eventName === 'IncreaseLiquidity' ? 'increase' : 'decrease',
+          liquidity: args.liquidity.toString()
+        });
+      } else if (event.eventName === 'Collect' && args.recipient !== undefined) {
+        positionEvents.push({ ...base, kind: 'collect', recipient: args.recipient });
+      }
+    }
+
+    return positionEvents;
+  }
+
   async storeDecodedEvents(decodedEvents: DecodedEvent[]): Promise<void> {
     for (const event of decodedEvents) {
       try {
@@ -137,14 +503,16 @@ export class EventDecoder {
           update: {
             contract: event.contract,
             eventName: event.eventName,
-            args: event.args
+            args: event.args,
+            confidence: event.confidence ?? 'abi'
           },
           create: {
             txHash: event.txHash,
             logIndex: event.logIndex,
             contract: event.contract,
             eventName: event.eventName,
-            args: event.args
+            args: event.args,
+            confidence: event.confidence ?? 'abi'
           }
         });
       } catch (error) {
@@ -165,6 +533,8 @@ export class EventDecoder {
             from: transfer.from,
             to: transfer.to,
             amount: transfer.amount,
+            amountRaw: transfer.amount,
+            amountNormalized: normalizeAmount(transfer.amount, knownDecimals(token)),
             tokenId: token.id
           }
         });
@@ -176,7 +546,70 @@ export class EventDecoder {
     }
   }
 
-  private async ensureTokenExists(contractAddress: string): Promise<any> {
+  /**
+   * Convert a decoded event into a row for bulk inserts, with named args and bigints as strings
+   */
+  toPersistedEvent(event: DecodedEvent): PersistedEvent {
+    let args = event.args;
+    try {
+      args = typeof args?.toObject === 'function' ? args.toObject() : args;
+    } catch (error) {
+      // Unnamed parameters cannot be keyed by name; keep the positional values
+    }
+
+    return {
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      contract: event.contract,
+      eventName: event.eventName,
+      confidence: event.confidence ?? 'abi',
+      args: JSON.parse(JSON.stringify(args, (_key, value) => typeof value === 'bigint' ? value.toString() : value)) as Prisma.InputJsonValue
+    };
+  }
+
+  /**
+   * Get token ids for a set of contract addresses, creating placeholder tokens for unknown ones in bulk.
+   * Contracts the contract registry knows not to implement ERC-20 (NFT collections among them) get no token and
+   * are left out.
+   */
+  async resolveTokenIds(contractAddresses: string[]): Promise<Map<string, number>> {
+    const tokens = await this.resolveTokens(contractAddresses);
+    return new Map([...tokens].map(([address, token]) => [address, token.id]));
+  }
+
+  /**
+   * Like resolveTokenIds, also returning the decimals to normalize amounts with (null until the metadata is fetched)
+   */
+  async resolveTokens(contractAddresses: string[]): Promise<Map<string, ResolvedToken>> {
+    const addresses = await this.withoutKnownNonTokens([...new Set(contractAddresses)]);
+    if (addresses.length === 0) {
+      return new Map();
+    }
+
+    await this.db.token.createMany({
+      data: addresses.map(address => {
+        const tokenName = this.popularTokens[address] || 'Unknown';
+        return { address, name: tokenName, symbol: tokenName, decimals: null, totalSupply: '0' };
+      }),
+      skipDuplicates: true
+    });
+
+    const tokens = await this.db.token.findMany({
+      where: { address: { in: addresses } },
+      select: { id: true, address: true, decimals: true, metadataStatus: true }
+    });
+    return new Map(tokens.map(token => [token.address, { id: token.id, decimals: knownDecimals(token) }]));
+  }
+
+  private async withoutKnownNonTokens(addresses: string[]): Promise<string[]> {
+    if (!this.contracts) {
+      return addresses;
+    }
+    const nonTokens = await Promise.all(addresses.map(address => this.contracts!.isKnownNonToken(address)));
+    return addresses.filter((_address, i) => !nonTokens[i]);
+  }
+
+  private async ensureTokenExists(contractAddress: string) {
     const existingToken = await this.db.token.findUnique({
       where: { address: contractAddress }
     });
@@ -184,6 +617,9 @@ export class EventDecoder {
     if (existingToken) {
       return existingToken;
     }
+    if (this.contracts && await this.contracts.isKnownNonToken(contractAddress)) {
+      throw new Error(`❌ ${contractAddress} is not an ERC-20 token`);
+    }
 
     // Create token with basic info
     const tokenName = this.popularTokens[contractAddress] || 'Unknown';
@@ -193,29 +629,30 @@ export class EventDecoder {
         address: contractAddress,
         name: tokenName,
         symbol: tokenName,
-        decimals: 18, // Default, will be updated later
+        decimals: null, // Read with the rest of the metadata
         totalSupply: '0'
       }
     });
   }
 
-  private async storeRawEvent(log: ethers.Log, txHash: string): Promise<void> {
-    try {
-      await this.db.event.create({
-        data: {
-          txHash: txHash,
-          logIndex: (log as any).logIndex || 0,
-          contract: log.address,
-          eventName: 'Unknown',
-          args: {
-            topics: log.topics,
-            data: log.data
-          }
+  /**
+   * `Unknown` event rows holding the raw topics and data of the logs that did not decode, kept until an ABI or
+   * signature for them is registered and the block reprocessed
+   */
+  rawEvents(logs: RawLog[], decodedEvents: DecodedEvent[]): PersistedEvent[] {
+    const decoded = new Set(decodedEvents.map(event => `${event.txHash}:${event.logIndex}`));
+    return logs
+      .filter(log => !decoded.has(`${log.transactionHash}:${log.logIndex}`))
+      .map(log => ({
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        contract: log.address,
+        eventName: 'Unknown',
+        args: {
+          topics: [...log.topics],
+          data: log.data
         }
-      });
-    } catch (error) {
-      console.error(`❌ Failed to store raw event:`, error);
-    }
+      }));
   }
 
   async getDecodedEventsByContract(contractAddress: string, limit: number = 100): Promise<DecodedEvent[]> {
@@ -233,7 +670,8 @@ export class EventDecoder {
       args: event.args,
       contract: event.contract,
       txHash: event.txHash,
-      logIndex: event.logIndex
+      logIndex: event.logIndex,
+      confidence: (event.confidence ?? undefined) as DecodeConfidence | undefined
     }));
   }
 
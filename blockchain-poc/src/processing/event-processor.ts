@@ -1,53 +1,177 @@
 import { ethers } from 'ethers';
-import { EventDecoder } from './event-decoder';
+import { ApprovalEvent, DexEvent, EventDecoder, NftApprovalEvent, NftTransferEvent, PositionManagerEvent, RawLog, TransferEvent } from './event-decoder';
+import { NftTracker } from './nft-tracker';
+import { AllowanceTracker, TransactionCaller } from './allowance-tracker';
+import { BalanceLedger } from './balance-ledger';
+import { AbiRegistry } from './abi-registry';
+import { CallDecoder } from './call-decoder';
+import { DexTracker } from './dex-tracker';
+import { PriceOracle } from './price-oracle';
+import { PositionTracker } from './position-tracker';
+import { ProxyResolver } from './proxy-resolver';
+import { ContractRegistry } from './contract-registry';
+import { EventSignatureDatabase } from './event-signatures';
+import { DeadLetterQueue, FailureInput } from './dead-letter-queue';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import { RawReceipt, parseReceiptLog } from '../ingestion/blockchain-fetcher';
+import { knownDecimals, normalizeAmount, toAmount } from '../utils/amount';
+import { BlockPersister, PersistedEvent } from '../ingestion/block-persister';
 import { PrismaClient } from '@prisma/client';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config({ path: './config.env' });
 
+// Applying a busy block to every tracker takes a while
+const BLOCK_TRANSACTION_TIMEOUT = 60000;
+
 export class EventProcessor {
   private decoder: EventDecoder;
   private db: PrismaClient;
   private provider: ethers.Provider;
+  private batcher?: RpcBatcher;
+  private persister: BlockPersister;
+  private nftTracker: NftTracker;
+  private allowanceTracker: AllowanceTracker;
+  private balanceLedger: BalanceLedger;
+  private callDecoder: CallDecoder;
+  private dexTracker: DexTracker;
+  private priceOracle: PriceOracle;
+  private positionTracker: PositionTracker;
+  private contractRegistry: ContractRegistry;
+  private deadLetters: DeadLetterQueue;
 
-  constructor(provider: ethers.Provider, db: PrismaClient) {
+  constructor(provider: ethers.Provider, db: PrismaClient, batcher?: RpcBatcher) {
     this.provider = provider;
     this.db = db;
-    this.decoder = new EventDecoder(db);
+    this.batcher = batcher;
+    // Events and calldata decode with the same registered ABIs
+    const registry = new AbiRegistry(db);
+    const proxies = new ProxyResolver(db, batcher);
+    this.contractRegistry = new ContractRegistry(db, batcher, proxies);
+    this.decoder = new EventDecoder(db, registry, new EventSignatureDatabase(), proxies, this.contractRegistry);
+    this.persister = new BlockPersister(db);
+    this.nftTracker = new NftTracker(db);
+    this.allowanceTracker = new AllowanceTracker(db);
+    this.balanceLedger = new BalanceLedger(db);
+    this.callDecoder = new CallDecoder(db, registry);
+    this.dexTracker = new DexTracker(db, batcher);
+    this.priceOracle = new PriceOracle(db);
+    this.positionTracker = new PositionTracker(db, batcher);
+    this.deadLetters = new DeadLetterQueue(db);
   }
 
   async processTransactionEvents(txHash: string): Promise<void> {
     try {
       console.log(`🔄 Processing events for transaction ${txHash}...`);
       
-      // Get transaction receipt to access logs
-      const receipt = await this.provider.getTransactionReceipt(txHash);
-      if (!receipt || !receipt.logs) {
+      const logs = await this.getTransactionLogs(txHash);
+      if (!logs || logs.length === 0) {
         console.log(`📝 No logs found for transaction ${txHash}`);
         return;
       }
 
-      console.log(`📊 Found ${receipt.logs.length} logs in transaction ${txHash}`);
+      console.log(`📊 Found ${logs.length} logs in transaction ${txHash}`);
 
       // Decode all logs
-      const decodedEvents = await this.decoder.decodeTransactionLogs(txHash, [...receipt.logs]);
+      const decodedEvents = await this.decoder.decodeTransactionLogs(txHash, logs);
       
-      // Store decoded events
+      // Store decoded events, and the logs that did not decode as Unknown events
       await this.decoder.storeDecodedEvents(decodedEvents);
+      await this.db.event.createMany({ data: this.decoder.rawEvents(logs, decodedEvents), skipDuplicates: true });
       
       // Extract and store transfer events
       const transferEvents = await this.decoder.extractTransferEvents(decodedEvents);
       await this.decoder.storeTransferEvents(transferEvents);
       
+      await this.deadLetters.resolve('transaction', txHash);
       console.log(`✅ Processed ${decodedEvents.length} events, ${transferEvents.length} transfers for transaction ${txHash}`);
     } catch (error) {
       console.error(`❌ Failed to process events for transaction ${txHash}:`, error);
+      await this.deadLetters.record({ stage: 'transaction', key: txHash, txHash, error, payload: { txHash } })
+        .catch(recordError => console.warn('⚠️  Failed to record the failure:', recordError));
       throw error;
     }
   }
 
+  /**
+   * Load logs stored at ingest time; only transactions ingested without receipts fall back to the RPC
+   */
+  private async getTransactionLogs(txHash: string): Promise<RawLog[] | null> {
+    const transaction = await this.db.transaction.findUnique({
+      where: { hash: txHash },
+      select: {
+        cumulativeGasUsed: true,
+        logs: { orderBy: { logIndex: 'asc' } }
+      }
+    });
+
+    if (transaction && transaction.cumulativeGasUsed !== null) {
+      return transaction.logs.map(log => ({
+        address: log.address,
+        topics: log.topics,
+        data: log.data,
+        transactionHash: log.txHash,
+        logIndex: log.logIndex,
+        blockNumber: Number(log.blockNumber)
+      }));
+    }
+
+    if (this.batcher) {
+      const rawReceipt = await this.batcher.call<RawReceipt | null>('eth_getTransactionReceipt', [txHash]);
+      return rawReceipt ? this.mapRawReceiptLogs(rawReceipt) : null;
+    }
+
+    // Get transaction receipt to access logs
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt || !receipt.logs) {
+      return null;
+    }
+
+    return receipt.logs.map(log => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      blockNumber: log.blockNumber
+    }));
+  }
+
+  /**
+   * Fetch receipts for transactions ingested without them in one go, so the batcher can combine the calls.
+   * Receipts that still fail are left out and fetched again per transaction.
+   */
+  private async prefetchReceiptLogs(txHashes: string[]): Promise<Map<string, RawLog[] | null>> {
+    const prefetched = new Map<string, RawLog[] | null>();
+    if (!this.batcher || txHashes.length === 0) {
+      return prefetched;
+    }
+
+    const results = await Promise.allSettled(
+      txHashes.map(hash => this.batcher!.call<RawReceipt | null>('eth_getTransactionReceipt', [hash]))
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        prefetched.set(txHashes[index], result.value ? this.mapRawReceiptLogs(result.value) : null);
+      }
+    });
+
+    return prefetched;
+  }
+
+  private mapRawReceiptLogs(rawReceipt: RawReceipt): RawLog[] {
+    return (rawReceipt.logs || []).map(parseReceiptLog);
+  }
+
+  /**
+   * Decode every transaction of a block, then store its events and transfers and apply every tracker in one
+   * database transaction.
+   * Transactions that fail and logs that do not decode go to the dead-letter queue; earlier failures of the
+   * block that do not happen again are resolved.
+   */
   async processBlockEvents(blockNumber: number): Promise<void> {
+    const startedAt = new Date();
     try {
       console.log(`🔄 Processing events for block ${blockNumber}...`);
       
@@ -58,38 +182,107 @@ export class EventProcessor {
 
       console.log(`📊 Found ${transactions.length} transactions in block ${blockNumber}`);
 
-      let totalEvents = 0;
-      let totalTransfers = 0;
-      let processedTransactions = 0;
+      // Contracts deployed in the block are classified before their events are decoded
+      const deployed = await this.contractRegistry.applyBlock(blockNumber, transactions);
+
+      const prefetchedLogs = await this.prefetchReceiptLogs(
+        transactions.filter(tx => tx.cumulativeGasUsed === null).map(tx => tx.hash)
+      );
+
+      const processedHashes: string[] = [];
+      const events: PersistedEvent[] = [];
+      const transfers: TransferEvent[] = [];
+      const approvals: ApprovalEvent[] = [];
+      const callers = new Map<string, TransactionCaller>();
+      const nftTransfers: NftTransferEvent[] = [];
+      const nftApprovals: NftApprovalEvent[] = [];
+      const dexEvents: DexEvent[] = [];
+      const positionEvents: PositionManagerEvent[] = [];
+      const failures: FailureInput[] = [];
 
       for (const tx of transactions) {
         try {
-          await this.processTransactionEvents(tx.hash);
-          processedTransactions++;
-          
-          // Count events and transfers for this transaction
-          const txEvents = await this.db.event.count({
-            where: { txHash: tx.hash }
-          });
-          const txTransfers = await this.db.transfer.count({
-            where: { txHash: tx.hash }
-          });
-          
-          totalEvents += txEvents;
-          totalTransfers += txTransfers;
+          const logs = prefetchedLogs.has(tx.hash) ? prefetchedLogs.get(tx.hash) : await this.getTransactionLogs(tx.hash);
+          if (logs && logs.length > 0) {
+            const decodedEvents = await this.decoder.decodeTransactionLogs(tx.hash, logs);
+            events.push(...decodedEvents.map(event => this.decoder.toPersistedEvent(event)));
+            events.push(...this.decoder.rawEvents(logs, decodedEvents));
+            transfers.push(...await this.decoder.extractTransferEvents(decodedEvents));
+            approvals.push(...this.decoder.extractApprovalEvents(decodedEvents));
+            nftTransfers.push(...this.decoder.extractNftTransfers(decodedEvents));
+            nftApprovals.push(...this.decoder.extractNftApprovals(decodedEvents));
+            dexEvents.push(...this.decoder.extractDexEvents(decodedEvents));
+            positionEvents.push(...this.decoder.extractPositionEvents(decodedEvents));
+            failures.push(...this.undecodedLogFailures(blockNumber, logs, decodedEvents.map(event => event.logIndex)));
+          }
+          processedHashes.push(tx.hash);
+          callers.set(tx.hash, { from: tx.from, to: tx.to });
         } catch (error) {
           console.error(`❌ Failed to process transaction ${tx.hash}:`, error);
+          failures.push({ stage: 'transaction', key: tx.hash, blockNumber, txHash: tx.hash, error, payload: { txHash: tx.hash, blockNumber } });
         }
       }
 
-      console.log(`✅ Processed ${processedTransactions}/${transactions.length} transactions in block ${blockNumber}`);
-      console.log(`📊 Total events: ${totalEvents}, Total transfers: ${totalTransfers}`);
+      const tokens = await this.decoder.resolveTokens([
+        ...transfers.map(transfer => transfer.contract),
+        ...approvals.map(approval => approval.contract)
+      ]);
+      const tokenIds = new Map([...tokens].map(([address, token]) => [address, token.id]));
+      const tokenTransfers = transfers.filter(transfer => tokens.has(transfer.contract));
+      const tokenApprovals = approvals.filter(approval => tokens.has(approval.contract));
+      // Pools and LP supplies may need view calls, so they are read before the database transaction
+      const pools = await this.dexTracker.resolvePools(dexEvents);
+      const poolTokens = await this.decoder.resolveTokens([...pools.values()].flatMap(pool => [pool.token0, pool.token1]));
+      const supplies = await this.positionTracker.supplyChanges(blockNumber, pools, tokenTransfers);
+
+      // Everything derived from the block is written together, so a failed block leaves nothing half-applied
+      const { prices, decodedCalls } = await this.db.$transaction(async (tx) => {
+        await this.persister.persistDerived(tx, processedHashes, events, tokenTransfers.map(transfer => {
+          const token = tokens.get(transfer.contract)!;
+          return {
+            txHash: transfer.txHash,
+            from: transfer.from,
+            to: transfer.to,
+            amount: transfer.amount,
+            amountNormalized: normalizeAmount(transfer.amount, token.decimals),
+            tokenId: token.id
+          };
+        }));
+        await this.allowanceTracker.applyBlock(tx, blockNumber, tokenApprovals, tokenTransfers, callers, tokenIds);
+        await this.balanceLedger.applyBlock(tx, blockNumber, tokenTransfers, tokenIds);
+        await this.nftTracker.applyBlock(tx, blockNumber, nftTransfers, nftApprovals);
+        await this.dexTracker.applyBlock(tx, blockNumber, dexEvents, pools, poolTokens, callers);
+        const prices = await this.priceOracle.applyBlock(tx, blockNumber, dexEvents, pools, poolTokens);
+        await this.positionTracker.applyBlock(tx, blockNumber, positionEvents, dexEvents, pools, supplies);
+        const decodedCalls = await this.callDecoder.applyBlock(tx, transactions);
+        return { prices, decodedCalls };
+      }, { timeout: BLOCK_TRANSACTION_TIMEOUT });
+      await this.deadLetters.settleBlock(blockNumber, failures, startedAt);
+
+      console.log(`✅ Processed ${processedHashes.length}/${transactions.length} transactions in block ${blockNumber}`);
+      console.log(`📊 Total events: ${events.length}, Total transfers: ${tokenTransfers.length}, NFT transfers: ${nftTransfers.length}, Decoded calls: ${decodedCalls}, Prices: ${prices}, Contracts: ${deployed}`);
     } catch (error) {
       console.error(`❌ Failed to process events for block ${blockNumber}:`, error);
+      await this.deadLetters.record({ stage: 'block', key: String(blockNumber), blockNumber, error, payload: { blockNumber } })
+        .catch(recordError => console.warn('⚠️  Failed to record the failure:', recordError));
       throw error;
     }
   }
 
+  private undecodedLogFailures(blockNumber: number, logs: RawLog[], decodedLogIndexes: number[]): FailureInput[] {
+    const decoded = new Set(decodedLogIndexes);
+    return logs
+      .filter(log => !decoded.has(log.logIndex))
+      .map(log => ({
+        stage: 'log' as const,
+        key: `${log.transactionHash}:${log.logIndex}`,
+        blockNumber,
+        txHash: log.transactionHash,
+        error: `No ABI or event signature matched topic0 ${log.topics[0] ?? '(anonymous)'} of ${log.address}`,
+        payload: { address: log.address, topics: [...log.topics], data: log.data, logIndex: log.logIndex }
+      }));
+  }
+
   async processLatestBlocks(blockCount: number = 5): Promise<void> {
     try {
       console.log(`🚀 Starting event processing for ${blockCount} latest blocks...`);
@@ -239,7 +432,7 @@ export class EventProcessor {
     return transfers.map(transfer => ({
       from: transfer.from,
       to: transfer.to,
-      amount: transfer.amount,
+      amount: toAmount(transfer.amountRaw, knownDecimals(transfer.token)),
       token: {
         address: transfer.token.address,
         name: transfer.token.name,
@@ -0,0 +1,224 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+/**
+ * How a log was decoded:
+ * - `abi`: with the ABI registered (or built in) for the emitting contract
+ * - `signature`: with the only bundled signature whose indexed layout matches the log
+ * - `inferred`: with a plain text signature whose indexed parameters were guessed, or one of several matching signatures
+ */
+export type DecodeConfidence = 'abi' | 'signature' | 'inferred';
+
+export interface SignatureMatch {
+  fragment: ethers.EventFragment;
+  args: ethers.Result;
+  confidence: DecodeConfidence;
+}
+
+interface SignatureCandidate {
+  fragment: ethers.EventFragment;
+  // Text signatures (4byte style) carry no names or indexed flags
+  inferred: boolean;
+  interfaces: Map<number, ethers.Interface>;
+}
+
+/**
+ * Common events with their indexed layout. Events sharing a topic0 (ERC-20 and ERC-721 Transfer/Approval)
+ * are told apart by the number of indexed topics.
+ */
+export const BUNDLED_EVENT_SIGNATURES: string[] = [
+  // ERC-20
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  // ERC-721
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+  // ERC-1155
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+  'event URI(string value, uint256 indexed id)',
+  // WETH
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+  // Uniswap V2
+  'event PairCreated(address indexed token0, address indexed token1, address pair, uint256)',
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)',
+  // Uniswap V3
+  'event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)',
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)',
+  // Ownership, access control and pausing
+  'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event Paused(address account)',
+  'event Unpaused(address account)',
+  // Proxies (EIP-1967)
+  'event Upgraded(address indexed implementation)',
+  'event AdminChanged(address previousAdmin, address newAdmin)',
+  'event BeaconUpgraded(address indexed beacon)',
+  'event Initialized(uint8 version)',
+  // ERC-4626 vaults
+  'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+  'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)'
+];
+
+/**
+ * Event signatures indexed by topic0, used to decode logs of contracts without a registered ABI.
+ * Candidates are checked by re-encoding the decoded values, so only an exact match of topics and data counts.
+ */
+export class EventSignatureDatabase {
+  private candidates: Map<string, SignatureCandidate[]> = new Map();
+
+  constructor(signatures: string[] = BUNDLED_EVENT_SIGNATURES) {
+    signatures.forEach(signature => this.add(signature));
+
+    if (process.env.EVENT_SIGNATURES_FILE) {
+      this.loadFile(process.env.EVENT_SIGNATURES_FILE);
+    }
+  }
+
+  /**
+   * Add a full event fragment ("event Transfer(address indexed from, ...)") or a text signature ("Transfer(address,address,uint256)")
+   */
+  add(signature: string): boolean {
+    let fragment: ethers.EventFragment;
+    try {
+      const text = signature.trim();
+      fragment = ethers.EventFragment.from(text.startsWith('event ') ? text : `event ${text}`);
+    } catch (error) {
+      return false;
+    }
+    if (fragment.anonymous) {
+      return false;
+    }
+
+    const topic = fragment.topicHash;
+    const candidates = this.candidates.get(topic) ?? [];
+    const key = fragment.format('full');
+    if (candidates.some(candidate => candidate.fragment.format('full') === key)) {
+      return false;
+    }
+
+    candidates.push({
+      fragment,
+      inferred: fragment.inputs.every(input => !input.name),
+      interfaces: new Map()
+    });
+    this.candidates.set(topic, candidates);
+    return true;
+  }
+
+  /**
+   * Load signatures from a JSON array (of strings or 4byte-style `{ text_signature }` objects) or a text file with one per line
+   */
+  loadFile(filePath: string): number {
+    const content = fs.readFileSync(filePath, 'utf8');
+    let signatures: string[];
+    try {
+      const json: unknown = JSON.parse(content);
+      const results = (json as { results?: unknown } | null)?.results;
+      const items: unknown[] = Array.isArray(json) ? json : Array.isArray(results) ? results : [];
+      signatures = items
+        .map(item => typeof item === 'string' ? item : (item as { text_signature?: unknown } | null)?.text_signature)
+        .filter((signature): signature is string => typeof signature === 'string' && signature.length > 0);
+    } catch (error) {
+      signatures = content.split('\n');
+    }
+
+    const added = signatures.filter(signature => this.add(signature)).length;
+    console.log(`📚 Loaded ${added} event signatures from ${filePath}`);
+    return added;
+  }
+
+  get size(): number {
+    return Array.from(this.candidates.values()).reduce((sum, candidates) => sum + candidates.length, 0);
+  }
+
+  /**
+   * Decode a log by its topic0, trying every candidate with the log's number of indexed topics
+   */
+  decode(log: { topics: readonly string[]; data: string }): SignatureMatch | null {
+    const [topic0] = log.topics;
+    const candidates = topic0 ? this.candidates.get(topic0.toLowerCase()) : undefined;
+    if (!candidates) {
+      return null;
+    }
+
+    const indexedCount = log.topics.length - 1;
+    const matches: Array<{ candidate: SignatureCandidate; fragment: ethers.EventFragment; args: ethers.Result }> = [];
+
+    for (const candidate of candidates) {
+      const contractInterface = this.getInterface(candidate, indexedCount);
+      if (!contractInterface) {
+        continue;
+      }
+
+      const fragment = contractInterface.getEvent(topic0)!;
+      try {
+        const args = contractInterface.decodeEventLog(fragment, log.data, log.topics);
+        // Decoding is lenient about trailing data, so re-encode to make sure the layout really matches
+        const encoded = contractInterface.encodeEventLog(fragment, args.toArray());
+        if (encoded.data.toLowerCase() === log.data.toLowerCase() &&
+            encoded.topics.every((topic, i) => topic.toLowerCase() === log.topics[i].toLowerCase())) {
+          matches.push({ candidate, fragment, args });
+        }
+      } catch (error) {
+        // Not this candidate
+      }
+    }
+
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const [best] = matches.sort((a, b) => Number(a.candidate.inferred) - Number(b.candidate.inferred));
+    return {
+      fragment: best.fragment,
+      args: best.args,
+      confidence: matches.length === 1 && !best.candidate.inferred ? 'signature' : 'inferred'
+    };
+  }
+
+  /**
+   * The interface of a candidate for a given number of indexed topics.
+   * Text signatures index their leading parameters, the usual layout.
+   */
+  private getInterface(candidate: SignatureCandidate, indexedCount: number): ethers.Interface | undefined {
+    const { fragment } = candidate;
+
+    if (!candidate.inferred) {
+      const fragmentIndexed = fragment.inputs.filter(input => input.indexed).length;
+      if (fragmentIndexed !== indexedCount) {
+        return undefined;
+      }
+    } else if (indexedCount > fragment.inputs.length) {
+      return undefined;
+    }
+
+    const cached = candidate.interfaces.get(indexedCount);
+    if (cached) {
+      return cached;
+    }
+
+    const inputs = fragment.inputs.map((input, i) =>
+      candidate.inferred ? `${input.format('sighash')}${i < indexedCount ? ' indexed' : ''} arg${i}` : input.format('full')
+    );
+    const contractInterface = new ethers.Interface([`event ${fragment.name}(${inputs.join(', ')})`]);
+    candidate.interfaces.set(indexedCount, contractInterface);
+    return contractInterface;
+  }
+}
@@ -0,0 +1,191 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { DecodeConfidence } from './event-signatures';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface FunctionMatch {
+  fragment: ethers.FunctionFragment;
+  args: ethers.Result;
+  confidence: DecodeConfidence;
+}
+
+interface FunctionCandidate {
+  fragment: ethers.FunctionFragment;
+  // Text signatures (4byte style) carry no parameter names
+  inferred: boolean;
+  contractInterface: ethers.Interface;
+}
+
+/**
+ * The 4-byte selector of a contract call, or null for contract creations and plain ETH transfers
+ */
+export function functionSelector(to: string | null | undefined, input: string | null | undefined): string | null {
+  if (!to || !input || input.length < 10) {
+    return null;
+  }
+  return input.slice(0, 10).toLowerCase();
+}
+
+/**
+ * Common functions, so calls to contracts without a registered ABI still get a method name
+ */
+export const BUNDLED_FUNCTION_SIGNATURES: string[] = [
+  // ERC-20
+  'function transfer(address to, uint256 value)',
+  'function transferFrom(address from, address to, uint256 value)',
+  'function approve(address spender, uint256 value)',
+  'function increaseAllowance(address spender, uint256 addedValue)',
+  'function decreaseAllowance(address spender, uint256 subtractedValue)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  // ERC-721 and ERC-1155
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)',
+  // WETH
+  'function deposit()',
+  'function withdraw(uint256 wad)',
+  // Uniswap V2 router
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+  'function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)',
+  'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+  'function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)',
+  // Uniswap V3 routers
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)',
+  'function multicall(bytes[] data)',
+  'function multicall(uint256 deadline, bytes[] data)',
+  // Uniswap Universal Router
+  'function execute(bytes commands, bytes[] inputs)',
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline)',
+  // Ownership and proxies (EIP-1967)
+  'function transferOwnership(address newOwner)',
+  'function renounceOwnership()',
+  'function upgradeTo(address newImplementation)',
+  'function upgradeToAndCall(address newImplementation, bytes data)',
+  // ERC-4626 vaults
+  'function deposit(uint256 assets, address receiver)',
+  'function mint(uint256 shares, address receiver)',
+  'function withdraw(uint256 assets, address receiver, address owner)',
+  'function redeem(uint256 shares, address receiver, address owner)'
+];
+
+/**
+ * Function signatures indexed by selector, used to decode calldata of contracts without a registered ABI.
+ * Candidates are checked by re-encoding the decoded arguments, so only an exact match of the calldata counts.
+ */
+export class FunctionSignatureDatabase {
+  private candidates: Map<string, FunctionCandidate[]> = new Map();
+
+  constructor(signatures: string[] = BUNDLED_FUNCTION_SIGNATURES) {
+    signatures.forEach(signature => this.add(signature));
+
+    if (process.env.FUNCTION_SIGNATURES_FILE) {
+      this.loadFile(process.env.FUNCTION_SIGNATURES_FILE);
+    }
+  }
+
+  /**
+   * Add a full function fragment ("function transfer(address to, uint256 value)") or a text signature ("transfer(address,uint256)")
+   */
+  add(signature: string): boolean {
+    let fragment: ethers.FunctionFragment;
+    try {
+      const text = signature.trim();
+      fragment = ethers.FunctionFragment.from(text.startsWith('function ') ? text : `function ${text}`);
+    } catch (error) {
+      return false;
+    }
+
+    const selector = fragment.selector;
+    const candidates = this.candidates.get(selector) ?? [];
+    const key = fragment.format('full');
+    if (candidates.some(candidate => candidate.fragment.format('full') === key)) {
+      return false;
+    }
+
+    candidates.push({
+      fragment,
+      inferred: fragment.inputs.length > 0 && fragment.inputs.every(input => !input.name),
+      contractInterface: new ethers.Interface([fragment])
+    });
+    this.candidates.set(selector, candidates);
+    return true;
+  }
+
+  /**
+   * Load signatures from a JSON array (of strings or 4byte-style `{ text_signature }` objects) or a text file with one per line
+   */
+  loadFile(filePath: string): number {
+    const content = fs.readFileSync(filePath, 'utf8');
+    let signatures: string[];
+    try {
+      const json: unknown = JSON.parse(content);
+      const results = (json as { results?: unknown } | null)?.results;
+      const items: unknown[] = Array.isArray(json) ? json : Array.isArray(results) ? results : [];
+      signatures = items
+        .map(item => typeof item === 'string' ? item : (item as { text_signature?: unknown } | null)?.text_signature)
+        .filter((signature): signature is string => typeof signature === 'string' && signature.length > 0);
+    } catch (error) {
+      signatures = content.split('\n');
+    }
+
+    const added = signatures.filter(signature => this.add(signature)).length;
+    console.log(`📚 Loaded ${added} function signatures from ${filePath}`);
+    return added;
+  }
+
+  get size(): number {
+    return Array.from(this.candidates.values()).reduce((sum, candidates) => sum + candidates.length, 0);
+  }
+
+  /**
+   * Decode calldata by its selector, trying every candidate
+   */
+  decode(input: string): FunctionMatch | null {
+    const candidates = input.length >= 10 ? this.candidates.get(input.slice(0, 10).toLowerCase()) : undefined;
+    if (!candidates) {
+      return null;
+    }
+
+    const matches: Array<{ candidate: FunctionCandidate; args: ethers.Result }> = [];
+    for (const candidate of candidates) {
+      const { contractInterface, fragment } = candidate;
+      try {
+        const args = contractInterface.decodeFunctionData(fragment, input);
+        // Decoding is lenient about trailing data, so re-encode to make sure the layout really matches
+        if (contractInterface.encodeFunctionData(fragment, args.toArray()).toLowerCase() === input.toLowerCase()) {
+          matches.push({ candidate, args });
+        }
+      } catch (error) {
+        // Not this candidate
+      }
+    }
+
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const [best] = matches.sort((a, b) => Number(a.candidate.inferred) - Number(b.candidate.inferred));
+    return {
+      fragment: best.candidate.fragment,
+      args: best.args,
+      confidence: matches.length === 1 && !best.candidate.inferred ? 'signature' : 'inferred'
+    };
+  }
+}
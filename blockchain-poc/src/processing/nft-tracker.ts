@@ -0,0 +1,252 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { NftApprovalEvent, NftTransferEvent } from './event-decoder';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+export interface NftApplyResult {
+  transfers: number;
+  approvals: number;
+}
+
+export interface NftHolding {
+  contract: string;
+  standard: string | null;
+  tokenId: string;
+  balance: string;
+}
+
+export interface NftOwner {
+  owner: string;
+  balance: string;
+}
+
+interface BalanceDelta {
+  nftTokenId: number;
+  owner: string;
+  delta: bigint;
+}
+
+/**
+ * Add balance changes per (token, holder). Mints and burns only move the balance of the other side.
+ */
+function addBalanceDelta(deltas: Map<string, BalanceDelta>, nftTokenId: number, owner: string, delta: bigint): void {
+  if (owner === ethers.ZeroAddress) {
+    return;
+  }
+  const key = `${nftTokenId}:${owner}`;
+  const current = deltas.get(key);
+  deltas.set(key, { nftTokenId, owner, delta: (current?.delta ?? 0n) + delta });
+}
+
+/**
+ * Apply balance changes and drop holders left without tokens
+ */
+async function applyBalanceDeltas(tx: Prisma.TransactionClient, deltas: Map<string, BalanceDelta>): Promise<void> {
+  const touched: Array<{ nftTokenId: number; owner: string }> = [];
+
+  for (const { nftTokenId, owner, delta } of deltas.values()) {
+    if (delta === 0n) {
+      continue;
+    }
+    await tx.nftBalance.upsert({
+      where: { nftTokenId_owner: { nftTokenId, owner } },
+      update: { balance: { increment: delta.toString() } },
+      create: { nftTokenId, owner, balance: delta.toString() }
+    });
+    touched.push({ nftTokenId, owner });
+  }
+
+  if (touched.length > 0) {
+    await tx.nftBalance.deleteMany({ where: { OR: touched, balance: { equals: 0 } } });
+  }
+}
+
+/**
+ * Undo the NFT transfers and approvals of orphaned transactions; runs inside the reorg rollback
+ */
+export async function revertNftTransfers(tx: Prisma.TransactionClient, txHashes: string[]): Promise<void> {
+  if (txHashes.length === 0) {
+    return;
+  }
+
+  const transfers = await tx.nftTransfer.findMany({ where: { txHash: { in: txHashes } } });
+  const deltas = new Map<string, BalanceDelta>();
+  for (const transfer of transfers) {
+    const amount = BigInt(transfer.amount.toFixed());
+    addBalanceDelta(deltas, transfer.nftTokenId, transfer.from, amount);
+    addBalanceDelta(deltas, transfer.nftTokenId, transfer.to, -amount);
+  }
+
+  await applyBalanceDeltas(tx, deltas);
+  await tx.nftTransfer.deleteMany({ where: { txHash: { in: txHashes } } });
+  // The previous approval state is not kept; the next ApprovalForAll of the pair sets it again
+  await tx.nftApproval.deleteMany({ where: { txHash: { in: txHashes } } });
+}
+
+/**
+ * Keeps NFT collections, token ids and the balance of every holder up to date from decoded
+ * ERC-721 and ERC-1155 events. ERC-721 tokens have a single holder with a balance of 1.
+ * Transfers are keyed by (txHash, logIndex, batchIndex), so processing a block again changes nothing.
+ */
+export class NftTracker {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient) {
+    this.db = db;
+  }
+
+  /**
+   * Record a block's NFT transfers and approvals and update holder balances, inside the block's database transaction
+   */
+  async applyBlock(tx: Prisma.TransactionClient, blockNumber: number, transfers: NftTransferEvent[], approvals: NftApprovalEvent[]): Promise<NftApplyResult> {
+    if (transfers.length === 0 && approvals.length === 0) {
+      return { transfers: 0, approvals: 0 };
+    }
+
+    const collectionIds = await this.resolveCollections(tx, transfers, approvals);
+    const tokenIds = await this.resolveTokens(tx, transfers, collectionIds);
+
+    const txHashes = [...new Set(transfers.map(transfer => transfer.txHash))];
+    const existing = txHashes.length > 0
+      ? await tx.nftTransfer.findMany({
+        where: { txHash: { in: txHashes } },
+        select: { txHash: true, logIndex: true, batchIndex: true }
+      })
+      : [];
+    const seen = new Set(existing.map(row => `${row.txHash}:${row.logIndex}:${row.batchIndex}`));
+    const fresh = transfers.filter(transfer => !seen.has(`${transfer.txHash}:${transfer.logIndex}:${transfer.batchIndex}`));
+
+    const rows = fresh.map(transfer => {
+      const collectionId = collectionIds.get(transfer.contract.toLowerCase())!;
+      return {
+        txHash: transfer.txHash,
+        logIndex: transfer.logIndex,
+        batchIndex: transfer.batchIndex,
+        blockNumber: BigInt(blockNumber),
+        collectionId,
+        nftTokenId: tokenIds.get(`${collectionId}:${transfer.tokenId}`)!,
+        operator: transfer.operator?.toLowerCase() ?? null,
+        from: transfer.from.toLowerCase(),
+        to: transfer.to.toLowerCase(),
+        amount: transfer.amount
+      };
+    });
+
+    if (rows.length > 0) {
+      await tx.nftTransfer.createMany({ data: rows, skipDuplicates: true });
+    }
+
+    const deltas = new Map<string, BalanceDelta>();
+    for (const row of rows) {
+      const amount = BigInt(row.amount);
+      addBalanceDelta(deltas, row.nftTokenId, row.from, -amount);
+      addBalanceDelta(deltas, row.nftTokenId, row.to, amount);
+    }
+    await applyBalanceDeltas(tx, deltas);
+
+    // Later approvals of the same pair win, so apply them in log order
+    const ordered = [...approvals].sort((a, b) => a.logIndex - b.logIndex);
+    for (const approval of ordered) {
+      const collectionId = collectionIds.get(approval.contract.toLowerCase())!;
+      const owner = approval.owner.toLowerCase();
+      const operator = approval.operator.toLowerCase();
+      await tx.nftApproval.upsert({
+        where: { collectionId_owner_operator: { collectionId, owner, operator } },
+        update: { approved: approval.approved, blockNumber: BigInt(blockNumber), txHash: approval.txHash },
+        create: { collectionId, owner, operator, approved: approval.approved, blockNumber: BigInt(blockNumber), txHash: approval.txHash }
+      });
+    }
+
+    if (rows.length > 0 || ordered.length > 0) {
+      console.log(`🖼️  Block ${blockNumber}: ${rows.length} NFT transfers, ${ordered.length} operator approvals`);
+    }
+    return { transfers: rows.length, approvals: ordered.length };
+  }
+
+  /**
+   * Get the NFTs an address currently holds
+   */
+  async getHoldings(owner: string, limit: number = 100): Promise<NftHolding[]> {
+    const balances = await this.db.nftBalance.findMany({
+      where: { owner: owner.toLowerCase(), balance: { gt: 0 } },
+      include: { token: { include: { collection: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: limit
+    });
+
+    return balances.map(balance => ({
+      contract: balance.token.collection.address,
+      standard: balance.token.collection.standard,
+      tokenId: balance.token.tokenId,
+      balance: balance.balance.toFixed()
+    }));
+  }
+
+  /**
+   * Get the current holders of a token
+   */
+  async getOwners(contract: string, tokenId: string): Promise<NftOwner[]> {
+    const balances = await this.db.nftBalance.findMany({
+      where: {
+        balance: { gt: 0 },
+        token: { tokenId, collection: { address: contract.toLowerCase() } }
+      },
+      orderBy: { balance: 'desc' }
+    });
+
+    return balances.map(balance => ({ owner: balance.owner, balance: balance.balance.toFixed() }));
+  }
+
+  private async resolveCollections(tx: Prisma.TransactionClient, transfers: NftTransferEvent[], approvals: NftApprovalEvent[]): Promise<Map<string, number>> {
+    const standards = new Map<string, string | null>();
+    transfers.forEach(transfer => standards.set(transfer.contract.toLowerCase(), transfer.standard));
+    // ApprovalForAll alone does not tell the standard apart
+    approvals.forEach(approval => {
+      const address = approval.contract.toLowerCase();
+      if (!standards.has(address)) {
+        standards.set(address, null);
+      }
+    });
+
+    const addresses = [...standards.keys()];
+    await tx.nftCollection.createMany({
+      data: addresses.map(address => ({ address, standard: standards.get(address) ?? null })),
+      skipDuplicates: true
+    });
+
+    for (const [address, standard] of standards) {
+      if (standard) {
+        await tx.nftCollection.updateMany({ where: { address, standard: null }, data: { standard } });
+      }
+    }
+
+    const collections = await tx.nftCollection.findMany({
+      where: { address: { in: addresses } },
+      select: { id: true, address: true }
+    });
+    return new Map(collections.map(collection => [collection.address, collection.id]));
+  }
+
+  private async resolveTokens(tx: Prisma.TransactionClient, transfers: NftTransferEvent[], collectionIds: Map<string, number>): Promise<Map<string, number>> {
+    const keys = new Map<string, { collectionId: number; tokenId: string }>();
+    transfers.forEach(transfer => {
+      const collectionId = collectionIds.get(transfer.contract.toLowerCase())!;
+      keys.set(`${collectionId}:${transfer.tokenId}`, { collectionId, tokenId: transfer.tokenId });
+    });
+    if (keys.size === 0) {
+      return new Map();
+    }
+
+    const data = [...keys.values()];
+    await tx.nftToken.createMany({ data, skipDuplicates: true });
+
+    const tokens = await tx.nftToken.findMany({
+      where: { OR: data },
+      select: { id: true, collectionId: true, tokenId: true }
+    });
+    return new Map(tokens.map(token => [`${token.collectionId}:${token.tokenId}`, token.id]));
+  }
+}
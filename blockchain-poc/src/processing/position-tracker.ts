@@ -0,0 +1,563 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DexEvent, PositionManagerEvent, TransferEvent } from './event-decoder';
+import { ResolvedPool } from './dex-tracker';
+import { BalanceLedger } from './balance-ledger';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import { Amount, formatAmount, knownDecimals, toAmount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+// Pool shares are returned with this many decimals
+const SHARE_DECIMALS = 18;
+const Q96 = new Prisma.Decimal(2).pow(96);
+// Uniswap V3 NonfungiblePositionManager on mainnet
+const DEFAULT_POSITION_MANAGERS = '0xc36442b4a4522e871399cd717abdd847ab11fe88';
+
+interface PositionTrackerConfig {
+  // Only events of these contracts are treated as positions, as any contract can emit them
+  managers: string[];
+}
+
+export interface PositionApplyResult {
+  positionEvents: number;
+  supplies: number;
+}
+
+/**
+ * LP tokens minted minus burned in a block for a V2 pool. `seed` is `totalSupply()` at the block, read for
+ * a pool without an earlier supply.
+ */
+export interface PoolSupplyChange {
+  poolId: number;
+  delta: bigint;
+  seed: bigint | null;
+}
+
+/**
+ * Totals of a V3 position's events: liquidity still in the range, and the token amounts deposited,
+ * withdrawn and collected. Collected amounts include withdrawn liquidity, so fees are collected - withdrawn.
+ */
+export interface PositionTotals {
+  liquidity: bigint;
+  deposited0: bigint;
+  deposited1: bigint;
+  withdrawn0: bigint;
+  withdrawn1: bigint;
+  collected0: bigint;
+  collected1: bigint;
+}
+
+export interface TokenPair {
+  token0: Amount;
+  token1: Amount;
+}
+
+export interface V2Position {
+  protocol: 'uniswap-v2';
+  pool: { address: string; token0: string; token1: string };
+  lpBalance: Amount;
+  // Fraction of the LP supply held
+  share: string | null;
+  // Null when the pool's reserves or LP supply at the block are not known
+  amounts: TokenPair | null;
+}
+
+export interface V3Position {
+  protocol: 'uniswap-v3';
+  manager: string;
+  tokenId: string;
+  pool: { address: string; token0: string; token1: string; fee: number | null } | null;
+  tickLower: number | null;
+  tickUpper: number | null;
+  liquidity: string;
+  // Null when the position's range or the pool's price at the block are not known
+  amounts: TokenPair | null;
+  deposited: TokenPair;
+  withdrawn: TokenPair;
+  collected: TokenPair;
+  fees: TokenPair;
+}
+
+export type LiquidityPositionEntry = V2Position | V3Position;
+
+const lpInterface = new ethers.Interface(['function totalSupply() view returns (uint256)']);
+
+const emptyTotals = (): PositionTotals =>
+  ({ liquidity: 0n, deposited0: 0n, deposited1: 0n, withdrawn0: 0n, withdrawn1: 0n, collected0: 0n, collected1: 0n });
+
+const toBigInt = (value: Prisma.Decimal | null | undefined): bigint => BigInt(value?.toFixed() ?? '0');
+
+const tickSqrtPrice = (tick: number): Prisma.Decimal => new Prisma.Decimal('1.0001').pow(tick).sqrt();
+
+/**
+ * Token amounts of V3 liquidity in a tick range at a pool price: all token0 below the range,
+ * all token1 above it, and a mix in between
+ */
+export function positionAmounts(liquidity: bigint, sqrtPriceX96: bigint, tickLower: number, tickUpper: number): { amount0: bigint; amount1: bigint } {
+  const amount = new Prisma.Decimal(liquidity.toString());
+  const price = new Prisma.Decimal(sqrtPriceX96.toString()).div(Q96);
+  const lower = tickSqrtPrice(tickLower);
+  const upper = tickSqrtPrice(tickUpper);
+  const floor = (value: Prisma.Decimal) => BigInt(value.floor().toFixed());
+
+  if (price.lte(lower)) {
+    return { amount0: floor(amount.mul(upper.sub(lower)).div(lower.mul(upper))), amount1: 0n };
+  }
+  if (price.lt(upper)) {
+    return { amount0: floor(amount.mul(upper.sub(price)).div(price.mul(upper))), amount1: floor(amount.mul(price.sub(lower))) };
+  }
+  return { amount0: 0n, amount1: floor(amount.mul(upper.sub(lower))) };
+}
+
+/**
+ * Sum the events of positions, optionally up to the end of a block
+ */
+async function sumPositionEvents(
+  client: Prisma.TransactionClient,
+  positionIds: number[],
+  blockNumber?: bigint
+): Promise<Map<number, PositionTotals>> {
+  const groups = await client.positionEvent.groupBy({
+    by: ['positionId', 'type'],
+    where: { positionId: { in: positionIds }, ...(blockNumber !== undefined ? { blockNumber: { lte: blockNumber } } : {}) },
+    _sum: { liquidity: true, amount0: true, amount1: true }
+  });
+
+  const totals = new Map<number, PositionTotals>();
+  for (const group of groups) {
+    const total = totals.get(group.positionId) ?? emptyTotals();
+    const [liquidity, amount0, amount1] = [group._sum.liquidity, group._sum.amount0, group._sum.amount1].map(toBigInt);
+    if (group.type === 'increase') {
+      total.liquidity += liquidity;
+      total.deposited0 += amount0;
+      total.deposited1 += amount1;
+    } else if (group.type === 'decrease') {
+      total.liquidity -= liquidity;
+      total.withdrawn0 += amount0;
+      total.withdrawn1 += amount1;
+    } else {
+      total.collected0 += amount0;
+      total.collected1 += amount1;
+    }
+    totals.set(group.positionId, total);
+  }
+  return totals;
+}
+
+function totalsData(totals: PositionTotals): Record<keyof PositionTotals, string> {
+  return {
+    liquidity: totals.liquidity.toString(),
+    deposited0: totals.deposited0.toString(),
+    deposited1: totals.deposited1.toString(),
+    withdrawn0: totals.withdrawn0.toString(),
+    withdrawn1: totals.withdrawn1.toString(),
+    collected0: totals.collected0.toString(),
+    collected1: totals.collected1.toString()
+  };
+}
+
+/**
+ * Record a pool's LP supply at a block as the supply before it plus the block's delta, and move the supplies
+ * of later blocks (processed first, e.g. by a backfill) by the same delta. Returns false when the block was
+ * already recorded or there is nothing to start from.
+ */
+async function applySupplyChange(tx: Prisma.TransactionClient, blockNumber: bigint, { poolId, delta, seed }: PoolSupplyChange): Promise<boolean> {
+  const stored = await tx.poolSupply.findUnique({ where: { poolId_blockNumber: { poolId, blockNumber } } });
+  if (stored) {
+    return false;
+  }
+
+  const base = await tx.poolSupply.findFirst({
+    where: { poolId, blockNumber: { lt: blockNumber } },
+    orderBy: { blockNumber: 'desc' }
+  });
+  if (!base) {
+    // The supply read from the chain already counts this block, as do later supplies seeded after it
+    if (seed === null) {
+      return false;
+    }
+    await tx.poolSupply.create({ data: { poolId, blockNumber, totalSupply: seed.toString() } });
+    return true;
+  }
+
+  await tx.poolSupply.create({ data: { poolId, blockNumber, totalSupply: (toBigInt(base.totalSupply) + delta).toString() } });
+  await tx.poolSupply.updateMany({
+    where: { poolId, blockNumber: { gt: blockNumber } },
+    data: { totalSupply: { increment: delta.toString() } }
+  });
+  return true;
+}
+
+/**
+ * Undo the position events and LP supplies of orphaned blocks and recompute the affected positions from
+ * their remaining events; runs inside the reorg rollback
+ */
+export async function revertLiquidityPositions(tx: Prisma.TransactionClient, txHashes: string[], blockNumbers: bigint[]): Promise<void> {
+  if (blockNumbers.length > 0) {
+    await tx.poolSupply.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+  }
+  if (txHashes.length === 0) {
+    return;
+  }
+
+  const events = await tx.positionEvent.findMany({ where: { txHash: { in: txHashes } }, select: { positionId: true } });
+  if (events.length === 0) {
+    return;
+  }
+  await tx.positionEvent.deleteMany({ where: { txHash: { in: txHashes } } });
+
+  const positionIds = [...new Set(events.map(event => event.positionId))];
+  const totals = await sumPositionEvents(tx, positionIds);
+  for (const positionId of positionIds) {
+    const total = totals.get(positionId);
+    if (total) {
+      await tx.liquidityPosition.update({ where: { id: positionId }, data: totalsData(total) });
+    } else {
+      await tx.liquidityPosition.delete({ where: { id: positionId } });
+    }
+  }
+}
+
+/**
+ * Tracks liquidity positions. V2 LP tokens are ERC-20 tokens of the pool, so their balances come from the
+ * balance ledger; this tracker keeps each pool's LP supply per block, seeded once with `totalSupply()` and
+ * then moved by mints and burns. V3 positions are NFTs of the position manager: their ownership comes from
+ * the NFT tracker, and their liquidity and token amounts from IncreaseLiquidity, DecreaseLiquidity and
+ * Collect. The pool and tick range of a position are taken from the pool's Mint in the transaction that
+ * first added liquidity. Underlying token amounts are computed for any block from the pool state then.
+ */
+export class PositionTracker {
+  private db: PrismaClient;
+  private batcher?: RpcBatcher;
+  private ledger: BalanceLedger;
+  private config: PositionTrackerConfig;
+
+  constructor(db: PrismaClient, batcher?: RpcBatcher, config?: Partial<PositionTrackerConfig>) {
+    this.db = db;
+    this.batcher = batcher;
+    this.ledger = new BalanceLedger(db);
+    this.config = {
+      managers: (process.env.POSITION_MANAGER_ADDRESSES || DEFAULT_POSITION_MANAGERS)
+        .split(',')
+        .map(address => address.trim().toLowerCase())
+        .filter(Boolean),
+      ...config
+    };
+  }
+
+  /**
+   * Record a block's V2 LP supply changes (see supplyChanges) and V3 position events, inside the block's database
+   * transaction
+   */
+  async applyBlock(
+    tx: Prisma.TransactionClient,
+    blockNumber: number,
+    positionEvents: PositionManagerEvent[],
+    dexEvents: DexEvent[],
+    pools: Map<string, ResolvedPool>,
+    supplies: PoolSupplyChange[]
+  ): Promise<PositionApplyResult> {
+    const managed = positionEvents.filter(event => this.config.managers.includes(event.manager.toLowerCase()));
+    if (managed.length === 0 && supplies.length === 0) {
+      return { positionEvents: 0, supplies: 0 };
+    }
+
+    let suppliesApplied = 0;
+    for (const change of supplies) {
+      if (await applySupplyChange(tx, BigInt(blockNumber), change)) {
+        suppliesApplied++;
+      }
+    }
+
+    const existing = await tx.positionEvent.findMany({
+      where: { txHash: { in: [...new Set(managed.map(event => event.txHash))] } },
+      select: { txHash: true, logIndex: true }
+    });
+    const seen = new Set(existing.map(row => `${row.txHash}:${row.logIndex}`));
+    const fresh = managed.filter(event => !seen.has(`${event.txHash}:${event.logIndex}`));
+
+    const deltas = new Map<string, { event: PositionManagerEvent; totals: PositionTotals; range: Prisma.LiquidityPositionUncheckedUpdateInput }>();
+    for (const event of fresh) {
+      const key = `${event.manager.toLowerCase()}:${event.tokenId}`;
+      const delta = deltas.get(key) ?? { event, totals: emptyTotals(), range: {} };
+      const [liquidity, amount0, amount1] = [BigInt(event.liquidity ?? '0'), BigInt(event.amount0), BigInt(event.amount1)];
+      if (event.kind === 'increase') {
+        delta.totals.liquidity += liquidity;
+        delta.totals.deposited0 += amount0;
+        delta.totals.deposited1 += amount1;
+        delta.range = { ...this.mintRange(event, dexEvents, pools), ...delta.range };
+      } else if (event.kind === 'decrease') {
+        delta.totals.liquidity -= liquidity;
+        delta.totals.withdrawn0 += amount0;
+        delta.totals.withdrawn1 += amount1;
+      } else {
+        delta.totals.collected0 += amount0;
+        delta.totals.collected1 += amount1;
+      }
+      deltas.set(key, delta);
+    }
+
+    const positionIds = new Map<string, number>();
+    for (const [key, { event, totals, range }] of deltas) {
+      const increments = Object.fromEntries(
+        Object.entries(totalsData(totals)).map(([field, value]) => [field, { increment: value }])
+      );
+      const position = await tx.liquidityPosition.upsert({
+        where: { manager_tokenId: { manager: event.manager.toLowerCase(), tokenId: event.tokenId } },
+        update: { ...increments, ...range } as Prisma.LiquidityPositionUncheckedUpdateInput,
+        create: { manager: event.manager.toLowerCase(), tokenId: event.tokenId, ...totalsData(totals), ...range } as Prisma.LiquidityPositionUncheckedCreateInput
+      });
+      positionIds.set(key, position.id);
+    }
+
+    if (fresh.length > 0) {
+      await tx.positionEvent.createMany({
+        data: fresh.map(event => ({
+          txHash: event.txHash,
+          logIndex: event.logIndex,
+          blockNumber: BigInt(blockNumber),
+          positionId: positionIds.get(`${event.manager.toLowerCase()}:${event.tokenId}`)!,
+          type: event.kind,
+          liquidity: event.liquidity ?? '0',
+          amount0: event.amount0,
+          amount1: event.amount1,
+          recipient: event.recipient?.toLowerCase() ?? null
+        })),
+        skipDuplicates: true
+      });
+      console.log(`💧 Block ${blockNumber}: ${fresh.length} position events on ${deltas.size} positions`);
+    }
+    return { positionEvents: fresh.length, supplies: suppliesApplied };
+  }
+
+  /**
+   * V2 LP holdings and V3 positions of an address with their underlying token amounts, currently or at the
+   * end of a past block
+   */
+  async getPositions(address: string, blockNumber?: number): Promise<LiquidityPositionEntry[]> {
+    const owner = address.toLowerCase();
+    const block = blockNumber !== undefined ? BigInt(blockNumber) : undefined;
+    const [v2, v3] = await Promise.all([this.getV2Positions(owner, blockNumber), this.getV3Positions(owner, block)]);
+    return [...v2, ...v3];
+  }
+
+  private async getV2Positions(owner: string, blockNumber?: number): Promise<V2Position[]> {
+    const balances = await this.ledger.getBalances(owner, blockNumber);
+    if (balances.length === 0) {
+      return [];
+    }
+    const pools = await this.db.pool.findMany({
+      where: { address: { in: balances.map(balance => balance.token.address.toLowerCase()) }, protocol: 'uniswap-v2', status: 'ok' }
+    });
+    const decimals = await this.tokenDecimals(pools.flatMap(pool => [pool.token0!, pool.token1!]));
+    const atBlock = blockNumber !== undefined ? { blockNumber: { lte: BigInt(blockNumber) } } : {};
+
+    return await Promise.all(pools.map(async (pool): Promise<V2Position> => {
+      const balance = balances.find(entry => entry.token.address.toLowerCase() === pool.address)!.balance;
+      const [supply, reserves] = await Promise.all([
+        this.db.poolSupply.findFirst({ where: { poolId: pool.id, ...atBlock }, orderBy: { blockNumber: 'desc' } }),
+        this.db.poolEvent.findFirst({
+          where: { poolId: pool.id, type: 'sync', ...atBlock },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+        })
+      ]);
+
+      const held = BigInt(balance.raw);
+      const totalSupply = toBigInt(supply?.totalSupply);
+      const known = totalSupply > 0n && reserves !== null;
+      return {
+        protocol: 'uniswap-v2',
+        pool: { address: pool.address, token0: pool.token0!, token1: pool.token1! },
+        lpBalance: balance,
+        share: totalSupply > 0n ? formatAmount(held * 10n ** BigInt(SHARE_DECIMALS) / totalSupply, SHARE_DECIMALS) : null,
+        amounts: known
+          ? {
+            token0: toAmount(held * toBigInt(reserves!.amount0) / totalSupply, decimals.get(pool.token0!)),
+            token1: toAmount(held * toBigInt(reserves!.amount1) / totalSupply, decimals.get(pool.token1!))
+          }
+          : null
+      };
+    }));
+  }
+
+  private async getV3Positions(owner: string, blockNumber?: bigint): Promise<V3Position[]> {
+    const owned = await this.ownedPositionNfts(owner, blockNumber);
+    if (owned.length === 0) {
+      return [];
+    }
+    const positions = await this.db.liquidityPosition.findMany({
+      where: { OR: owned },
+      include: { pool: true },
+      orderBy: { id: 'asc' }
+    });
+    const totals = blockNumber !== undefined
+      ? await sumPositionEvents(this.db, positions.map(position => position.id), blockNumber)
+      : new Map(positions.map(position => [position.id, {
+        liquidity: toBigInt(position.liquidity),
+        deposited0: toBigInt(position.deposited0),
+        deposited1: toBigInt(position.deposited1),
+        withdrawn0: toBigInt(position.withdrawn0),
+        withdrawn1: toBigInt(position.withdrawn1),
+        collected0: toBigInt(position.collected0),
+        collected1: toBigInt(position.collected1)
+      }]));
+    const decimals = await this.tokenDecimals(positions.flatMap(position => position.pool ? [position.pool.token0!, position.pool.token1!] : []));
+
+    return await Promise.all(positions.map(async (position): Promise<V3Position> => {
+      const total = totals.get(position.id) ?? emptyTotals();
+      const { pool, tickLower, tickUpper } = position;
+      const pair = (amount0: bigint, amount1: bigint): TokenPair => ({
+        token0: toAmount(amount0, pool ? decimals.get(pool.token0!) : null),
+        token1: toAmount(amount1, pool ? decimals.get(pool.token1!) : null)
+      });
+
+      let amounts: TokenPair | null = null;
+      if (pool && tickLower !== null && tickUpper !== null) {
+        const price = await this.db.swap.findFirst({
+          where: { poolId: pool.id, sqrtPriceX96: { not: null }, ...(blockNumber !== undefined ? { blockNumber: { lte: blockNumber } } : {}) },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+        });
+        if (price) {
+          const { amount0, amount1 } = positionAmounts(total.liquidity, toBigInt(price.sqrtPriceX96), tickLower, tickUpper);
+          amounts = pair(amount0, amount1);
+        }
+      }
+
+      const fee = (collected: bigint, withdrawn: bigint) => collected > withdrawn ? collected - withdrawn : 0n;
+      return {
+        protocol: 'uniswap-v3',
+        manager: position.manager,
+        tokenId: position.tokenId,
+        pool: pool ? { address: pool.address, token0: pool.token0!, token1: pool.token1!, fee: pool.fee } : null,
+        tickLower,
+        tickUpper,
+        liquidity: total.liquidity.toString(),
+        amounts,
+        deposited: pair(total.deposited0, total.deposited1),
+        withdrawn: pair(total.withdrawn0, total.withdrawn1),
+        collected: pair(total.collected0, total.collected1),
+        fees: pair(fee(total.collected0, total.withdrawn0), fee(total.collected1, total.withdrawn1))
+      };
+    }));
+  }
+
+  /**
+   * Position NFTs an address holds, currently or at the end of a past block. The last transfer of a token
+   * that involves the address tells whether it received or sent it.
+   */
+  private async ownedPositionNfts(owner: string, blockNumber?: bigint): Promise<Array<{ manager: string; tokenId: string }>> {
+    const managers = { collection: { address: { in: this.config.managers } } };
+    if (blockNumber === undefined) {
+      const balances = await this.db.nftBalance.findMany({
+        where: { owner, balance: { gt: 0 }, token: managers },
+        include: { token: { include: { collection: true } } }
+      });
+      return balances.map(balance => ({ manager: balance.token.collection.address, tokenId: balance.token.tokenId }));
+    }
+
+    const transfers = await this.db.nftTransfer.findMany({
+      where: { ...managers, blockNumber: { lte: blockNumber }, OR: [{ from: owner }, { to: owner }] },
+      include: { token: true, collection: true },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+    });
+    const holders = new Map<string, { manager: string; tokenId: string; held: boolean }>();
+    for (const transfer of transfers) {
+      holders.set(`${transfer.collection.address}:${transfer.token.tokenId}`, {
+        manager: transfer.collection.address,
+        tokenId: transfer.token.tokenId,
+        held: transfer.to === owner
+      });
+    }
+    return [...holders.values()].filter(holder => holder.held).map(({ manager, tokenId }) => ({ manager, tokenId }));
+  }
+
+  /**
+   * The pool and tick range of the liquidity an IncreaseLiquidity added: the manager's own Mint on the
+   * pool just before it in the same transaction, for the same liquidity
+   */
+  private mintRange(event: PositionManagerEvent, dexEvents: DexEvent[], pools: Map<string, ResolvedPool>): Prisma.LiquidityPositionUncheckedUpdateInput {
+    const mint = dexEvents
+      .filter(dexEvent =>
+        dexEvent.kind === 'mint' &&
+        dexEvent.protocol === 'uniswap-v3' &&
+        dexEvent.txHash === event.txHash &&
+        dexEvent.logIndex < event.logIndex &&
+        dexEvent.owner?.toLowerCase() === event.manager.toLowerCase() &&
+        dexEvent.liquidity === event.liquidity)
+      .sort((a, b) => b.logIndex - a.logIndex)[0];
+    if (!mint) {
+      return {};
+    }
+    return {
+      poolId: pools.get(mint.pool.toLowerCase())?.id ?? null,
+      tickLower: mint.tickLower,
+      tickUpper: mint.tickUpper
+    };
+  }
+
+  /**
+   * LP supply changes of the V2 pools minted or burned in a block, with `totalSupply()` at the block for a pool
+   * seen for the first time. Seeding a supply may need a view call, so this runs before the block's database
+   * transaction.
+   */
+  async supplyChanges(blockNumber: number, pools: Map<string, ResolvedPool>, transfers: TransferEvent[]): Promise<PoolSupplyChange[]> {
+    const deltas = new Map<string, bigint>();
+    for (const transfer of transfers) {
+      const contract = transfer.contract.toLowerCase();
+      if (pools.get(contract)?.protocol !== 'uniswap-v2') {
+        continue;
+      }
+      if (transfer.from === ethers.ZeroAddress) {
+        deltas.set(contract, (deltas.get(contract) ?? 0n) + BigInt(transfer.amount));
+      } else if (transfer.to === ethers.ZeroAddress) {
+        deltas.set(contract, (deltas.get(contract) ?? 0n) - BigInt(transfer.amount));
+      }
+    }
+    if (deltas.size === 0) {
+      return [];
+    }
+
+    const poolIds = [...deltas.keys()].map(address => pools.get(address)!.id);
+    const previous = await this.db.poolSupply.findMany({
+      where: { poolId: { in: poolIds }, blockNumber: { lt: BigInt(blockNumber) } },
+      select: { poolId: true },
+      distinct: ['poolId']
+    });
+    const known = new Set(previous.map(supply => supply.poolId));
+
+    const changes: PoolSupplyChange[] = [];
+    for (const [address, delta] of deltas) {
+      const pool = pools.get(address)!;
+      const seed = known.has(pool.id) ? null : await this.readTotalSupply(address, blockNumber);
+      changes.push({ poolId: pool.id, delta, seed });
+    }
+    return changes;
+  }
+
+  private async readTotalSupply(address: string, blockNumber: number): Promise<bigint | null> {
+    if (!this.batcher) {
+      return null;
+    }
+    try {
+      const data = await this.batcher.call<string>('eth_call', [
+        { to: address, data: lpInterface.encodeFunctionData('totalSupply') },
+        ethers.toQuantity(blockNumber)
+      ]);
+      return BigInt(lpInterface.decodeFunctionResult('totalSupply', data)[0]);
+    } catch (error) {
+      console.warn(`⚠️  Failed to read the LP supply of ${address} at block ${blockNumber}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private async tokenDecimals(addresses: string[]): Promise<Map<string, number | null>> {
+    if (addresses.length === 0) {
+      return new Map();
+    }
+    const tokens = await this.db.token.findMany({ where: { address: { in: [...new Set(addresses)] } } });
+    return new Map(tokens.map(token => [token.address, knownDecimals(token)]));
+  }
+}
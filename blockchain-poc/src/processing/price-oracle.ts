@@ -0,0 +1,376 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DexEvent, ResolvedToken } from './event-decoder';
+import { ResolvedPool } from './dex-tracker';
+import { Amount } from '../utils/amount';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+// Prices, liquidity and USD values are stored with this many decimals
+const PRICE_DECIMALS = 18;
+const WETH_DECIMALS = 18;
+const Q96 = new Prisma.Decimal(2).pow(96);
+
+const DEFAULT_WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+// USDC, USDT and DAI on mainnet, as address|decimals
+const DEFAULT_STABLECOINS = [
+  '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48|6',
+  '0xdac17f958d2ee523a2206206994597c13d831ec7|6',
+  '0x6b175474e89094c44da98b954eedeac495271d0f|18'
+].join(',');
+
+interface PriceOracleConfig {
+  weth: string;
+  // Tokens valued at exactly $1, with their decimals
+  stablecoins: Map<string, number>;
+  // Pools with less liquidity on the anchor side are ignored, as their price is cheap to move
+  minLiquidityUsd: number;
+  // Liquidity at which a price gets full confidence
+  fullConfidenceLiquidityUsd: number;
+  // Prices older than this are not used to value amounts
+  maxAgeBlocks: number;
+}
+
+/**
+ * A token's USD price as used to value an amount
+ */
+export interface UsdQuote {
+  price: string;
+  confidence: number;
+  // Block the price was derived at; null for stablecoins, which are always worth $1
+  blockNumber: string | null;
+}
+
+export interface UsdValue extends UsdQuote {
+  // Null when the token's decimals are not known yet
+  value: string | null;
+}
+
+export interface QuoteRequest {
+  address: string;
+  // Price at the end of this block, or the latest price
+  blockNumber?: bigint;
+}
+
+export interface PriceFilter {
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+}
+
+export interface PricePoint {
+  blockNumber: string;
+  timestamp: Date;
+  priceUsd: string;
+  liquidityUsd: string;
+  confidence: number;
+  sources: number;
+}
+
+// Reserves of a pool at the end of a block in raw units; virtual reserves of the active range for V3
+interface PoolState {
+  pool: ResolvedPool;
+  reserve0: Prisma.Decimal;
+  reserve1: Prisma.Decimal;
+}
+
+interface PriceSource {
+  priceUsd: Prisma.Decimal;
+  liquidityUsd: Prisma.Decimal;
+  confidence: number;
+}
+
+interface DerivedPrice {
+  priceUsd: Prisma.Decimal;
+  liquidityUsd: Prisma.Decimal;
+  confidence: number;
+  sources: number;
+}
+
+/**
+ * Parse stablecoin anchors from "address|decimals,address|decimals"
+ */
+export function parseStablecoins(value: string): Map<string, number> {
+  const stablecoins = new Map<string, number>();
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [address, decimals] = entry.split('|');
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address) || !/^\d+$/.test(decimals ?? '')) {
+      throw new Error(`❌ Invalid stablecoin anchor: ${entry}`);
+    }
+    stablecoins.set(address.toLowerCase(), parseInt(decimals, 10));
+  }
+  return stablecoins;
+}
+
+/**
+ * Value an amount with a quote
+ */
+export function usdValue(amount: Amount, quote: UsdQuote | null): UsdValue | null {
+  if (!quote) {
+    return null;
+  }
+  const value = amount.formatted === null
+    ? null
+    : new Prisma.Decimal(amount.formatted).mul(quote.price).toDecimalPlaces(PRICE_DECIMALS).toFixed();
+  return { ...quote, value };
+}
+
+/**
+ * Undo the prices derived from orphaned blocks; runs inside the reorg rollback
+ */
+export async function revertTokenPrices(tx: Prisma.TransactionClient, blockNumbers: bigint[]): Promise<void> {
+  if (blockNumbers.length === 0) {
+    return;
+  }
+  await tx.tokenPrice.deleteMany({ where: { blockNumber: { in: blockNumbers } } });
+}
+
+/**
+ * Derives USD prices from the state DEX pools are left in at the end of each block: V2 reserves from `Sync`
+ * and V3 prices from the `sqrtPriceX96` and liquidity of the last swap. Stablecoins are worth $1; WETH is
+ * priced against them first, then every other token against a stablecoin or WETH. When a token trades in
+ * several pools, the price is the average weighted by each pool's liquidity, and confidence grows with the
+ * total liquidity. A price is stored for each block a token's pools changed in, so the series is as
+ * granular as the trading.
+ */
+export class PriceOracle {
+  private db: PrismaClient;
+  private config: PriceOracleConfig;
+
+  constructor(db: PrismaClient, config?: Partial<PriceOracleConfig>) {
+    this.db = db;
+    this.config = {
+      weth: (process.env.PRICE_WETH_ADDRESS || DEFAULT_WETH).toLowerCase(),
+      stablecoins: parseStablecoins(process.env.PRICE_STABLECOINS || DEFAULT_STABLECOINS),
+      minLiquidityUsd: parseFloat(process.env.PRICE_MIN_LIQUIDITY_USD || '10000'),
+      fullConfidenceLiquidityUsd: parseFloat(process.env.PRICE_FULL_CONFIDENCE_LIQUIDITY_USD || '1000000'),
+      maxAgeBlocks: parseInt(process.env.PRICE_MAX_AGE_BLOCKS || '7200', 10),
+      ...config
+    };
+  }
+
+  /**
+   * Derive and store the prices of the tokens whose pools changed in a block, inside the block's database
+   * transaction. Returns the number of prices stored.
+   */
+  async applyBlock(
+    tx: Prisma.TransactionClient,
+    blockNumber: number,
+    events: DexEvent[],
+    pools: Map<string, ResolvedPool>,
+    tokens: Map<string, ResolvedToken>
+  ): Promise<number> {
+    const states = this.poolStates(events, pools);
+    if (states.length === 0) {
+      return 0;
+    }
+
+    const decimals = (address: string): number | null =>
+      this.config.stablecoins.get(address) ?? (address === this.config.weth ? WETH_DECIMALS : tokens.get(address)?.decimals ?? null);
+    const anchors = new Map<string, { price: Prisma.Decimal; confidence: number }>(
+      [...this.config.stablecoins.keys()].map(address => [address, { price: new Prisma.Decimal(1), confidence: 1 }])
+    );
+    const derived = new Map<string, DerivedPrice>();
+
+    const weth = this.aggregate(this.sources(states, this.config.weth, anchors, decimals));
+    if (weth) {
+      derived.set(this.config.weth, weth);
+      anchors.set(this.config.weth, { price: weth.priceUsd, confidence: weth.confidence });
+    } else if (tokens.has(this.config.weth)) {
+      // WETH pools traded without a stablecoin pool moving: route through the last stored price
+      const quote = await this.quote({ address: this.config.weth, blockNumber: BigInt(blockNumber) });
+      if (quote) {
+        anchors.set(this.config.weth, { price: new Prisma.Decimal(quote.price), confidence: quote.confidence });
+      }
+    }
+
+    const addresses = new Set(states.flatMap(state => [state.pool.token0, state.pool.token1]));
+    for (const address of addresses) {
+      if (address === this.config.weth || this.config.stablecoins.has(address)) {
+        continue;
+      }
+      const price = this.aggregate(this.sources(states, address, anchors, decimals));
+      if (price) {
+        derived.set(address, price);
+      }
+    }
+
+    const rows: Prisma.TokenPriceCreateManyInput[] = [];
+    const block = derived.size > 0
+      ? await this.db.block.findUnique({ where: { number: BigInt(blockNumber) }, select: { timestamp: true } })
+      : null;
+    for (const [address, price] of derived) {
+      const token = tokens.get(address);
+      if (!token || !block) {
+        continue;
+      }
+      rows.push({
+        tokenId: token.id,
+        blockNumber: BigInt(blockNumber),
+        timestamp: block.timestamp,
+        priceUsd: price.priceUsd.toDecimalPlaces(PRICE_DECIMALS).toFixed(),
+        liquidityUsd: price.liquidityUsd.toDecimalPlaces(PRICE_DECIMALS).toFixed(),
+        confidence: price.confidence,
+        sources: price.sources
+      });
+    }
+
+    if (rows.length === 0) {
+      return 0;
+    }
+    await tx.tokenPrice.createMany({ data: rows, skipDuplicates: true });
+    console.log(`💲 Block ${blockNumber}: ${rows.length} token prices`);
+    return rows.length;
+  }
+
+  /**
+   * USD price of a token at the end of a block, or the latest one. Null when the token has no price recent enough.
+   */
+  async quote(request: QuoteRequest): Promise<UsdQuote | null> {
+    const address = request.address.toLowerCase();
+    if (this.config.stablecoins.has(address)) {
+      return { price: '1', confidence: 1, blockNumber: null };
+    }
+
+    const blockNumber: Prisma.BigIntFilter = {};
+    if (request.blockNumber !== undefined) {
+      blockNumber.lte = request.blockNumber;
+      blockNumber.gte = request.blockNumber - BigInt(this.config.maxAgeBlocks);
+    }
+    const price = await this.db.tokenPrice.findFirst({
+      where: { token: { address }, blockNumber },
+      orderBy: { blockNumber: 'desc' }
+    });
+    return price
+      ? { price: price.priceUsd.toFixed(), confidence: price.confidence, blockNumber: price.blockNumber.toString() }
+      : null;
+  }
+
+  /**
+   * Quotes for many amounts at once; each distinct token and block is looked up once
+   */
+  async quotes(requests: QuoteRequest[]): Promise<(UsdQuote | null)[]> {
+    const keyOf = (request: QuoteRequest) => `${request.address.toLowerCase()}:${request.blockNumber ?? 'latest'}`;
+    const distinct = new Map(requests.map(request => [keyOf(request), request]));
+    const quotes = new Map(await Promise.all(
+      [...distinct].map(async ([key, request]) => [key, await this.quote(request)] as const)
+    ));
+    return requests.map(request => quotes.get(keyOf(request)) ?? null);
+  }
+
+  /**
+   * Price series of a token, newest first
+   */
+  async getPrices(address: string, filter: PriceFilter = {}): Promise<PricePoint[]> {
+    const blockNumber: Prisma.BigIntFilter = {};
+    if (filter.fromBlock !== undefined) {
+      blockNumber.gte = BigInt(filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      blockNumber.lte = BigInt(filter.toBlock);
+    }
+
+    const prices = await this.db.tokenPrice.findMany({
+      where: { token: { address: address.toLowerCase() }, blockNumber },
+      orderBy: { blockNumber: 'desc' },
+      take: filter.limit ?? 100
+    });
+    return prices.map(price => ({
+      blockNumber: price.blockNumber.toString(),
+      timestamp: price.timestamp,
+      priceUsd: price.priceUsd.toFixed(),
+      liquidityUsd: price.liquidityUsd.toFixed(),
+      confidence: price.confidence,
+      sources: price.sources
+    }));
+  }
+
+  /**
+   * The reserves each pool was left with by the last of its events in the block
+   */
+  private poolStates(events: DexEvent[], pools: Map<string, ResolvedPool>): PoolState[] {
+    const states = new Map<string, PoolState>();
+    for (const event of [...events].sort((a, b) => a.logIndex - b.logIndex)) {
+      const pool = pools.get(event.pool.toLowerCase());
+      if (!pool) {
+        continue;
+      }
+      if (event.kind === 'sync') {
+        states.set(pool.address, { pool, reserve0: new Prisma.Decimal(event.amount0), reserve1: new Prisma.Decimal(event.amount1) });
+      } else if (event.kind === 'swap' && event.sqrtPriceX96 && event.liquidity) {
+        // x = L / sqrt(P) and y = L * sqrt(P), so y / x is the pool price
+        const sqrtPrice = new Prisma.Decimal(event.sqrtPriceX96).div(Q96);
+        const liquidity = new Prisma.Decimal(event.liquidity);
+        if (sqrtPrice.gt(0)) {
+          states.set(pool.address, { pool, reserve0: liquidity.div(sqrtPrice), reserve1: liquidity.mul(sqrtPrice) });
+        }
+      }
+    }
+    return [...states.values()];
+  }
+
+  /**
+   * A token's USD price in each pool that pairs it with a priced anchor and holds enough liquidity
+   */
+  private sources(
+    states: PoolState[],
+    address: string,
+    anchors: Map<string, { price: Prisma.Decimal; confidence: number }>,
+    decimals: (address: string) => number | null
+  ): PriceSource[] {
+    const sources: PriceSource[] = [];
+    for (const { pool, reserve0, reserve1 } of states) {
+      if (pool.token0 !== address && pool.token1 !== address) {
+        continue;
+      }
+      const isToken0 = pool.token0 === address;
+      const counterpart = isToken0 ? pool.token1 : pool.token0;
+      const anchor = anchors.get(counterpart);
+      const tokenDecimals = decimals(address);
+      const anchorDecimals = decimals(counterpart);
+      if (!anchor || tokenDecimals === null || anchorDecimals === null) {
+        continue;
+      }
+
+      const tokenReserve = (isToken0 ? reserve0 : reserve1).div(new Prisma.Decimal(10).pow(tokenDecimals));
+      const anchorReserve = (isToken0 ? reserve1 : reserve0).div(new Prisma.Decimal(10).pow(anchorDecimals));
+      if (tokenReserve.lte(0) || anchorReserve.lte(0)) {
+        continue;
+      }
+      // Both sides of a pool hold the same value at its price
+      const liquidityUsd = anchorReserve.mul(anchor.price).mul(2);
+      if (liquidityUsd.lt(this.config.minLiquidityUsd)) {
+        continue;
+      }
+      sources.push({
+        priceUsd: anchorReserve.div(tokenReserve).mul(anchor.price),
+        liquidityUsd,
+        confidence: anchor.confidence
+      });
+    }
+    return sources;
+  }
+
+  /**
+   * Liquidity-weighted price of all sources. Confidence scales with the total liquidity, up to 1, and is
+   * discounted by the confidence of the anchors the price was routed through.
+   */
+  private aggregate(sources: PriceSource[]): DerivedPrice | null {
+    if (sources.length === 0) {
+      return null;
+    }
+    const liquidityUsd = sources.reduce((sum, source) => sum.add(source.liquidityUsd), new Prisma.Decimal(0));
+    const priceUsd = sources.reduce((sum, source) => sum.add(source.priceUsd.mul(source.liquidityUsd)), new Prisma.Decimal(0)).div(liquidityUsd);
+    const anchorConfidence = sources.reduce((sum, source) => sum.add(source.liquidityUsd.mul(source.confidence)), new Prisma.Decimal(0))
+      .div(liquidityUsd)
+      .toNumber();
+    const depth = Math.min(1, liquidityUsd.div(this.config.fullConfidenceLiquidityUsd).toNumber());
+    return {
+      priceUsd,
+      liquidityUsd,
+      confidence: Math.round(depth * anchorConfidence * 10000) / 10000,
+      sources: sources.length
+    };
+  }
+}
@@ -0,0 +1,310 @@
+import { ethers } from 'ethers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RpcBatcher } from '../ingestion/rpc-batcher';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+export const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+export const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+// keccak256('PROXIABLE')
+export const EIP1822_PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+const UPGRADED_TOPIC = ethers.id('Upgraded(address)');
+const BEACON_UPGRADED_TOPIC = ethers.id('BeaconUpgraded(address)');
+// Runtime code of an EIP-1167 minimal proxy, with the implementation in the middle
+const MINIMAL_PROXY_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+// Implementations read from storage or bytecode apply from the start of the block they were read at
+const READ_LOG_INDEX = -1;
+
+const beaconInterface = new ethers.Interface(['function implementation() view returns (address)']);
+
+interface ProxyResolverConfig {
+  // Read slots and bytecode of contracts not seen before
+  detect: boolean;
+  refreshInterval: number;
+}
+
+/**
+ * - `none`: not a proxy
+ * - `eip1967`: implementation in the EIP-1967 slot (transparent and UUPS proxies)
+ * - `eip1822`: implementation in the EIP-1822 `PROXIABLE` slot
+ * - `beacon`: implementation returned by the beacon in the EIP-1967 beacon slot
+ * - `eip1167`: minimal proxy with the implementation in its bytecode
+ */
+export type ProxyKind = 'none' | 'eip1967' | 'eip1822' | 'beacon' | 'eip1167';
+
+export interface ImplementationEntry {
+  implementation: string;
+  fromBlock: string;
+  logIndex: number;
+  txHash: string | null;
+  source: string;
+}
+
+export interface ProxyInfo {
+  address: string;
+  kind: ProxyKind;
+  beacon: string | null;
+  // Oldest first
+  implementations: ImplementationEntry[];
+}
+
+export interface UpgradeLog {
+  address: string;
+  topics: readonly string[];
+  transactionHash: string;
+  logIndex: number;
+  blockNumber?: number;
+}
+
+interface CachedProxy {
+  info: ProxyInfo;
+  loadedAt: number;
+}
+
+/**
+ * Address stored in a 32-byte storage slot, or null when the slot is empty
+ */
+export function slotAddress(value: string | null | undefined): string | null {
+  if (!value || BigInt(value) === 0n) {
+    return null;
+  }
+  return ethers.getAddress(ethers.dataSlice(ethers.zeroPadValue(value, 32), 12)).toLowerCase();
+}
+
+/**
+ * Implementation of an EIP-1167 minimal proxy from its runtime bytecode
+ */
+export function minimalProxyImplementation(code: string): string | null {
+  const match = code.toLowerCase().match(MINIMAL_PROXY_PATTERN);
+  return match ? `0x${match[1]}` : null;
+}
+
+/**
+ * Undo implementation changes recorded from events of orphaned transactions; runs inside the reorg rollback
+ */
+export async function revertProxyUpgrades(tx: Prisma.TransactionClient, txHashes: string[]): Promise<void> {
+  if (txHashes.length === 0) {
+    return;
+  }
+  await tx.proxyImplementation.deleteMany({ where: { txHash: { in: txHashes } } });
+}
+
+/**
+ * Finds out which implementation a proxy delegated to at a given block, so its logs can be decoded with the
+ * implementation's ABI. A contract is checked once, at the first block it is needed for: EIP-1167 bytecode,
+ * then the EIP-1967 implementation and beacon slots and the EIP-1822 slot. Contracts that are none of these
+ * are stored as `none`. From then on `Upgraded` and `BeaconUpgraded` events extend each proxy's
+ * implementation history, including `Upgraded` events of beacons, which move all of their proxies.
+ */
+export class ProxyResolver {
+  private db: PrismaClient;
+  private batcher?: RpcBatcher;
+  private config: ProxyResolverConfig;
+  private cache: Map<string, CachedProxy> = new Map();
+
+  constructor(db: PrismaClient, batcher?: RpcBatcher, config?: Partial<ProxyResolverConfig>) {
+    this.db = db;
+    this.batcher = batcher;
+    this.config = {
+      detect: process.env.PROXY_DETECTION !== 'false',
+      refreshInterval: 60000,
+      ...config
+    };
+  }
+
+  /**
+   * Implementation a contract delegated to at a log position, or null when it is not a proxy (or unknown).
+   * Before the first known implementation the earliest one is used.
+   */
+  async getImplementation(address: string, blockNumber?: number, logIndex: number = Number.MAX_SAFE_INTEGER): Promise<string | null> {
+    const info = await this.resolve(address, blockNumber);
+    if (!info || info.implementations.length === 0) {
+      return null;
+    }
+    if (blockNumber === undefined) {
+      return info.implementations[info.implementations.length - 1].implementation;
+    }
+
+    const block = BigInt(blockNumber);
+    const active = info.implementations.filter(entry =>
+      BigInt(entry.fromBlock) < block || (BigInt(entry.fromBlock) === block && entry.logIndex < logIndex));
+    return (active[active.length - 1] ?? info.implementations[0]).implementation;
+  }
+
+  /**
+   * Stored proxy information of a contract, detecting it first when it was never checked
+   */
+  async resolve(address: string, blockNumber?: number): Promise<ProxyInfo | null> {
+    const key = address.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < this.config.refreshInterval) {
+      return cached.info.kind === 'none' ? null : cached.info;
+    }
+
+    let info = await this.load(key);
+    if (!info && this.config.detect && this.batcher) {
+      info = await this.detect(key, blockNumber);
+    }
+    if (!info) {
+      return null;
+    }
+    this.cache.set(key, { info, loadedAt: Date.now() });
+    return info.kind === 'none' ? null : info;
+  }
+
+  /**
+   * Record the implementation change of an `Upgraded` or `BeaconUpgraded` log; other logs are ignored.
+   * Returns whether the log was an upgrade.
+   */
+  async recordUpgrade(log: UpgradeLog): Promise<boolean> {
+    const topic = log.topics[0]?.toLowerCase();
+    if ((topic !== UPGRADED_TOPIC && topic !== BEACON_UPGRADED_TOPIC) || log.topics.length < 2 || log.blockNumber === undefined) {
+      return false;
+    }
+    const emitter = log.address.toLowerCase();
+    const target = slotAddress(log.topics[1]);
+    if (!target) {
+      return false;
+    }
+    const position = { fromBlock: BigInt(log.blockNumber), logIndex: log.logIndex, txHash: log.transactionHash, source: 'event' };
+
+    if (topic === BEACON_UPGRADED_TOPIC) {
+      const implementation = await this.readBeacon(target, log.blockNumber);
+      const proxy = await this.upsertProxy(emitter, 'beacon', target);
+      if (implementation) {
+        await this.addImplementation(proxy.id, implementation, position);
+      }
+      this.cache.delete(emitter);
+      return true;
+    }
+
+    // An upgradeable beacon emits Upgraded itself; every proxy behind it moves to the new implementation
+    const proxies = await this.db.proxyContract.findMany({ where: { beacon: emitter } });
+    if (proxies.length > 0) {
+      for (const proxy of proxies) {
+        await this.addImplementation(proxy.id, target, position);
+        this.cache.delete(proxy.address);
+      }
+      return true;
+    }
+
+    const existing = await this.db.proxyContract.findUnique({ where: { address: emitter } });
+    const kind = existing && existing.kind !== 'none' && existing.kind !== 'beacon' ? existing.kind as ProxyKind : 'eip1967';
+    const proxy = await this.upsertProxy(emitter, kind, null);
+    await this.addImplementation(proxy.id, target, position);
+    this.cache.delete(emitter);
+    console.log(`🔀 Proxy ${emitter} upgraded to ${target} at block ${log.blockNumber}`);
+    return true;
+  }
+
+  /**
+   * Read a contract's proxy type and current implementation from the chain and store them
+   */
+  async detect(address: string, blockNumber?: number): Promise<ProxyInfo | null> {
+    const blockTag = blockNumber !== undefined ? ethers.toQuantity(blockNumber) : 'latest';
+    let kind: ProxyKind = 'none';
+    let implementation: string | null = null;
+    let beacon: string | null = null;
+
+    try {
+      const code = await this.batcher!.call<string>('eth_getCode', [address, blockTag]);
+      implementation = minimalProxyImplementation(code);
+      if (implementation) {
+        kind = 'eip1167';
+      } else if (code !== '0x') {
+        const [implementationSlot, beaconSlot, proxiableSlot] = await Promise.all(
+          [EIP1967_IMPLEMENTATION_SLOT, EIP1967_BEACON_SLOT, EIP1822_PROXIABLE_SLOT]
+            .map(slot => this.batcher!.call<string>('eth_getStorageAt', [address, slot, blockTag]))
+        );
+        beacon = slotAddress(beaconSlot);
+        if ((implementation = slotAddress(implementationSlot))) {
+          kind = 'eip1967';
+        } else if (beacon) {
+          kind = 'beacon';
+          implementation = await this.readBeacon(beacon, blockNumber);
+        } else if ((implementation = slotAddress(proxiableSlot))) {
+          kind = 'eip1822';
+        }
+      }
+    } catch (error) {
+      // Not stored, so the contract is checked again next time
+      console.warn(`⚠️  Failed to check whether ${address} is a proxy: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+
+    const proxy = await this.upsertProxy(address, kind, kind === 'beacon' ? beacon : null);
+    if (implementation) {
+      const source = kind === 'eip1167' ? 'bytecode' : 'storage';
+      await this.addImplementation(proxy.id, implementation, {
+        fromBlock: BigInt(blockNumber ?? 0),
+        logIndex: READ_LOG_INDEX,
+        txHash: null,
+        source
+      });
+      console.log(`🔀 ${address} is an ${kind} proxy of ${implementation}`);
+    }
+    return await this.load(address);
+  }
+
+  private async load(address: string): Promise<ProxyInfo | null> {
+    const proxy = await this.db.proxyContract.findUnique({
+      where: { address },
+      include: { implementations: { orderBy: [{ fromBlock: 'asc' }, { logIndex: 'asc' }] } }
+    });
+    if (!proxy) {
+      return null;
+    }
+    return {
+      address: proxy.address,
+      kind: proxy.kind as ProxyKind,
+      beacon: proxy.beacon,
+      implementations: proxy.implementations.map(entry => ({
+        implementation: entry.implementation,
+        fromBlock: entry.fromBlock.toString(),
+        logIndex: entry.logIndex,
+        txHash: entry.txHash,
+        source: entry.source
+      }))
+    };
+  }
+
+  private async upsertProxy(address: string, kind: ProxyKind, beacon: string | null) {
+    return await this.db.proxyContract.upsert({
+      where: { address },
+      update: { kind, beacon, checkedAt: new Date() },
+      create: { address, kind, beacon }
+    });
+  }
+
+  private async addImplementation(
+    proxyId: number,
+    implementation: string,
+    position: { fromBlock: bigint; logIndex: number; txHash: string | null; source: string }
+  ): Promise<void> {
+    await this.db.proxyImplementation.createMany({
+      data: [{ proxyId, implementation: implementation.toLowerCase(), ...position }],
+      skipDuplicates: true
+    });
+  }
+
+  private async readBeacon(beacon: string, blockNumber?: number): Promise<string | null> {
+    if (!this.batcher) {
+      return null;
+    }
+    try {
+      const data = await this.batcher.call<string>('eth_call', [
+        { to: beacon, data: beaconInterface.encodeFunctionData('implementation') },
+        blockNumber !== undefined ? ethers.toQuantity(blockNumber) : 'latest'
+      ]);
+      return (beaconInterface.decodeFunctionResult('implementation', data)[0] as string).toLowerCase();
+    } catch (error) {
+      console.warn(`⚠️  Failed to read the implementation of beacon ${beacon}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { EventProcessor } from './event-processor';
+import { DeadLetterQueue, FailedItemView, FailureStage } from './dead-letter-queue';
+import { IngestionService } from '../ingestion/ingestion-service';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: './config.env' });
+
+interface ReprocessorConfig {
+  batchSize: number;
+  interval: number;
+}
+
+export interface ReprocessResult {
+  items: number;
+  blocks: number;
+  transactions: number;
+  resolved: number;
+}
+
+export interface UnknownReprocessResult {
+  blocks: number;
+  unknownBefore: number;
+  unknownAfter: number;
+}
+
+/**
+ * Retries failed items of the dead-letter queue. Items are retried per block: a block that failed to ingest is
+ * ingested again, and every failure of a block is retried by processing the whole block again, which is
+ * idempotent. Processing resolves the items that no longer fail and counts another attempt for the others.
+ * Transactions processed on their own, without a block, are processed on their own again.
+ */
+export class Reprocessor {
+  private db: PrismaClient;
+  private processor: EventProcessor;
+  private ingestion?: IngestionService;
+  private deadLetters: DeadLetterQueue;
+  private config: ReprocessorConfig;
+  private running: boolean = false;
+  private wake?: () => void;
+
+  constructor(db: PrismaClient, processor: EventProcessor, ingestion?: IngestionService, config?: Partial<ReprocessorConfig>) {
+    this.db = db;
+    this.processor = processor;
+    this.ingestion = ingestion;
+    this.deadLetters = new DeadLetterQueue(db);
+    this.config = {
+      batchSize: parseInt(process.env.DLQ_BATCH_SIZE || '50', 10),
+      interval: parseInt(process.env.DLQ_RETRY_INTERVAL_MS || '30000', 10),
+      ...config
+    };
+  }
+
+  /**
+   * Retry the items whose back-off has passed
+   */
+  async retryDue(limit: number = this.config.batchSize): Promise<ReprocessResult> {
+    return await this.run(await this.deadLetters.due(limit));
+  }
+
+  /**
+   * Retry items now, regardless of their back-off: by id, or every unresolved item (dead ones included) of a stage
+   */
+  async reprocess(selection: { ids?: number[]; stage?: FailureStage; limit?: number }): Promise<ReprocessResult> {
+    return await this.run(await this.deadLetters.find(selection));
+  }
+
+  /**
+   * Process the blocks holding `Unknown` events again, e.g. after registering an ABI; logs that now decode replace them
+   */
+  async reprocessUnknown(filter: { contract?: string; limit?: number } = {}): Promise<UnknownReprocessResult> {
+    const where = { eventName: 'Unknown', contract: filter.contract ? { equals: filter.contract, mode: 'insensitive' as const } : undefined };
+    const unknownBefore = await this.db.event.count({ where });
+    const contractSql = filter.contract ? Prisma.sql`AND LOWER(e."contract") = LOWER(${filter.contract})` : Prisma.empty;
+    // The oldest blocks first, picked in SQL so only one page of block numbers is loaded
+    const rows = await this.db.$queryRaw<Array<{ blockNumber: bigint }>>`
+      SELECT DISTINCT t."blockNumber"
+      FROM "Event" e
+      JOIN "Transaction" t ON t."hash" = e."txHash"
+      WHERE e."eventName" = 'Unknown' ${contractSql}
+      ORDER BY t."blockNumber" ASC
+      LIMIT ${filter.limit ?? 100}
+    `;
+    const blocks = rows.map(row => Number(row.blockNumber));
+
+    for (const blockNumber of blocks) {
+      try {
+        await this.processor.processBlockEvents(blockNumber);
+      } catch (error) {
+        // Recorded in the dead-letter queue by the processor
+      }
+    }
+
+    const unknownAfter = await this.db.event.count({ where });
+    console.log(`🔁 Reprocessed ${blocks.length} blocks: ${unknownBefore - unknownAfter} of ${unknownBefore} unknown events decoded`);
+    return { blocks: blocks.length, unknownBefore, unknownAfter };
+  }
+
+  /**
+   * Run retries every `interval` ms until stop() is called. A full batch is followed by the next one right away.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      throw new Error('❌ Reprocessing is already running');
+    }
+
+    this.running = true;
+    console.log(`🚀 Retrying failed items every ${this.config.interval}ms (batch size: ${this.config.batchSize})`);
+
+    try {
+      while (this.running) {
+        let busy = false;
+        try {
+          const result = await this.retryDue();
+          busy = result.items >= this.config.batchSize;
+        } catch (error) {
+          console.error('❌ Retry pass failed:', error);
+        }
+
+        if (this.running && !busy) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, this.config.interval);
+            this.wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          this.wake = undefined;
+        }
+      }
+    } finally {
+      this.running = false;
+      console.log('🛑 Stopped retrying failed items');
+    }
+  }
+
+  /**
+   * Stop the retries after the current pass
+   */
+  stop(): void {
+    this.running = false;
+    this.wake?.();
+  }
+
+  private async run(items: FailedItemView[]): Promise<ReprocessResult> {
+    const result: ReprocessResult = { items: items.length, blocks: 0, transactions: 0, resolved: 0 };
+    if (items.length === 0) {
+      return result;
+    }
+
+    const blocks = new Map<number, FailedItemView[]>();
+    const transactions: string[] = [];
+    for (const item of items) {
+      if (item.blockNumber !== null) {
+        const blockNumber = Number(item.blockNumber);
+        blocks.set(blockNumber, [...(blocks.get(blockNumber) ?? []), item]);
+      } else if (item.stage === 'transaction') {
+        transactions.push(item.key);
+      }
+    }
+
+    console.log(`🔁 Retrying ${items.length} failed items in ${blocks.size} blocks and ${transactions.length} transactions...`);
+    for (const [blockNumber, blockItems] of [...blocks].sort(([a], [b]) => a - b)) {
+      try {
+        if (blockItems.some(item => item.stage === 'ingest')) {
+          if (!this.ingestion) {
+            console.warn(`⚠️  Skipping block ${blockNumber}: ingestion is not available to retry it`);
+            continue;
+          }
+          await this.ingestion.ingestBlock(blockNumber);
+        }
+        await this.processor.processBlockEvents(blockNumber);
+      } catch (error) {
+        // Recorded in the dead-letter queue by the ingester or the processor
+      }
+      result.blocks++;
+    }
+    for (const txHash of transactions) {
+      try {
+        await this.processor.processTransactionEvents(txHash);
+      } catch (error) {
+        // Recorded in the dead-letter queue by the processor
+      }
+      result.transactions++;
+    }
+
+    result.resolved = await this.db.failedItem.count({
+      where: { id: { in: items.map(item => item.id) }, status: 'resolved' }
+    });
+    console.log(`✅ Retried ${items.length} failed items: ${result.resolved} resolved`);
+    return result;
+  }
+}
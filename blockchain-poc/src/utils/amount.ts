@@ -0,0 +1,83 @@
+export const ETH_DECIMALS = 18;
+export const GWEI_DECIMALS = 9;
+
+/**
+ * An on-chain amount as returned by the API: the raw integer, the decimal-adjusted value and the decimals used.
+ * `formatted` is null when the token's decimals are not known yet.
+ */
+export interface Amount {
+  raw: string;
+  formatted: string | null;
+  decimals: number | null;
+}
+
+export type RawAmountInput = bigint | number | string | { toFixed(): string };
+
+/**
+ * Convert a raw amount (bigint, integer string, number or Prisma Decimal) to a bigint
+ */
+export function toRawAmount(value: RawAmountInput): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`❌ Unsafe integer amount: ${value}`);
+    }
+    return BigInt(value);
+  }
+
+  const text = typeof value === 'string' ? value.trim() : value.toFixed();
+  if (!/^-?\d+$/.test(text)) {
+    throw new Error(`❌ Invalid raw amount: ${text}`);
+  }
+  return BigInt(text);
+}
+
+/**
+ * Format a raw amount with its decimals, without trailing zeros ("1500000", 6 -> "1.5")
+ */
+export function formatAmount(raw: RawAmountInput, decimals: number): string {
+  const value = toRawAmount(raw);
+  const magnitude = value < 0n ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const fraction = (magnitude % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  const formatted = fraction ? `${magnitude / base}.${fraction}` : `${magnitude / base}`;
+  return value < 0n ? `-${formatted}` : formatted;
+}
+
+/**
+ * Decimal-adjusted value for the normalized columns, or null when the decimals are unknown
+ */
+export function normalizeAmount(raw: RawAmountInput, decimals: number | null | undefined): string | null {
+  if (decimals === null || decimals === undefined) {
+    return null;
+  }
+  return formatAmount(raw, decimals);
+}
+
+/**
+ * Build the API representation of an amount
+ */
+export function toAmount(raw: RawAmountInput, decimals: number | null | undefined): Amount {
+  return {
+    raw: toRawAmount(raw).toString(),
+    formatted: normalizeAmount(raw, decimals),
+    decimals: decimals ?? null
+  };
+}
+
+/**
+ * Decimals of a token that can be trusted for normalization: tokens are created without decimals (older
+ * placeholders hold 18), which only become real once the metadata has been read from the contract
+ */
+export function knownDecimals(token: { decimals: number | null; metadataStatus: string }): number | null {
+  return token.metadataStatus === 'ok' || token.metadataStatus === 'partial' ? token.decimals : null;
+}
+
+/**
+ * Check that a query value is a non-negative decimal number ("100", "0.25")
+ */
+export function isAmountString(value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(value.trim());
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { AbiRegistry, readAbiFile } from '../src/processing/abi-registry';
+import { Prisma } from '@prisma/client';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('AbiRegistry', () => {
+  let registry: AbiRegistry;
+  let mockDb: any;
+  let rows: any[];
+  let tmpDir: string;
+
+  const vaultAbi = ['event Deposit(address indexed user, uint256 amount)'];
+  const vaultAddress = '0x3333333333333333333333333333333333333333';
+  // JSONB stores object keys ordered by length, then bytewise
+  const jsonb = (value: unknown): unknown => Array.isArray(value)
+    ? value.map(jsonb)
+    : value !== null && typeof value === 'object'
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.length - b.length || a.localeCompare(b)).map(([k, v]) => [k, jsonb(v)]))
+      : value;
+
+  beforeEach(() => {
+    rows = [];
+    mockDb = {
+      contractAbi: {
+        findFirst: jest.fn(async (args: any) => rows
+          .filter(row => row.chainId === args.where.chainId && row.address === args.where.address)
+          .sort((a, b) => b.version - a.version)[0] ?? null),
+        findMany: jest.fn(async () => rows),
+        create: jest.fn(async (args: any) => {
+          const row = { id: rows.length + 1, createdAt: new Date(), ...args.data, abi: jsonb(args.data.abi) };
+          rows.push(row);
+          return row;
+        })
+      }
+    };
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'abi-registry-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    registry = new AbiRegistry(mockDb, { chainId: 1 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('readAbiFile', () => {
+    it('should read bare ABIs, address entries and artifacts', () => {
+      const bare = path.join(tmpDir, 'Vault.json');
+      fs.writeFileSync(bare, JSON.stringify(vaultAbi));
+      const entries = path.join(tmpDir, 'entries.json');
+      fs.writeFileSync(entries, JSON.stringify([{ address: vaultAddress, name: 'Vault', abi: vaultAbi }]));
+      const artifact = path.join(tmpDir, 'artifact.json');
+      fs.writeFileSync(artifact, JSON.stringify({ _format: 'hh-sol-artifact-1', contractName: 'Vault', abi: vaultAbi }));
+
+      expect(readAbiFile(bare)).toEqual([{ name: 'Vault', abi: vaultAbi }]);
+      expect(readAbiFile(entries)).toEqual([{ address: vaultAddress, name: 'Vault', abi: vaultAbi }]);
+      expect(readAbiFile(artifact)).toEqual([{ address: undefined, name: 'Vault', abi: vaultAbi }]);
+    });
+  });
+
+  it('should version an ABI only when it changes', async () => {
+    const first = await registry.register(vaultAddress, vaultAbi, { name: 'Vault' });
+    const again = await registry.register(vaultAddress, vaultAbi);
+    const changed = await registry.register(vaultAddress, [...vaultAbi, 'event Withdraw(address indexed user, uint256 amount)']);
+
+    expect(first).toEqual(expect.objectContaining({ version: 1, created: true, name: 'Vault' }));
+    expect(again).toEqual(expect.objectContaining({ version: 1, created: false }));
+    expect(changed).toEqual(expect.objectContaining({ version: 2, created: true, name: 'Vault' }));
+    expect(mockDb.contractAbi.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should compare with the version another process registered at the same time', async () => {
+    const first = await registry.register(vaultAddress, vaultAbi);
+    const other = new AbiRegistry(mockDb, { chainId: 1 });
+    mockDb.contractAbi.create.mockImplementationOnce(async (args: any) => {
+      // The other process wins the race for version 2 with the same ABI
+      const row = { ...rows[0], id: 2, version: 2, abi: jsonb(args.data.abi) };
+      rows.push(row);
+      throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+    });
+
+    const changed = await other.register(vaultAddress, [...vaultAbi, 'event Withdraw(address indexed user, uint256 amount)']);
+
+    expect(first.version).toBe(1);
+    expect(changed).toEqual(expect.objectContaining({ version: 2, created: false }));
+  });
+
+  it('should reject invalid addresses', async () => {
+    await expect(registry.register('0xnot-an-address', vaultAbi)).rejects.toThrow('Invalid contract address');
+  });
+
+  it('should serve the latest registered interface before built-in ones', async () => {
+    registry.registerBuiltin(vaultAddress, ['event Transfer(address indexed from, address indexed to, uint256 value)']);
+    expect((await registry.getInterface(vaultAddress))?.getEvent('Transfer')).toBeTruthy();
+
+    rows.push({ chainId: 1, address: vaultAddress, version: 1, name: 'Vault', abi: vaultAbi, source: 'manual' });
+    await registry.load();
+
+    const contractInterface = await registry.getInterface(vaultAddress.toUpperCase().replace('0X', '0x'));
+    expect(contractInterface?.getEvent('Deposit')).toBeTruthy();
+    expect(contractInterface?.getEvent('Transfer')).toBeNull();
+  });
+
+  it('should tell which addresses have a registered or built-in ABI', async () => {
+    const builtinAddress = '0x4444444444444444444444444444444444444444';
+    registry.registerBuiltin(builtinAddress, vaultAbi);
+    mockDb.contractAbi.findMany.mockResolvedValueOnce([{ address: vaultAddress }]);
+
+    const known = await registry.getKnownAddresses([vaultAddress, builtinAddress, '0x5555555555555555555555555555555555555555']);
+
+    expect(mockDb.contractAbi.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { chainId: 1, address: { in: [vaultAddress, builtinAddress, '0x5555555555555555555555555555555555555555'] } }
+    }));
+    expect([...known].sort()).toEqual([vaultAddress, builtinAddress]);
+  });
+
+  it('should register artifacts from a build directory using deployed addresses', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'Vault.sol'));
+    fs.mkdirSync(path.join(tmpDir, 'build-info'));
+    fs.writeFileSync(path.join(tmpDir, 'Vault.sol', 'Vault.json'), JSON.stringify({ abi: vaultAbi, bytecode: { object: '0x' } }));
+    fs.writeFileSync(path.join(tmpDir, 'Vault.sol', 'Vault.dbg.json'), JSON.stringify({ buildInfo: '../build-info/1.json' }));
+    fs.writeFileSync(path.join(tmpDir, 'Token.json'), JSON.stringify({ contractName: 'Token', abi: vaultAbi }));
+    fs.writeFileSync(path.join(tmpDir, 'build-info', '1.json'), JSON.stringify({ output: {} }));
+
+    const result = await registry.loadArtifactsDirectory(tmpDir, { Vault: vaultAddress });
+
+    expect(result.registered).toEqual([expect.objectContaining({ address: vaultAddress, name: 'Vault', version: 1 })]);
+    expect(result.skipped).toEqual(['Token']);
+    expect(rows[0].source).toBe(`artifact:${path.join(tmpDir, 'Vault.sol', 'Vault.json')}`);
+  });
+});
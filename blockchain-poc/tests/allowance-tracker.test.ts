@@ -0,0 +1,221 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { AllowanceTracker, revertAllowanceChanges } from '../src/processing/allowance-tracker';
+import { AbiRegistry } from '../src/processing/abi-registry';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('AllowanceTracker', () => {
+  let tracker: AllowanceTracker;
+  let mockDb: any;
+  let mockTx: any;
+  let mockRegistry: any;
+  let recorded: any[];
+  let history: any[];
+  let later: any[];
+
+  const owner = '0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa';
+  const router = '0xBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBb';
+  const tokenIds = new Map([['0xToken', 7]]);
+  const decimal = (value: string | bigint) => ({ toFixed: () => value.toString() });
+
+  const approval = (value: string, overrides: any = {}) => ({
+    owner, spender: router, value, contract: '0xToken', txHash: '0xtx1', logIndex: 0, ...overrides
+  });
+  const transfer = (amount: string, overrides: any = {}) => ({
+    from: owner, to: '0xcccccccccccccccccccccccccccccccccccccccc', amount, contract: '0xToken', txHash: '0xtx2', logIndex: 1, ...overrides
+  });
+  const storedAllowance = (allowance: bigint) => ({
+    tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase(), allowance: decimal(allowance), blockNumber: 90n, txHash: '0xold'
+  });
+
+  beforeEach(() => {
+    recorded = [];
+    history = [];
+    later = [];
+    mockTx = {
+      allowanceChange: {
+        findMany: jest.fn(async (args: any) => {
+          if (args.where.blockNumber?.lte !== undefined) {
+            return history;
+          }
+          return args.where.blockNumber?.gt !== undefined ? later : recorded;
+        }),
+        findFirst: jest.fn(async () => null),
+        createMany: jest.fn(),
+        deleteMany: jest.fn()
+      },
+      tokenAllowance: {
+        upsert: jest.fn(),
+        deleteMany: jest.fn()
+      }
+    };
+    mockDb = {
+      tokenAllowance: { findMany: jest.fn() }
+    };
+    mockRegistry = {
+      getKnownAddresses: jest.fn(async () => new Set<string>())
+    };
+
+    tracker = new AllowanceTracker(mockDb as PrismaClient, mockRegistry as AbiRegistry);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyBlock', () => {
+    it('should set the allowance from an Approval event', async () => {
+      const callers = new Map([['0xtx1', { from: owner, to: '0xToken' }]]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [approval('500')], [], callers, tokenIds);
+
+      expect(result).toEqual({ approvals: 1, consumed: 0 });
+      expect(mockTx.allowanceChange.createMany).toHaveBeenCalledWith({
+        data: [{
+          txHash: '0xtx1', logIndex: 0, blockNumber: 100n, tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase(),
+          kind: 'approval', amount: '500', allowance: '500'
+        }],
+        skipDuplicates: true
+      });
+      expect(mockTx.tokenAllowance.upsert).toHaveBeenCalledWith({
+        where: { tokenId_owner_spender: { tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase() } },
+        update: { allowance: '500', unlimited: false, blockNumber: 100n, txHash: '0xtx1' },
+        create: { tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase(), allowance: '500', unlimited: false, blockNumber: 100n, txHash: '0xtx1' }
+      });
+    });
+
+    it('should flag unlimited approvals', async () => {
+      const callers = new Map([['0xtx1', { from: owner, to: '0xToken' }]]);
+
+      await tracker.applyBlock(mockTx, 100, [approval(ethers.MaxUint256.toString())], [], callers, tokenIds);
+
+      expect(mockTx.tokenAllowance.upsert.mock.calls[0][0].update.unlimited).toBe(true);
+    });
+
+    it('should delete the allowance when it is revoked', async () => {
+      const callers = new Map([['0xtx1', { from: owner, to: '0xToken' }]]);
+
+      await tracker.applyBlock(mockTx, 100, [approval('0')], [], callers, tokenIds);
+
+      expect(mockTx.tokenAllowance.upsert).not.toHaveBeenCalled();
+      expect(mockTx.tokenAllowance.deleteMany).toHaveBeenCalledWith({
+        where: { tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase() }
+      });
+    });
+
+    it('should charge a transferFrom to the allowance of the called contract', async () => {
+      history = [storedAllowance(500n)];
+      const callers = new Map([['0xtx2', { from: '0xdddddddddddddddddddddddddddddddddddddddd', to: router }]]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [], [transfer('200')], callers, tokenIds);
+
+      expect(result).toEqual({ approvals: 0, consumed: 1 });
+      expect(mockTx.allowanceChange.createMany.mock.calls[0][0].data[0]).toMatchObject({ kind: 'transferFrom', amount: '200', allowance: '300' });
+      expect(mockTx.tokenAllowance.upsert.mock.calls[0][0].update.allowance).toBe('300');
+    });
+
+    it('should not reduce unlimited allowances', async () => {
+      history = [storedAllowance(ethers.MaxUint256)];
+      const callers = new Map([['0xtx2', { from: '0xdddddddddddddddddddddddddddddddddddddddd', to: router }]]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [], [transfer('200')], callers, tokenIds);
+
+      expect(result.consumed).toBe(0);
+      expect(mockTx.tokenAllowance.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should ignore transfers sent by the owner and transfers the token already reported an Approval for', async () => {
+      const callers = new Map([
+        ['0xtx1', { from: '0xdddddddddddddddddddddddddddddddddddddddd', to: router }],
+        ['0xtx2', { from: owner, to: '0xToken' }]
+      ]);
+
+      await tracker.applyBlock(mockTx, 100, [approval('300')], [transfer('200', { txHash: '0xtx1', logIndex: 1 }), transfer('50')], callers, tokenIds);
+
+      expect(mockTx.allowanceChange.createMany.mock.calls[0][0].data).toHaveLength(1);
+      expect(mockTx.tokenAllowance.upsert.mock.calls[0][0].update.allowance).toBe('300');
+    });
+
+    it('should skip changes already recorded when a block is processed again', async () => {
+      recorded = [{ txHash: '0xtx1', logIndex: 0 }];
+      const callers = new Map([['0xtx1', { from: owner, to: '0xToken' }]]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [approval('500')], [], callers, tokenIds);
+
+      expect(result).toEqual({ approvals: 0, consumed: 0 });
+      expect(mockTx.allowanceChange.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should replay an older block against the allowance history up to that block', async () => {
+      history = [storedAllowance(500n)];
+      later = [{ tokenId: 7, owner: owner.toLowerCase(), spender: router.toLowerCase() }];
+      const callers = new Map([['0xtx2', { from: '0xdddddddddddddddddddddddddddddddddddddddd', to: router }]]);
+
+      const result = await tracker.applyBlock(mockTx, 95, [], [transfer('200')], callers, tokenIds);
+
+      expect(result.consumed).toBe(1);
+      expect(mockTx.allowanceChange.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { OR: [{ tokenId: 7, owner: owner.toLowerCase() }], blockNumber: { lte: 95n } }
+      }));
+      expect(mockTx.allowanceChange.createMany.mock.calls[0][0].data[0]).toMatchObject({ blockNumber: 95n, allowance: '300' });
+      expect(mockTx.tokenAllowance.upsert).not.toHaveBeenCalled();
+      expect(mockTx.tokenAllowance.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getApprovalReport', () => {
+    it('should flag unlimited approvals and unverified spenders', async () => {
+      const token = { address: '0xToken', name: 'Token', symbol: 'TKN', decimals: 18, metadataStatus: 'ok' };
+      mockDb.tokenAllowance.findMany.mockResolvedValue([
+        { ...storedAllowance(ethers.MaxUint256), unlimited: true, token },
+        { ...storedAllowance(10n), spender: '0xverified', unlimited: false, token }
+      ]);
+      mockRegistry.getKnownAddresses.mockResolvedValue(new Set(['0xverified']));
+
+      const report = await tracker.getApprovalReport(owner);
+
+      expect(report.owner).toBe(owner.toLowerCase());
+      expect(report.approvals.map(entry => entry.risks)).toEqual([['unlimited', 'unverified_spender'], []]);
+      expect(report.approvals[1]).toMatchObject({
+        spender: '0xverified',
+        allowance: { raw: '10', formatted: '0.00000000000000001', decimals: 18 },
+        verifiedSpender: true,
+        blockNumber: '90'
+      });
+      expect(report.summary).toEqual({ total: 2, unlimited: 1, unverifiedSpender: 1 });
+    });
+
+    it('should not report the placeholder decimals of tokens without metadata', async () => {
+      const token = { address: '0xToken', name: 'Unknown', symbol: 'Unknown', decimals: 18, metadataStatus: 'pending' };
+      mockDb.tokenAllowance.findMany.mockResolvedValue([{ ...storedAllowance(10n), unlimited: false, token }]);
+      mockRegistry.getKnownAddresses.mockResolvedValue(new Set());
+
+      const report = await tracker.getApprovalReport(owner);
+
+      expect(report.approvals[0].token.decimals).toBeNull();
+      expect(report.approvals[0].allowance).toEqual({ raw: '10', formatted: null, decimals: null });
+    });
+  });
+
+  describe('revertAllowanceChanges', () => {
+    it('should restore allowances from the latest remaining change', async () => {
+      mockTx.allowanceChange.findMany.mockResolvedValue([{ tokenId: 7, owner: 'owner', spender: 'spender' }]);
+      mockTx.allowanceChange.findFirst.mockResolvedValue({ allowance: decimal('42'), blockNumber: 80n, txHash: '0xprev' });
+
+      await revertAllowanceChanges(mockTx, ['0xtx1']);
+
+      expect(mockTx.allowanceChange.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+      expect(mockTx.tokenAllowance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { allowance: '42', unlimited: false, blockNumber: 80n, txHash: '0xprev' }
+      }));
+    });
+
+    it('should delete allowances with no change left', async () => {
+      mockTx.allowanceChange.findMany.mockResolvedValue([{ tokenId: 7, owner: 'owner', spender: 'spender' }]);
+
+      await revertAllowanceChanges(mockTx, ['0xtx1']);
+
+      expect(mockTx.tokenAllowance.deleteMany).toHaveBeenCalledWith({ where: { tokenId: 7, owner: 'owner', spender: 'spender' } });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatAmount, isAmountString, knownDecimals, normalizeAmount, toAmount, toRawAmount } from '../src/utils/amount';
+import { ethers } from 'ethers';
+
+describe('amount utilities', () => {
+  it('should accept bigints, integer strings, numbers and decimals as raw amounts', () => {
+    expect(toRawAmount(5n)).toBe(5n);
+    expect(toRawAmount(' 1000 ')).toBe(1000n);
+    expect(toRawAmount(42)).toBe(42n);
+    expect(toRawAmount({ toFixed: () => ethers.MaxUint256.toString() })).toBe(ethers.MaxUint256);
+  });
+
+  it('should reject values that are not raw integers', () => {
+    expect(() => toRawAmount('1.5')).toThrow('Invalid raw amount: 1.5');
+    expect(() => toRawAmount('0x10')).toThrow('Invalid raw amount');
+    expect(() => toRawAmount(2 ** 60)).toThrow('Unsafe integer amount');
+  });
+
+  it('should format amounts without trailing zeros', () => {
+    expect(formatAmount('1500000', 6)).toBe('1.5');
+    expect(formatAmount(10n ** 18n, 18)).toBe('1');
+    expect(formatAmount('0', 18)).toBe('0');
+    expect(formatAmount('1200', 0)).toBe('1200');
+    expect(formatAmount(-1500n, 3)).toBe('-1.5');
+    expect(formatAmount(ethers.MaxUint256, 18)).toBe('115792089237316195423570985008687907853269984665640564039457.584007913129639935');
+  });
+
+  it('should only normalize amounts when the decimals are known', () => {
+    expect(normalizeAmount('1', 6)).toBe('0.000001');
+    expect(normalizeAmount('1', null)).toBeNull();
+    expect(toAmount('250', null)).toEqual({ raw: '250', formatted: null, decimals: null });
+    expect(toAmount(250n, 2)).toEqual({ raw: '250', formatted: '2.5', decimals: 2 });
+  });
+
+  it('should trust token decimals only after the metadata was read', () => {
+    expect(knownDecimals({ decimals: 18, metadataStatus: 'pending' })).toBeNull();
+    expect(knownDecimals({ decimals: 6, metadataStatus: 'ok' })).toBe(6);
+    expect(knownDecimals({ decimals: null, metadataStatus: 'partial' })).toBeNull();
+  });
+
+  it('should validate decimal-adjusted query amounts', () => {
+    expect(isAmountString('100')).toBe(true);
+    expect(isAmountString('0.25')).toBe(true);
+    expect(isAmountString('-1')).toBe(false);
+    expect(isAmountString('1e18')).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { BackfillService } from '../src/ingestion/backfill-service';
+import { BlockchainFetcher } from '../src/ingestion/blockchain-fetcher';
+import { BlockPersister } from '../src/ingestion/block-persister';
+import { PrismaClient } from '@prisma/client';
+
+// Mock the BlockchainFetcher and BlockPersister
+jest.mock('../src/ingestion/blockchain-fetcher');
+jest.mock('../src/ingestion/block-persister');
+
+describe('BackfillService', () => {
+  let backfillService: BackfillService;
+  let mockDb: any;
+  let mockFetcher: any;
+  let mockPersister: any;
+  let chunks: any[];
+  let job: any;
+
+  beforeEach(() => {
+    chunks = [];
+    job = null;
+
+    mockDb = {
+      backfillJob: {
+        findFirst: jest.fn(async () => job),
+        findUnique: jest.fn(async () => job && { ...job, chunks }),
+        findMany: jest.fn(async () => (job ? [{ id: job.id }] : [])),
+        create: jest.fn(async (args: any) => {
+          chunks = args.data.chunks.createMany.data.map((chunk: any, index: number) => ({
+            id: index + 1,
+            jobId: 1,
+            status: 'pending',
+            completedAt: null,
+            ...chunk
+          }));
+          job = { id: 1, fromBlock: args.data.fromBlock, toBlock: args.data.toBlock, status: 'pending', resumedAt: null, completedAt: null, updatedAt: new Date() };
+          return job;
+        }),
+        update: jest.fn(async (args: any) => {
+          job = { ...job, ...args.data };
+          return job;
+        })
+      },
+      backfillChunk: {
+        findMany: jest.fn(async () => chunks.filter(chunk => chunk.status !== 'completed')),
+        update: jest.fn(async (args: any) => {
+          const chunk = chunks.find(candidate => candidate.id === args.where.id);
+          Object.assign(chunk, { status: args.data.status, completedAt: args.data.completedAt ?? chunk.completedAt });
+          return chunk;
+        })
+      }
+    };
+
+    mockFetcher = {
+      getBlocks: jest.fn(async (blockNumbers: number[]) => blockNumbers.map(blockNumber => ({
+        number: blockNumber,
+        transactions: ['0xtx1'],
+        prefetchedTransactions: [{ hash: '0xtx1' }]
+      }))),
+      getBlockReceipts: jest.fn(async () => new Map([['0xtx1', { transactionHash: '0xtx1', status: 1 }]])),
+      getBlockWithdrawals: jest.fn(async () => []),
+      getBlockInternalTransfers: jest.fn(async () => [])
+    };
+
+    mockPersister = {
+      persistBlocks: jest.fn()
+    };
+
+    (BlockchainFetcher as jest.Mock).mockImplementation(() => mockFetcher);
+    (BlockPersister as jest.Mock).mockImplementation(() => mockPersister);
+
+    backfillService = new BackfillService('https://test-rpc.com', mockDb as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('runBackfill', () => {
+    it('should split the range into chunks and ingest every block', async () => {
+      const progress = await backfillService.runBackfill(100, 124, { chunkSize: 10, concurrency: 2 });
+
+      expect(chunks.map(chunk => [chunk.fromBlock, chunk.toBlock])).toEqual([
+        [100n, 109n],
+        [110n, 119n],
+        [120n, 124n]
+      ]);
+
+      const fetched = mockFetcher.getBlocks.mock.calls.flatMap((call: any[]) => call[0]).sort((a: number, b: number) => a - b);
+      expect(fetched).toEqual(Array.from({ length: 25 }, (_, i) => 100 + i));
+      expect(mockFetcher.getBlockReceipts).toHaveBeenCalledWith(100, ['0xtx1']);
+      const [firstWindow] = mockPersister.persistBlocks.mock.calls.find((call: any[]) => call[0][0].block.number === 100);
+      expect(firstWindow).toHaveLength(10);
+      expect(firstWindow[0].transactions).toEqual([{ hash: '0xtx1' }]);
+      expect(firstWindow[0].receipts.get('0xtx1')).toEqual({ transactionHash: '0xtx1', status: 1 });
+      expect(progress.status).toBe('completed');
+      expect(progress.completedBlocks).toBe(25);
+      expect(progress.percentComplete).toBe(100);
+    });
+
+    it('should resume an unfinished job and skip completed chunks', async () => {
+      job = { id: 1, fromBlock: 100n, toBlock: 119n, status: 'running', resumedAt: null, completedAt: null, updatedAt: new Date() };
+      chunks = [
+        { id: 1, jobId: 1, fromBlock: 100n, toBlock: 109n, status: 'completed', completedAt: new Date() },
+        { id: 2, jobId: 1, fromBlock: 110n, toBlock: 119n, status: 'failed', completedAt: null }
+      ];
+
+      const progress = await backfillService.runBackfill(100, 119, { chunkSize: 10, concurrency: 2 });
+
+      expect(mockDb.backfillJob.create).not.toHaveBeenCalled();
+      expect(mockFetcher.getBlocks).toHaveBeenCalledTimes(1);
+      expect(mockFetcher.getBlocks).toHaveBeenCalledWith(Array.from({ length: 10 }, (_, i) => 110 + i));
+      expect(progress.status).toBe('completed');
+    });
+
+    it('should mark the job failed when a chunk fails', async () => {
+      mockFetcher.getBlocks.mockImplementation(async (blockNumbers: number[]) => {
+        if (blockNumbers.includes(105)) {
+          throw new Error('Block fetch failed');
+        }
+        return blockNumbers.map(blockNumber => ({ number: blockNumber, transactions: [], prefetchedTransactions: [] }));
+      });
+
+      const progress = await backfillService.runBackfill(100, 119, { chunkSize: 10, concurrency: 1 });
+
+      expect(progress.status).toBe('failed');
+      expect(progress.failedChunks).toBe(1);
+      expect(progress.completedBlocks).toBe(10);
+      expect(mockDb.backfillChunk.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          status: 'failed',
+          attempts: { increment: 1 },
+          lastError: 'Block fetch failed'
+        }
+      });
+    });
+
+    it('should reject an inverted range', async () => {
+      await expect(backfillService.runBackfill(200, 100)).rejects.toThrow('Invalid backfill range');
+      await expect(backfillService.runBackfill(NaN, 100)).rejects.toThrow('Invalid backfill range');
+    });
+
+    it('should reject chunk sizes, concurrency and prefetch sizes that are not positive integers', async () => {
+      await expect(backfillService.runBackfill(100, 119, { chunkSize: 0 })).rejects.toThrow('Invalid backfill option chunkSize');
+      await expect(backfillService.runBackfill(100, 119, { concurrency: 0 })).rejects.toThrow('Invalid backfill option concurrency');
+      await expect(backfillService.runBackfill(100, 119, { prefetchSize: NaN })).rejects.toThrow('Invalid backfill option prefetchSize');
+      await expect(backfillService.runBackfill(100, 119, { chunkSize: 2.5 })).rejects.toThrow('Invalid backfill option chunkSize');
+
+      expect(mockDb.backfillJob.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBackfillProgress', () => {
+    it('should compute throughput and ETA from chunks completed since the job resumed', async () => {
+      const resumedAt = new Date(Date.now() - 10000);
+      job = { id: 1, fromBlock: 0n, toBlock: 399n, status: 'running', resumedAt, completedAt: null, updatedAt: new Date() };
+      chunks = [
+        { id: 1, fromBlock: 0n, toBlock: 99n, status: 'completed', completedAt: new Date(resumedAt.getTime() - 1000) },
+        { id: 2, fromBlock: 100n, toBlock: 199n, status: 'completed', completedAt: new Date() },
+        { id: 3, fromBlock: 200n, toBlock: 299n, status: 'pending', completedAt: null },
+        { id: 4, fromBlock: 300n, toBlock: 399n, status: 'pending', completedAt: null }
+      ];
+
+      const progress = await backfillService.getBackfillProgress(1);
+
+      expect(progress.totalBlocks).toBe(400);
+      expect(progress.completedBlocks).toBe(200);
+      expect(progress.percentComplete).toBe(50);
+      expect(progress.blocksPerSecond).toBeCloseTo(10, 0);
+      expect(progress.etaSeconds).toBeGreaterThanOrEqual(19);
+      expect(progress.etaSeconds).toBeLessThanOrEqual(21);
+    });
+  });
+});
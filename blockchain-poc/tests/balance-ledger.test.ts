@@ -0,0 +1,206 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { BalanceLedger, revertBalanceEntries } from '../src/processing/balance-ledger';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('BalanceLedger', () => {
+  let ledger: BalanceLedger;
+  let mockDb: any;
+  let mockTx: any;
+  let checkpoints: { tokenId: number; address: string; blockNumber: bigint; balance: bigint }[];
+
+  const alice = '0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa';
+  const bob = '0xBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBb';
+  const tokenIds = new Map([['0xToken', 7]]);
+  const token = { address: '0xToken', name: 'Token', symbol: 'TKN', decimals: 6, metadataStatus: 'ok' };
+
+  const transfer = (from: string, to: string, amount: string, logIndex: number = 0) => ({
+    from, to, amount, contract: '0xToken', txHash: '0xtx1', logIndex
+  });
+
+  const checkpointsOf = (address: string) => checkpoints
+    .filter(checkpoint => checkpoint.address === address.toLowerCase())
+    .sort((a, b) => Number(a.blockNumber - b.blockNumber))
+    .map(checkpoint => [checkpoint.blockNumber, checkpoint.balance]);
+
+  beforeEach(() => {
+    checkpoints = [];
+    const matching = (where: any) => checkpoints.filter(checkpoint =>
+      checkpoint.tokenId === where.tokenId && checkpoint.address === where.address &&
+      (where.blockNumber?.lte === undefined || checkpoint.blockNumber <= where.blockNumber.lte) &&
+      (where.blockNumber?.gt === undefined || checkpoint.blockNumber > where.blockNumber.gt));
+    mockTx = {
+      balanceEntry: {
+        findMany: jest.fn(async () => []),
+        createMany: jest.fn(),
+        deleteMany: jest.fn()
+      },
+      tokenBalance: {
+        upsert: jest.fn(),
+        deleteMany: jest.fn()
+      },
+      // Keep the checkpoints like the database would
+      balanceCheckpoint: {
+        upsert: jest.fn(async ({ where, update, create }: any) => {
+          const { tokenId, address, blockNumber } = where.tokenId_address_blockNumber;
+          const existing = matching({ tokenId, address }).find(checkpoint => checkpoint.blockNumber === blockNumber);
+          if (existing) {
+            existing.balance = BigInt(update.balance);
+          } else {
+            checkpoints.push({ tokenId, address, blockNumber, balance: BigInt(create.balance) });
+          }
+        }),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          matching(where).forEach(checkpoint => checkpoint.balance += BigInt(data.balance.increment));
+        }),
+        deleteMany: jest.fn(),
+        findFirst: jest.fn(async ({ where }: any) => {
+          const latest = matching(where).sort((a, b) => Number(b.blockNumber - a.blockNumber))[0];
+          return latest ? { blockNumber: latest.blockNumber, balance: new Prisma.Decimal(latest.balance.toString()) } : null;
+        })
+      }
+    };
+    mockDb = {
+      tokenBalance: { findMany: jest.fn(async () => []) },
+      balanceCheckpoint: { findMany: jest.fn(async () => []) },
+      balanceReconciliation: { findMany: jest.fn(async () => []) }
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    ledger = new BalanceLedger(mockDb as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyBlock', () => {
+    it('should record a debit and a credit per transfer and checkpoint the new balances', async () => {
+      checkpoints.push({ tokenId: 7, address: alice.toLowerCase(), blockNumber: 90n, balance: 1000n });
+
+      const result = await ledger.applyBlock(mockTx, 100, [transfer(alice, bob, '300')], tokenIds);
+
+      expect(result).toEqual({ entries: 2, balances: 2 });
+      expect(mockTx.balanceEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          { txHash: '0xtx1', logIndex: 0, blockNumber: 100n, tokenId: 7, address: alice.toLowerCase(), delta: '-300' },
+          { txHash: '0xtx1', logIndex: 0, blockNumber: 100n, tokenId: 7, address: bob.toLowerCase(), delta: '300' }
+        ],
+        skipDuplicates: true
+      });
+      expect(checkpointsOf(alice)).toEqual([[90n, 1000n], [100n, 700n]]);
+      expect(mockTx.balanceCheckpoint.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenId_address_blockNumber: { tokenId: 7, address: bob.toLowerCase(), blockNumber: 100n } },
+        create: { tokenId: 7, address: bob.toLowerCase(), blockNumber: 100n, balance: '300' }
+      }));
+      expect(mockTx.tokenBalance.upsert).toHaveBeenCalledWith({
+        where: { tokenId_address: { tokenId: 7, address: alice.toLowerCase() } },
+        update: { balance: new Prisma.Decimal(700), blockNumber: 100n },
+        create: { tokenId: 7, address: alice.toLowerCase(), balance: new Prisma.Decimal(700), blockNumber: 100n }
+      });
+    });
+
+    it('should shift later checkpoints when an earlier block is applied after them', async () => {
+      await ledger.applyBlock(mockTx, 100, [transfer(ethers.ZeroAddress, alice, '500')], tokenIds);
+      await ledger.applyBlock(mockTx, 110, [transfer(alice, bob, '200')], tokenIds);
+
+      await ledger.applyBlock(mockTx, 105, [transfer(ethers.ZeroAddress, alice, '50')], tokenIds);
+
+      expect(checkpointsOf(alice)).toEqual([[100n, 500n], [105n, 550n], [110n, 350n]]);
+      expect(checkpointsOf(bob)).toEqual([[110n, 200n]]);
+      expect(mockTx.tokenBalance.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+        update: { balance: new Prisma.Decimal(350), blockNumber: 110n }
+      }));
+    });
+
+    it('should drop the current balance of an address that sent everything', async () => {
+      checkpoints.push({ tokenId: 7, address: alice.toLowerCase(), blockNumber: 90n, balance: 300n });
+
+      await ledger.applyBlock(mockTx, 100, [transfer(alice, bob, '300')], tokenIds);
+
+      expect(checkpointsOf(alice)).toEqual([[90n, 300n], [100n, 0n]]);
+      expect(mockTx.tokenBalance.deleteMany).toHaveBeenCalledWith({ where: { tokenId: 7, address: alice.toLowerCase() } });
+    });
+
+    it('should only credit the receiver of a mint and net several transfers per address', async () => {
+      const result = await ledger.applyBlock(mockTx, 100, [
+        transfer(ethers.ZeroAddress, alice, '500', 0),
+        transfer(alice, bob, '200', 1)
+      ], tokenIds);
+
+      expect(result).toEqual({ entries: 3, balances: 2 });
+      expect(mockTx.tokenBalance.upsert).toHaveBeenCalledTimes(2);
+      expect(checkpointsOf(alice)).toEqual([[100n, 300n]]);
+    });
+
+    it('should ignore transfers to oneself and transfers already in the ledger', async () => {
+      mockTx.balanceEntry.findMany.mockResolvedValue([{ txHash: '0xtx1', logIndex: 1 }]);
+
+      const result = await ledger.applyBlock(mockTx, 100, [transfer(alice, alice, '5', 0), transfer(alice, bob, '5', 1)], tokenIds);
+
+      expect(result).toEqual({ entries: 0, balances: 0 });
+      expect(mockTx.balanceEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBalances', () => {
+    it('should return current balances with their amounts and latest reconciliation', async () => {
+      mockDb.tokenBalance.findMany.mockResolvedValue([
+        { tokenId: 7, address: alice.toLowerCase(), balance: new Prisma.Decimal('1500000'), blockNumber: 100n, token }
+      ]);
+      mockDb.balanceReconciliation.findMany.mockResolvedValue([
+        { tokenId: 7, status: 'mismatch', blockNumber: 120n, chainBalance: new Prisma.Decimal('1600000') }
+      ]);
+
+      const result = await ledger.getBalances(alice);
+
+      expect(mockDb.tokenBalance.findMany.mock.calls[0][0].where).toEqual({ address: alice.toLowerCase(), balance: { gt: 0 } });
+      expect(result).toEqual([{
+        token: { address: '0xToken', name: 'Token', symbol: 'TKN' },
+        balance: { raw: '1500000', formatted: '1.5', decimals: 6 },
+        blockNumber: '100',
+        reconciliation: { status: 'mismatch', blockNumber: '120', chainBalance: '1600000' }
+      }]);
+    });
+
+    it('should read balances at a past block from the latest checkpoint per token', async () => {
+      mockDb.balanceCheckpoint.findMany.mockResolvedValue([
+        { tokenId: 7, address: alice.toLowerCase(), balance: new Prisma.Decimal('25'), blockNumber: 90n, token },
+        { tokenId: 8, address: alice.toLowerCase(), balance: new Prisma.Decimal('0'), blockNumber: 95n, token }
+      ]);
+
+      const result = await ledger.getBalances(alice, 99);
+
+      expect(mockDb.balanceCheckpoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { address: alice.toLowerCase(), blockNumber: { lte: 99n } },
+        distinct: ['tokenId']
+      }));
+      expect(result.map(balance => balance.blockNumber)).toEqual(['90']);
+    });
+  });
+
+  describe('revertBalanceEntries', () => {
+    it('should restore balances from the latest remaining checkpoint', async () => {
+      mockTx.balanceEntry.findMany.mockResolvedValue([
+        { tokenId: 7, address: 'alice', blockNumber: 101n },
+        { tokenId: 7, address: 'bob', blockNumber: 101n }
+      ]);
+      mockTx.balanceCheckpoint.findFirst
+        .mockResolvedValueOnce({ balance: new Prisma.Decimal('40'), blockNumber: 90n })
+        .mockResolvedValueOnce(null);
+
+      await revertBalanceEntries(mockTx, ['0xtx1']);
+
+      expect(mockTx.balanceEntry.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+      expect(mockTx.balanceCheckpoint.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ tokenId: 7, address: 'alice' }, { tokenId: 7, address: 'bob' }], blockNumber: { in: [101n] } }
+      });
+      expect(mockTx.tokenBalance.upsert).toHaveBeenCalledWith({
+        where: { tokenId_address: { tokenId: 7, address: 'alice' } },
+        update: { balance: new Prisma.Decimal('40'), blockNumber: 90n },
+        create: { tokenId: 7, address: 'alice', balance: new Prisma.Decimal('40'), blockNumber: 90n }
+      });
+      expect(mockTx.tokenBalance.deleteMany).toHaveBeenCalledWith({ where: { tokenId: 7, address: 'bob' } });
+    });
+  });
+});
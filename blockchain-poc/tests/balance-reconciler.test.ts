@@ -0,0 +1,81 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { BalanceReconciler } from '../src/enrichment/balance-reconciler';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('BalanceReconciler', () => {
+  let reconciler: BalanceReconciler;
+  let mockDb: any;
+  let mockBatcher: any;
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const balance = (id: number, address: string, value: string) => ({
+    id, tokenId: 7, address, balance: new Prisma.Decimal(value), token: { address: '0xtoken' }
+  });
+
+  beforeEach(() => {
+    mockDb = {
+      balanceCheckpoint: { aggregate: jest.fn(async () => ({ _max: { blockNumber: 200n } })) },
+      tokenBalance: {
+        count: jest.fn(async () => 2),
+        findMany: jest.fn(async () => [])
+      },
+      balanceReconciliation: { createMany: jest.fn() }
+    };
+    mockBatcher = {
+      call: jest.fn(async () => coder.encode(['uint256'], [100n]))
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    reconciler = new BalanceReconciler(mockDb as PrismaClient, mockBatcher as RpcBatcher, { sampleSize: 5 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compare sampled balances with balanceOf at the last block of the ledger', async () => {
+    const alice = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const bob = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+    mockDb.tokenBalance.findMany.mockResolvedValue([balance(1, alice, '100'), balance(2, bob, '90')]);
+
+    const result = await reconciler.reconcile();
+
+    expect(result).toEqual({ blockNumber: '200', checked: 2, matched: 1, mismatched: 1, failed: 0 });
+    expect(mockDb.tokenBalance.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 0, take: 5 }));
+    expect(mockBatcher.call).toHaveBeenCalledWith('eth_call', [
+      { to: '0xtoken', data: expect.stringMatching(/^0x70a08231/) },
+      '0xc8'
+    ]);
+    expect(mockDb.balanceReconciliation.createMany).toHaveBeenCalledWith({
+      data: [
+        { tokenId: 7, address: alice, blockNumber: 200n, ledgerBalance: '100', chainBalance: '100', status: 'match', error: null },
+        { tokenId: 7, address: bob, blockNumber: 200n, ledgerBalance: '90', chainBalance: '100', status: 'mismatch', error: null }
+      ]
+    });
+  });
+
+  it('should record balances that could not be read', async () => {
+    mockDb.tokenBalance.findMany.mockResolvedValue([balance(1, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '100')]);
+    mockBatcher.call.mockRejectedValue(new Error('missing trie node'));
+
+    const result = await reconciler.reconcile({ address: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' });
+
+    expect(result.failed).toBe(1);
+    expect(mockDb.tokenBalance.findMany.mock.calls[0][0].where).toEqual({ address: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' });
+    expect(mockDb.balanceReconciliation.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      chainBalance: null, status: 'error', error: 'missing trie node'
+    });
+  });
+
+  it('should do nothing before the ledger has applied a block', async () => {
+    mockDb.balanceCheckpoint.aggregate.mockResolvedValue({ _max: { blockNumber: null } });
+
+    const result = await reconciler.reconcile();
+
+    expect(result).toEqual({ blockNumber: null, checked: 0, matched: 0, mismatched: 0, failed: 0 });
+    expect(mockBatcher.call).not.toHaveBeenCalled();
+  });
+});
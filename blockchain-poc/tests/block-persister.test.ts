@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { BlockPersister } from '../src/ingestion/block-persister';
+
+describe('BlockPersister', () => {
+  let persister: BlockPersister;
+  let mockDb: any;
+  let mockTx: any;
+
+  const makeBlock = (number: number, hashes: string[]) => ({
+    number,
+    hash: `0xhash${number}`,
+    timestamp: 1234567890,
+    parentHash: `0xhash${number - 1}`,
+    gasUsed: 1000000n,
+    gasLimit: 2000000n,
+    transactions: hashes
+  });
+
+  const makeTransaction = (hash: string) => ({
+    hash,
+    from: '0xfrom',
+    to: null,
+    value: 5n,
+    gasPrice: 10n
+  });
+
+  const makeReceipt = (hash: string, logCount: number) => ({
+    transactionHash: hash,
+    status: 1,
+    gasUsed: 21000n,
+    cumulativeGasUsed: 42000n,
+    effectiveGasPrice: null,
+    contractAddress: '0xcontract',
+    logsBloom: '0x00',
+    logs: Array.from({ length: logCount }, (_, i) => ({
+      address: '0xtoken',
+      topics: ['0xtopic0'],
+      data: '0x',
+      logIndex: i,
+      transactionHash: hash,
+      blockNumber: 100
+    }))
+  });
+
+  beforeEach(() => {
+    mockTx = {
+      block: { findMany: jest.fn(async () => []), createMany: jest.fn(), update: jest.fn() },
+      transaction: { findMany: jest.fn(async () => []), createMany: jest.fn(), update: jest.fn() },
+      log: { createMany: jest.fn() },
+      withdrawal: { createMany: jest.fn() },
+      internalTransfer: { createMany: jest.fn() },
+      event: { deleteMany: jest.fn(), createMany: jest.fn() },
+      transfer: { deleteMany: jest.fn(), createMany: jest.fn() }
+    };
+    mockDb = {
+      $transaction: jest.fn(async (callback: any) => callback(mockTx))
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    persister = new BlockPersister(mockDb);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write a block and all of its children in one transaction with bulk inserts', async () => {
+    const result = await persister.persistBlock({
+      block: makeBlock(100, ['0xtx1', '0xtx2']) as any,
+      transactions: [makeTransaction('0xtx1'), makeTransaction('0xtx2')] as any,
+      receipts: new Map([['0xtx1', makeReceipt('0xtx1', 2)], ['0xtx2', makeReceipt('0xtx2', 1)]]) as any,
+      withdrawals: [{ index: 1n, validatorIndex: 2n, address: '0xvalidator', amount: 32000000000n }],
+      internalTransfers: [{ txHash: '0xtx1', traceAddress: '0.1', type: 'call', from: '0xcontract', to: '0xuser', value: 7n }]
+    });
+
+    expect(mockDb.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockTx.block.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ number: 100n, hash: '0xhash100' })],
+      skipDuplicates: true
+    });
+    expect(mockTx.transaction.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ hash: '0xtx1', blockNumber: 100n, value: '5', valueRaw: '5', valueNormalized: '0.000000000000000005', effectiveGasPrice: '10', contractAddress: '0xcontract' }),
+      expect.objectContaining({ hash: '0xtx2' })
+    ]);
+    expect(mockTx.log.createMany.mock.calls[0][0].data).toHaveLength(3);
+    expect(mockTx.withdrawal.createMany).toHaveBeenCalledWith({
+      data: [{ index: 1n, blockNumber: 100n, validatorIndex: 2n, address: '0xvalidator', amount: '32000000000' }],
+      skipDuplicates: true
+    });
+    expect(mockTx.internalTransfer.createMany).toHaveBeenCalledWith({
+      data: [{ txHash: '0xtx1', blockNumber: 100n, traceAddress: '0.1', type: 'call', from: '0xcontract', to: '0xuser', value: '7' }],
+      skipDuplicates: true
+    });
+    expect(mockTx.event.createMany).not.toHaveBeenCalled();
+    expect(mockTx.transfer.deleteMany).not.toHaveBeenCalled();
+    expect(result).toEqual(expect.objectContaining({ blocks: 1, transactions: 2, logs: 3, withdrawals: 1, internalTransfers: 1 }));
+  });
+
+  it('should persist several blocks and their decoded data together', async () => {
+    await persister.persistBlocks([
+      {
+        block: makeBlock(100, ['0xtx1']) as any,
+        transactions: [makeTransaction('0xtx1')] as any,
+        receipts: new Map([['0xtx1', makeReceipt('0xtx1', 1)]]) as any,
+        decoded: {
+          events: [{ txHash: '0xtx1', logIndex: 0, contract: '0xtoken', eventName: 'Transfer', args: { value: '1' } }],
+          transfers: [{ txHash: '0xtx1', from: '0xa', to: '0xb', amount: '1500000', amountNormalized: '1.5', tokenId: 3 }]
+        }
+      },
+      {
+        block: makeBlock(101, []) as any,
+        transactions: [],
+        receipts: new Map()
+      }
+    ]);
+
+    expect(mockDb.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockTx.block.createMany.mock.calls[0][0].data).toHaveLength(2);
+    expect(mockTx.event.deleteMany).toHaveBeenCalledWith({ where: { OR: [{ txHash: '0xtx1', logIndex: 0 }] } });
+    expect(mockTx.transfer.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+    expect(mockTx.transfer.createMany).toHaveBeenCalledWith({
+      data: [{ txHash: '0xtx1', from: '0xa', to: '0xb', amount: '1500000', amountRaw: '1500000', amountNormalized: '1.5', tokenId: 3 }]
+    });
+  });
+
+  it('should correct blocks and transactions stored before when they are ingested again', async () => {
+    mockTx.block.findMany.mockResolvedValue([{ number: 100n }]);
+    mockTx.transaction.findMany.mockResolvedValue([{ hash: '0xtx1' }]);
+
+    await persister.persistBlock({
+      block: makeBlock(100, ['0xtx1', '0xtx2']) as any,
+      transactions: [makeTransaction('0xtx1'), makeTransaction('0xtx2')] as any,
+      receipts: new Map([['0xtx1', { ...makeReceipt('0xtx1', 0), status: 0 }], ['0xtx2', makeReceipt('0xtx2', 0)]]) as any
+    });
+
+    expect(mockTx.transaction.findMany).toHaveBeenCalledWith({ where: { hash: { in: ['0xtx1', '0xtx2'] } }, select: { hash: true } });
+    expect(mockTx.block.update).toHaveBeenCalledWith({
+      where: { number: 100n },
+      data: expect.objectContaining({ gasUsed: 1000000n, gasLimit: 2000000n })
+    });
+    expect(mockTx.transaction.update).toHaveBeenCalledTimes(1);
+    expect(mockTx.transaction.update).toHaveBeenCalledWith({
+      where: { hash: '0xtx1' },
+      data: expect.objectContaining({ hash: '0xtx1', gasUsed: 21000n, status: 0, cumulativeGasUsed: 42000n })
+    });
+  });
+
+  it('should refuse to write a block with a missing receipt', async () => {
+    await expect(persister.persistBlock({
+      block: makeBlock(100, ['0xtx1']) as any,
+      transactions: [makeTransaction('0xtx1')] as any,
+      receipts: new Map()
+    })).rejects.toThrow('Missing receipt for transaction 0xtx1');
+
+    expect(mockDb.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not commit anything when a bulk insert fails', async () => {
+    mockTx.log.createMany.mockRejectedValue(new Error('insert failed'));
+
+    await expect(persister.persistBlock({
+      block: makeBlock(100, ['0xtx1']) as any,
+      transactions: [makeTransaction('0xtx1')] as any,
+      receipts: new Map([['0xtx1', makeReceipt('0xtx1', 1)]]) as any
+    })).rejects.toThrow('insert failed');
+  });
+});
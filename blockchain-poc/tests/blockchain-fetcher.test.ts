@@ -25,6 +25,9 @@ describe('BlockchainFetcher', () => {
         findMany: jest.fn(),
         count: jest.fn()
       },
+      log: {
+        createMany: jest.fn()
+      },
       $disconnect: jest.fn()
     } as any;
 
@@ -32,13 +35,17 @@ describe('BlockchainFetcher', () => {
     mockProvider = {
       getBlockNumber: jest.fn(),
       getBlock: jest.fn(),
-      getNetwork: jest.fn()
+      getNetwork: jest.fn(),
+      _send: jest.fn()
     } as any;
 
     // Mock ethers.JsonRpcProvider constructor
     (ethers.JsonRpcProvider as jest.Mock).mockImplementation(() => mockProvider);
 
-    fetcher = new BlockchainFetcher('https://test-rpc.com', mockDb);
+    // A single endpoint keeps the tests independent of ETH_RPC_URL_BACKUP / ETH_RPC_ENDPOINTS
+    fetcher = new BlockchainFetcher('https://test-rpc.com', mockDb, {
+      endpoints: [{ url: 'https://test-rpc.com' }]
+    });
   });
 
   afterEach(() => {
@@ -122,12 +129,16 @@ describe('BlockchainFetcher', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        miner: '0xminer',
+        baseFeePerGas: 7000000000n,
+        blobGasUsed: 131072n,
+        excessBlobGas: 0n
       };
 
       mockDb.block.upsert.mockResolvedValue({} as any);
 
-      await fetcher.storeBlock(mockBlock);
+      await fetcher.storeBlock(mockBlock as any);
 
       expect(mockDb.block.upsert).toHaveBeenCalledWith({
         where: { number: mockBlock.number },
@@ -136,7 +147,11 @@ describe('BlockchainFetcher', () => {
           timestamp: new Date(mockBlock.timestamp * 1000),
           parentHash: mockBlock.parentHash,
           gasUsed: mockBlock.gasUsed,
-          gasLimit: mockBlock.gasLimit
+          gasLimit: mockBlock.gasLimit,
+          miner: '0xminer',
+          baseFeePerGas: '7000000000',
+          blobGasUsed: 131072n,
+          excessBlobGas: 0n
         },
         create: {
           number: mockBlock.number,
@@ -144,7 +159,11 @@ describe('BlockchainFetcher', () => {
           timestamp: new Date(mockBlock.timestamp * 1000),
           parentHash: mockBlock.parentHash,
           gasUsed: mockBlock.gasUsed,
-          gasLimit: mockBlock.gasLimit
+          gasLimit: mockBlock.gasLimit,
+          miner: '0xminer',
+          baseFeePerGas: '7000000000',
+          blobGasUsed: 131072n,
+          excessBlobGas: 0n
         }
       });
     });
@@ -165,45 +184,301 @@ describe('BlockchainFetcher', () => {
     });
   });
 
+  describe('getBlockWithdrawals', () => {
+    it('should read withdrawals from the raw block header', async () => {
+      // ethers is mocked, so restore the helpers the fetcher relies on
+      (ethers.toQuantity as unknown as jest.Mock).mockImplementation((value: any) => '0x' + Number(value).toString(16));
+      (ethers.getAddress as unknown as jest.Mock).mockImplementation((address: any) => address);
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({
+          id: payload.id,
+          result: {
+            number: '0x3039',
+            withdrawals: [
+              { index: '0x10', validatorIndex: '0x20', address: '0xb9d7934878b5fb9610b3fe8a5e441e8fad7e293f', amount: '0x3b9aca00' }
+            ]
+          }
+        }))
+      );
+
+      const withdrawals = await fetcher.getBlockWithdrawals(12345);
+
+      expect((mockProvider._send.mock.calls[0][0] as any)[0]).toEqual(expect.objectContaining({
+        method: 'eth_getBlockByNumber',
+        params: ['0x3039', false]
+      }));
+      expect(withdrawals).toEqual([
+        { index: 16n, validatorIndex: 32n, address: '0xb9d7934878b5fb9610b3fe8a5e441e8fad7e293f', amount: 1000000000n }
+      ]);
+    });
+
+    it('should return no withdrawals for pre-Shanghai blocks', async () => {
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({ id: payload.id, result: { number: '0x3039' } }))
+      );
+
+      await expect(fetcher.getBlockWithdrawals(12345)).resolves.toEqual([]);
+    });
+  });
+
+  describe('getBlockInternalTransfers', () => {
+    it('should not trace blocks unless a trace method is configured', async () => {
+      fetcher = new BlockchainFetcher('https://test-rpc.com', mockDb, {
+        endpoints: [{ url: 'https://test-rpc.com' }],
+        traceMethod: null
+      });
+
+      await expect(fetcher.getBlockInternalTransfers(12345, ['0xtx1'])).resolves.toEqual([]);
+      expect(mockProvider._send).not.toHaveBeenCalled();
+    });
+
+    it('should trace the block with the callTracer', async () => {
+      (ethers.toQuantity as unknown as jest.Mock).mockImplementation((value: any) => '0x' + Number(value).toString(16));
+      (ethers.getAddress as unknown as jest.Mock).mockImplementation((address: any) => address);
+      fetcher = new BlockchainFetcher('https://test-rpc.com', mockDb, {
+        endpoints: [{ url: 'https://test-rpc.com' }],
+        traceMethod: 'debug'
+      });
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({
+          id: payload.id,
+          result: [{
+            txHash: '0xtx1',
+            result: { type: 'CALL', from: '0xuser', to: '0xrouter', calls: [{ type: 'CALL', from: '0xrouter', to: '0xuser', value: '0x64' }] }
+          }]
+        }))
+      );
+
+      const transfers = await fetcher.getBlockInternalTransfers(12345, ['0xtx1']);
+
+      expect((mockProvider._send.mock.calls[0][0] as any)[0]).toEqual(expect.objectContaining({
+        method: 'debug_traceBlockByNumber',
+        params: ['0x3039', { tracer: 'callTracer' }]
+      }));
+      expect(transfers).toEqual([
+        { txHash: '0xtx1', traceAddress: '0', type: 'call', from: '0xrouter', to: '0xuser', value: 100n }
+      ]);
+    });
+  });
+
+  describe('getBlockReceipts', () => {
+    beforeEach(() => {
+      (ethers.getAddress as unknown as jest.Mock).mockImplementation((address: any) => `checksummed:${address}`);
+    });
+
+    const rawReceipt = (hash: string) => ({
+      transactionHash: hash,
+      status: '0x0',
+      gasUsed: '0x5208',
+      cumulativeGasUsed: '0xa410',
+      effectiveGasPrice: '0x4a817c800',
+      contractAddress: null,
+      logsBloom: '0x00',
+      logs: [
+        {
+          address: '0xtoken',
+          topics: ['0xtopic0'],
+          data: '0x01',
+          logIndex: '0x3',
+          transactionHash: hash,
+          blockNumber: '0x3039'
+        }
+      ]
+    });
+
+    it('should fetch all receipts with one eth_getBlockReceipts call', async () => {
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({ id: payload.id, result: [rawReceipt('0xtx1'), rawReceipt('0xtx2')] }))
+      );
+
+      const receipts = await fetcher.getBlockReceipts(12345, ['0xtx1', '0xtx2']);
+
+      expect(mockProvider._send).toHaveBeenCalledTimes(1);
+      expect((mockProvider._send.mock.calls[0][0] as any)[0].method).toBe('eth_getBlockReceipts');
+      expect(receipts.get('0xtx1')).toEqual({
+        transactionHash: '0xtx1',
+        status: 0,
+        gasUsed: 21000n,
+        cumulativeGasUsed: 42000n,
+        effectiveGasPrice: 20000000000n,
+        contractAddress: null,
+        logsBloom: '0x00',
+        blobGasUsed: null,
+        blobGasPrice: null,
+        logs: [
+          {
+            address: 'checksummed:0xtoken',
+            topics: ['0xtopic0'],
+            data: '0x01',
+            logIndex: 3,
+            transactionHash: '0xtx1',
+            blockNumber: 12345
+          }
+        ]
+      });
+    });
+
+    it('should checksum the address of a created contract like ethers does', async () => {
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({ id: payload.id, result: [{ ...rawReceipt('0xtx1'), contractAddress: '0xcontract' }] }))
+      );
+
+      const receipts = await fetcher.getBlockReceipts(12345, ['0xtx1']);
+
+      expect(receipts.get('0xtx1')!.contractAddress).toBe('checksummed:0xcontract');
+    });
+
+    it('should leave the status of pre-Byzantium receipts empty', async () => {
+      mockProvider._send.mockImplementation(async (payloads: any) =>
+        payloads.map((payload: any) => ({ id: payload.id, result: [{ ...rawReceipt('0xtx1'), status: undefined, root: '0xroot' }] }))
+      );
+
+      const receipts = await fetcher.getBlockReceipts(12345, ['0xtx1']);
+
+      expect(receipts.get('0xtx1')!.status).toBeNull();
+    });
+
+    it('should fall back to per-transaction receipts when eth_getBlockReceipts is unsupported', async () => {
+      mockProvider._send.mockImplementation(async (payloads: any) => payloads.map((payload: any) =>
+        payload.method === 'eth_getBlockReceipts'
+          ? { id: payload.id, error: { code: -32601, message: 'the method eth_getBlockReceipts does not exist/is not available' } }
+          : { id: payload.id, result: rawReceipt(payload.params[0]) }
+      ));
+
+      const receipts = await fetcher.getBlockReceipts(12345, ['0xtx1', '0xtx2']);
+      expect(receipts.size).toBe(2);
+
+      // The unsupported method is not retried on later blocks
+      await fetcher.getBlockReceipts(12346, ['0xtx3']);
+      const methods = mockProvider._send.mock.calls.flatMap(call => (call[0] as any).map((payload: any) => payload.method));
+      expect(methods.filter(method => method === 'eth_getBlockReceipts')).toHaveLength(1);
+      expect(methods.filter(method => method === 'eth_getTransactionReceipt')).toHaveLength(3);
+
+      // Per-transaction receipts of one block share a single batch request
+      expect((mockProvider._send.mock.calls[1][0] as any).map((payload: any) => payload.params[0])).toEqual(['0xtx1', '0xtx2']);
+    });
+
+    it('should retry only the receipts that failed inside a batch', async () => {
+      fetcher = new BlockchainFetcher('https://test-rpc.com', mockDb, {
+        endpoints: [{ url: 'https://test-rpc.com' }],
+        retryDelay: 1
+      });
+      let failedOnce = false;
+      mockProvider._send.mockImplementation(async (payloads: any) => payloads.map((payload: any) => {
+        if (payload.method === 'eth_getBlockReceipts') {
+          return { id: payload.id, error: { code: -32601, message: 'method not found' } };
+        }
+        if (payload.params[0] === '0xtx2' && !failedOnce) {
+          failedOnce = true;
+          return { id: payload.id, error: { code: -32603, message: 'internal error' } };
+        }
+        return { id: payload.id, result: rawReceipt(payload.params[0]) };
+      }));
+
+      const receipts = await fetcher.getBlockReceipts(12345, ['0xtx1', '0xtx2']);
+
+      expect(receipts.size).toBe(2);
+      const batches = mockProvider._send.mock.calls.map(call => (call[0] as any).map((payload: any) => payload.params[0]));
+      expect(batches.slice(1)).toEqual([['0xtx1', '0xtx2'], ['0xtx2']]);
+    });
+  });
+
   describe('storeTransaction', () => {
-    it('should store transaction in database', async () => {
+    it('should store transaction with receipt data and raw logs in database', async () => {
       const mockTransaction = {
         hash: '0xtx123',
         from: '0xfrom',
         to: '0xto',
         value: 1000000000000000000n,
-        gasLimit: 21000n,
-        gasPrice: 20000000000n
+        gasLimit: 50000n,
+        gasPrice: 20000000000n,
+        type: 3,
+        nonce: 7,
+        data: '0xA9059CBB0000',
+        maxFeePerGas: 30000000000n,
+        maxPriorityFeePerGas: 1000000000n,
+        accessList: [{ address: '0xtoken', storageKeys: ['0x01'] }],
+        maxFeePerBlobGas: 5n,
+        blobVersionedHashes: ['0x01aa']
+      };
+
+      const mockReceipt = {
+        transactionHash: '0xtx123',
+        status: 0,
+        gasUsed: 21000n,
+        cumulativeGasUsed: 42000n,
+        effectiveGasPrice: 19000000000n,
+        contractAddress: null,
+        logsBloom: '0x00',
+        blobGasUsed: 131072n,
+        blobGasPrice: 1n,
+        logs: [
+          {
+            address: '0xtoken',
+            topics: ['0xtopic0'],
+            data: '0x01',
+            logIndex: 3,
+            transactionHash: '0xtx123',
+            blockNumber: 12345
+          }
+        ]
       };
 
       const blockNumber = 12345n;
 
       mockDb.transaction.upsert.mockResolvedValue({} as any);
 
-      await fetcher.storeTransaction(mockTransaction, blockNumber);
+      await fetcher.storeTransaction(mockTransaction as any, blockNumber, mockReceipt);
+
+      const transactionData = {
+        blockNumber: blockNumber,
+        from: mockTransaction.from,
+        to: mockTransaction.to,
+        value: mockTransaction.value.toString(),
+        valueRaw: '1000000000000000000',
+        valueNormalized: '1',
+        gasUsed: 21000n,
+        gasPrice: mockTransaction.gasPrice.toString(),
+        gasPriceRaw: '20000000000',
+        status: 0,
+        cumulativeGasUsed: 42000n,
+        effectiveGasPrice: '19000000000',
+        contractAddress: null,
+        logsBloom: '0x00',
+        type: 3,
+        nonce: 7,
+        input: '0xA9059CBB0000',
+        selector: '0xa9059cbb',
+        maxFeePerGas: '30000000000',
+        maxPriorityFeePerGas: '1000000000',
+        accessList: [{ address: '0xtoken', storageKeys: ['0x01'] }],
+        maxFeePerBlobGas: '5',
+        blobVersionedHashes: ['0x01aa'],
+        blobGasUsed: 131072n,
+        blobGasPrice: '1'
+      };
 
       expect(mockDb.transaction.upsert).toHaveBeenCalledWith({
         where: { hash: mockTransaction.hash },
-        update: {
-          blockNumber: blockNumber,
-          from: mockTransaction.from,
-          to: mockTransaction.to,
-          value: mockTransaction.value.toString(),
-          gasUsed: mockTransaction.gasLimit,
-          gasPrice: mockTransaction.gasPrice.toString(),
-          status: 1
-        },
+        update: transactionData,
         create: {
           hash: mockTransaction.hash,
-          blockNumber: blockNumber,
-          from: mockTransaction.from,
-          to: mockTransaction.to,
-          value: mockTransaction.value.toString(),
-          gasUsed: mockTransaction.gasLimit,
-          gasPrice: mockTransaction.gasPrice.toString(),
-          status: 1
+          ...transactionData
         }
       });
+      expect(mockDb.log.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            txHash: '0xtx123',
+            blockNumber: blockNumber,
+            logIndex: 3,
+            address: '0xtoken',
+            topics: ['0xtopic0'],
+            data: '0x01'
+          }
+        ],
+        skipDuplicates: true
+      });
     });
   });
 });
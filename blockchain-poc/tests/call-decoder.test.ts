@@ -0,0 +1,91 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { CallDecoder } from '../src/processing/call-decoder';
+import { AbiRegistry } from '../src/processing/abi-registry';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('CallDecoder', () => {
+  let decoder: CallDecoder;
+  let mockDb: any;
+  let mockTx: any;
+  let mockRegistry: any;
+
+  const router = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+  const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const user = '0x1111111111111111111111111111111111111111';
+  const swapInterface = new ethers.Interface([
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'
+  ]);
+  const swapData = swapInterface.encodeFunctionData('swapExactTokensForTokens', [1000n, 990n, [weth, usdc], user, 1700000000n]);
+
+  beforeEach(() => {
+    mockTx = {
+      transaction: { update: jest.fn() }
+    };
+    mockDb = {};
+    mockRegistry = {
+      getInterface: jest.fn(async () => undefined)
+    };
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    decoder = new CallDecoder(mockDb as PrismaClient, mockRegistry as AbiRegistry);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should decode calls to contracts without an ABI from bundled signatures', async () => {
+    const call = await decoder.decodeCall({ hash: '0xtx1', to: router, input: swapData });
+
+    expect(mockRegistry.getInterface).toHaveBeenCalledWith(router);
+    expect(call).toEqual({
+      txHash: '0xtx1',
+      selector: '0x38ed1739',
+      methodName: 'swapExactTokensForTokens',
+      methodSignature: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+      args: { amountIn: '1000', amountOutMin: '990', path: [weth, usdc], to: user, deadline: '1700000000' },
+      confidence: 'signature'
+    });
+  });
+
+  it('should prefer the registered ABI and key tuple arguments by name', async () => {
+    const vault = new ethers.Interface(['function rebalance((address token, uint256 amount)[] legs, bool force)']);
+    mockRegistry.getInterface.mockResolvedValue(vault);
+
+    const call = await decoder.decodeCall({
+      hash: '0xtx1',
+      to: router,
+      input: vault.encodeFunctionData('rebalance', [[[usdc, 5n]], true])
+    });
+
+    expect(call?.methodName).toBe('rebalance');
+    expect(call?.confidence).toBe('abi');
+    expect(call?.args).toEqual({ legs: [{ token: usdc, amount: '5' }], force: true });
+  });
+
+  it('should skip contract creations, plain transfers and unknown selectors', async () => {
+    await expect(decoder.decodeCall({ hash: '0xtx1', to: null, input: swapData })).resolves.toBeNull();
+    await expect(decoder.decodeCall({ hash: '0xtx2', to: user, input: '0x' })).resolves.toBeNull();
+    await expect(decoder.decodeCall({ hash: '0xtx3', to: router, input: '0xdeadbeef' })).resolves.toBeNull();
+  });
+
+  it('should store the decoded method on the transactions of a block', async () => {
+    const decoded = await decoder.applyBlock(mockTx, [
+      { hash: '0xtx1', to: router, input: swapData },
+      { hash: '0xtx2', to: user, input: '0x' }
+    ]);
+
+    expect(decoded).toBe(1);
+    expect(mockTx.transaction.update).toHaveBeenCalledTimes(1);
+    expect(mockTx.transaction.update).toHaveBeenCalledWith({
+      where: { hash: '0xtx1' },
+      data: expect.objectContaining({
+        selector: '0x38ed1739',
+        methodName: 'swapExactTokensForTokens',
+        methodConfidence: 'signature'
+      })
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCallTracerResults, parseTraceBlockResults, parseTraceMethod } from '../src/ingestion/call-traces';
+
+describe('call traces', () => {
+  const user = '0x1111111111111111111111111111111111111111';
+  const router = '0x2222222222222222222222222222222222222222';
+  const weth = '0x3333333333333333333333333333333333333333';
+  const created = '0x4444444444444444444444444444444444444444';
+
+  describe('parseTraceMethod', () => {
+    it('should accept both trace APIs and disable tracing when unset', () => {
+      expect(parseTraceMethod(undefined)).toBeNull();
+      expect(parseTraceMethod(' ')).toBeNull();
+      expect(parseTraceMethod('debug')).toBe('debug');
+      expect(parseTraceMethod('debug_traceBlockByNumber')).toBe('debug');
+      expect(parseTraceMethod('TRACE')).toBe('trace');
+      expect(() => parseTraceMethod('parity')).toThrow('Unknown trace method');
+    });
+  });
+
+  describe('parseCallTracerResults', () => {
+    it('should collect value-carrying subcalls and all creations and skip the transaction itself', () => {
+      const transfers = parseCallTracerResults([{
+        txHash: '0xtx1',
+        result: {
+          type: 'CALL', from: user, to: router, value: '0xde0b6b3a7640000',
+          calls: [
+            { type: 'STATICCALL', from: router, to: weth },
+            { type: 'CALL', from: router, to: weth, value: '0x0' },
+            { type: 'CREATE', from: router, to: weth, value: '0x0' },
+            {
+              type: 'CALL', from: router, to: user, value: '0x64',
+              calls: [{ type: 'CREATE2', from: user, to: created, value: '0x1' }]
+            }
+          ]
+        }
+      }], ['0xtx1']);
+
+      expect(transfers).toEqual([
+        { txHash: '0xtx1', traceAddress: '2', type: 'create', from: router, to: weth, value: 0n },
+        { txHash: '0xtx1', traceAddress: '3', type: 'call', from: router, to: user, value: 100n },
+        { txHash: '0xtx1', traceAddress: '3.0', type: 'create', from: user, to: created, value: 1n }
+      ]);
+    });
+
+    it('should skip reverted frames with their subcalls and match results without a hash by position', () => {
+      const transfers = parseCallTracerResults([
+        {
+          result: {
+            type: 'CALL', from: user, to: router,
+            calls: [{
+              type: 'CALL', from: router, to: weth, value: '0x5', error: 'execution reverted',
+              calls: [{ type: 'CALL', from: weth, to: user, value: '0x5' }]
+            }]
+          }
+        },
+        { result: { type: 'CALL', from: user, to: router, calls: [{ type: 'SELFDESTRUCT', from: router, to: user, value: '0x9' }] } }
+      ], ['0xtx1', '0xtx2']);
+
+      expect(transfers).toEqual([
+        { txHash: '0xtx2', traceAddress: '0', type: 'selfdestruct', from: router, to: user, value: 9n }
+      ]);
+    });
+  });
+
+  describe('parseTraceBlockResults', () => {
+    it('should collect calls, creations and self-destructs below the top-level trace', () => {
+      const transfers = parseTraceBlockResults([
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [], action: { callType: 'call', from: user, to: router, value: '0x10' } },
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [0], action: { callType: 'call', from: router, to: user, value: '0x10' } },
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [1], action: { callType: 'delegatecall', from: router, to: weth, value: '0x10' } },
+        { type: 'create', transactionHash: '0xtx1', traceAddress: [2], action: { from: router, value: '0x2' }, result: { address: created } },
+        { type: 'suicide', transactionHash: '0xtx1', traceAddress: [3], action: { address: created, refundAddress: user, balance: '0x3' } },
+        { type: 'reward', action: { author: user, value: '0x1' } }
+      ]);
+
+      expect(transfers).toEqual([
+        { txHash: '0xtx1', traceAddress: '0', type: 'call', from: router, to: user, value: 16n },
+        { txHash: '0xtx1', traceAddress: '2', type: 'create', from: router, to: created, value: 2n },
+        { txHash: '0xtx1', traceAddress: '3', type: 'selfdestruct', from: created, to: user, value: 3n }
+      ]);
+    });
+
+    it('should skip failed traces and everything below them', () => {
+      const transfers = parseTraceBlockResults([
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [0], error: 'Reverted', action: { callType: 'call', from: router, to: weth, value: '0x1' } },
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [0, 0], action: { callType: 'call', from: weth, to: user, value: '0x1' } },
+        { type: 'call', transactionHash: '0xtx1', traceAddress: [1], action: { callType: 'call', from: router, to: user, value: '0x1' } }
+      ]);
+
+      expect(transfers.map(transfer => transfer.traceAddress)).toEqual(['1']);
+    });
+  });
+});
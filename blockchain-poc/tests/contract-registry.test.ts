@@ -0,0 +1,212 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { ContractRegistry, detectSelectorInterfaces, hasDelegateCall, revertContracts } from '../src/processing/contract-registry';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { ProxyResolver } from '../src/processing/proxy-resolver';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('ContractRegistry', () => {
+  let registry: ContractRegistry;
+  let mockDb: any;
+  let mockBatcher: any;
+  let mockProxies: any;
+  let code: Record<string, string>;
+  let supported: string[];
+
+  const deployer = '0x1111111111111111111111111111111111111111';
+  const factory = '0x2222222222222222222222222222222222222222';
+  const token = '0x3333333333333333333333333333333333333333';
+  const pair = '0x4444444444444444444444444444444444444444';
+  const implementation = '0x5555555555555555555555555555555555555555';
+  const erc165Interface = new ethers.Interface(['function supportsInterface(bytes4 interfaceId) view returns (bool)']);
+  // Runtime code that compares the calldata selector with each function of a standard
+  const dispatcher = (...signatures: string[]) => `0x6080${signatures.map(signature => `63${ethers.id(signature).slice(2, 10)}14`).join('')}00`;
+  const erc20Code = dispatcher(
+    'totalSupply()', 'balanceOf(address)', 'transfer(address,uint256)', 'transferFrom(address,address,uint256)',
+    'approve(address,uint256)', 'allowance(address,address)'
+  );
+
+  beforeEach(() => {
+    code = {};
+    supported = [];
+    mockDb = {
+      internalTransfer: { findMany: jest.fn(async () => []) },
+      contract: {
+        findMany: jest.fn(async () => []),
+        findUnique: jest.fn(async () => null),
+        createMany: jest.fn(async (args: any) => ({ count: args.data.length })),
+        update: jest.fn()
+      }
+    };
+    mockBatcher = {
+      call: jest.fn(async (method: string, params: any[]) => {
+        if (method === 'eth_getCode') {
+          return code[params[0]] ?? '0x6080';
+        }
+        const [interfaceId] = erc165Interface.decodeFunctionData('supportsInterface', params[0].data);
+        return erc165Interface.encodeFunctionResult('supportsInterface', [supported.includes(interfaceId)]);
+      })
+    };
+    mockProxies = { getImplementation: jest.fn(async () => null) };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    registry = new ContractRegistry(mockDb as PrismaClient, mockBatcher as RpcBatcher, mockProxies as ProxyResolver);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyBlock', () => {
+    it('should register contracts created by transactions and by other contracts', async () => {
+      code[token] = erc20Code;
+      mockDb.internalTransfer.findMany.mockResolvedValue([
+        { txHash: '0xtx2', traceAddress: '0.1', type: 'create', from: ethers.getAddress(factory), to: ethers.getAddress(pair) }
+      ]);
+
+      const registered = await registry.applyBlock(100, [
+        { hash: '0xtx1', from: ethers.getAddress(deployer), contractAddress: ethers.getAddress(token), status: 1 },
+        { hash: '0xtx3', from: deployer, contractAddress: '0x6666666666666666666666666666666666666666', status: 0 },
+        { hash: '0xtx4', from: deployer, contractAddress: null, status: 1 }
+      ]);
+
+      expect(registered).toBe(2);
+      expect(mockDb.internalTransfer.findMany).toHaveBeenCalledWith({
+        where: { blockNumber: 100n, type: 'create' },
+        orderBy: { id: 'asc' }
+      });
+      expect(mockBatcher.call).toHaveBeenCalledWith('eth_getCode', [token, '0x64']);
+      expect(mockDb.contract.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            address: token, deployer, txHash: '0xtx1', traceAddress: null, blockNumber: 100n,
+            codeHash: ethers.keccak256(erc20Code), codeSize: ethers.dataLength(erc20Code), interfaces: ['erc20'], classified: true
+          },
+          {
+            address: pair, deployer: factory, txHash: '0xtx2', traceAddress: '0.1', blockNumber: 100n,
+            codeHash: ethers.keccak256('0x6080'), codeSize: 2, interfaces: [], classified: true
+          }
+        ],
+        skipDuplicates: true
+      });
+    });
+
+    it('should detect standards with ERC-165 and skip contracts already registered', async () => {
+      supported = ['0x01ffc9a7', '0x80ac58cd'];
+      mockDb.contract.findMany.mockResolvedValue([{ address: pair, classified: true }]);
+
+      await registry.applyBlock(100, [
+        { hash: '0xtx1', from: deployer, contractAddress: token, status: 1 },
+        { hash: '0xtx2', from: deployer, contractAddress: pair, status: 1 }
+      ]);
+
+      expect(mockDb.contract.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ address: token, interfaces: ['erc165', 'erc721'] })
+      ]);
+    });
+
+    it('should classify proxies by the bytecode of their implementation', async () => {
+      code[implementation] = erc20Code;
+      mockProxies.getImplementation.mockResolvedValue(implementation);
+
+      await registry.applyBlock(100, [{ hash: '0xtx1', from: deployer, contractAddress: token, status: 1 }]);
+
+      expect(mockProxies.getImplementation).toHaveBeenCalledWith(token, 100);
+      expect(mockDb.contract.createMany.mock.calls[0][0].data[0].interfaces).toEqual(['erc20']);
+    });
+
+    it('should register contracts without code details when the code cannot be read', async () => {
+      mockBatcher.call.mockRejectedValue(new Error('missing trie node'));
+
+      await registry.applyBlock(100, [{ hash: '0xtx1', from: deployer, contractAddress: token, status: 1 }]);
+
+      expect(mockDb.contract.createMany.mock.calls[0][0].data[0]).toMatchObject({ codeHash: null, codeSize: null, interfaces: [], classified: false });
+    });
+
+    it('should leave delegating contracts without a known implementation unclassified', async () => {
+      // PUSH1 0x80, DELEGATECALL
+      code[token] = '0x6080f4';
+
+      await registry.applyBlock(100, [{ hash: '0xtx1', from: deployer, contractAddress: token, status: 1 }]);
+
+      expect(mockDb.contract.createMany.mock.calls[0][0].data[0]).toMatchObject({ interfaces: [], classified: false });
+    });
+
+    it('should classify contracts registered without a classification again', async () => {
+      code[token] = erc20Code;
+      mockDb.contract.findMany.mockResolvedValue([{ address: token, classified: false }]);
+
+      const registered = await registry.applyBlock(100, [{ hash: '0xtx1', from: deployer, contractAddress: token, status: 1 }]);
+
+      expect(registered).toBe(0);
+      expect(mockDb.contract.createMany).not.toHaveBeenCalled();
+      expect(mockDb.contract.update).toHaveBeenCalledWith({
+        where: { address: token },
+        data: { codeHash: ethers.keccak256(erc20Code), codeSize: ethers.dataLength(erc20Code), interfaces: ['erc20'], classified: true }
+      });
+    });
+
+    it('should do nothing for blocks without deployments', async () => {
+      await expect(registry.applyBlock(100, [{ hash: '0xtx1', from: deployer, contractAddress: null, status: 1 }])).resolves.toBe(0);
+
+      expect(mockDb.contract.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isNftContract', () => {
+    it('should only flag registered NFT collections and cache the lookups', async () => {
+      mockDb.contract.findUnique
+        .mockResolvedValueOnce({ interfaces: ['erc165', 'erc721'], classified: true })
+        .mockResolvedValueOnce({ interfaces: ['erc20'], classified: true })
+        .mockResolvedValueOnce(null);
+
+      await expect(registry.isNftContract(ethers.getAddress(token))).resolves.toBe(true);
+      await expect(registry.isNftContract(token)).resolves.toBe(true);
+      await expect(registry.isNftContract(pair)).resolves.toBe(false);
+      await expect(registry.isNftContract(factory)).resolves.toBe(false);
+
+      expect(mockDb.contract.findUnique).toHaveBeenCalledTimes(3);
+      expect(mockDb.contract.findUnique).toHaveBeenCalledWith({ where: { address: token }, select: { interfaces: true, classified: true } });
+    });
+  });
+
+  describe('isKnownNonToken', () => {
+    it('should flag classified contracts without ERC-20 but not unregistered or unclassified ones', async () => {
+      mockDb.contract.findUnique
+        .mockResolvedValueOnce({ interfaces: [], classified: true })
+        .mockResolvedValueOnce({ interfaces: ['erc20'], classified: true })
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ interfaces: [], classified: false });
+
+      await expect(registry.isKnownNonToken(factory)).resolves.toBe(true);
+      await expect(registry.isKnownNonToken(pair)).resolves.toBe(false);
+      await expect(registry.isKnownNonToken(token)).resolves.toBe(false);
+      await expect(registry.isKnownNonToken(implementation)).resolves.toBe(false);
+    });
+  });
+
+  describe('detectSelectorInterfaces', () => {
+    it('should require every function of a standard', () => {
+      expect(detectSelectorInterfaces(erc20Code)).toEqual(['erc20']);
+      expect(detectSelectorInterfaces(dispatcher('balanceOf(address)', 'transfer(address,uint256)'))).toEqual([]);
+    });
+  });
+
+  describe('hasDelegateCall', () => {
+    it('should find DELEGATECALL instructions but not 0xf4 bytes pushed as data', () => {
+      expect(hasDelegateCall('0x6080f4')).toBe(true);
+      expect(hasDelegateCall('0x61f4f400')).toBe(false);
+    });
+  });
+
+  describe('revertContracts', () => {
+    it('should delete the contracts of orphaned blocks', async () => {
+      const mockTx: any = { contract: { deleteMany: jest.fn() } };
+
+      await revertContracts(mockTx, [99n, 98n]);
+
+      expect(mockTx.contract.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { DeadLetterQueue, revertFailedItems } from '../src/processing/dead-letter-queue';
+import { PrismaClient } from '@prisma/client';
+
+describe('DeadLetterQueue', () => {
+  let queue: DeadLetterQueue;
+  let mockDb: any;
+
+  const now = new Date('2025-09-20T10:00:00Z');
+  const later = (ms: number) => new Date(now.getTime() + ms);
+  const blockFailure = { stage: 'block' as const, key: '100', blockNumber: 100, error: new Error('Connection lost'), payload: { blockNumber: 100 } };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    mockDb = {
+      failedItem: {
+        findMany: jest.fn(async () => []),
+        createMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+        groupBy: jest.fn(async () => [])
+      }
+    };
+    queue = new DeadLetterQueue(mockDb as PrismaClient, { maxAttempts: 3, retryDelay: 1000, maxRetryDelay: 3000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('should store a new failure with its first retry scheduled', async () => {
+      await queue.record(blockFailure);
+
+      expect(mockDb.failedItem.findMany).toHaveBeenCalledWith({
+        where: { OR: [{ stage: 'block', key: '100' }] },
+        select: { id: true, stage: true, key: true, status: true, attempts: true }
+      });
+      expect(mockDb.failedItem.createMany).toHaveBeenCalledWith({
+        data: [{
+          stage: 'block', key: '100', blockNumber: 100n, txHash: null, error: 'Connection lost', payload: { blockNumber: 100 },
+          lastAttemptAt: now, attempts: 1, status: 'pending', nextRetryAt: later(1000)
+        }],
+        skipDuplicates: true
+      });
+    });
+
+    it('should back off exponentially and give up after the last attempt', async () => {
+      mockDb.failedItem.findMany
+        .mockResolvedValueOnce([{ id: 4, stage: 'block', key: '100', status: 'pending', attempts: 1 }])
+        .mockResolvedValueOnce([{ id: 4, stage: 'block', key: '100', status: 'pending', attempts: 2 }]);
+
+      await queue.record(blockFailure);
+      await queue.record(blockFailure);
+
+      expect(mockDb.failedItem.update.mock.calls[0][0]).toMatchObject({
+        where: { id: 4 },
+        data: { attempts: 2, status: 'pending', nextRetryAt: later(2000), resolvedAt: null }
+      });
+      expect(mockDb.failedItem.update.mock.calls[1][0].data).toMatchObject({ attempts: 3, status: 'dead', nextRetryAt: null });
+      expect(mockDb.failedItem.createMany).not.toHaveBeenCalled();
+      expect(queue.retryDelay(5)).toBe(3000);
+    });
+
+    it('should start over for items that were resolved before', async () => {
+      mockDb.failedItem.findMany.mockResolvedValue([{ id: 4, stage: 'block', key: '100', status: 'resolved', attempts: 2 }]);
+
+      await queue.record(blockFailure);
+
+      expect(mockDb.failedItem.update.mock.calls[0][0].data).toMatchObject({ attempts: 1, status: 'pending', nextRetryAt: later(1000) });
+    });
+  });
+
+  describe('settleBlock', () => {
+    it('should resolve earlier items of the block that did not fail again', async () => {
+      const startedAt = new Date(now.getTime() - 500);
+
+      await queue.settleBlock(100, [], startedAt);
+
+      expect(mockDb.failedItem.findMany).not.toHaveBeenCalled();
+      expect(mockDb.failedItem.updateMany).toHaveBeenCalledWith({
+        where: {
+          blockNumber: 100n,
+          stage: { in: ['block', 'transaction', 'log'] },
+          status: { not: 'resolved' },
+          lastAttemptAt: { lt: startedAt }
+        },
+        data: { status: 'resolved', resolvedAt: now, nextRetryAt: null }
+      });
+    });
+  });
+
+  describe('due', () => {
+    it('should return pending items whose retry is due, oldest first', async () => {
+      mockDb.failedItem.findMany.mockResolvedValue([{
+        id: 4, stage: 'ingest', key: '100', blockNumber: 100n, txHash: null, error: 'timeout', payload: { blockNumber: 100 },
+        status: 'pending', attempts: 1, nextRetryAt: now, lastAttemptAt: now, resolvedAt: null, createdAt: now, updatedAt: now
+      }]);
+
+      const items = await queue.due(10);
+
+      expect(mockDb.failedItem.findMany).toHaveBeenCalledWith({
+        where: { status: 'pending', nextRetryAt: { lte: now } },
+        orderBy: { nextRetryAt: 'asc' },
+        take: 10
+      });
+      expect(items).toEqual([expect.objectContaining({ id: 4, stage: 'ingest', blockNumber: '100' })]);
+    });
+  });
+
+  describe('revertFailedItems', () => {
+    it('should delete the items of orphaned blocks', async () => {
+      const mockTx: any = { failedItem: { deleteMany: jest.fn() } };
+
+      await revertFailedItems(mockTx, [99n, 98n]);
+
+      expect(mockTx.failedItem.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { DexTracker, revertDexEvents, swapPrice } from '../src/processing/dex-tracker';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('DexTracker', () => {
+  let tracker: DexTracker;
+  let mockDb: any;
+  let mockTx: any;
+  let mockBatcher: any;
+
+  const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+  const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const factory = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+  const pool = { id: 3, address: '0xpool', protocol: 'uniswap-v2' as const, token0: usdc, token1: weth };
+  const pools = new Map([['0xpool', pool]]);
+  const tokens = new Map([[usdc, { id: 1, decimals: 6 }], [weth, { id: 2, decimals: 18 }]]);
+  const traders = new Map([['0xtx1', { from: '0xTrader' }]]);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  const swapEvent = (amount0: string, amount1: string, logIndex: number = 0) => ({
+    kind: 'swap' as const, protocol: 'uniswap-v2' as const, pool: '0xPool', txHash: '0xtx1', logIndex,
+    sender: '0xRouter', recipient: '0xTrader', amount0, amount1
+  });
+
+  beforeEach(() => {
+    mockTx = {
+      swap: { findMany: jest.fn(async () => []), createMany: jest.fn(), deleteMany: jest.fn() },
+      poolEvent: { findMany: jest.fn(async () => []), createMany: jest.fn(), deleteMany: jest.fn() }
+    };
+    mockDb = {
+      pool: { findMany: jest.fn(async () => []), createMany: jest.fn() },
+      swap: { findMany: jest.fn(async () => []) }
+    };
+    mockBatcher = { call: jest.fn() };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    tracker = new DexTracker(mockDb as PrismaClient, mockBatcher as RpcBatcher);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('swapPrice', () => {
+    it('should adjust the price for both tokens\' decimals', () => {
+      // 1 WETH in, 2500 USDC out
+      expect(swapPrice(10n ** 18n, 18, 2500n * 10n ** 6n, 6)).toBe('2500');
+      expect(swapPrice(2500n * 10n ** 6n, 6, 10n ** 18n, 18)).toBe('0.0004');
+      expect(swapPrice(1n, null, 1n, 18)).toBeNull();
+    });
+  });
+
+  describe('resolvePools', () => {
+    it('should read unknown pools from the chain and mark contracts without tokens as failed', async () => {
+      const address = (value: string) => coder.encode(['address'], [value]);
+      mockBatcher.call.mockImplementation(async (_method: string, [call]: any) => {
+        if (call.to === '0xnotapool') {
+          throw new Error('execution reverted');
+        }
+        const field = ['factory', 'token0', 'token1'].find(name => call.data === ethers.id(`${name}()`).slice(0, 10));
+        return address(field === 'factory' ? factory : field === 'token0' ? usdc : weth);
+      });
+      mockDb.pool.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { id: 3, address: '0xpool', protocol: 'uniswap-v2', token0: usdc, token1: weth, status: 'ok' },
+          { id: 4, address: '0xnotapool', protocol: 'uniswap-v2', token0: null, token1: null, status: 'failed' }
+        ]);
+
+      const resolved = await tracker.resolvePools([swapEvent('1', '-1'), { ...swapEvent('1', '-1'), pool: '0xNotAPool' }]);
+
+      expect(mockDb.pool.createMany).toHaveBeenCalledWith({
+        data: [
+          { address: '0xpool', protocol: 'uniswap-v2', factory, token0: usdc, token1: weth, fee: null, status: 'ok', error: null },
+          expect.objectContaining({ address: '0xnotapool', token0: null, status: 'failed' })
+        ],
+        skipDuplicates: true
+      });
+      expect([...resolved.keys()]).toEqual(['0xpool']);
+    });
+
+    it('should retry pools whose calls failed for other reasons', async () => {
+      mockBatcher.call.mockRejectedValue(new Error('rate limited'));
+
+      const resolved = await tracker.resolvePools([swapEvent('1', '-1')]);
+
+      expect(resolved.size).toBe(0);
+      expect(mockDb.pool.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyBlock', () => {
+    it('should store a swap with the token in, token out and effective price', async () => {
+      // 1 WETH (token1) in, 2500 USDC (token0) out
+      const result = await tracker.applyBlock(mockTx, 100, [swapEvent('-2500000000', '1000000000000000000')], pools, tokens, traders);
+
+      expect(result).toEqual({ swaps: 1, poolEvents: 0 });
+      expect(mockTx.swap.createMany).toHaveBeenCalledWith({
+        data: [{
+          txHash: '0xtx1', logIndex: 0, blockNumber: 100n, poolId: 3,
+          sender: '0xrouter', recipient: '0xtrader', trader: '0xtrader',
+          tokenInId: 2, tokenOutId: 1, amountIn: '1000000000000000000', amountOut: '2500000000',
+          price: '2500', sqrtPriceX96: null, liquidity: null, tick: null
+        }],
+        skipDuplicates: true
+      });
+    });
+
+    it('should keep liquidity events and skip events already stored or of unknown pools', async () => {
+      mockTx.swap.findMany.mockResolvedValue([{ txHash: '0xtx1', logIndex: 0 }]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [
+        swapEvent('-1', '1', 0),
+        { kind: 'sync', protocol: 'uniswap-v2', pool: '0xpool', txHash: '0xtx1', logIndex: 1, amount0: '7', amount1: '8' },
+        { ...swapEvent('-1', '1', 2), pool: '0xother' }
+      ], pools, tokens, traders);
+
+      expect(result).toEqual({ swaps: 0, poolEvents: 1 });
+      expect(mockTx.poolEvent.createMany.mock.calls[0][0].data).toEqual([expect.objectContaining({
+        logIndex: 1, type: 'sync', amount0: '7', amount1: '8', poolId: 3
+      })]);
+    });
+  });
+
+  describe('getSwaps', () => {
+    it('should return swaps with their amounts', async () => {
+      mockDb.swap.findMany.mockResolvedValue([{
+        txHash: '0xtx1', logIndex: 0, blockNumber: 100n, sender: '0xrouter', recipient: '0xtrader', trader: '0xtrader',
+        amountIn: new Prisma.Decimal('1000000000000000000'), amountOut: new Prisma.Decimal('2500000000'), price: new Prisma.Decimal('2500'),
+        pool: { address: '0xpool', protocol: 'uniswap-v2', fee: null },
+        tokenIn: { address: weth, symbol: 'WETH', decimals: 18, metadataStatus: 'ok' },
+        tokenOut: { address: usdc, symbol: 'USDC', decimals: 6, metadataStatus: 'ok' }
+      }]);
+
+      const swaps = await tracker.getSwaps({ trader: '0xTrader', limit: 10 });
+
+      expect(mockDb.swap.findMany.mock.calls[0][0]).toEqual(expect.objectContaining({ where: { trader: '0xtrader' }, take: 10 }));
+      expect(swaps[0]).toEqual(expect.objectContaining({
+        amountIn: { raw: '1000000000000000000', formatted: '1', decimals: 18 },
+        amountOut: { raw: '2500000000', formatted: '2500', decimals: 6 },
+        price: '2500'
+      }));
+    });
+  });
+
+  describe('revertDexEvents', () => {
+    it('should delete the swaps and pool events of orphaned transactions', async () => {
+      await revertDexEvents(mockTx, ['0xtx1']);
+
+      expect(mockTx.swap.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+      expect(mockTx.poolEvent.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+    });
+  });
+});
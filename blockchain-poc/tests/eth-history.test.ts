@@ -0,0 +1,66 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { EthHistory } from '../src/processing/eth-history';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+describe('EthHistory', () => {
+  let history: EthHistory;
+  let mockDb: any;
+
+  const alice = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+  const bob = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB';
+  const sum = (value: string | null, field: string = 'valueRaw') => ({ _sum: { [field]: value === null ? null : new Prisma.Decimal(value) } });
+
+  beforeEach(() => {
+    mockDb = {
+      transaction: { findMany: jest.fn(async () => []), aggregate: jest.fn() },
+      internalTransfer: { findMany: jest.fn(async () => []), aggregate: jest.fn() },
+      withdrawal: { findMany: jest.fn(async () => []) },
+      $queryRaw: jest.fn(async () => [{ fees: null, withdrawals: null }])
+    };
+    history = new EthHistory(mockDb as PrismaClient);
+  });
+
+  describe('getBalance', () => {
+    it('should net transaction values, internal transfers, withdrawals and fees', async () => {
+      mockDb.transaction.aggregate
+        .mockResolvedValueOnce(sum('3000000000000000000'))
+        .mockResolvedValueOnce(sum('1000000000000000000'));
+      mockDb.internalTransfer.aggregate
+        .mockResolvedValueOnce(sum('500000000000000000', 'value'))
+        .mockResolvedValueOnce(sum(null, 'value'));
+      mockDb.$queryRaw.mockResolvedValue([{ fees: new Prisma.Decimal('21000000000000'), withdrawals: new Prisma.Decimal('1000000000') }]);
+
+      const result = await history.getBalance(alice.toLowerCase(), 150);
+
+      expect(mockDb.transaction.aggregate.mock.calls[1][0].where).toEqual({ from: alice, AND: [{ OR: [{ status: 1 }, { status: null }] }], blockNumber: { lte: 150n } });
+      expect(result.address).toBe(alice);
+      expect(result.blockNumber).toBe('150');
+      expect(result.breakdown.withdrawals.formatted).toBe('1');
+      expect(result.breakdown.fees.raw).toBe('21000000000000');
+      expect(result.balance).toEqual({ raw: '3499979000000000000', formatted: '3.499979', decimals: 18 });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should merge all kinds of movements newest first with their direction', async () => {
+      mockDb.transaction.findMany.mockResolvedValue([
+        { hash: '0xtx1', blockNumber: 100n, from: alice, to: bob, contractAddress: null, valueRaw: new Prisma.Decimal('5') },
+        { hash: '0xtx2', blockNumber: 90n, from: alice, to: null, contractAddress: alice, valueRaw: new Prisma.Decimal('1') }
+      ]);
+      mockDb.internalTransfer.findMany.mockResolvedValue([
+        { txHash: '0xtx3', blockNumber: 95n, traceAddress: '0.1', from: bob, to: alice, value: new Prisma.Decimal('2') }
+      ]);
+      mockDb.withdrawal.findMany.mockResolvedValue([{ blockNumber: 120n, address: alice, amount: '3' }]);
+
+      const result = await history.getHistory(alice, 3);
+
+      expect(result.map(movement => [movement.kind, movement.direction, movement.blockNumber])).toEqual([
+        ['withdrawal', 'in', '120'],
+        ['transaction', 'out', '100'],
+        ['internal', 'in', '95']
+      ]);
+      expect(result[0].value.raw).toBe('3000000000');
+      expect(result[2]).toEqual(expect.objectContaining({ txHash: '0xtx3', traceAddress: '0.1', from: bob, to: alice }));
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { EventDecoder } from '../src/processing/event-decoder';
 import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
 
 describe('EventDecoder', () => {
   let decoder: EventDecoder;
@@ -24,6 +25,9 @@ describe('EventDecoder', () => {
         findUnique: jest.fn(),
         create: jest.fn()
       },
+      contractAbi: {
+        findMany: jest.fn(async () => [])
+      },
       $disconnect: jest.fn()
     } as any;
 
@@ -74,6 +78,111 @@ describe('EventDecoder', () => {
       expect(decoded[0].args.value.toString()).toBe('1');
     });
 
+    it('should decode logs of any contract with a registered ABI', async () => {
+      (mockDb as any).contractAbi.findMany.mockResolvedValue([{
+        chainId: 1,
+        address: '0x3333333333333333333333333333333333333333',
+        version: 2,
+        abi: ['event Deposit(address indexed user, uint256 amount)']
+      }]);
+
+      const decoded = await decoder.decodeTransactionLogs('0x123', [{
+        address: '0x3333333333333333333333333333333333333333',
+        topics: [
+          ethers.id('Deposit(address,uint256)'),
+          '0x0000000000000000000000001111111111111111111111111111111111111111'
+        ],
+        data: '0x0000000000000000000000000000000000000000000000000000000000000005',
+        logIndex: 4,
+        transactionHash: '0x123'
+      }]);
+
+      expect(decoded).toHaveLength(1);
+      expect(decoded[0].eventName).toBe('Deposit');
+      expect(decoded[0].args.amount.toString()).toBe('5');
+    });
+
+    it('should decode proxy logs with the implementation ABI active at their block', async () => {
+      (mockDb as any).contractAbi.findMany.mockResolvedValue([{
+        chainId: 1,
+        address: '0x5555555555555555555555555555555555555555',
+        version: 1,
+        abi: ['event Deposit(address indexed user, uint256 amount)']
+      }]);
+      const proxies: any = {
+        recordUpgrade: jest.fn(async () => false),
+        getImplementation: jest.fn(async () => '0x5555555555555555555555555555555555555555')
+      };
+      decoder = new EventDecoder(mockDb, undefined, undefined, proxies);
+      const log = {
+        address: '0x3333333333333333333333333333333333333333',
+        topics: [
+          ethers.id('Deposit(address,uint256)'),
+          '0x0000000000000000000000001111111111111111111111111111111111111111'
+        ],
+        data: '0x0000000000000000000000000000000000000000000000000000000000000005',
+        logIndex: 4,
+        transactionHash: '0x123',
+        blockNumber: 100
+      };
+
+      const decoded = await decoder.decodeTransactionLogs('0x123', [log]);
+
+      expect(proxies.recordUpgrade).toHaveBeenCalledWith(log);
+      expect(proxies.getImplementation).toHaveBeenCalledWith('0x3333333333333333333333333333333333333333', 100, 4);
+      expect(decoded).toHaveLength(1);
+      expect(decoded[0]).toMatchObject({ eventName: 'Deposit', contract: '0x3333333333333333333333333333333333333333', confidence: 'abi' });
+    });
+
+    it('should read the value of ERC-20-shaped logs of registered NFT collections as a tokenId', async () => {
+      const contracts: any = { isNftContract: jest.fn(async (address: string) => address === '0x4444444444444444444444444444444444444444') };
+      decoder = new EventDecoder(mockDb, undefined, undefined, undefined, contracts);
+      const transferLog = (address: string) => ({
+        address,
+        topics: [
+          ethers.id('Transfer(address,address,uint256)'),
+          '0x0000000000000000000000001111111111111111111111111111111111111111',
+          '0x0000000000000000000000002222222222222222222222222222222222222222'
+        ],
+        data: '0x0000000000000000000000000000000000000000000000000000000000000007',
+        logIndex: 1,
+        transactionHash: '0x123'
+      });
+
+      const decoded = await decoder.decodeTransactionLogs('0x123', [
+        transferLog('0x4444444444444444444444444444444444444444'),
+        transferLog('0x5555555555555555555555555555555555555555')
+      ]);
+
+      expect(decoded[0].args).toEqual({
+        from: '0x1111111111111111111111111111111111111111',
+        to: '0x2222222222222222222222222222222222222222',
+        tokenId: 7n
+      });
+      expect(decoder.extractNftTransfers(decoded)).toHaveLength(1);
+      await expect(decoder.extractTransferEvents(decoded)).resolves.toEqual([
+        expect.objectContaining({ contract: '0x5555555555555555555555555555555555555555', amount: '7' })
+      ]);
+    });
+
+    it('should decode Transfers of unregistered tokens by their event signature', async () => {
+      const decoded = await decoder.decodeTransactionLogs('0x123', [{
+        address: '0x4444444444444444444444444444444444444444',
+        topics: [
+          ethers.id('Transfer(address,address,uint256)'),
+          '0x0000000000000000000000001111111111111111111111111111111111111111',
+          '0x0000000000000000000000002222222222222222222222222222222222222222'
+        ],
+        data: '0x0000000000000000000000000000000000000000000000000000000000000007',
+        logIndex: 1,
+        transactionHash: '0x123'
+      }]);
+
+      expect(decoded).toHaveLength(1);
+      expect(decoded[0].args.value.toString()).toBe('7');
+      expect(decoded[0].confidence).toBe('signature');
+    });
+
     it('should handle missing ABIs gracefully', async () => {
       // Test with unknown contract
       const mockLog = {
@@ -84,24 +193,21 @@ describe('EventDecoder', () => {
         transactionHash: '0x789'
       };
 
-      mockDb.event.create.mockResolvedValue({} as any);
-
       const decoded = await decoder.decodeTransactionLogs('0x789', [mockLog]);
       expect(decoded).toHaveLength(0);
-      
-      // Should store raw event for debugging
-      expect(mockDb.event.create).toHaveBeenCalledWith({
-        data: {
-          txHash: '0x789',
-          logIndex: 0,
-          contract: '0xUnknownContract',
-          eventName: 'Unknown',
-          args: {
-            topics: ['0x123'],
-            data: '0x456'
-          }
+
+      // The raw event is returned for the caller to store in its transaction
+      expect(mockDb.event.create).not.toHaveBeenCalled();
+      expect(decoder.rawEvents([mockLog], decoded)).toEqual([{
+        txHash: '0x789',
+        logIndex: 0,
+        contract: '0xUnknownContract',
+        eventName: 'Unknown',
+        args: {
+          topics: ['0x123'],
+          data: '0x456'
         }
-      });
+      }]);
     });
 
     it('should handle decoding errors gracefully', async () => {
@@ -113,17 +219,27 @@ describe('EventDecoder', () => {
         transactionHash: '0x789'
       };
 
-      mockDb.event.create.mockResolvedValue({} as any);
-
       const decoded = await decoder.decodeTransactionLogs('0x789', [mockLog]);
       expect(decoded).toHaveLength(0);
-      
-      // Should store raw event for debugging
-      expect(mockDb.event.create).toHaveBeenCalled();
+
+      expect(decoder.rawEvents([mockLog], decoded)).toHaveLength(1);
     });
   });
 
   describe('extractTransferEvents', () => {
+    it('should skip ERC-721 Transfers, which carry a tokenId instead of a value', async () => {
+      const transfers = await decoder.extractTransferEvents([{
+        eventName: 'Transfer',
+        args: { from: '0x1111111111111111111111111111111111111111', to: '0x2222222222222222222222222222222222222222', tokenId: 42n },
+        contract: '0xnft',
+        txHash: '0x123',
+        logIndex: 0,
+        confidence: 'signature'
+      }]);
+
+      expect(transfers).toHaveLength(0);
+    });
+
     it('should extract Transfer events from decoded events', async () => {
       const decodedEvents = [
         {
@@ -160,6 +276,159 @@ describe('EventDecoder', () => {
     });
   });
 
+  describe('extractApprovalEvents', () => {
+    it('should extract ERC-20 Approvals and skip ERC-721 ones', () => {
+      const owner = '0x1111111111111111111111111111111111111111';
+      const spender = '0x3333333333333333333333333333333333333333';
+
+      const approvals = decoder.extractApprovalEvents([
+        { eventName: 'Approval', args: { owner, spender, value: 500n }, contract: '0xtoken', txHash: '0x123', logIndex: 0 },
+        { eventName: 'Approval', args: { owner, approved: spender, tokenId: 1n }, contract: '0xnft', txHash: '0x123', logIndex: 1 }
+      ]);
+
+      expect(approvals).toEqual([{ owner, spender, value: '500', contract: '0xtoken', txHash: '0x123', logIndex: 0 }]);
+    });
+  });
+
+  describe('extractNftTransfers', () => {
+    const from = '0x1111111111111111111111111111111111111111';
+    const to = '0x2222222222222222222222222222222222222222';
+    const operator = '0x3333333333333333333333333333333333333333';
+
+    it('should extract ERC-721 Transfers with an amount of 1', () => {
+      const transfers = decoder.extractNftTransfers([{
+        eventName: 'Transfer',
+        args: { from, to, tokenId: 42n },
+        contract: '0xnft',
+        txHash: '0x123',
+        logIndex: 3
+      }]);
+
+      expect(transfers).toEqual([{
+        contract: '0xnft', standard: 'ERC721', txHash: '0x123', logIndex: 3, batchIndex: 0,
+        from, to, tokenId: '42', amount: '1'
+      }]);
+    });
+
+    it('should split ERC-1155 TransferBatch into one transfer per token', () => {
+      const transfers = decoder.extractNftTransfers([
+        {
+          eventName: 'TransferSingle',
+          args: { operator, from, to, id: 7n, value: 5n },
+          contract: '0xmulti',
+          txHash: '0x123',
+          logIndex: 0
+        },
+        {
+          eventName: 'TransferBatch',
+          args: { operator, from, to, ids: [1n, 2n], values: [10n, 20n] },
+          contract: '0xmulti',
+          txHash: '0x123',
+          logIndex: 1
+        }
+      ]);
+
+      expect(transfers.map(transfer => [transfer.standard, transfer.logIndex, transfer.batchIndex, transfer.tokenId, transfer.amount])).toEqual([
+        ['ERC1155', 0, 0, '7', '5'],
+        ['ERC1155', 1, 0, '1', '10'],
+        ['ERC1155', 1, 1, '2', '20']
+      ]);
+      expect(transfers[0].operator).toBe(operator);
+    });
+
+    it('should ignore ERC-20 Transfers', () => {
+      const transfers = decoder.extractNftTransfers([{
+        eventName: 'Transfer',
+        args: { from, to, value: 1000n },
+        contract: '0xtoken',
+        txHash: '0x123',
+        logIndex: 0
+      }]);
+
+      expect(transfers).toHaveLength(0);
+    });
+  });
+
+  describe('extractDexEvents', () => {
+    const sender = '0x1111111111111111111111111111111111111111';
+    const recipient = '0x2222222222222222222222222222222222222222';
+    const event = (eventName: string, args: any, logIndex: number) => ({ eventName, args, contract: '0xpool', txHash: '0x123', logIndex });
+
+    it('should net V2 swap amounts and keep V3 swap amounts signed from the pool side', () => {
+      const dexEvents = decoder.extractDexEvents([
+        event('Swap', { sender, amount0In: 100n, amount1In: 0n, amount0Out: 0n, amount1Out: 250n, to: recipient }, 0),
+        event('Swap', { sender, recipient, amount0: -40n, amount1: 90n, sqrtPriceX96: 79228162514264337593543950336n, liquidity: 1000n, tick: -5n }, 1)
+      ]);
+
+      expect(dexEvents).toEqual([
+        { pool: '0xpool', txHash: '0x123', logIndex: 0, kind: 'swap', protocol: 'uniswap-v2', sender, recipient, amount0: '100', amount1: '-250' },
+        {
+          pool: '0xpool', txHash: '0x123', logIndex: 1, kind: 'swap', protocol: 'uniswap-v3', sender, recipient,
+          amount0: '-40', amount1: '90', liquidity: '1000', sqrtPriceX96: '79228162514264337593543950336', tick: -5
+        }
+      ]);
+    });
+
+    it('should tell V2 and V3 liquidity events apart and ignore unrelated Mints', () => {
+      const dexEvents = decoder.extractDexEvents([
+        event('Sync', { reserve0: 5n, reserve1: 6n }, 0),
+        event('Mint', { sender, amount0: 1n, amount1: 2n }, 1),
+        event('Mint', { sender, owner: recipient, tickLower: -60n, tickUpper: 60n, amount: 7n, amount0: 1n, amount1: 2n }, 2),
+        event('Collect', { owner: recipient, recipient, tickLower: -60n, tickUpper: 60n, amount0: 3n, amount1: 4n }, 3),
+        event('Mint', { to: recipient, amount: 10n }, 4)
+      ]);
+
+      expect(dexEvents.map(dexEvent => [dexEvent.kind, dexEvent.protocol, dexEvent.amount0, dexEvent.amount1])).toEqual([
+        ['sync', 'uniswap-v2', '5', '6'],
+        ['mint', 'uniswap-v2', '1', '2'],
+        ['mint', 'uniswap-v3', '1', '2'],
+        ['collect', 'uniswap-v3', '3', '4']
+      ]);
+      expect(dexEvents[2]).toEqual(expect.objectContaining({ owner: recipient, liquidity: '7', tickLower: -60, tickUpper: 60 }));
+    });
+  });
+
+  describe('extractPositionEvents', () => {
+    it('should extract position manager events and leave the pool Collect out', () => {
+      const recipient = '0x2222222222222222222222222222222222222222';
+      const event = (eventName: string, args: any, logIndex: number) => ({ eventName, args, contract: '0xmanager', txHash: '0x123', logIndex });
+
+      const positionEvents = decoder.extractPositionEvents([
+        event('IncreaseLiquidity', { tokenId: 42n, liquidity: 1000n, amount0: 10n, amount1: 20n }, 0),
+        event('DecreaseLiquidity', { tokenId: 42n, liquidity: 400n, amount0: 4n, amount1: 8n }, 1),
+        event('Collect', { tokenId: 42n, recipient, amount0: 5n, amount1: 9n }, 2),
+        event('Collect', { owner: recipient, recipient, tickLower: -60n, tickUpper: 60n, amount0: 3n, amount1: 4n }, 3)
+      ]);
+
+      expect(positionEvents).toEqual([
+        { manager: '0xmanager', tokenId: '42', txHash: '0x123', logIndex: 0, amount0: '10', amount1: '20', kind: 'increase', liquidity: '1000' },
+        { manager: '0xmanager', tokenId: '42', txHash: '0x123', logIndex: 1, amount0: '4', amount1: '8', kind: 'decrease', liquidity: '400' },
+        { manager: '0xmanager', tokenId: '42', txHash: '0x123', logIndex: 2, amount0: '5', amount1: '9', kind: 'collect', recipient }
+      ]);
+    });
+  });
+
+  describe('extractNftApprovals', () => {
+    it('should extract ApprovalForAll events', () => {
+      const approvals = decoder.extractNftApprovals([{
+        eventName: 'ApprovalForAll',
+        args: { owner: '0x1111111111111111111111111111111111111111', operator: '0x3333333333333333333333333333333333333333', approved: false },
+        contract: '0xnft',
+        txHash: '0x123',
+        logIndex: 2
+      }]);
+
+      expect(approvals).toEqual([{
+        contract: '0xnft',
+        txHash: '0x123',
+        logIndex: 2,
+        owner: '0x1111111111111111111111111111111111111111',
+        operator: '0x3333333333333333333333333333333333333333',
+        approved: false
+      }]);
+    });
+  });
+
   describe('storeTransferEvents', () => {
     it('should store transfer events in database', async () => {
       const transferEvents = [
@@ -181,6 +450,7 @@ describe('EventDecoder', () => {
         symbol: 'USDT',
         decimals: 6,
         totalSupply: '1000000000000000',
+        metadataStatus: 'ok',
         createdAt: new Date(),
         updatedAt: new Date()
       });
@@ -199,6 +469,8 @@ describe('EventDecoder', () => {
           from: '0x1111111111111111111111111111111111111111',
           to: '0x2222222222222222222222222222222222222222',
           amount: '1000000',
+          amountRaw: '1000000',
+          amountNormalized: '1',
           tokenId: 1
         }
       });
@@ -238,11 +510,31 @@ describe('EventDecoder', () => {
           address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
           name: 'USDT',
           symbol: 'USDT',
-          decimals: 18,
+          decimals: null,
           totalSupply: '0'
         }
       });
     });
+
+    it('should not create tokens for contracts known not to implement ERC-20', async () => {
+      const contracts: any = { isKnownNonToken: jest.fn(async () => true) };
+      decoder = new EventDecoder(mockDb, undefined, undefined, undefined, contracts);
+      mockDb.token.findUnique.mockResolvedValue(null);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await decoder.storeTransferEvents([{
+        from: '0x1111111111111111111111111111111111111111',
+        to: '0x2222222222222222222222222222222222222222',
+        amount: '1',
+        contract: '0x4444444444444444444444444444444444444444',
+        txHash: '0x123',
+        logIndex: 0
+      }]);
+
+      expect(contracts.isKnownNonToken).toHaveBeenCalledWith('0x4444444444444444444444444444444444444444');
+      expect(mockDb.token.create).not.toHaveBeenCalled();
+      expect(mockDb.transfer.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getTransferEventsByAddress', () => {
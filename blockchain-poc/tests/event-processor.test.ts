@@ -1,28 +1,63 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { EventProcessor } from '../src/processing/event-processor';
 import { EventDecoder } from '../src/processing/event-decoder';
+import { BlockPersister } from '../src/ingestion/block-persister';
+import { NftTracker } from '../src/processing/nft-tracker';
+import { AllowanceTracker } from '../src/processing/allowance-tracker';
+import { BalanceLedger } from '../src/processing/balance-ledger';
+import { CallDecoder } from '../src/processing/call-decoder';
+import { DexTracker } from '../src/processing/dex-tracker';
+import { PriceOracle } from '../src/processing/price-oracle';
+import { PositionTracker } from '../src/processing/position-tracker';
+import { ContractRegistry } from '../src/processing/contract-registry';
+import { DeadLetterQueue } from '../src/processing/dead-letter-queue';
 import { PrismaClient } from '@prisma/client';
 import { ethers } from 'ethers';
 
-// Mock the EventDecoder
+// Mock the EventDecoder, BlockPersister and trackers
 jest.mock('../src/processing/event-decoder');
+jest.mock('../src/ingestion/block-persister');
+jest.mock('../src/processing/nft-tracker');
+jest.mock('../src/processing/allowance-tracker');
+jest.mock('../src/processing/balance-ledger');
+jest.mock('../src/processing/call-decoder');
+jest.mock('../src/processing/dex-tracker');
+jest.mock('../src/processing/price-oracle');
+jest.mock('../src/processing/position-tracker');
+jest.mock('../src/processing/proxy-resolver');
+jest.mock('../src/processing/contract-registry');
+jest.mock('../src/processing/dead-letter-queue');
 
 describe('EventProcessor', () => {
   let processor: EventProcessor;
   let mockDb: jest.Mocked<PrismaClient>;
+  let mockTx: any;
   let mockProvider: jest.Mocked<ethers.JsonRpcProvider>;
   let mockDecoder: jest.Mocked<EventDecoder>;
+  let mockPersister: any;
+  let mockNftTracker: any;
+  let mockAllowanceTracker: any;
+  let mockBalanceLedger: any;
+  let mockCallDecoder: any;
+  let mockDexTracker: any;
+  let mockPriceOracle: any;
+  let mockPositionTracker: any;
+  let mockContractRegistry: any;
+  let mockDeadLetters: any;
 
   beforeEach(() => {
     // Mock database
+    mockTx = {};
     mockDb = {
       transaction: {
         findMany: jest.fn(),
+        findUnique: jest.fn(),
         count: jest.fn()
       },
       event: {
         count: jest.fn(),
-        groupBy: jest.fn()
+        groupBy: jest.fn(),
+        createMany: jest.fn()
       },
       transfer: {
         count: jest.fn(),
@@ -35,6 +70,7 @@ describe('EventProcessor', () => {
       block: {
         findFirst: jest.fn()
       },
+      $transaction: jest.fn(async (callback: any) => callback(mockTx)),
       $disconnect: jest.fn()
     } as any;
 
@@ -48,11 +84,73 @@ describe('EventProcessor', () => {
       decodeTransactionLogs: jest.fn(),
       storeDecodedEvents: jest.fn(),
       extractTransferEvents: jest.fn(),
-      storeTransferEvents: jest.fn()
+      extractApprovalEvents: jest.fn(() => []),
+      extractNftTransfers: jest.fn(() => []),
+      extractNftApprovals: jest.fn(() => []),
+      extractDexEvents: jest.fn(() => []),
+      extractPositionEvents: jest.fn(() => []),
+      storeTransferEvents: jest.fn(),
+      toPersistedEvent: jest.fn((event: any) => event),
+      rawEvents: jest.fn(() => []),
+      resolveTokens: jest.fn(async () => new Map([['0xtoken', { id: 7, decimals: 6 }]]))
     } as any;
 
-    // Mock EventDecoder constructor
+    mockPersister = {
+      persistDerived: jest.fn()
+    };
+
+    mockNftTracker = {
+      applyBlock: jest.fn()
+    };
+
+    mockAllowanceTracker = {
+      applyBlock: jest.fn()
+    };
+
+    mockBalanceLedger = {
+      applyBlock: jest.fn()
+    };
+
+    mockCallDecoder = {
+      applyBlock: jest.fn(async () => 0)
+    };
+
+    mockDexTracker = {
+      resolvePools: jest.fn(async () => new Map()),
+      applyBlock: jest.fn()
+    };
+
+    mockPriceOracle = {
+      applyBlock: jest.fn(async () => 0)
+    };
+
+    mockPositionTracker = {
+      supplyChanges: jest.fn(async () => []),
+      applyBlock: jest.fn()
+    };
+
+    mockContractRegistry = {
+      applyBlock: jest.fn(async () => 0)
+    };
+
+    mockDeadLetters = {
+      record: jest.fn(async () => undefined),
+      resolve: jest.fn(async () => undefined),
+      settleBlock: jest.fn(async () => undefined)
+    };
+
+    // Mock EventDecoder, BlockPersister and tracker constructors
     (EventDecoder as jest.Mock).mockImplementation(() => mockDecoder);
+    (BlockPersister as jest.Mock).mockImplementation(() => mockPersister);
+    (NftTracker as jest.Mock).mockImplementation(() => mockNftTracker);
+    (AllowanceTracker as jest.Mock).mockImplementation(() => mockAllowanceTracker);
+    (BalanceLedger as jest.Mock).mockImplementation(() => mockBalanceLedger);
+    (CallDecoder as jest.Mock).mockImplementation(() => mockCallDecoder);
+    (DexTracker as jest.Mock).mockImplementation(() => mockDexTracker);
+    (PriceOracle as jest.Mock).mockImplementation(() => mockPriceOracle);
+    (PositionTracker as jest.Mock).mockImplementation(() => mockPositionTracker);
+    (ContractRegistry as jest.Mock).mockImplementation(() => mockContractRegistry);
+    (DeadLetterQueue as jest.Mock).mockImplementation(() => mockDeadLetters);
 
     processor = new EventProcessor(mockProvider, mockDb);
   });
@@ -62,7 +160,41 @@ describe('EventProcessor', () => {
   });
 
   describe('processTransactionEvents', () => {
-    it('should process transaction events successfully', async () => {
+    it('should decode logs stored at ingest time without calling the RPC', async () => {
+      const txHash = '0x123';
+
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 42000n,
+        logs: [
+          {
+            txHash,
+            logIndex: 4,
+            blockNumber: 100n,
+            address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+            topics: ['0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'],
+            data: '0x01'
+          }
+        ]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+
+      await processor.processTransactionEvents(txHash);
+
+      expect(mockProvider.getTransactionReceipt).not.toHaveBeenCalled();
+      expect(mockDecoder.decodeTransactionLogs).toHaveBeenCalledWith(txHash, [
+        {
+          address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+          topics: ['0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'],
+          data: '0x01',
+          transactionHash: txHash,
+          logIndex: 4,
+          blockNumber: 100
+        }
+      ]);
+    });
+
+    it('should fall back to the RPC receipt for transactions ingested without receipts', async () => {
       const txHash = '0x123';
       const mockReceipt = {
         logs: [
@@ -70,11 +202,24 @@ describe('EventProcessor', () => {
             address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
             topics: ['0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'],
             data: '0x0000000000000000000000000000000000000000000000000000000000000001',
-            logIndex: 0,
+            index: 0,
+            blockNumber: 100,
             transactionHash: txHash
           }
         ]
       };
+      const expectedLogs = [
+        {
+          address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+          topics: ['0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'],
+          data: '0x0000000000000000000000000000000000000000000000000000000000000001',
+          transactionHash: txHash,
+          logIndex: 0,
+          blockNumber: 100
+        }
+      ];
+
+      mockDb.transaction.findUnique.mockResolvedValue({ cumulativeGasUsed: null, logs: [] } as any);
 
       const mockDecodedEvents = [
         {
@@ -110,7 +255,7 @@ describe('EventProcessor', () => {
       await processor.processTransactionEvents(txHash);
 
       expect(mockProvider.getTransactionReceipt).toHaveBeenCalledWith(txHash);
-      expect(mockDecoder.decodeTransactionLogs).toHaveBeenCalledWith(txHash, mockReceipt.logs);
+      expect(mockDecoder.decodeTransactionLogs).toHaveBeenCalledWith(txHash, expectedLogs);
       expect(mockDecoder.storeDecodedEvents).toHaveBeenCalledWith(mockDecodedEvents);
       expect(mockDecoder.extractTransferEvents).toHaveBeenCalledWith(mockDecodedEvents);
       expect(mockDecoder.storeTransferEvents).toHaveBeenCalledWith(mockTransferEvents);
@@ -157,6 +302,166 @@ describe('EventProcessor', () => {
         where: { blockNumber: BigInt(blockNumber) }
       });
       expect(mockProvider.getTransactionReceipt).toHaveBeenCalledTimes(2);
+      expect(mockPersister.persistDerived).toHaveBeenCalledWith(mockTx, ['0x111', '0x222'], [], []);
+      expect(mockCallDecoder.applyBlock).toHaveBeenCalledWith(mockTx, mockTransactions);
+    });
+
+    it('should store all events and transfers of a block in one call', async () => {
+      const blockNumber = 12345;
+      const decodedEvent = { eventName: 'Transfer', args: {}, contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+      const transferEvent = { from: '0xa', to: '0xb', amount: '5', contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xtoken', topics: ['0xddf2'], data: '0x05', txHash: '0x111', logIndex: 0 }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([decodedEvent]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([transferEvent]);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockDecoder.storeDecodedEvents).not.toHaveBeenCalled();
+      expect(mockPersister.persistDerived).toHaveBeenCalledTimes(1);
+      expect(mockPersister.persistDerived).toHaveBeenCalledWith(
+        mockTx,
+        ['0x111'],
+        [decodedEvent],
+        [{ txHash: '0x111', from: '0xa', to: '0xb', amount: '5', amountNormalized: '0.000005', tokenId: 7 }]
+      );
+      expect(mockBalanceLedger.applyBlock).toHaveBeenCalledWith(mockTx, blockNumber, [transferEvent], new Map([['0xtoken', 7]]));
+    });
+
+    it('should store the logs that did not decode as Unknown events in the block transaction', async () => {
+      const rawEvent = { txHash: '0x111', logIndex: 0, contract: '0xvault', eventName: 'Unknown', args: { topics: ['0xabcd'], data: '0x' } };
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xvault', topics: ['0xabcd'], data: '0x', txHash: '0x111', logIndex: 0 }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+      mockDecoder.rawEvents.mockReturnValue([rawEvent]);
+
+      await processor.processBlockEvents(12345);
+
+      expect(mockDb.event.createMany).not.toHaveBeenCalled();
+      expect(mockPersister.persistDerived).toHaveBeenCalledWith(mockTx, ['0x111'], [rawEvent], []);
+    });
+
+    it('should register deployments before decoding and leave out transfers of contracts without a token', async () => {
+      const blockNumber = 12345;
+      const transactions = [{ hash: '0x111', from: '0xa', to: null, contractAddress: '0xnew', status: 1, cumulativeGasUsed: 21000n }];
+      const transferEvent = { from: '0xa', to: '0xb', amount: '5', contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+      const nftContractTransfer = { ...transferEvent, contract: '0xnft', logIndex: 1 };
+
+      mockDb.transaction.findMany.mockResolvedValue(transactions as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xtoken', topics: ['0xddf2'], data: '0x05', txHash: '0x111', logIndex: 0, blockNumber: 12345n }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockImplementation(async () => {
+        expect(mockContractRegistry.applyBlock).toHaveBeenCalledWith(blockNumber, transactions);
+        return [];
+      });
+      mockDecoder.extractTransferEvents.mockResolvedValue([transferEvent, nftContractTransfer]);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockDecoder.decodeTransactionLogs).toHaveBeenCalled();
+      expect(mockDecoder.resolveTokens).toHaveBeenCalledWith(['0xtoken', '0xnft']);
+      expect(mockBalanceLedger.applyBlock).toHaveBeenCalledWith(mockTx, blockNumber, [transferEvent], new Map([['0xtoken', 7]]));
+    });
+
+    it('should hand approvals, transfers and transaction callers to the allowance tracker', async () => {
+      const blockNumber = 12345;
+      const decodedEvent = { eventName: 'Approval', args: {}, contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+      const approval = { owner: '0xa', spender: '0xrouter', value: '100', contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', from: '0xa', to: '0xtoken', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xtoken', topics: ['0x8c5b'], data: '0x64', txHash: '0x111', logIndex: 0 }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([decodedEvent]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+      mockDecoder.extractApprovalEvents.mockReturnValue([approval]);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockDecoder.resolveTokens).toHaveBeenCalledWith(['0xtoken']);
+      expect(mockAllowanceTracker.applyBlock).toHaveBeenCalledWith(
+        mockTx,
+        blockNumber,
+        [approval],
+        [],
+        new Map([['0x111', { from: '0xa', to: '0xtoken' }]]),
+        new Map([['0xtoken', 7]])
+      );
+    });
+
+    it('should apply the NFT transfers and approvals of a block', async () => {
+      const blockNumber = 12345;
+      const decodedEvent = { eventName: 'Transfer', args: {}, contract: '0xnft', txHash: '0x111', logIndex: 0 };
+      const nftTransfer = {
+        contract: '0xnft', standard: 'ERC721', txHash: '0x111', logIndex: 0, batchIndex: 0,
+        from: '0xa', to: '0xb', tokenId: '42', amount: '1'
+      };
+      const nftApproval = { contract: '0xnft', txHash: '0x111', logIndex: 1, owner: '0xa', operator: '0xc', approved: true };
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xnft', topics: ['0xddf2'], data: '0x', txHash: '0x111', logIndex: 0 }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([decodedEvent]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+      mockDecoder.extractNftTransfers.mockReturnValue([nftTransfer] as any);
+      mockDecoder.extractNftApprovals.mockReturnValue([nftApproval]);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockNftTracker.applyBlock).toHaveBeenCalledWith(mockTx, blockNumber, [nftTransfer], [nftApproval]);
+    });
+
+    it('should resolve the pools and tokens of DEX events before applying them', async () => {
+      const blockNumber = 12345;
+      const decodedEvent = { eventName: 'Swap', args: {}, contract: '0xpool', txHash: '0x111', logIndex: 2 };
+      const swap = { kind: 'swap', protocol: 'uniswap-v2', pool: '0xpool', txHash: '0x111', logIndex: 2, amount0: '5', amount1: '-9' };
+      const pools = new Map([['0xpool', { id: 3, address: '0xpool', protocol: 'uniswap-v2', token0: '0xweth', token1: '0xusdc' }]]);
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', from: '0xa', to: '0xrouter', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [{ address: '0xpool', topics: ['0xd78a'], data: '0x', txHash: '0x111', logIndex: 2 }]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([decodedEvent]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+      mockDecoder.extractDexEvents.mockReturnValue([swap] as any);
+      mockDexTracker.resolvePools.mockResolvedValue(pools);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockDexTracker.resolvePools).toHaveBeenCalledWith([swap]);
+      expect(mockDecoder.resolveTokens).toHaveBeenCalledWith(['0xweth', '0xusdc']);
+      expect(mockDexTracker.applyBlock).toHaveBeenCalledWith(
+        mockTx,
+        blockNumber,
+        [swap],
+        pools,
+        new Map([['0xtoken', { id: 7, decimals: 6 }]]),
+        new Map([['0x111', { from: '0xa', to: '0xrouter' }]])
+      );
+      expect(mockPriceOracle.applyBlock).toHaveBeenCalledWith(
+        mockTx,
+        blockNumber,
+        [swap],
+        pools,
+        new Map([['0xtoken', { id: 7, decimals: 6 }]])
+      );
+      expect(mockPositionTracker.supplyChanges).toHaveBeenCalledWith(blockNumber, pools, []);
+      expect(mockPositionTracker.applyBlock).toHaveBeenCalledWith(mockTx, blockNumber, [], [swap], pools, []);
     });
 
     it('should handle processing errors gracefully', async () => {
@@ -174,6 +479,60 @@ describe('EventProcessor', () => {
       await processor.processBlockEvents(blockNumber);
 
       expect(mockProvider.getTransactionReceipt).toHaveBeenCalledTimes(2);
+      expect(mockDeadLetters.settleBlock).toHaveBeenCalledWith(blockNumber, [
+        expect.objectContaining({ stage: 'transaction', key: '0x222', blockNumber, txHash: '0x222', error: new Error('RPC Error') })
+      ], expect.any(Date));
+    });
+
+    it('should send logs that do not decode to the dead-letter queue', async () => {
+      const blockNumber = 12345;
+      const decodedEvent = { eventName: 'Transfer', args: {}, contract: '0xtoken', txHash: '0x111', logIndex: 0 };
+
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({
+        cumulativeGasUsed: 21000n,
+        logs: [
+          { address: '0xtoken', topics: ['0xddf2'], data: '0x05', txHash: '0x111', logIndex: 0, blockNumber: 12345n },
+          { address: '0xvault', topics: ['0xabcd'], data: '0x', txHash: '0x111', logIndex: 1, blockNumber: 12345n }
+        ]
+      } as any);
+      mockDecoder.decodeTransactionLogs.mockResolvedValue([decodedEvent]);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+
+      await processor.processBlockEvents(blockNumber);
+
+      expect(mockDeadLetters.settleBlock).toHaveBeenCalledWith(blockNumber, [{
+        stage: 'log',
+        key: '0x111:1',
+        blockNumber,
+        txHash: '0x111',
+        error: 'No ABI or event signature matched topic0 0xabcd of 0xvault',
+        payload: { address: '0xvault', topics: ['0xabcd'], data: '0x', logIndex: 1 }
+      }], expect.any(Date));
+    });
+
+    it('should record a block that fails as a whole and rethrow', async () => {
+      mockDb.transaction.findMany.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(processor.processBlockEvents(12345)).rejects.toThrow('Connection lost');
+
+      expect(mockDeadLetters.record).toHaveBeenCalledWith(expect.objectContaining({ stage: 'block', key: '12345', blockNumber: 12345 }));
+      expect(mockDeadLetters.settleBlock).not.toHaveBeenCalled();
+    });
+
+    it('should apply every tracker in one transaction and not settle the block when one of them fails', async () => {
+      mockDb.transaction.findMany.mockResolvedValue([{ hash: '0x111', cumulativeGasUsed: 21000n }] as any);
+      mockDb.transaction.findUnique.mockResolvedValue({ cumulativeGasUsed: 21000n, logs: [] } as any);
+      mockDecoder.extractTransferEvents.mockResolvedValue([]);
+      mockNftTracker.applyBlock.mockRejectedValue(new Error('Deadlock detected'));
+
+      await expect(processor.processBlockEvents(12345)).rejects.toThrow('Deadlock detected');
+
+      expect(mockDb.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPersister.persistDerived).toHaveBeenCalledWith(mockTx, ['0x111'], [], []);
+      expect(mockDexTracker.applyBlock).not.toHaveBeenCalled();
+      expect(mockDeadLetters.record).toHaveBeenCalledWith(expect.objectContaining({ stage: 'block', key: '12345' }));
+      expect(mockDeadLetters.settleBlock).not.toHaveBeenCalled();
     });
   });
 
@@ -220,13 +579,15 @@ describe('EventProcessor', () => {
           from: address,
           to: '0x2222222222222222222222222222222222222222',
           amount: '1000000',
+          amountRaw: { toFixed: () => '1000000' },
           txHash: '0x123',
           createdAt: new Date(),
           token: {
             address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
             name: 'USDT',
             symbol: 'USDT',
-            decimals: 6
+            decimals: 6,
+            metadataStatus: 'ok'
           }
         }
       ];
@@ -237,6 +598,7 @@ describe('EventProcessor', () => {
 
       expect(transfers).toHaveLength(1);
       expect(transfers[0].from).toBe(address);
+      expect(transfers[0].amount).toEqual({ raw: '1000000', formatted: '1', decimals: 6 });
       expect(transfers[0].token.address).toBe('0xdAC17F958D2ee523a2206206994597C13D831ec7');
 
       expect(mockDb.transfer.findMany).toHaveBeenCalledWith({
@@ -0,0 +1,91 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { EventSignatureDatabase } from '../src/processing/event-signatures';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('EventSignatureDatabase', () => {
+  let database: EventSignatureDatabase;
+
+  const transferTopic = ethers.id('Transfer(address,address,uint256)');
+  const addressTopic = (address: string) => ethers.zeroPadValue(address, 32);
+  const uint = (value: number) => ethers.zeroPadValue(ethers.toBeHex(value), 32);
+  const from = '0x1111111111111111111111111111111111111111';
+  const to = '0x2222222222222222222222222222222222222222';
+
+  beforeEach(() => {
+    database = new EventSignatureDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should decode an ERC-20 Transfer from three topics', () => {
+    const match = database.decode({
+      topics: [transferTopic, addressTopic(from), addressTopic(to)],
+      data: uint(1000)
+    });
+
+    expect(match?.fragment.name).toBe('Transfer');
+    expect(match?.args.value).toBe(1000n);
+    expect(match?.args.tokenId).toBeUndefined();
+    expect(match?.confidence).toBe('signature');
+  });
+
+  it('should decode an ERC-721 Transfer from four topics', () => {
+    const match = database.decode({
+      topics: [transferTopic, addressTopic(from), addressTopic(to), uint(42)],
+      data: '0x'
+    });
+
+    expect(match?.args.tokenId).toBe(42n);
+    expect(match?.args.value).toBeUndefined();
+    expect(match?.confidence).toBe('signature');
+  });
+
+  it('should reject candidates whose data layout does not match', () => {
+    // Three topics but two words of data: neither Transfer variant encodes to this
+    expect(database.decode({
+      topics: [transferTopic, addressTopic(from), addressTopic(to)],
+      data: uint(1) + uint(2).slice(2)
+    })).toBeNull();
+    expect(database.decode({ topics: [ethers.id('Unknown(uint256)')], data: uint(1) })).toBeNull();
+    expect(database.decode({ topics: [], data: '0x' })).toBeNull();
+  });
+
+  it('should infer the indexed layout of text signatures and mark the decode as inferred', () => {
+    const custom = new EventSignatureDatabase(['Staked(address,uint256,uint256)']);
+
+    const match = custom.decode({
+      topics: [ethers.id('Staked(address,uint256,uint256)'), addressTopic(from)],
+      data: uint(5) + uint(6).slice(2)
+    });
+
+    expect(match?.fragment.name).toBe('Staked');
+    expect(match?.args.toArray()).toEqual([from, 5n, 6n]);
+    expect(match?.confidence).toBe('inferred');
+  });
+
+  it('should load 4byte-style signature exports', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'signatures-')), 'events.json');
+    fs.writeFileSync(filePath, JSON.stringify({
+      results: [{ text_signature: 'Staked(address,uint256)' }, { text_signature: 'not a signature(' }]
+    }));
+    const sizeBefore = database.size;
+
+    expect(database.loadFile(filePath)).toBe(1);
+    expect(database.size).toBe(sizeBefore + 1);
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  it('should skip entries that are neither signatures nor objects with one', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'signatures-')), 'events.json');
+    fs.writeFileSync(filePath, JSON.stringify(['Unstaked(address,uint256)', 42, null, { text_signature: 7 }, { id: 1 }]));
+
+    expect(database.loadFile(filePath)).toBe(1);
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { FunctionSignatureDatabase, functionSelector } from '../src/processing/function-signatures';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('FunctionSignatureDatabase', () => {
+  let database: FunctionSignatureDatabase;
+
+  const erc20 = new ethers.Interface(['function transfer(address to, uint256 value)']);
+  const to = '0x2222222222222222222222222222222222222222';
+
+  beforeEach(() => {
+    database = new FunctionSignatureDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should decode an ERC-20 transfer by its selector', () => {
+    const match = database.decode(erc20.encodeFunctionData('transfer', [to, 1000n]));
+
+    expect(match?.fragment.format('sighash')).toBe('transfer(address,uint256)');
+    expect(match?.args.to).toBe(to);
+    expect(match?.args.value).toBe(1000n);
+    expect(match?.confidence).toBe('signature');
+  });
+
+  it('should reject calldata that does not re-encode to the same bytes', () => {
+    const data = erc20.encodeFunctionData('transfer', [to, 1000n]);
+
+    expect(database.decode(data + 'ff'.repeat(32))).toBeNull();
+    expect(database.decode('0xdeadbeef')).toBeNull();
+  });
+
+  it('should mark calls decoded with a text signature as inferred', () => {
+    const custom = new FunctionSignatureDatabase([]);
+    custom.add('harvest(uint256)');
+
+    const match = custom.decode(new ethers.Interface(['function harvest(uint256)']).encodeFunctionData('harvest', [3n]));
+
+    expect(match?.fragment.name).toBe('harvest');
+    expect(match?.args[0]).toBe(3n);
+    expect(match?.confidence).toBe('inferred');
+  });
+
+  it('should load 4byte-style signature exports', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'function-signatures-')), 'signatures.json');
+    fs.writeFileSync(filePath, JSON.stringify({ results: [{ text_signature: 'harvest(uint256)' }, { text_signature: 'not a signature' }] }));
+    const custom = new FunctionSignatureDatabase([]);
+
+    expect(custom.loadFile(filePath)).toBe(1);
+    expect(custom.size).toBe(1);
+  });
+
+  describe('functionSelector', () => {
+    it('should only return selectors of contract calls', () => {
+      expect(functionSelector(to, '0xA9059CBB00')).toBe('0xa9059cbb');
+      expect(functionSelector(null, '0x60806040')).toBeNull();
+      expect(functionSelector(to, '0x')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { HeadSubscriber, parseAddressList } from '../src/ingestion/head-subscriber';
+import { ethers } from 'ethers';
+
+// Mock ethers
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers') as any;
+  return {
+    ethers: {
+      ...actual.ethers,
+      WebSocketProvider: jest.fn()
+    }
+  };
+});
+
+describe('HeadSubscriber', () => {
+  let providers: any[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    providers = [];
+
+    // Every connection gets its own mock provider and socket
+    (ethers.WebSocketProvider as unknown as jest.Mock).mockImplementation(() => {
+      const listeners: Record<string, any> = {};
+      const provider: any = {
+        websocket: {},
+        listeners,
+        on: jest.fn(async (event: any, listener: any) => {
+          listeners[typeof event === 'string' ? event : 'logs'] = listener;
+        }),
+        destroy: jest.fn(async () => {})
+      };
+      providers.push(provider);
+      return provider;
+    });
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('parseAddressList', () => {
+    it('should keep only valid addresses', () => {
+      expect(parseAddressList('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48, nope')).toEqual([
+        '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+      ]);
+      expect(parseAddressList(undefined)).toEqual([]);
+    });
+  });
+
+  it('should forward announced heads and subscribed logs', () => {
+    const onHead = jest.fn();
+    const onLog = jest.fn();
+    const subscriber = new HeadSubscriber(
+      { wsUrl: 'wss://test-rpc.com', logAddresses: ['0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'] },
+      { onHead, onLog }
+    );
+
+    subscriber.start();
+    expect(subscriber.getStatus().state).toBe('connecting');
+
+    providers[0].listeners.block(100);
+    providers[0].listeners.logs({ blockNumber: 100, removed: false });
+
+    expect(onHead).toHaveBeenCalledWith(100);
+    expect(onLog).toHaveBeenCalledWith({ blockNumber: 100, removed: false });
+    expect(providers[0].on).toHaveBeenCalledWith({ address: ['0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'] }, expect.any(Function));
+    expect(subscriber.isConnected()).toBe(true);
+  });
+
+  it('should count heads skipped between announcements as missed', () => {
+    const subscriber = new HeadSubscriber({ wsUrl: 'wss://test-rpc.com' }, { onHead: jest.fn() });
+
+    subscriber.start();
+    providers[0].listeners.block(100);
+    providers[0].listeners.block(104);
+
+    expect(subscriber.getStatus()).toEqual(expect.objectContaining({ lastHead: 104, missedBlocks: 3 }));
+  });
+
+  it('should reconnect with exponential back-off after the socket closes', () => {
+    const subscriber = new HeadSubscriber({ wsUrl: 'wss://test-rpc.com', reconnectDelay: 1000 }, { onHead: jest.fn() });
+
+    subscriber.start();
+    providers[0].websocket.onclose();
+
+    expect(subscriber.getStatus()).toEqual(expect.objectContaining({ state: 'disconnected', lastError: 'Socket closed' }));
+    expect(providers[0].destroy).toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(providers).toHaveLength(2);
+
+    // A second failure before any head doubles the delay
+    providers[1].websocket.onerror(new Error('refused'));
+    jest.advanceTimersByTime(1999);
+    expect(providers).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(providers).toHaveLength(3);
+
+    // Late events from replaced sockets are ignored
+    providers[0].websocket.onclose();
+    expect(subscriber.getStatus()).toEqual(expect.objectContaining({ state: 'connecting', reconnects: 2 }));
+  });
+
+  it('should reconnect when no head arrives within the stale timeout', () => {
+    const subscriber = new HeadSubscriber({ wsUrl: 'wss://test-rpc.com', staleTimeout: 5000 }, { onHead: jest.fn() });
+
+    subscriber.start();
+    providers[0].listeners.block(100);
+    jest.advanceTimersByTime(5000);
+
+    expect(subscriber.getStatus().state).toBe('disconnected');
+    expect(subscriber.getStatus().lastError).toBe('No new head for 5000ms');
+  });
+
+  it('should stop reconnecting once stopped', async () => {
+    const subscriber = new HeadSubscriber({ wsUrl: 'wss://test-rpc.com' }, { onHead: jest.fn() });
+
+    subscriber.start();
+    providers[0].websocket.onclose();
+    await subscriber.stop();
+    jest.advanceTimersByTime(120000);
+
+    expect(providers).toHaveLength(1);
+    expect(subscriber.getStatus().state).toBe('stopped');
+  });
+});
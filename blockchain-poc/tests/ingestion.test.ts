@@ -1,15 +1,23 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { IngestionService } from '../src/ingestion/ingestion-service';
 import { BlockchainFetcher } from '../src/ingestion/blockchain-fetcher';
+import { ReorgHandler } from '../src/ingestion/reorg-handler';
+import { BlockPersister } from '../src/ingestion/block-persister';
+import { HeadSubscriber } from '../src/ingestion/head-subscriber';
 import { PrismaClient } from '@prisma/client';
 
-// Mock the BlockchainFetcher
+// Mock the BlockchainFetcher, ReorgHandler, BlockPersister and HeadSubscriber
 jest.mock('../src/ingestion/blockchain-fetcher');
+jest.mock('../src/ingestion/reorg-handler');
+jest.mock('../src/ingestion/block-persister');
+jest.mock('../src/ingestion/head-subscriber');
 
 describe('IngestionService', () => {
   let ingestionService: IngestionService;
   let mockDb: jest.Mocked<PrismaClient>;
   let mockFetcher: jest.Mocked<BlockchainFetcher>;
+  let mockReorgHandler: jest.Mocked<ReorgHandler>;
+  let mockPersister: jest.Mocked<BlockPersister>;
 
   beforeEach(() => {
     // Mock database
@@ -22,20 +30,53 @@ describe('IngestionService', () => {
       transaction: {
         count: jest.fn()
       },
+      ingestionCheckpoint: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(),
+        updateMany: jest.fn()
+      },
+      failedItem: {
+        findMany: jest.fn(async () => []),
+        createMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn()
+      },
       $disconnect: jest.fn()
     } as any;
 
     // Mock fetcher
     mockFetcher = {
+      testConnection: jest.fn(),
+      getLatestBlockNumber: jest.fn(),
       getLatestBlock: jest.fn(),
       getBlock: jest.fn(),
-      getBlockTransactions: jest.fn(),
-      storeBlock: jest.fn(),
-      storeTransaction: jest.fn()
+      getBlockReceipts: jest.fn(),
+      getBlockWithdrawals: jest.fn(),
+      getBlockInternalTransfers: jest.fn()
+    } as any;
+    mockFetcher.getBlockWithdrawals.mockResolvedValue([]);
+    mockFetcher.getBlockInternalTransfers.mockResolvedValue([]);
+
+    // Receipts for every requested transaction
+    mockFetcher.getBlockReceipts.mockImplementation(async (_blockNumber: number, txHashes: string[]) =>
+      new Map(txHashes.map(hash => [hash, { transactionHash: hash, status: 1, gasUsed: 21000n, logs: [] } as any]))
+    );
+
+    // Mock reorg handler (no reorgs by default)
+    mockReorgHandler = {
+      handleBlock: jest.fn()
     } as any;
+    mockReorgHandler.handleBlock.mockResolvedValue(null);
 
-    // Mock BlockchainFetcher constructor
+    // Mock persister
+    mockPersister = {
+      persistBlock: jest.fn()
+    } as any;
+
+    // Mock BlockchainFetcher, ReorgHandler and BlockPersister constructors
     (BlockchainFetcher as jest.Mock).mockImplementation(() => mockFetcher);
+    (ReorgHandler as jest.Mock).mockImplementation(() => mockReorgHandler);
+    (BlockPersister as jest.Mock).mockImplementation(() => mockPersister);
 
     ingestionService = new IngestionService('https://test-rpc.com', mockDb);
   });
@@ -52,7 +93,8 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       const mockBlock = {
@@ -61,7 +103,8 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       const mockTransactions = [
@@ -84,17 +127,17 @@ describe('IngestionService', () => {
       ];
 
       mockFetcher.getLatestBlock.mockResolvedValue(mockLatestBlock);
-      mockFetcher.getBlock.mockResolvedValue(mockBlock);
-      mockFetcher.getBlockTransactions.mockResolvedValue(mockTransactions);
-      mockFetcher.storeBlock.mockResolvedValue();
-      mockFetcher.storeTransaction.mockResolvedValue();
+      mockFetcher.getBlock.mockResolvedValue({ ...mockBlock, prefetchedTransactions: mockTransactions });
 
       await ingestionService.startIngestion(2);
 
       expect(mockFetcher.getLatestBlock).toHaveBeenCalledTimes(1);
       expect(mockFetcher.getBlock).toHaveBeenCalledTimes(2);
-      expect(mockFetcher.storeBlock).toHaveBeenCalledTimes(2);
-      expect(mockFetcher.storeTransaction).toHaveBeenCalledTimes(4);
+      expect(mockFetcher.getBlockReceipts).toHaveBeenCalledWith(100, ['0xtx1', '0xtx2']);
+      expect(mockPersister.persistBlock).toHaveBeenCalledTimes(2);
+      expect(mockPersister.persistBlock.mock.calls[0][0].transactions).toEqual(mockTransactions);
+      expect(mockPersister.persistBlock.mock.calls[0][0].receipts.size).toBe(2);
+      expect(mockPersister.persistBlock.mock.calls[0][0].withdrawals).toEqual([]);
     });
 
     it('should handle errors gracefully and continue processing', async () => {
@@ -104,7 +147,8 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       const mockBlock = {
@@ -113,20 +157,26 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       mockFetcher.getLatestBlock.mockResolvedValue(mockLatestBlock);
       mockFetcher.getBlock
         .mockRejectedValueOnce(new Error('Block fetch failed'))
         .mockResolvedValueOnce(mockBlock);
-      mockFetcher.getBlockTransactions.mockResolvedValue([]);
-      mockFetcher.storeBlock.mockResolvedValue();
 
       await ingestionService.startIngestion(2);
 
       expect(mockFetcher.getBlock).toHaveBeenCalledTimes(2);
-      expect(mockFetcher.storeBlock).toHaveBeenCalledTimes(1);
+      expect(mockPersister.persistBlock).toHaveBeenCalledTimes(1);
+      expect((mockDb as any).failedItem.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ stage: 'ingest', key: '100', blockNumber: 100n, error: 'Block fetch failed', attempts: 1, status: 'pending' })],
+        skipDuplicates: true
+      });
+      expect((mockDb as any).failedItem.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { stage: 'ingest', key: '99', status: { not: 'resolved' } }
+      }));
     });
 
     it('should prevent concurrent ingestion', async () => {
@@ -136,7 +186,8 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       mockFetcher.getLatestBlock.mockResolvedValue(mockLatestBlock);
@@ -167,16 +218,226 @@ describe('IngestionService', () => {
       mockDb.block.findFirst.mockResolvedValue(mockLastBlock);
       mockDb.block.count.mockResolvedValue(10);
       mockDb.transaction.count.mockResolvedValue(50);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue(null);
+      mockFetcher.testConnection.mockResolvedValue({ success: true, blockNumber: 105 });
 
       const status = await ingestionService.getIngestionStatus();
 
       expect(status).toEqual({
         isRunning: false,
+        isFollowing: false,
         lastProcessedBlock: 100,
         totalBlocks: 10,
-        totalTransactions: 50
+        totalTransactions: 50,
+        cursor: undefined,
+        chainHead: 105,
+        lag: undefined,
+        lastError: undefined
       });
     });
+
+    it('should report cursor, lag and last error from the checkpoint', async () => {
+      const blockTimestamp = new Date(1234567890 * 1000);
+
+      mockDb.block.findFirst.mockResolvedValue(null);
+      mockDb.block.count.mockResolvedValue(0);
+      mockDb.transaction.count.mockResolvedValue(0);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue({
+        name: 'follow-head',
+        blockNumber: 98n,
+        blockHash: '0xabc',
+        blockTimestamp,
+        lastError: 'RPC timeout'
+      });
+      mockFetcher.testConnection.mockResolvedValue({ success: true, blockNumber: 105 });
+
+      const status = await ingestionService.getIngestionStatus();
+
+      expect(status.cursor).toEqual({ blockNumber: 98, blockHash: '0xabc', blockTimestamp });
+      expect(status.chainHead).toBe(105);
+      expect(status.lag).toBe(7);
+      expect(status.lastError).toBe('RPC timeout');
+    });
+  });
+
+  describe('startFollowing', () => {
+    const makeBlock = (number: number) => ({
+      number,
+      hash: `0xhash${number}`,
+      timestamp: 1234567890 + number,
+      parentHash: `0xhash${number - 1}`,
+      gasUsed: 1000000n,
+      gasLimit: 2000000n,
+      prefetchedTransactions: []
+    });
+
+    beforeEach(() => {
+      mockFetcher.getBlock.mockImplementation(async (blockNumber: number) => makeBlock(blockNumber));
+    });
+
+    it('should resume from the checkpoint and ingest every block in order', async () => {
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(101);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue({
+        name: 'follow-head',
+        blockNumber: 98n,
+        blockHash: '0xhash98',
+        blockTimestamp: new Date(),
+        lastError: null
+      });
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => {
+        if (args.create.blockNumber === 101n) {
+          ingestionService.stopFollowing();
+        }
+        return args.create;
+      });
+
+      await ingestionService.startFollowing({ pollInterval: 10 });
+
+      expect(mockFetcher.getBlock.mock.calls.map(call => call[0])).toEqual([99, 100, 101]);
+      expect(mockDb.ingestionCheckpoint.upsert).toHaveBeenCalledTimes(3);
+      expect(mockDb.ingestionCheckpoint.upsert).toHaveBeenLastCalledWith({
+        where: { name: 'follow-head' },
+        update: {
+          blockNumber: 101n,
+          blockHash: '0xhash101',
+          blockTimestamp: new Date((1234567890 + 101) * 1000),
+          lastError: null
+        },
+        create: {
+          name: 'follow-head',
+          blockNumber: 101n,
+          blockHash: '0xhash101',
+          blockTimestamp: new Date((1234567890 + 101) * 1000),
+          lastError: null
+        }
+      });
+    });
+
+    it('should start from the configured start block when no checkpoint exists', async () => {
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(100);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue(null);
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => {
+        ingestionService.stopFollowing();
+        return args.create;
+      });
+
+      await ingestionService.startFollowing({ pollInterval: 10, startBlock: 95 });
+
+      expect(mockFetcher.getBlock).toHaveBeenCalledTimes(1);
+      expect(mockFetcher.getBlock).toHaveBeenCalledWith(95);
+    });
+
+    it('should not advance the cursor past a failed block and record the error', async () => {
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(100);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue({
+        name: 'follow-head',
+        blockNumber: 98n,
+        blockHash: '0xhash98',
+        blockTimestamp: new Date(),
+        lastError: null
+      });
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => args.create);
+      mockDb.ingestionCheckpoint.updateMany.mockImplementation(async () => {
+        ingestionService.stopFollowing();
+        return { count: 1 };
+      });
+      mockFetcher.getBlock.mockRejectedValue(new Error('Block fetch failed'));
+
+      await ingestionService.startFollowing({ pollInterval: 10 });
+
+      expect(mockDb.ingestionCheckpoint.upsert).not.toHaveBeenCalled();
+      expect(mockDb.ingestionCheckpoint.updateMany).toHaveBeenCalledWith({
+        where: { name: 'follow-head' },
+        data: { lastError: 'Block fetch failed' }
+      });
+    });
+
+    it('should rewind to the common ancestor and re-ingest after a reorg', async () => {
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(100);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue({
+        name: 'follow-head',
+        blockNumber: 98n,
+        blockHash: '0xhash98',
+        blockTimestamp: new Date(),
+        lastError: null
+      });
+      mockReorgHandler.handleBlock.mockResolvedValueOnce({
+        detectedAtBlock: 99,
+        depth: 2,
+        commonAncestor: { blockNumber: 96, blockHash: '0xhash96', blockTimestamp: new Date(96000) },
+        orphanedHashes: ['0xold98', '0xold97'],
+        canonicalHashes: ['0xhash98', '0xhash97']
+      });
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => {
+        if (args.create.blockNumber === 100n) {
+          ingestionService.stopFollowing();
+        }
+        return args.create;
+      });
+
+      await ingestionService.startFollowing({ pollInterval: 10 });
+
+      expect(mockFetcher.getBlock.mock.calls.map(call => call[0])).toEqual([99, 97, 98, 99, 100]);
+      expect(mockDb.ingestionCheckpoint.upsert.mock.calls[0][0].create.blockNumber).toBe(96n);
+    });
+
+    it('should ingest announced heads right away and fill the gap from the cursor', async () => {
+      let cursorBlock = 99n;
+      let subscriberHandlers: any;
+      const mockSubscriber: any = {
+        start: jest.fn(),
+        stop: jest.fn(),
+        getStatus: jest.fn()
+      };
+      (HeadSubscriber as jest.Mock).mockImplementation((_config: any, handlers: any) => {
+        subscriberHandlers = handlers;
+        return mockSubscriber;
+      });
+
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(100);
+      mockDb.ingestionCheckpoint.findUnique.mockImplementation(async () => ({
+        name: 'follow-head',
+        blockNumber: cursorBlock,
+        blockHash: `0xhash${cursorBlock}`,
+        blockTimestamp: new Date(),
+        lastError: null
+      }) as any);
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => {
+        cursorBlock = args.create.blockNumber;
+        if (cursorBlock === 100n) {
+          // Heads 101 and 102 were never announced
+          setTimeout(() => subscriberHandlers.onHead(103), 0);
+        }
+        if (cursorBlock === 103n) {
+          ingestionService.stopFollowing();
+        }
+        return args.create;
+      });
+
+      await ingestionService.startFollowing({ pollInterval: 60000, wsUrl: 'wss://test-rpc.com', logAddresses: [] });
+
+      expect(HeadSubscriber).toHaveBeenCalledWith(
+        { wsUrl: 'wss://test-rpc.com', logAddresses: [] },
+        expect.objectContaining({ onHead: expect.any(Function) })
+      );
+      expect(mockSubscriber.start).toHaveBeenCalled();
+      expect(mockSubscriber.stop).toHaveBeenCalled();
+      expect(mockFetcher.getBlock.mock.calls.map(call => call[0])).toEqual([100, 101, 102, 103]);
+      expect(mockFetcher.getLatestBlockNumber).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prevent starting while another ingestion is running', async () => {
+      mockFetcher.getLatestBlockNumber.mockResolvedValue(100);
+      mockDb.ingestionCheckpoint.findUnique.mockResolvedValue(null);
+      mockDb.ingestionCheckpoint.upsert.mockImplementation(async (args: any) => args.create);
+
+      const following = ingestionService.startFollowing({ pollInterval: 10 });
+
+      await expect(ingestionService.startIngestion(1)).rejects.toThrow('Ingestion is already running');
+
+      ingestionService.stopFollowing();
+      await following;
+    });
   });
 
   describe('getIngestionStats', () => {
@@ -210,7 +471,8 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       const mockBlock = {
@@ -219,13 +481,12 @@ describe('IngestionService', () => {
         timestamp: 1234567890,
         parentHash: '0x456',
         gasUsed: 1000000n,
-        gasLimit: 2000000n
+        gasLimit: 2000000n,
+        prefetchedTransactions: []
       };
 
       mockFetcher.getLatestBlock.mockResolvedValue(mockLatestBlock);
       mockFetcher.getBlock.mockResolvedValue(mockBlock);
-      mockFetcher.getBlockTransactions.mockResolvedValue([]);
-      mockFetcher.storeBlock.mockResolvedValue();
 
       // Mock getIngestionStats
       mockDb.block.aggregate.mockResolvedValue({ _count: { number: 3 } });
@@ -238,7 +499,7 @@ describe('IngestionService', () => {
 
       expect(mockFetcher.getLatestBlock).toHaveBeenCalledTimes(1);
       expect(mockFetcher.getBlock).toHaveBeenCalledTimes(3);
-      expect(mockFetcher.storeBlock).toHaveBeenCalledTimes(3);
+      expect(mockPersister.persistBlock).toHaveBeenCalledTimes(3);
     });
   });
 });
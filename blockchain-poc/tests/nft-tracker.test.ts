@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { NftTracker, revertNftTransfers } from '../src/processing/nft-tracker';
+import { NftTransferEvent } from '../src/processing/event-decoder';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('NftTracker', () => {
+  let tracker: NftTracker;
+  let mockDb: any;
+  let mockTx: any;
+
+  const alice = '0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa';
+  const bob = '0xBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBbBb';
+
+  const makeTransfer = (overrides: Partial<NftTransferEvent> = {}): NftTransferEvent => ({
+    contract: '0xNFT',
+    standard: 'ERC721',
+    txHash: '0xtx1',
+    logIndex: 0,
+    batchIndex: 0,
+    from: alice,
+    to: bob,
+    tokenId: '42',
+    amount: '1',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockTx = {
+      nftCollection: {
+        createMany: jest.fn(),
+        updateMany: jest.fn(),
+        findMany: jest.fn(async () => [{ id: 1, address: '0xnft' }])
+      },
+      nftToken: {
+        createMany: jest.fn(),
+        findMany: jest.fn(async () => [{ id: 10, collectionId: 1, tokenId: '42' }])
+      },
+      nftTransfer: {
+        findMany: jest.fn(async () => []),
+        createMany: jest.fn(),
+        deleteMany: jest.fn()
+      },
+      nftBalance: {
+        upsert: jest.fn(),
+        deleteMany: jest.fn()
+      },
+      nftApproval: {
+        upsert: jest.fn(),
+        deleteMany: jest.fn()
+      }
+    };
+    mockDb = {};
+
+    tracker = new NftTracker(mockDb as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not write anything for a block without NFT activity', async () => {
+    const result = await tracker.applyBlock(mockTx, 100, [], []);
+
+    expect(result).toEqual({ transfers: 0, approvals: 0 });
+    expect(mockTx.nftCollection.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should record transfers and move the balance from sender to recipient', async () => {
+    const result = await tracker.applyBlock(mockTx, 100, [makeTransfer()], []);
+
+    expect(result).toEqual({ transfers: 1, approvals: 0 });
+    expect(mockTx.nftCollection.createMany).toHaveBeenCalledWith({
+      data: [{ address: '0xnft', standard: 'ERC721' }],
+      skipDuplicates: true
+    });
+    expect(mockTx.nftToken.createMany).toHaveBeenCalledWith({ data: [{ collectionId: 1, tokenId: '42' }], skipDuplicates: true });
+    expect(mockTx.nftTransfer.createMany).toHaveBeenCalledWith({
+      data: [{
+        txHash: '0xtx1', logIndex: 0, batchIndex: 0, blockNumber: 100n, collectionId: 1, nftTokenId: 10,
+        operator: null, from: alice.toLowerCase(), to: bob.toLowerCase(), amount: '1'
+      }],
+      skipDuplicates: true
+    });
+    expect(mockTx.nftBalance.upsert).toHaveBeenCalledWith({
+      where: { nftTokenId_owner: { nftTokenId: 10, owner: alice.toLowerCase() } },
+      update: { balance: { increment: '-1' } },
+      create: { nftTokenId: 10, owner: alice.toLowerCase(), balance: '-1' }
+    });
+    expect(mockTx.nftBalance.upsert).toHaveBeenCalledWith({
+      where: { nftTokenId_owner: { nftTokenId: 10, owner: bob.toLowerCase() } },
+      update: { balance: { increment: '1' } },
+      create: { nftTokenId: 10, owner: bob.toLowerCase(), balance: '1' }
+    });
+    expect(mockTx.nftBalance.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [{ nftTokenId: 10, owner: alice.toLowerCase() }, { nftTokenId: 10, owner: bob.toLowerCase() }],
+        balance: { equals: 0 }
+      }
+    });
+  });
+
+  it('should not keep a balance for the zero address on mints', async () => {
+    await tracker.applyBlock(mockTx, 100, [makeTransfer({ from: ethers.ZeroAddress })], []);
+
+    expect(mockTx.nftBalance.upsert).toHaveBeenCalledTimes(1);
+    expect(mockTx.nftBalance.upsert.mock.calls[0][0].where.nftTokenId_owner.owner).toBe(bob.toLowerCase());
+  });
+
+  it('should net out transfers of the same token within a block', async () => {
+    await tracker.applyBlock(mockTx, 100, [
+      makeTransfer({ from: ethers.ZeroAddress, to: alice, logIndex: 0 }),
+      makeTransfer({ from: alice, to: bob, logIndex: 1 })
+    ], []);
+
+    expect(mockTx.nftBalance.upsert).toHaveBeenCalledTimes(1);
+    expect(mockTx.nftBalance.upsert.mock.calls[0][0].where.nftTokenId_owner.owner).toBe(bob.toLowerCase());
+  });
+
+  it('should skip transfers already recorded when a block is processed again', async () => {
+    mockTx.nftTransfer.findMany.mockResolvedValue([{ txHash: '0xtx1', logIndex: 0, batchIndex: 0 }]);
+
+    const result = await tracker.applyBlock(mockTx, 100, [makeTransfer()], []);
+
+    expect(result.transfers).toBe(0);
+    expect(mockTx.nftTransfer.createMany).not.toHaveBeenCalled();
+    expect(mockTx.nftBalance.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should upsert operator approvals in log order', async () => {
+    const approval = { contract: '0xNFT', txHash: '0xtx1', owner: alice, operator: bob };
+
+    await tracker.applyBlock(mockTx, 100, [], [
+      { ...approval, logIndex: 5, approved: false },
+      { ...approval, logIndex: 2, approved: true }
+    ]);
+
+    expect(mockTx.nftCollection.createMany).toHaveBeenCalledWith({ data: [{ address: '0xnft', standard: null }], skipDuplicates: true });
+    expect(mockTx.nftApproval.upsert).toHaveBeenCalledTimes(2);
+    expect(mockTx.nftApproval.upsert.mock.calls[1][0]).toEqual({
+      where: { collectionId_owner_operator: { collectionId: 1, owner: alice.toLowerCase(), operator: bob.toLowerCase() } },
+      update: { approved: false, blockNumber: 100n, txHash: '0xtx1' },
+      create: { collectionId: 1, owner: alice.toLowerCase(), operator: bob.toLowerCase(), approved: false, blockNumber: 100n, txHash: '0xtx1' }
+    });
+  });
+
+  describe('revertNftTransfers', () => {
+    it('should give tokens back to the sender and delete the transfers', async () => {
+      mockTx.nftTransfer.findMany.mockResolvedValue([
+        { nftTokenId: 10, from: alice.toLowerCase(), to: bob.toLowerCase(), amount: { toFixed: () => '3' } }
+      ]);
+
+      await revertNftTransfers(mockTx, ['0xtx1']);
+
+      expect(mockTx.nftBalance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { nftTokenId_owner: { nftTokenId: 10, owner: alice.toLowerCase() } },
+        update: { balance: { increment: '3' } }
+      }));
+      expect(mockTx.nftBalance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { nftTokenId_owner: { nftTokenId: 10, owner: bob.toLowerCase() } },
+        update: { balance: { increment: '-3' } }
+      }));
+      expect(mockTx.nftTransfer.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+      expect(mockTx.nftApproval.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { PositionTracker, positionAmounts, revertLiquidityPositions } from '../src/processing/position-tracker';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { ResolvedPool } from '../src/processing/dex-tracker';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('PositionTracker', () => {
+  let tracker: PositionTracker;
+  let mockDb: any;
+  let mockTx: any;
+  let mockBatcher: any;
+
+  const manager = '0xc36442b4a4522e871399cd717abdd847ab11fe88';
+  const owner = '0x1111111111111111111111111111111111111111';
+  const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+  const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const v2Pool = { id: 3, address: '0xv2pool', protocol: 'uniswap-v2' as const, token0: usdc, token1: weth };
+  const v3Pool = { id: 4, address: '0xv3pool', protocol: 'uniswap-v3' as const, token0: usdc, token1: weth };
+  const pools = new Map<string, ResolvedPool>([['0xv2pool', v2Pool], ['0xv3pool', v3Pool]]);
+  const q96 = 2n ** 96n;
+
+  const increase = (logIndex: number, liquidity: string = '1000') => ({
+    kind: 'increase' as const, manager, tokenId: '42', txHash: '0xtx1', logIndex, liquidity, amount0: '10', amount1: '20'
+  });
+  const poolMint = (logIndex: number, liquidity: string = '1000') => ({
+    kind: 'mint' as const, protocol: 'uniswap-v3' as const, pool: '0xV3Pool', txHash: '0xtx1', logIndex,
+    sender: manager, owner: ethers.getAddress(manager), amount0: '10', amount1: '20', liquidity, tickLower: -60, tickUpper: 60
+  });
+  const lpTransfer = (from: string, to: string, amount: string) => ({ contract: '0xv2pool', from, to, amount, txHash: '0xtx1', logIndex: 0 });
+
+  beforeEach(() => {
+    mockTx = {
+      poolSupply: { findUnique: jest.fn(async () => null), findFirst: jest.fn(async () => null), create: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() },
+      positionEvent: { findMany: jest.fn(async () => []), createMany: jest.fn(), deleteMany: jest.fn(), groupBy: jest.fn(async () => []) },
+      liquidityPosition: { upsert: jest.fn(async () => ({ id: 9 })), update: jest.fn(), delete: jest.fn() }
+    };
+    mockDb = {
+      poolSupply: { findMany: jest.fn(async () => []), findFirst: jest.fn(async () => null) },
+      poolEvent: { findFirst: jest.fn(async () => null) },
+      pool: { findMany: jest.fn(async () => []) },
+      token: { findMany: jest.fn(async () => [
+        { address: usdc, decimals: 6, metadataStatus: 'ok' },
+        { address: weth, decimals: 18, metadataStatus: 'ok' }
+      ]) },
+      tokenBalance: { findMany: jest.fn(async () => []) },
+      balanceCheckpoint: { findMany: jest.fn(async () => []) },
+      balanceReconciliation: { findMany: jest.fn(async () => []) },
+      nftBalance: { findMany: jest.fn(async () => []) },
+      nftTransfer: { findMany: jest.fn(async () => []) },
+      liquidityPosition: { findMany: jest.fn(async () => []) },
+      positionEvent: { groupBy: jest.fn(async () => []) },
+      swap: { findFirst: jest.fn(async () => null) }
+    };
+    mockBatcher = { call: jest.fn() };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    tracker = new PositionTracker(mockDb as PrismaClient, mockBatcher as RpcBatcher, { managers: [manager] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('positionAmounts', () => {
+    it('should hold only token0 below the range, only token1 above it and both inside', () => {
+      const liquidity = 10n ** 18n;
+      const below = positionAmounts(liquidity, q96 / 2n, -60, 60);
+      const inside = positionAmounts(liquidity, q96, -60, 60);
+      const above = positionAmounts(liquidity, q96 * 2n, -60, 60);
+
+      expect(below.amount1).toBe(0n);
+      expect(below.amount0).toBeGreaterThan(0n);
+      expect(above.amount0).toBe(0n);
+      // L * (sqrt(1.0001^60) - sqrt(1.0001^-60)), about 0.6% of the liquidity
+      expect(Number(above.amount1) / 1e18).toBeCloseTo(0.006, 4);
+      // At price 1 a symmetric range holds about half of each
+      expect(Number(inside.amount0) / 1e18).toBeCloseTo(0.003, 3);
+      expect(Number(inside.amount1) / 1e18).toBeCloseTo(0.003, 3);
+    });
+  });
+
+  describe('applyBlock', () => {
+    it('should create a position with the range of the manager\'s pool mint', async () => {
+      const result = await tracker.applyBlock(mockTx, 100, [increase(1)], [poolMint(0), { ...poolMint(0), liquidity: '5', logIndex: 2 }], pools, []);
+
+      expect(result).toEqual({ positionEvents: 1, supplies: 0 });
+      expect(mockTx.liquidityPosition.upsert).toHaveBeenCalledWith({
+        where: { manager_tokenId: { manager, tokenId: '42' } },
+        update: expect.objectContaining({ liquidity: { increment: '1000' }, deposited0: { increment: '10' }, poolId: 4, tickLower: -60, tickUpper: 60 }),
+        create: expect.objectContaining({ manager, tokenId: '42', liquidity: '1000', deposited1: '20', poolId: 4, tickLower: -60, tickUpper: 60 })
+      });
+      expect(mockTx.positionEvent.createMany).toHaveBeenCalledWith({
+        data: [{
+          txHash: '0xtx1', logIndex: 1, blockNumber: 100n, positionId: 9, type: 'increase',
+          liquidity: '1000', amount0: '10', amount1: '20', recipient: null
+        }],
+        skipDuplicates: true
+      });
+    });
+
+    it('should add decreases and collects to the totals and skip events already stored or of other managers', async () => {
+      mockTx.positionEvent.findMany.mockResolvedValue([{ txHash: '0xtx1', logIndex: 1 }]);
+
+      const result = await tracker.applyBlock(mockTx, 100, [
+        increase(1),
+        { kind: 'decrease', manager, tokenId: '42', txHash: '0xtx1', logIndex: 2, liquidity: '400', amount0: '4', amount1: '8' },
+        { kind: 'collect', manager, tokenId: '42', txHash: '0xtx1', logIndex: 3, amount0: '5', amount1: '9', recipient: owner },
+        { ...increase(4), manager: '0xother' }
+      ], [], pools, []);
+
+      expect(result.positionEvents).toBe(2);
+      expect(mockTx.liquidityPosition.upsert.mock.calls[0][0].update).toEqual({
+        liquidity: { increment: '-400' },
+        deposited0: { increment: '0' },
+        deposited1: { increment: '0' },
+        withdrawn0: { increment: '4' },
+        withdrawn1: { increment: '8' },
+        collected0: { increment: '5' },
+        collected1: { increment: '9' }
+      });
+    });
+
+    it('should seed an LP supply from the value read before the transaction', async () => {
+      const result = await tracker.applyBlock(mockTx, 100, [], [], pools, [{ poolId: 3, delta: 1000n, seed: 5000n }]);
+
+      expect(result).toEqual({ positionEvents: 0, supplies: 1 });
+      expect(mockTx.poolSupply.create).toHaveBeenCalledWith({ data: { poolId: 3, blockNumber: 100n, totalSupply: '5000' } });
+      expect(mockTx.poolSupply.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should move the previous LP supply and the supplies of later blocks by the delta', async () => {
+      mockTx.poolSupply.findFirst.mockResolvedValue({ poolId: 3, blockNumber: 90n, totalSupply: new Prisma.Decimal(5000) });
+
+      await tracker.applyBlock(mockTx, 100, [], [], pools, [{ poolId: 3, delta: -200n, seed: null }]);
+
+      expect(mockTx.poolSupply.findFirst).toHaveBeenCalledWith({
+        where: { poolId: 3, blockNumber: { lt: 100n } },
+        orderBy: { blockNumber: 'desc' }
+      });
+      expect(mockTx.poolSupply.create).toHaveBeenCalledWith({ data: { poolId: 3, blockNumber: 100n, totalSupply: '4800' } });
+      expect(mockTx.poolSupply.updateMany).toHaveBeenCalledWith({
+        where: { poolId: 3, blockNumber: { gt: 100n } },
+        data: { totalSupply: { increment: '-200' } }
+      });
+    });
+
+    it('should not apply an LP supply change twice', async () => {
+      mockTx.poolSupply.findUnique.mockResolvedValue({ poolId: 3, blockNumber: 100n, totalSupply: new Prisma.Decimal(4800) });
+
+      const result = await tracker.applyBlock(mockTx, 100, [], [], pools, [{ poolId: 3, delta: -200n, seed: null }]);
+
+      expect(result.supplies).toBe(0);
+      expect(mockTx.poolSupply.create).not.toHaveBeenCalled();
+      expect(mockTx.poolSupply.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('supplyChanges', () => {
+    it('should read the supply of new V2 pools from the chain and sum the mints and burns', async () => {
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      mockBatcher.call.mockResolvedValue(coder.encode(['uint256'], [5000n]));
+
+      await expect(tracker.supplyChanges(100, pools, [lpTransfer(ethers.ZeroAddress, owner, '1000')])).resolves.toEqual([
+        { poolId: 3, delta: 1000n, seed: 5000n }
+      ]);
+      expect(mockBatcher.call).toHaveBeenCalledWith('eth_call', [
+        { to: '0xv2pool', data: ethers.id('totalSupply()').slice(0, 10) },
+        '0x64'
+      ]);
+
+      mockDb.poolSupply.findMany.mockResolvedValue([{ poolId: 3 }]);
+      await expect(tracker.supplyChanges(101, pools, [
+        lpTransfer(ethers.ZeroAddress, owner, '300'),
+        lpTransfer('0xv2pool', ethers.ZeroAddress, '100'),
+        lpTransfer(owner, '0x2222222222222222222222222222222222222222', '50')
+      ])).resolves.toEqual([{ poolId: 3, delta: 200n, seed: null }]);
+      expect(mockBatcher.call).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getPositions', () => {
+    it('should return the underlying amounts of V2 LP balances', async () => {
+      mockDb.tokenBalance.findMany.mockResolvedValue([{
+        tokenId: 5, balance: new Prisma.Decimal('250'), blockNumber: 90n,
+        token: { address: '0xv2pool', name: 'Uniswap V2', symbol: 'UNI-V2', decimals: 18, metadataStatus: 'ok' }
+      }]);
+      mockDb.pool.findMany.mockResolvedValue([{ ...v2Pool, fee: null, status: 'ok' }]);
+      mockDb.poolSupply.findFirst.mockResolvedValue({ totalSupply: new Prisma.Decimal('1000') });
+      mockDb.poolEvent.findFirst.mockResolvedValue({ amount0: new Prisma.Decimal('4000000'), amount1: new Prisma.Decimal('2000000000000000000') });
+
+      const positions = await tracker.getPositions(owner);
+
+      expect(positions).toEqual([{
+        protocol: 'uniswap-v2',
+        pool: { address: '0xv2pool', token0: usdc, token1: weth },
+        lpBalance: { raw: '250', formatted: '0.00000000000000025', decimals: 18 },
+        share: '0.25',
+        amounts: {
+          token0: { raw: '1000000', formatted: '1', decimals: 6 },
+          token1: { raw: '500000000000000000', formatted: '0.5', decimals: 18 }
+        }
+      }]);
+    });
+
+    it('should value V3 positions held at a block with the totals and pool price of that block', async () => {
+      mockDb.nftTransfer.findMany.mockResolvedValue([
+        { from: ethers.ZeroAddress, to: owner, collection: { address: manager }, token: { tokenId: '42' } },
+        { from: ethers.ZeroAddress, to: owner, collection: { address: manager }, token: { tokenId: '43' } },
+        { from: owner, to: '0x2222222222222222222222222222222222222222', collection: { address: manager }, token: { tokenId: '43' } }
+      ]);
+      mockDb.liquidityPosition.findMany.mockResolvedValue([{
+        id: 9, manager, tokenId: '42', tickLower: -60, tickUpper: 60, pool: { ...v3Pool, fee: 3000 }
+      }]);
+      mockDb.positionEvent.groupBy.mockResolvedValue([
+        { positionId: 9, type: 'increase', _sum: { liquidity: new Prisma.Decimal('1000000'), amount0: new Prisma.Decimal('10'), amount1: new Prisma.Decimal('20') } },
+        { positionId: 9, type: 'decrease', _sum: { liquidity: new Prisma.Decimal('0'), amount0: new Prisma.Decimal('4'), amount1: new Prisma.Decimal('8') } },
+        { positionId: 9, type: 'collect', _sum: { liquidity: new Prisma.Decimal('0'), amount0: new Prisma.Decimal('6'), amount1: new Prisma.Decimal('7') } }
+      ]);
+      mockDb.swap.findFirst.mockResolvedValue({ sqrtPriceX96: new Prisma.Decimal((q96 * 2n).toString()) });
+
+      const positions = await tracker.getPositions(owner, 150);
+
+      expect(mockDb.liquidityPosition.findMany.mock.calls[0][0].where).toEqual({ OR: [{ manager, tokenId: '42' }] });
+      expect(mockDb.swap.findFirst.mock.calls[0][0].where).toEqual({ poolId: 4, sqrtPriceX96: { not: null }, blockNumber: { lte: 150n } });
+      expect(positions[0]).toEqual(expect.objectContaining({
+        protocol: 'uniswap-v3',
+        tokenId: '42',
+        liquidity: '1000000',
+        amounts: {
+          token0: { raw: '0', formatted: '0', decimals: 6 },
+          token1: { raw: '5999', formatted: '0.000000000000005999', decimals: 18 }
+        },
+        fees: {
+          token0: { raw: '2', formatted: '0.000002', decimals: 6 },
+          token1: { raw: '0', formatted: '0', decimals: 18 }
+        }
+      }));
+    });
+  });
+
+  describe('revertLiquidityPositions', () => {
+    it('should recompute positions from their remaining events and delete empty ones', async () => {
+      mockTx.positionEvent.findMany.mockResolvedValue([{ positionId: 9 }, { positionId: 10 }]);
+      mockTx.positionEvent.groupBy.mockResolvedValue([
+        { positionId: 9, type: 'increase', _sum: { liquidity: new Prisma.Decimal('1000'), amount0: new Prisma.Decimal('10'), amount1: new Prisma.Decimal('20') } }
+      ]);
+
+      await revertLiquidityPositions(mockTx, ['0xtx1'], [100n]);
+
+      expect(mockTx.poolSupply.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [100n] } } });
+      expect(mockTx.positionEvent.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+      expect(mockTx.liquidityPosition.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: expect.objectContaining({ liquidity: '1000', deposited0: '10', collected0: '0' })
+      });
+      expect(mockTx.liquidityPosition.delete).toHaveBeenCalledWith({ where: { id: 10 } });
+    });
+  });
+});
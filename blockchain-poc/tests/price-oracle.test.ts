@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { PriceOracle, parseStablecoins, revertTokenPrices, usdValue } from '../src/processing/price-oracle';
+import { ResolvedToken } from '../src/processing/event-decoder';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+describe('PriceOracle', () => {
+  let oracle: PriceOracle;
+  let mockDb: any;
+  let mockTx: any;
+
+  const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+  const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const uni = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+  const timestamp = new Date('2024-01-01T00:00:00Z');
+  const tokens = new Map([
+    [usdc, { id: 1, decimals: 6 }],
+    [weth, { id: 2, decimals: 18 }],
+    [uni, { id: 3, decimals: 18 }]
+  ]);
+
+  const pool = (address: string, protocol: 'uniswap-v2' | 'uniswap-v3', token0: string, token1: string) =>
+    ({ id: 1, address, protocol, token0, token1 });
+  const sync = (address: string, reserve0: bigint, reserve1: bigint, logIndex: number = 0) => ({
+    kind: 'sync' as const, protocol: 'uniswap-v2' as const, pool: address, txHash: '0xtx1', logIndex,
+    amount0: reserve0.toString(), amount1: reserve1.toString()
+  });
+
+  beforeEach(() => {
+    mockTx = {
+      tokenPrice: { createMany: jest.fn() }
+    };
+    mockDb = {
+      block: { findUnique: jest.fn(async () => ({ timestamp })) },
+      tokenPrice: { findFirst: jest.fn(async () => null), findMany: jest.fn(async () => []) }
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    oracle = new PriceOracle(mockDb as PrismaClient, {
+      weth,
+      stablecoins: new Map([[usdc, 6]]),
+      minLiquidityUsd: 10000,
+      fullConfidenceLiquidityUsd: 1000000,
+      maxAgeBlocks: 100
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyBlock', () => {
+    it('should price WETH from V2 reserves and route a V3 pool through it', async () => {
+      // 5,000,000 USDC / 2,000 WETH, and a V3 UNI/WETH pool at sqrt(1/16) with 1,000 WETH of virtual reserves
+      const pools = new Map([
+        ['0xusdcweth', pool('0xusdcweth', 'uniswap-v2', usdc, weth)],
+        ['0xuniweth', pool('0xuniweth', 'uniswap-v3', uni, weth)]
+      ]);
+      const events = [
+        sync('0xUsdcWeth', 5000000n * 10n ** 6n, 2000n * 10n ** 18n),
+        {
+          kind: 'swap' as const, protocol: 'uniswap-v3' as const, pool: '0xuniweth', txHash: '0xtx1', logIndex: 1,
+          amount0: '1', amount1: '-1', sqrtPriceX96: (2n ** 94n).toString(), liquidity: (4000n * 10n ** 18n).toString()
+        }
+      ];
+
+      const stored = await oracle.applyBlock(mockTx, 100, events, pools, tokens);
+
+      expect(stored).toBe(2);
+      expect(mockTx.tokenPrice.createMany).toHaveBeenCalledWith({
+        data: [
+          { tokenId: 2, blockNumber: 100n, timestamp, priceUsd: '2500', liquidityUsd: '10000000', confidence: 1, sources: 1 },
+          { tokenId: 3, blockNumber: 100n, timestamp, priceUsd: '156.25', liquidityUsd: '5000000', confidence: 1, sources: 1 }
+        ],
+        skipDuplicates: true
+      });
+    });
+
+    it('should weight prices by liquidity and ignore thin pools', async () => {
+      const pools = new Map([
+        ['0xa', pool('0xa', 'uniswap-v2', uni, usdc)],
+        ['0xb', pool('0xb', 'uniswap-v2', uni, usdc)],
+        ['0xc', pool('0xc', 'uniswap-v2', uni, usdc)]
+      ]);
+      const events = [
+        // An earlier sync of the same pool is superseded by the last one
+        sync('0xa', 1n, 1n, 0),
+        sync('0xa', 10000n * 10n ** 18n, 100000n * 10n ** 6n, 1),
+        sync('0xb', 25000n * 10n ** 18n, 300000n * 10n ** 6n, 2),
+        sync('0xc', 10n ** 18n, 1000n * 10n ** 6n, 3)
+      ];
+
+      await oracle.applyBlock(mockTx, 100, events, pools, tokens);
+
+      // $10 with $200,000 and $12 with $600,000 of liquidity
+      expect(mockTx.tokenPrice.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ tokenId: 3, priceUsd: '11.5', liquidityUsd: '800000', confidence: 0.8, sources: 2 })
+      ]);
+    });
+
+    it('should route through the last stored WETH price and carry its confidence', async () => {
+      const pools = new Map([['0xuniweth', pool('0xuniweth', 'uniswap-v2', uni, weth)]]);
+      mockDb.tokenPrice.findFirst.mockResolvedValue({
+        priceUsd: new Prisma.Decimal('2000'), confidence: 0.5, blockNumber: 99n
+      });
+
+      await oracle.applyBlock(mockTx, 100, [sync('0xuniweth', 16000n * 10n ** 18n, 1000n * 10n ** 18n)], pools, tokens);
+
+      expect(mockDb.tokenPrice.findFirst).toHaveBeenCalledWith({
+        where: { token: { address: weth }, blockNumber: { lte: 100n, gte: 0n } },
+        orderBy: { blockNumber: 'desc' }
+      });
+      expect(mockTx.tokenPrice.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ tokenId: 3, priceUsd: '125', confidence: 0.5 })
+      ]);
+    });
+
+    it('should skip tokens whose decimals are not known', async () => {
+      const pools = new Map([['0xa', pool('0xa', 'uniswap-v2', uni, usdc)]]);
+
+      const stored = await oracle.applyBlock(
+        mockTx,
+        100,
+        [sync('0xa', 10000n * 10n ** 18n, 100000n * 10n ** 6n)],
+        pools,
+        new Map<string, ResolvedToken>([...tokens, [uni, { id: 3, decimals: null }]])
+      );
+
+      expect(stored).toBe(0);
+      expect(mockTx.tokenPrice.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('quote', () => {
+    it('should value stablecoins at $1 and other tokens at their latest recent price', async () => {
+      mockDb.tokenPrice.findFirst.mockResolvedValue({ priceUsd: new Prisma.Decimal('2500'), confidence: 0.9, blockNumber: 150n });
+
+      await expect(oracle.quote({ address: usdc.toUpperCase().replace('0X', '0x') })).resolves.toEqual({ price: '1', confidence: 1, blockNumber: null });
+      const quote = await oracle.quote({ address: weth, blockNumber: 200n });
+
+      expect(mockDb.tokenPrice.findFirst).toHaveBeenCalledWith({
+        where: { token: { address: weth }, blockNumber: { lte: 200n, gte: 100n } },
+        orderBy: { blockNumber: 'desc' }
+      });
+      expect(usdValue({ raw: '1500000000000000000', formatted: '1.5', decimals: 18 }, quote)).toEqual({
+        price: '2500', confidence: 0.9, blockNumber: '150', value: '3750'
+      });
+      expect(usdValue({ raw: '15', formatted: null, decimals: null }, quote)?.value).toBeNull();
+    });
+  });
+
+  describe('parseStablecoins', () => {
+    it('should parse addresses with their decimals', () => {
+      expect(parseStablecoins(`${usdc.toUpperCase().replace('0X', '0x')}|6`)).toEqual(new Map([[usdc, 6]]));
+      expect(() => parseStablecoins(`${usdc}`)).toThrow('Invalid stablecoin anchor');
+    });
+  });
+
+  describe('revertTokenPrices', () => {
+    it('should delete the prices of orphaned blocks', async () => {
+      const mockTx: any = { tokenPrice: { deleteMany: jest.fn() } };
+
+      await revertTokenPrices(mockTx, [99n, 98n]);
+
+      expect(mockTx.tokenPrice.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { RpcProviderPool, parseEndpointList } from '../src/ingestion/provider-pool';
+import { ethers } from 'ethers';
+
+// Mock ethers
+jest.mock('ethers');
+
+describe('RpcProviderPool', () => {
+  let providers: Record<string, any>;
+
+  beforeEach(() => {
+    providers = {};
+
+    // One mock provider per endpoint URL
+    (ethers.FetchRequest as unknown as jest.Mock).mockImplementation((url: any) => ({ url }));
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation((request: any) => {
+      providers[request.url] = {
+        getBlockNumber: jest.fn()
+      };
+      return providers[request.url];
+    });
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('parseEndpointList', () => {
+    it('should parse urls with optional weights', () => {
+      expect(parseEndpointList('https://a0.example|3, https://b0.example')).toEqual([
+        { url: 'https://a0.example', weight: 3 },
+        { url: 'https://b0.example', weight: 1 }
+      ]);
+      expect(parseEndpointList(undefined)).toEqual([]);
+    });
+  });
+
+  it('should deduplicate endpoints by url', () => {
+    const pool = new RpcProviderPool([
+      { url: 'https://a1.example' },
+      { url: 'https://a1.example', weight: 5 },
+      { url: 'https://b1.example' }
+    ]);
+
+    expect(pool.getUrls()).toEqual(['https://a1.example', 'https://b1.example']);
+  });
+
+  it('should fail over to the next endpoint on error', async () => {
+    const pool = new RpcProviderPool([{ url: 'https://a2.example', weight: 1000 }, { url: 'https://b2.example', weight: 0.001 }]);
+    providers['https://a2.example'].getBlockNumber.mockRejectedValue(new Error('timeout'));
+    providers['https://b2.example'].getBlockNumber.mockResolvedValue(100);
+
+    const result = await pool.execute((provider: any) => provider.getBlockNumber());
+
+    expect(result).toBe(100);
+    const health = pool.getHealth();
+    expect(health.endpoints[0].errors).toBe(1);
+    expect(health.endpoints[0].lastError).toBe('timeout');
+    expect(health.endpoints[1].requests).toBe(1);
+  });
+
+  it('should open the circuit after repeated failures and recover after the cooldown', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const pool = new RpcProviderPool(
+      [{ url: 'https://a3.example', weight: 1000 }, { url: 'https://b3.example', weight: 0.001 }],
+      { failureThreshold: 2, cooldownMs: 1000 }
+    );
+    providers['https://a3.example'].getBlockNumber.mockRejectedValue(new Error('down'));
+    providers['https://b3.example'].getBlockNumber.mockResolvedValue(100);
+
+    await pool.execute((provider: any) => provider.getBlockNumber());
+    await pool.execute((provider: any) => provider.getBlockNumber());
+
+    expect(pool.getHealth().endpoints[0].circuit).toBe('open');
+    expect(pool.getHealth().healthyEndpoints).toBe(1);
+
+    // While open the endpoint is skipped entirely
+    await pool.execute((provider: any) => provider.getBlockNumber());
+    expect(providers['https://a3.example'].getBlockNumber).toHaveBeenCalledTimes(2);
+
+    // After the cooldown a successful trial request closes the circuit again
+    jest.setSystemTime(1000);
+    providers['https://a3.example'].getBlockNumber.mockResolvedValue(100);
+    await pool.execute((provider: any) => provider.getBlockNumber());
+
+    expect(pool.getHealth().endpoints[0].circuit).toBe('closed');
+  });
+
+  it('should still try endpoints when every circuit is open', async () => {
+    const pool = new RpcProviderPool([{ url: 'https://a4.example' }], { failureThreshold: 1 });
+    providers['https://a4.example'].getBlockNumber.mockRejectedValueOnce(new Error('down'));
+
+    await expect(pool.execute((provider: any) => provider.getBlockNumber())).rejects.toThrow('down');
+    expect(pool.getHealth().endpoints[0].circuit).toBe('open');
+
+    providers['https://a4.example'].getBlockNumber.mockResolvedValue(100);
+    await expect(pool.execute((provider: any) => provider.getBlockNumber())).resolves.toBe(100);
+  });
+
+  it('should hedge a slow request against a second endpoint', async () => {
+    const pool = new RpcProviderPool(
+      [{ url: 'https://a5.example', weight: 1000 }, { url: 'https://b5.example', weight: 0.001 }],
+      { hedgeDelay: 10 }
+    );
+    providers['https://a5.example'].getBlockNumber.mockReturnValue(new Promise(() => {}));
+    providers['https://b5.example'].getBlockNumber.mockResolvedValue(200);
+
+    const result = await pool.execute((provider: any) => provider.getBlockNumber());
+
+    expect(result).toBe(200);
+    expect(providers['https://b5.example'].getBlockNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report head lag and mark lagging endpoints unhealthy', async () => {
+    const pool = new RpcProviderPool([{ url: 'https://a6.example' }, { url: 'https://b6.example' }], { maxHeadLag: 5 });
+    providers['https://a6.example'].getBlockNumber.mockResolvedValue(1000);
+    providers['https://b6.example'].getBlockNumber.mockResolvedValue(990);
+
+    const health = await pool.checkHealth();
+
+    expect(health.headBlock).toBe(1000);
+    expect(health.healthyEndpoints).toBe(1);
+    expect(health.endpoints[1].headLag).toBe(10);
+    expect(health.endpoints[1].healthy).toBe(false);
+  });
+
+  it('should treat a 429 as back-pressure instead of a failure', async () => {
+    const pool = new RpcProviderPool([{ url: 'https://a7.example', weight: 1000 }, { url: 'https://b7.example', weight: 0.001 }]);
+    const throttled = Object.assign(new Error('server response 429 Too Many Requests'), {
+      response: { statusCode: 429, headers: { 'retry-after': '30' } }
+    });
+    providers['https://a7.example'].getBlockNumber.mockRejectedValue(throttled);
+    providers['https://b7.example'].getBlockNumber.mockResolvedValue(100);
+
+    await expect(pool.execute((provider: any) => provider.getBlockNumber())).resolves.toBe(100);
+
+    const [endpoint] = pool.getHealth().endpoints;
+    expect(endpoint.circuit).toBe('closed');
+    expect(endpoint.healthy).toBe(false);
+    expect(endpoint.rateLimit.throttledCount).toBe(1);
+    expect(endpoint.rateLimit.throttledUntil).toBeDefined();
+  });
+
+  it('should skip endpoints whose daily budget is spent', async () => {
+    const pool = new RpcProviderPool([
+      { url: 'https://a8.example', weight: 1000, dailyComputeUnits: 10 },
+      { url: 'https://b8.example', weight: 0.001 }
+    ]);
+    providers['https://a8.example'].getBlockNumber.mockResolvedValue(100);
+    providers['https://b8.example'].getBlockNumber.mockResolvedValue(100);
+
+    await pool.execute((provider: any) => provider.getBlockNumber(), { method: 'eth_blockNumber' });
+    await pool.execute((provider: any) => provider.getBlockNumber(), { method: 'eth_blockNumber' });
+
+    expect(providers['https://a8.example'].getBlockNumber).toHaveBeenCalledTimes(1);
+    expect(providers['https://b8.example'].getBlockNumber).toHaveBeenCalledTimes(1);
+    expect(pool.getBudget().endpoints[0].remainingComputeUnits).toBe(0);
+  });
+});
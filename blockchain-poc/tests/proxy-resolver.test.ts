@@ -0,0 +1,201 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  EIP1967_BEACON_SLOT,
+  EIP1967_IMPLEMENTATION_SLOT,
+  ProxyResolver,
+  minimalProxyImplementation,
+  revertProxyUpgrades
+} from '../src/processing/proxy-resolver';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('ProxyResolver', () => {
+  let resolver: ProxyResolver;
+  let mockDb: any;
+  let mockBatcher: any;
+  let storage: Record<string, string>;
+  let code: string;
+
+  const proxy = '0x1111111111111111111111111111111111111111';
+  const implementationV1 = '0x2222222222222222222222222222222222222222';
+  const implementationV2 = '0x3333333333333333333333333333333333333333';
+  const beacon = '0x4444444444444444444444444444444444444444';
+  const word = (address: string) => ethers.zeroPadValue(address, 32);
+  const entry = (implementation: string, fromBlock: number, logIndex: number) =>
+    ({ implementation, fromBlock: BigInt(fromBlock), logIndex, txHash: null, source: 'event' });
+  const stored = (kind: string, implementations: any[] = []) =>
+    ({ id: 7, address: proxy, kind, beacon: null, implementations });
+
+  beforeEach(() => {
+    storage = {};
+    code = '0x6080';
+    mockDb = {
+      proxyContract: {
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+        upsert: jest.fn(async () => ({ id: 7 }))
+      },
+      proxyImplementation: { createMany: jest.fn() }
+    };
+    mockBatcher = {
+      call: jest.fn(async (method: string, params: any[]) => {
+        if (method === 'eth_getCode') {
+          return code;
+        }
+        if (method === 'eth_getStorageAt') {
+          return storage[params[1]] ?? ethers.ZeroHash;
+        }
+        // implementation() of the beacon
+        return word(implementationV1);
+      })
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    resolver = new ProxyResolver(mockDb as PrismaClient, mockBatcher as RpcBatcher, { detect: true, refreshInterval: 60000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('detect', () => {
+    it('should read the EIP-1967 implementation slot at the block', async () => {
+      storage[EIP1967_IMPLEMENTATION_SLOT] = word(implementationV1);
+      mockDb.proxyContract.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(stored('eip1967', [{ ...entry(implementationV1, 100, -1), source: 'storage' }]));
+
+      const implementation = await resolver.getImplementation(proxy.toUpperCase().replace('0X', '0x'), 100, 3);
+
+      expect(implementation).toBe(implementationV1);
+      expect(mockBatcher.call).toHaveBeenCalledWith('eth_getStorageAt', [proxy, EIP1967_IMPLEMENTATION_SLOT, '0x64']);
+      expect(mockDb.proxyContract.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { address: proxy, kind: 'eip1967', beacon: null }
+      }));
+      expect(mockDb.proxyImplementation.createMany).toHaveBeenCalledWith({
+        data: [{ proxyId: 7, implementation: implementationV1, fromBlock: 100n, logIndex: -1, txHash: null, source: 'storage' }],
+        skipDuplicates: true
+      });
+    });
+
+    it('should read the implementation of a beacon proxy from its beacon', async () => {
+      storage[EIP1967_BEACON_SLOT] = word(beacon);
+
+      await resolver.detect(proxy, 100);
+
+      expect(mockBatcher.call).toHaveBeenCalledWith('eth_call', [expect.objectContaining({ to: beacon }), '0x64']);
+      expect(mockDb.proxyContract.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { address: proxy, kind: 'beacon', beacon }
+      }));
+      expect(mockDb.proxyImplementation.createMany.mock.calls[0][0].data[0].implementation).toBe(implementationV1);
+    });
+
+    it('should take the implementation of a minimal proxy from its bytecode', async () => {
+      code = `0x363d3d373d3d3d363d73${implementationV1.slice(2)}5af43d82803e903d91602b57fd5bf3`;
+
+      await resolver.detect(proxy, 100);
+
+      expect(mockBatcher.call).toHaveBeenCalledTimes(1);
+      expect(mockDb.proxyImplementation.createMany.mock.calls[0][0].data[0]).toMatchObject({
+        implementation: implementationV1, source: 'bytecode'
+      });
+      expect(minimalProxyImplementation('0x6080')).toBeNull();
+    });
+
+    it('should store contracts that are not proxies and not check them again', async () => {
+      mockDb.proxyContract.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(stored('none'));
+
+      await expect(resolver.getImplementation(proxy, 100)).resolves.toBeNull();
+      await expect(resolver.getImplementation(proxy, 101)).resolves.toBeNull();
+
+      expect(mockDb.proxyContract.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { address: proxy, kind: 'none', beacon: null }
+      }));
+      expect(mockDb.proxyImplementation.createMany).not.toHaveBeenCalled();
+      expect(mockBatcher.call).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not store anything when the RPC reads fail', async () => {
+      mockBatcher.call.mockRejectedValue(new Error('rate limited'));
+
+      await expect(resolver.getImplementation(proxy, 100)).resolves.toBeNull();
+
+      expect(mockDb.proxyContract.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getImplementation', () => {
+    it('should pick the implementation active at the log position', async () => {
+      mockDb.proxyContract.findUnique.mockResolvedValue(stored('eip1967', [
+        entry(implementationV1, 100, -1),
+        entry(implementationV2, 200, 5)
+      ]));
+
+      await expect(resolver.getImplementation(proxy, 50)).resolves.toBe(implementationV1);
+      await expect(resolver.getImplementation(proxy, 200, 5)).resolves.toBe(implementationV1);
+      await expect(resolver.getImplementation(proxy, 200, 6)).resolves.toBe(implementationV2);
+      await expect(resolver.getImplementation(proxy)).resolves.toBe(implementationV2);
+      expect(mockDb.proxyContract.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordUpgrade', () => {
+    const upgraded = (address: string, implementation: string) => ({
+      address,
+      topics: [ethers.id('Upgraded(address)'), word(implementation)],
+      transactionHash: '0xtx1',
+      logIndex: 2,
+      blockNumber: 200
+    });
+
+    it('should add the new implementation of an upgraded proxy', async () => {
+      mockDb.proxyContract.findUnique.mockResolvedValue(stored('eip1822'));
+
+      await expect(resolver.recordUpgrade(upgraded(proxy, implementationV2))).resolves.toBe(true);
+
+      expect(mockDb.proxyContract.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ kind: 'eip1822' })
+      }));
+      expect(mockDb.proxyImplementation.createMany).toHaveBeenCalledWith({
+        data: [{ proxyId: 7, implementation: implementationV2, fromBlock: 200n, logIndex: 2, txHash: '0xtx1', source: 'event' }],
+        skipDuplicates: true
+      });
+    });
+
+    it('should move every proxy of an upgraded beacon', async () => {
+      mockDb.proxyContract.findMany.mockResolvedValue([{ id: 7, address: proxy }, { id: 8, address: '0x5555555555555555555555555555555555555555' }]);
+
+      await resolver.recordUpgrade(upgraded(beacon, implementationV2));
+
+      expect(mockDb.proxyContract.findMany).toHaveBeenCalledWith({ where: { beacon } });
+      expect(mockDb.proxyImplementation.createMany.mock.calls.map((call: any) => call[0].data[0].proxyId)).toEqual([7, 8]);
+      expect(mockDb.proxyContract.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should ignore other logs', async () => {
+      await expect(resolver.recordUpgrade({
+        address: proxy,
+        topics: [ethers.id('Transfer(address,address,uint256)'), word(implementationV1), word(implementationV2)],
+        transactionHash: '0xtx1',
+        logIndex: 0,
+        blockNumber: 200
+      })).resolves.toBe(false);
+
+      expect(mockDb.proxyImplementation.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revertProxyUpgrades', () => {
+    it('should delete implementations recorded from orphaned transactions', async () => {
+      const mockTx: any = { proxyImplementation: { deleteMany: jest.fn() } };
+
+      await revertProxyUpgrades(mockTx, ['0xtx1']);
+
+      expect(mockTx.proxyImplementation.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1'] } } });
+    });
+  });
+});
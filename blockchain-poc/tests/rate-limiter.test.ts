@@ -0,0 +1,96 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { RateLimiter, getComputeUnits, isRateLimitError, getRetryAfterMs } from '../src/ingestion/rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let a burst through and then pace requests', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+
+    await limiter.acquire(10);
+    await limiter.acquire(10);
+
+    let acquired = false;
+    const pending = limiter.acquire(10).then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('should track the daily compute-unit budget and reset it at midnight UTC', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2025, 8, 12, 23, 59, 0) });
+    const limiter = new RateLimiter({ dailyComputeUnits: 100 });
+
+    await limiter.acquire(60);
+    expect(limiter.hasBudget(40)).toBe(true);
+    expect(limiter.hasBudget(41)).toBe(false);
+    expect(limiter.getStatus().remainingComputeUnits).toBe(40);
+
+    jest.setSystemTime(Date.UTC(2025, 8, 13, 0, 0, 1));
+    expect(limiter.getStatus().remainingComputeUnits).toBe(100);
+    expect(limiter.getStatus().resetsAt).toBe('2025-09-14T00:00:00.000Z');
+  });
+
+  it('should halve the rate and pause after a throttle', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ requestsPerSecond: 8, burst: 8 });
+
+    limiter.recordThrottle(2000);
+
+    expect(limiter.isThrottled()).toBe(true);
+    expect(limiter.getStatus().currentRequestsPerSecond).toBe(4);
+
+    jest.setSystemTime(2000);
+    expect(limiter.isThrottled()).toBe(false);
+
+    limiter.recordSuccess();
+    expect(limiter.getStatus().currentRequestsPerSecond).toBe(4.1);
+  });
+
+  it('should pace requests so the remaining budget lasts until the reset', () => {
+    jest.useFakeTimers({ now: Date.UTC(2025, 8, 12, 0, 0, 0) });
+    const limiter = new RateLimiter({ requestsPerSecond: 10, dailyComputeUnits: 86400 * 20 / 2 });
+
+    // 43200 requests of 20 units left for 86400 seconds
+    expect(limiter.getStatus().currentRequestsPerSecond).toBe(0.5);
+  });
+});
+
+describe('rate limit helpers', () => {
+  it('should price known methods and default the rest', () => {
+    expect(getComputeUnits('eth_getLogs')).toBe(75);
+    expect(getComputeUnits('eth_unknownMethod')).toBe(20);
+    expect(getComputeUnits()).toBe(20);
+  });
+
+  it('should recognise throttling responses', () => {
+    expect(isRateLimitError({ response: { statusCode: 429 } })).toBe(true);
+    expect(isRateLimitError({ error: { code: -32005, message: 'limit exceeded' } })).toBe(true);
+    expect(isRateLimitError(new Error('Too Many Requests'))).toBe(true);
+    expect(isRateLimitError(new Error('execution reverted'))).toBe(false);
+  });
+
+  it('should only read the status and codes, not numbers inside other errors', () => {
+    expect(isRateLimitError({ info: { responseStatus: '429 Too Many Requests' } })).toBe(true);
+    expect(isRateLimitError({ error: { code: -32029, message: 'rate limited' } })).toBe(true);
+    expect(isRateLimitError({ info: { responseStatus: '500 Internal Server Error' } })).toBe(false);
+    expect(isRateLimitError(new Error('transaction 0x4291ab00 reverted (data="0x08c379a0")'))).toBe(false);
+    expect(isRateLimitError({ error: { code: -32000, message: 'nonce too low: 429' } })).toBe(false);
+  });
+
+  it('should parse Retry-After in seconds or as a date', () => {
+    jest.useFakeTimers({ now: Date.UTC(2025, 8, 12, 0, 0, 0) });
+
+    expect(getRetryAfterMs({ response: { headers: { 'retry-after': '5' } } })).toBe(5000);
+    expect(getRetryAfterMs({ response: { headers: { 'retry-after': 'Fri, 12 Sep 2025 00:00:10 GMT' } } })).toBe(10000);
+    expect(getRetryAfterMs({ response: { headers: {} } })).toBeUndefined();
+
+    jest.useRealTimers();
+  });
+});
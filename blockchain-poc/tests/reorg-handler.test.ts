@@ -0,0 +1,134 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { ReorgHandler } from '../src/ingestion/reorg-handler';
+import { BlockchainFetcher } from '../src/ingestion/blockchain-fetcher';
+import { PrismaClient } from '@prisma/client';
+
+describe('ReorgHandler', () => {
+  let handler: ReorgHandler;
+  let mockDb: any;
+  let mockFetcher: any;
+  let storedBlocks: Record<number, { number: bigint; hash: string; timestamp: Date }>;
+
+  const canonicalBlock = (number: number, suffix: string = 'new'): any => ({
+    number,
+    hash: `0x${suffix}${number}`,
+    parentHash: `0x${number - 1 <= 97 ? 'old' : suffix}${number - 1}`,
+    timestamp: 1700000000 + number
+  });
+
+  beforeEach(() => {
+    storedBlocks = {};
+    for (const number of [96, 97, 98, 99]) {
+      storedBlocks[number] = { number: BigInt(number), hash: `0xold${number}`, timestamp: new Date(number * 1000) };
+    }
+
+    mockDb = {
+      block: {
+        findUnique: jest.fn(async (args: any) => storedBlocks[Number(args.where.number)] ?? null),
+        deleteMany: jest.fn()
+      },
+      transaction: {
+        findMany: jest.fn(async () => [{ hash: '0xtx1' }, { hash: '0xtx2' }]),
+        deleteMany: jest.fn()
+      },
+      event: { deleteMany: jest.fn() },
+      log: { deleteMany: jest.fn() },
+      withdrawal: { deleteMany: jest.fn() },
+      internalTransfer: { deleteMany: jest.fn() },
+      transfer: { deleteMany: jest.fn() },
+      nftTransfer: { findMany: jest.fn(async () => []), deleteMany: jest.fn() },
+      nftBalance: { upsert: jest.fn(), deleteMany: jest.fn() },
+      nftApproval: { deleteMany: jest.fn() },
+      allowanceChange: { findMany: jest.fn(async () => []), findFirst: jest.fn(), deleteMany: jest.fn() },
+      tokenAllowance: { upsert: jest.fn(), deleteMany: jest.fn() },
+      balanceEntry: { findMany: jest.fn(async () => []), deleteMany: jest.fn() },
+      swap: { deleteMany: jest.fn() },
+      poolEvent: { deleteMany: jest.fn() },
+      tokenPrice: { deleteMany: jest.fn() },
+      poolSupply: { deleteMany: jest.fn() },
+      positionEvent: { findMany: jest.fn(async () => []), deleteMany: jest.fn() },
+      proxyImplementation: { deleteMany: jest.fn() },
+      contract: { deleteMany: jest.fn() },
+      failedItem: { deleteMany: jest.fn() },
+      reorg: { create: jest.fn() }
+    };
+    mockDb.$transaction = jest.fn(async (callback: any) => callback(mockDb));
+
+    mockFetcher = {
+      getBlock: jest.fn(async (number: number) => canonicalBlock(number))
+    };
+
+    handler = new ReorgHandler(mockDb as PrismaClient, mockFetcher as BlockchainFetcher);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return null when the parent hash matches the stored block', async () => {
+    const block = { number: 100, hash: '0xold100', parentHash: '0xold99', timestamp: 1700000100 } as any;
+
+    const result = await handler.handleBlock(block);
+
+    expect(result).toBeNull();
+    expect(mockDb.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should walk back to the common ancestor and roll back orphaned rows', async () => {
+    // Canonical 100 -> 99 -> 98 diverge from stored, canonical 98's parent is stored 97
+    const result = await handler.handleBlock(canonicalBlock(100));
+
+    expect(result).toEqual({
+      detectedAtBlock: 100,
+      depth: 2,
+      commonAncestor: { blockNumber: 97, blockHash: '0xold97', blockTimestamp: new Date(97000) },
+      orphanedHashes: ['0xold99', '0xold98'],
+      canonicalHashes: ['0xnew99', '0xnew98']
+    });
+    expect(mockFetcher.getBlock).toHaveBeenCalledTimes(2);
+    expect(mockDb.transfer.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.nftTransfer.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.allowanceChange.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.balanceEntry.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.swap.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.poolEvent.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.proxyImplementation.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.event.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.log.deleteMany).toHaveBeenCalledWith({ where: { txHash: { in: ['0xtx1', '0xtx2'] } } });
+    expect(mockDb.transaction.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.withdrawal.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.internalTransfer.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.tokenPrice.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.poolSupply.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.contract.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.failedItem.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { in: [99n, 98n] } } });
+    expect(mockDb.block.deleteMany).toHaveBeenCalledWith({ where: { number: { in: [99n, 98n] } } });
+    expect(mockDb.reorg.create).toHaveBeenCalledWith({
+      data: {
+        detectedAtBlock: 100n,
+        commonAncestor: 97n,
+        depth: 2,
+        orphanedHashes: ['0xold99', '0xold98'],
+        canonicalHashes: ['0xnew99', '0xnew98']
+      }
+    });
+  });
+
+  it('should treat a stored block with a different hash at the same height as orphaned', async () => {
+    const block = { number: 99, hash: '0xnew99', parentHash: '0xold98', timestamp: 1700000099 } as any;
+
+    const result = await handler.handleBlock(block);
+
+    expect(result?.depth).toBe(1);
+    expect(result?.commonAncestor.blockNumber).toBe(98);
+    expect(result?.orphanedHashes).toEqual(['0xold99']);
+    expect(mockFetcher.getBlock).not.toHaveBeenCalled();
+  });
+
+  it('should refuse reorgs deeper than the configured maximum', async () => {
+    handler = new ReorgHandler(mockDb as PrismaClient, mockFetcher as BlockchainFetcher, { maxDepth: 1 });
+
+    await expect(handler.handleBlock(canonicalBlock(100))).rejects.toThrow('deeper than 1 blocks');
+    expect(mockDb.$transaction).not.toHaveBeenCalled();
+  });
+});
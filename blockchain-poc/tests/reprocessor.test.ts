@@ -0,0 +1,117 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Reprocessor } from '../src/processing/reprocessor';
+import { DeadLetterQueue } from '../src/processing/dead-letter-queue';
+import { EventProcessor } from '../src/processing/event-processor';
+import { IngestionService } from '../src/ingestion/ingestion-service';
+import { PrismaClient } from '@prisma/client';
+
+jest.mock('../src/processing/dead-letter-queue');
+
+describe('Reprocessor', () => {
+  let reprocessor: Reprocessor;
+  let mockDb: any;
+  let mockDeadLetters: any;
+  let mockProcessor: any;
+  let mockIngestion: any;
+
+  const item = (id: number, stage: string, key: string, blockNumber: string | null) =>
+    ({ id, stage, key, blockNumber, txHash: null, status: 'pending', attempts: 1 });
+
+  beforeEach(() => {
+    mockDb = {
+      failedItem: { count: jest.fn(async () => 0) },
+      event: { count: jest.fn(async () => 0) },
+      $queryRaw: jest.fn(async () => [])
+    };
+    mockDeadLetters = {
+      due: jest.fn(async () => []),
+      find: jest.fn(async () => [])
+    };
+    mockProcessor = {
+      processBlockEvents: jest.fn(async () => undefined),
+      processTransactionEvents: jest.fn(async () => undefined)
+    };
+    mockIngestion = { ingestBlock: jest.fn(async () => undefined) };
+    (DeadLetterQueue as jest.Mock).mockImplementation(() => mockDeadLetters);
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    reprocessor = new Reprocessor(
+      mockDb as PrismaClient,
+      mockProcessor as EventProcessor,
+      mockIngestion as IngestionService,
+      { batchSize: 10, interval: 1000 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('retryDue', () => {
+    it('should process each block once and ingest blocks that failed to ingest first', async () => {
+      mockDeadLetters.due.mockResolvedValue([
+        item(1, 'log', '0xtx1:3', '101'),
+        item(2, 'transaction', '0xtx1', '101'),
+        item(3, 'ingest', '100', '100'),
+        item(4, 'transaction', '0xtx9', null)
+      ]);
+      mockDb.failedItem.count.mockResolvedValue(3);
+
+      const result = await reprocessor.retryDue();
+
+      expect(mockDeadLetters.due).toHaveBeenCalledWith(10);
+      expect(mockIngestion.ingestBlock).toHaveBeenCalledTimes(1);
+      expect(mockIngestion.ingestBlock).toHaveBeenCalledWith(100);
+      expect(mockProcessor.processBlockEvents.mock.calls).toEqual([[100], [101]]);
+      expect(mockProcessor.processTransactionEvents).toHaveBeenCalledWith('0xtx9');
+      expect(mockDb.failedItem.count).toHaveBeenCalledWith({ where: { id: { in: [1, 2, 3, 4] }, status: 'resolved' } });
+      expect(result).toEqual({ items: 4, blocks: 2, transactions: 1, resolved: 3 });
+    });
+
+    it('should keep retrying the other blocks when one fails again', async () => {
+      mockDeadLetters.due.mockResolvedValue([item(1, 'block', '100', '100'), item(2, 'block', '101', '101')]);
+      mockProcessor.processBlockEvents.mockRejectedValueOnce(new Error('Connection lost'));
+
+      const result = await reprocessor.retryDue();
+
+      expect(mockProcessor.processBlockEvents).toHaveBeenCalledTimes(2);
+      expect(result.blocks).toBe(2);
+    });
+
+    it('should do nothing when no retry is due', async () => {
+      await expect(reprocessor.retryDue()).resolves.toEqual({ items: 0, blocks: 0, transactions: 0, resolved: 0 });
+
+      expect(mockDb.failedItem.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reprocess', () => {
+    it('should retry the selected items regardless of their back-off', async () => {
+      mockDeadLetters.find.mockResolvedValue([item(7, 'block', '100', '100')]);
+
+      await reprocessor.reprocess({ stage: 'block' });
+
+      expect(mockDeadLetters.find).toHaveBeenCalledWith({ stage: 'block' });
+      expect(mockProcessor.processBlockEvents).toHaveBeenCalledWith(100);
+    });
+  });
+
+  describe('reprocessUnknown', () => {
+    it('should process the blocks holding Unknown events again', async () => {
+      mockDb.event.count.mockResolvedValueOnce(3).mockResolvedValueOnce(1);
+      mockDb.$queryRaw.mockResolvedValue([{ blockNumber: 100n }, { blockNumber: 102n }]);
+
+      const result = await reprocessor.reprocessUnknown({ contract: '0xVault', limit: 2 });
+
+      expect(mockDb.event.count).toHaveBeenCalledWith({
+        where: { eventName: 'Unknown', contract: { equals: '0xVault', mode: 'insensitive' } }
+      });
+      const [query, ...values] = mockDb.$queryRaw.mock.calls[0];
+      expect(query.join('?')).toContain('ORDER BY t."blockNumber" ASC');
+      expect(values).toEqual([expect.objectContaining({ values: ['0xVault'] }), 2]);
+      expect(mockProcessor.processBlockEvents.mock.calls).toEqual([[100], [102]]);
+      expect(result).toEqual({ blocks: 2, unknownBefore: 3, unknownAfter: 1 });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+
+describe('RpcBatcher', () => {
+  let transport: any;
+
+  beforeEach(() => {
+    transport = jest.fn(async (payloads: any) => payloads.map((payload: any) => ({ id: payload.id, result: payload.params[0] })));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should combine concurrent calls into one batch', async () => {
+    const batcher = new RpcBatcher(transport, { flushInterval: 5 });
+
+    const results = await Promise.all([
+      batcher.call('eth_getTransactionReceipt', ['0xa']),
+      batcher.call('eth_getTransactionReceipt', ['0xb']),
+      batcher.call('eth_getBlockReceipts', ['0x1'])
+    ]);
+
+    expect(results).toEqual(['0xa', '0xb', '0x1']);
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][0]).toHaveLength(3);
+    // Compute units of the whole batch: 15 + 15 + 500
+    expect(transport.mock.calls[0][1]).toBe(530);
+  });
+
+  it('should split calls at the maximum batch size', async () => {
+    const batcher = new RpcBatcher(transport, { maxBatchSize: 2, flushInterval: 5 });
+
+    await Promise.all(['0xa', '0xb', '0xc'].map(hash => batcher.call('eth_getTransactionReceipt', [hash])));
+
+    expect(transport.mock.calls.map((call: any[]) => call[0].length)).toEqual([2, 1]);
+  });
+
+  it('should retry only the failed elements of a batch', async () => {
+    let attempts = 0;
+    transport.mockImplementation(async (payloads: any) => payloads.map((payload: any) => {
+      if (payload.params[0] === '0xb' && attempts++ === 0) {
+        return { id: payload.id, error: { code: -32000, message: 'header not found' } };
+      }
+      return { id: payload.id, result: payload.params[0] };
+    }));
+    const batcher = new RpcBatcher(transport, { flushInterval: 1, retryDelay: 1 });
+
+    const results = await Promise.all(['0xa', '0xb'].map(hash => batcher.call('eth_getTransactionReceipt', [hash])));
+
+    expect(results).toEqual(['0xa', '0xb']);
+    expect(transport.mock.calls.map((call: any[]) => call[0].map((payload: any) => payload.params[0]))).toEqual([['0xa', '0xb'], ['0xb']]);
+  });
+
+  it('should not retry errors that cannot succeed later', async () => {
+    transport.mockImplementation(async (payloads: any) =>
+      payloads.map((payload: any) => ({ id: payload.id, error: { code: -32601, message: 'method not found' } }))
+    );
+    const batcher = new RpcBatcher(transport, { flushInterval: 1, retryDelay: 1 });
+
+    const error: any = await batcher.call('eth_getBlockReceipts', ['0x1']).catch(err => err);
+
+    expect(error.message).toBe('method not found');
+    expect(error.error.code).toBe(-32601);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum retries when the whole request fails', async () => {
+    transport.mockRejectedValue(new Error('socket hang up'));
+    const batcher = new RpcBatcher(transport, { flushInterval: 1, retryDelay: 1, maxRetries: 2 });
+
+    await expect(batcher.call('eth_blockNumber', [])).rejects.toThrow('socket hang up');
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+});
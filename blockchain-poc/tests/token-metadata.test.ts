@@ -0,0 +1,172 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { TokenMetadataEnricher, decodeTokenText, decodeTokenDecimals } from '../src/enrichment/token-metadata';
+import { RpcBatcher } from '../src/ingestion/rpc-batcher';
+import { PrismaClient } from '@prisma/client';
+import { ethers } from 'ethers';
+
+describe('TokenMetadataEnricher', () => {
+  let enricher: TokenMetadataEnricher;
+  let mockDb: any;
+  let mockBatcher: any;
+  let responses: Record<string, Record<string, string | Error>>;
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const erc20 = new ethers.Interface([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)'
+  ]);
+  const selectors: Record<string, string> = {
+    name: erc20.getFunction('name')!.selector,
+    symbol: erc20.getFunction('symbol')!.selector,
+    decimals: erc20.getFunction('decimals')!.selector,
+    totalSupply: erc20.getFunction('totalSupply')!.selector
+  };
+
+  const revert = () => Object.assign(new Error('execution reverted'), { error: { code: 3, message: 'execution reverted' } });
+  const token = (id: number, address: string, overrides: any = {}) => ({
+    id, address, metadataStatus: 'pending', metadataAttempts: 0, ...overrides
+  });
+
+  beforeEach(() => {
+    responses = {
+      '0xusdc': {
+        name: coder.encode(['string'], ['USD Coin']),
+        symbol: coder.encode(['string'], ['USDC']),
+        decimals: coder.encode(['uint8'], [6]),
+        totalSupply: coder.encode(['uint256'], [1000000n])
+      },
+      '0xmkr': {
+        name: ethers.encodeBytes32String('Maker'),
+        symbol: ethers.encodeBytes32String('MKR'),
+        decimals: coder.encode(['uint256'], [18]),
+        totalSupply: coder.encode(['uint256'], [5n])
+      }
+    };
+
+    mockBatcher = {
+      call: jest.fn(async (_method: string, params: any[]) => {
+        const [{ to, data }] = params;
+        const field = Object.keys(selectors).find(key => selectors[key] === data)!;
+        const response = responses[to]?.[field] ?? '0x';
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      })
+    };
+
+    mockDb = {
+      $executeRaw: jest.fn(async () => 0),
+      token: {
+        findMany: jest.fn(async () => []),
+        update: jest.fn()
+      }
+    };
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    enricher = new TokenMetadataEnricher(mockDb as PrismaClient, mockBatcher as RpcBatcher, { batchSize: 10 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('decoding', () => {
+    it('should decode ABI strings and bytes32 strings', () => {
+      expect(decodeTokenText(coder.encode(['string'], ['Wrapped Ether']))).toBe('Wrapped Ether');
+      expect(decodeTokenText(ethers.encodeBytes32String('MKR'))).toBe('MKR');
+      expect(decodeTokenText(coder.encode(['string'], ['  \u0000']))).toBeNull();
+    });
+
+    it('should reject decimals that do not fit a uint8', () => {
+      expect(decodeTokenDecimals(coder.encode(['uint256'], [8]))).toBe(8);
+      expect(decodeTokenDecimals(coder.encode(['uint256'], [1000]))).toBeNull();
+      expect(decodeTokenDecimals('0x01')).toBeNull();
+    });
+  });
+
+  describe('enrichPending', () => {
+    it('should replace placeholder data with the values the contract reports', async () => {
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc'), token(2, '0xmkr')]);
+
+      const result = await enricher.enrichPending();
+
+      expect(result).toEqual({ enriched: 2, partial: 0, failed: 0 });
+      expect(mockBatcher.call).toHaveBeenCalledWith('eth_call', [{ to: '0xusdc', data: selectors.name }, 'latest']);
+      expect(mockDb.token.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ name: 'USD Coin', symbol: 'USDC', decimals: 6, totalSupply: '1000000', metadataStatus: 'ok', metadataError: null, metadataAttempts: 1 })
+      });
+      expect(mockDb.token.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: expect.objectContaining({ name: 'Maker', symbol: 'MKR', decimals: 18, totalSupply: '5', metadataStatus: 'ok' })
+      });
+    });
+
+    it('should recompute the normalized transfer amounts with the stored decimals', async () => {
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc')]);
+
+      await enricher.enrichPending();
+
+      const [, decimals, tokenId] = mockDb.$executeRaw.mock.calls[0];
+      expect([decimals, tokenId]).toEqual([6, 1]);
+    });
+
+    it('should mark tokens with reverting functions as partial', async () => {
+      responses['0xusdc'].name = revert();
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc')]);
+
+      const result = await enricher.enrichPending();
+
+      expect(result.partial).toBe(1);
+      expect(mockDb.token.update.mock.calls[0][0].data).toMatchObject({ name: null, symbol: 'USDC', metadataStatus: 'partial' });
+    });
+
+    it('should mark contracts without any ERC-20 function as failed', async () => {
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xnotatoken')]);
+
+      const result = await enricher.enrichPending();
+
+      expect(result.failed).toBe(1);
+      expect(mockDb.token.update.mock.calls[0][0].data).toMatchObject({ metadataStatus: 'failed', metadataAttempts: 1 });
+    });
+
+    it('should record RPC failures without overwriting the token', async () => {
+      responses['0xusdc'].decimals = new Error('socket hang up');
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc', { metadataAttempts: 2 })]);
+
+      const result = await enricher.enrichPending();
+
+      expect(result.failed).toBe(1);
+      const data = mockDb.token.update.mock.calls[0][0].data;
+      expect(data).toMatchObject({ metadataStatus: 'pending', metadataError: 'decimals: socket hang up', metadataAttempts: 3 });
+      expect(data.name).toBeUndefined();
+    });
+
+    it('should give up after the last attempt', async () => {
+      responses['0xusdc'].decimals = new Error('socket hang up');
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc', { metadataAttempts: 4 })]);
+
+      await enricher.enrichPending();
+
+      expect(mockDb.token.update.mock.calls[0][0].data.metadataStatus).toBe('failed');
+    });
+  });
+
+  describe('refreshTotalSupplies', () => {
+    it('should store the current total supply of stale tokens', async () => {
+      mockDb.token.findMany.mockResolvedValue([token(1, '0xusdc', { metadataStatus: 'ok' })]);
+
+      const refreshed = await enricher.refreshTotalSupplies();
+
+      expect(refreshed).toBe(1);
+      expect(mockBatcher.call).toHaveBeenCalledTimes(1);
+      expect(mockDb.token.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { totalSupply: '1000000', totalSupplyUpdatedAt: expect.any(Date) }
+      });
+    });
+  });
+});